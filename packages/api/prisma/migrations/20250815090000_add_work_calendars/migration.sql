@@ -0,0 +1,55 @@
+-- CreateTable
+CREATE TABLE "work_calendars" (
+    "id" TEXT NOT NULL,
+    "name" VARCHAR(100) NOT NULL,
+    "timezone" VARCHAR(64) NOT NULL DEFAULT 'UTC',
+    "weeklyHours" TEXT NOT NULL,
+    "createdAt" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMPTZ NOT NULL,
+
+    CONSTRAINT "work_calendars_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "calendar_holidays" (
+    "id" TEXT NOT NULL,
+    "calendarId" TEXT NOT NULL,
+    "name" VARCHAR(100) NOT NULL,
+    "date" DATE NOT NULL,
+    "createdAt" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "calendar_holidays_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "calendar_blackouts" (
+    "id" TEXT NOT NULL,
+    "calendarId" TEXT NOT NULL,
+    "name" VARCHAR(100),
+    "start" TIMESTAMPTZ NOT NULL,
+    "end" TIMESTAMPTZ NOT NULL,
+    "createdAt" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "calendar_blackouts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "work_calendars_name_key" ON "work_calendars"("name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "calendar_holidays_calendarId_date_key" ON "calendar_holidays"("calendarId", "date");
+
+-- CreateIndex
+CREATE INDEX "calendar_holidays_calendarId_idx" ON "calendar_holidays"("calendarId");
+
+-- CreateIndex
+CREATE INDEX "calendar_blackouts_calendarId_idx" ON "calendar_blackouts"("calendarId");
+
+-- CreateIndex
+CREATE INDEX "calendar_blackouts_start_end_idx" ON "calendar_blackouts"("start", "end");
+
+-- AddForeignKey
+ALTER TABLE "calendar_holidays" ADD CONSTRAINT "calendar_holidays_calendarId_fkey" FOREIGN KEY ("calendarId") REFERENCES "work_calendars"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "calendar_blackouts" ADD CONSTRAINT "calendar_blackouts_calendarId_fkey" FOREIGN KEY ("calendarId") REFERENCES "work_calendars"("id") ON DELETE CASCADE ON UPDATE CASCADE;
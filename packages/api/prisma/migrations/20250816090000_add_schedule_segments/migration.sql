@@ -0,0 +1,27 @@
+-- AlterTable
+ALTER TABLE "tasks" ADD COLUMN "isSplittable" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "minChunkMinutes" INTEGER;
+
+-- CreateTable
+CREATE TABLE "schedule_segments" (
+    "id" TEXT NOT NULL,
+    "taskId" TEXT NOT NULL,
+    "sequence" INTEGER NOT NULL,
+    "start" TIMESTAMPTZ NOT NULL,
+    "end" TIMESTAMPTZ NOT NULL,
+    "createdAt" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "schedule_segments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "schedule_segments_taskId_sequence_key" ON "schedule_segments"("taskId", "sequence");
+
+-- CreateIndex
+CREATE INDEX "schedule_segments_taskId_idx" ON "schedule_segments"("taskId");
+
+-- CreateIndex
+CREATE INDEX "schedule_segments_start_idx" ON "schedule_segments"("start");
+
+-- AddForeignKey
+ALTER TABLE "schedule_segments" ADD CONSTRAINT "schedule_segments_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "tasks"("id") ON DELETE CASCADE ON UPDATE CASCADE;
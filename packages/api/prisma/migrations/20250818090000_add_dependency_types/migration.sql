@@ -0,0 +1,6 @@
+-- CreateEnum
+CREATE TYPE "DependencyType" AS ENUM ('FinishToStart', 'StartToStart', 'FinishToFinish', 'StartToFinish');
+
+-- AlterTable
+ALTER TABLE "dependencies" ADD COLUMN "type" "DependencyType" NOT NULL DEFAULT 'FinishToStart',
+ADD COLUMN "lagMinutes" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "tasks" ADD COLUMN "autoBlocked" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,54 @@
+-- CreateTable
+CREATE TABLE "recurrence_series" (
+    "id" TEXT NOT NULL,
+    "title" VARCHAR(200) NOT NULL,
+    "description" TEXT,
+    "priority" "Priority" NOT NULL DEFAULT 'Medium',
+    "estimatedDurationMinutes" INTEGER NOT NULL DEFAULT 30,
+    "allowParentAutoComplete" BOOLEAN NOT NULL DEFAULT false,
+    "isSplittable" BOOLEAN NOT NULL DEFAULT false,
+    "minChunkMinutes" INTEGER,
+    "recurrencePattern" TEXT NOT NULL,
+    "createdAt" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMPTZ NOT NULL,
+
+    CONSTRAINT "recurrence_series_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "tasks" ADD COLUMN "seriesId" TEXT,
+ADD COLUMN "occurrenceDate" TIMESTAMPTZ;
+
+-- Backfill: one series per existing chain of recurring tasks, keyed by the chain's
+-- original task and templated on its most recent occurrence
+INSERT INTO "recurrence_series" ("id", "title", "description", "priority", "estimatedDurationMinutes", "allowParentAutoComplete", "isSplittable", "minChunkMinutes", "recurrencePattern", "createdAt", "updatedAt")
+SELECT DISTINCT ON (COALESCE("originalTaskId", "id"))
+    COALESCE("originalTaskId", "id"), "title", "description", "priority", "estimatedDurationMinutes", "allowParentAutoComplete", "isSplittable", "minChunkMinutes", "recurrencePattern", "createdAt", CURRENT_TIMESTAMP
+FROM "tasks"
+WHERE "isRecurring" = true AND "recurrencePattern" IS NOT NULL
+ORDER BY COALESCE("originalTaskId", "id"), "createdAt" DESC;
+
+UPDATE "tasks"
+SET "seriesId" = COALESCE("originalTaskId", "id")
+WHERE "isRecurring" = true
+  AND COALESCE("originalTaskId", "id") IN (SELECT "id" FROM "recurrence_series");
+
+-- Duplicated due dates within a chain keep only the first as that slot's occurrence
+UPDATE "tasks" t
+SET "occurrenceDate" = t."dueAt"
+WHERE t."seriesId" IS NOT NULL
+  AND t."id" = (
+    SELECT d."id" FROM "tasks" d
+    WHERE d."seriesId" = t."seriesId" AND d."dueAt" = t."dueAt"
+    ORDER BY d."createdAt"
+    LIMIT 1
+  );
+
+-- CreateIndex
+CREATE INDEX "tasks_seriesId_idx" ON "tasks"("seriesId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "tasks_seriesId_occurrenceDate_key" ON "tasks"("seriesId", "occurrenceDate");
+
+-- AddForeignKey
+ALTER TABLE "tasks" ADD CONSTRAINT "tasks_seriesId_fkey" FOREIGN KEY ("seriesId") REFERENCES "recurrence_series"("id") ON DELETE SET NULL ON UPDATE CASCADE;
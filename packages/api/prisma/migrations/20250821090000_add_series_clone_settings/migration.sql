@@ -0,0 +1,7 @@
+-- CreateEnum
+CREATE TYPE "DependencyCloneMode" AS ENUM ('None', 'Subtree', 'All');
+
+-- AlterTable
+ALTER TABLE "recurrence_series" ADD COLUMN "cloneLabels" BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN "cloneSubtasks" BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN "cloneDependencies" "DependencyCloneMode" NOT NULL DEFAULT 'All';
@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "tasks" ADD COLUMN "completedAt" TIMESTAMPTZ;
+
+-- Backfill from the audit trail, falling back to the last update
+UPDATE "tasks" t
+SET "completedAt" = COALESCE(
+  (
+    SELECT MAX(a."changedAt")
+    FROM "task_audits" a
+    WHERE a."taskId" = t."id" AND a."fieldName" = 'status' AND a."newValue" = 'Completed'
+  ),
+  t."updatedAt"
+)
+WHERE t."status" = 'Completed';
@@ -0,0 +1,32 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "workingHours" TEXT,
+ADD COLUMN "calendarId" TEXT,
+ADD COLUMN "dailyCapacityMinutes" INTEGER;
+
+-- CreateTable
+CREATE TABLE "task_assignees" (
+    "id" TEXT NOT NULL,
+    "taskId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "createdAt" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "task_assignees_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "task_assignees_taskId_userId_key" ON "task_assignees"("taskId", "userId");
+
+-- CreateIndex
+CREATE INDEX "task_assignees_taskId_idx" ON "task_assignees"("taskId");
+
+-- CreateIndex
+CREATE INDEX "task_assignees_userId_idx" ON "task_assignees"("userId");
+
+-- AddForeignKey
+ALTER TABLE "users" ADD CONSTRAINT "users_calendarId_fkey" FOREIGN KEY ("calendarId") REFERENCES "work_calendars"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "task_assignees" ADD CONSTRAINT "task_assignees_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "tasks"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "task_assignees" ADD CONSTRAINT "task_assignees_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
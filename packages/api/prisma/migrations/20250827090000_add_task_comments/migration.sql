@@ -0,0 +1,32 @@
+-- CreateTable
+CREATE TABLE "task_comments" (
+    "id" TEXT NOT NULL,
+    "taskId" TEXT NOT NULL,
+    "parentId" TEXT,
+    "authorId" TEXT,
+    "body" TEXT NOT NULL,
+    "editedAt" TIMESTAMPTZ,
+    "deletedAt" TIMESTAMPTZ,
+    "createdAt" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMPTZ NOT NULL,
+
+    CONSTRAINT "task_comments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "task_comments_taskId_idx" ON "task_comments"("taskId");
+
+-- CreateIndex
+CREATE INDEX "task_comments_parentId_idx" ON "task_comments"("parentId");
+
+-- CreateIndex
+CREATE INDEX "task_comments_authorId_idx" ON "task_comments"("authorId");
+
+-- AddForeignKey
+ALTER TABLE "task_comments" ADD CONSTRAINT "task_comments_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "tasks"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "task_comments" ADD CONSTRAINT "task_comments_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "task_comments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "task_comments" ADD CONSTRAINT "task_comments_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "tasks" ADD COLUMN "deletedAt" TIMESTAMPTZ,
+ADD COLUMN "trashRootId" TEXT,
+ADD COLUMN "trashedLinks" TEXT;
+
+-- CreateIndex
+CREATE INDEX "tasks_deletedAt_idx" ON "tasks"("deletedAt");
+
+-- CreateIndex
+CREATE INDEX "tasks_trashRootId_idx" ON "tasks"("trashRootId");
@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "task_templates" (
+    "id" TEXT NOT NULL,
+    "name" VARCHAR(100) NOT NULL,
+    "description" TEXT,
+    "tasks" TEXT NOT NULL,
+    "ownerId" TEXT,
+    "projectId" TEXT,
+    "createdAt" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMPTZ NOT NULL,
+
+    CONSTRAINT "task_templates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "task_templates_ownerId_idx" ON "task_templates"("ownerId");
+
+-- CreateIndex
+CREATE INDEX "task_templates_projectId_idx" ON "task_templates"("projectId");
+
+-- AddForeignKey
+ALTER TABLE "task_templates" ADD CONSTRAINT "task_templates_ownerId_fkey" FOREIGN KEY ("ownerId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "task_templates" ADD CONSTRAINT "task_templates_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
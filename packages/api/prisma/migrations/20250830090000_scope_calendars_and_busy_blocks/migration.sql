@@ -0,0 +1,56 @@
+-- Calendars and busy blocks belong to a user or a project. Existing ones keep no owner,
+-- so only unscoped callers (the CLI) still see them, except that a calendar picked by
+-- exactly one user becomes theirs.
+
+-- AlterTable
+ALTER TABLE "busy_blocks" ADD COLUMN "ownerId" TEXT,
+ADD COLUMN "projectId" TEXT;
+
+-- AlterTable
+ALTER TABLE "work_calendars" ADD COLUMN "ownerId" TEXT,
+ADD COLUMN "projectId" TEXT;
+
+-- DropIndex
+DROP INDEX "work_calendars_name_key";
+
+-- Hand a calendar to the one user planning with it
+UPDATE "work_calendars" SET "ownerId" = "pickers"."userId"
+FROM (
+    SELECT "calendarId", MIN("id") AS "userId" FROM "users"
+    WHERE "calendarId" IS NOT NULL
+    GROUP BY "calendarId"
+    HAVING COUNT(*) = 1
+) AS "pickers"
+WHERE "work_calendars"."id" = "pickers"."calendarId";
+
+-- Everyone else falls back to their working hours
+UPDATE "users" SET "calendarId" = NULL
+WHERE "calendarId" IS NOT NULL
+  AND NOT EXISTS (
+    SELECT 1 FROM "work_calendars"
+    WHERE "work_calendars"."id" = "users"."calendarId" AND "work_calendars"."ownerId" = "users"."id"
+  );
+
+-- CreateIndex
+CREATE INDEX "busy_blocks_ownerId_idx" ON "busy_blocks"("ownerId");
+
+-- CreateIndex
+CREATE INDEX "busy_blocks_projectId_idx" ON "busy_blocks"("projectId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "work_calendars_ownerId_name_key" ON "work_calendars"("ownerId", "name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "work_calendars_projectId_name_key" ON "work_calendars"("projectId", "name");
+
+-- AddForeignKey
+ALTER TABLE "busy_blocks" ADD CONSTRAINT "busy_blocks_ownerId_fkey" FOREIGN KEY ("ownerId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "busy_blocks" ADD CONSTRAINT "busy_blocks_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "work_calendars" ADD CONSTRAINT "work_calendars_ownerId_fkey" FOREIGN KEY ("ownerId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "work_calendars" ADD CONSTRAINT "work_calendars_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,28 @@
+-- Labels outside projects belong to a user. A shared label used only on one user's personal
+-- tasks becomes theirs; the rest keep no owner, so only unscoped callers (the CLI) still see them.
+
+-- AlterTable
+ALTER TABLE "labels" ADD COLUMN "ownerId" TEXT;
+
+-- Hand a label to the one user whose tasks carry it
+UPDATE "labels" SET "ownerId" = "users"."ownerId"
+FROM (
+    SELECT "task_labels"."labelId", MIN("tasks"."ownerId") AS "ownerId" FROM "task_labels"
+    JOIN "tasks" ON "tasks"."id" = "task_labels"."taskId"
+    GROUP BY "task_labels"."labelId"
+    HAVING COUNT(DISTINCT "tasks"."ownerId") = 1 AND COUNT(*) = COUNT("tasks"."ownerId")
+) AS "users"
+WHERE "labels"."id" = "users"."labelId" AND "labels"."projectId" IS NULL;
+
+-- DropIndex
+DROP INDEX "labels_shared_name_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "labels_ownerId_name_key" ON "labels"("ownerId", "name");
+
+-- CreateIndex
+-- NULL owners are distinct above, so labels with neither an owner nor a project keep their own unique names
+CREATE UNIQUE INDEX "labels_shared_name_key" ON "labels"("name") WHERE "projectId" IS NULL AND "ownerId" IS NULL;
+
+-- AddForeignKey
+ALTER TABLE "labels" ADD CONSTRAINT "labels_ownerId_fkey" FOREIGN KEY ("ownerId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
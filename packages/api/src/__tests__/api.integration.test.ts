@@ -7,6 +7,8 @@ describe('API Integration Tests', () => {
   beforeAll(async () => {
     // Ensure database is connected
     await prisma.$connect();
+    // Route tests act without an account; 'Auth Routes' turns authentication back on
+    process.env.BYPASS_AUTH = 'true';
   });
 
   afterAll(async () => {
@@ -18,7 +20,11 @@ describe('API Integration Tests', () => {
     await prisma.taskLabel.deleteMany();
     await prisma.dependency.deleteMany();
     await prisma.task.deleteMany();
+    await prisma.taskTemplate.deleteMany();
     await prisma.label.deleteMany();
+    await prisma.apiToken.deleteMany();
+    await prisma.project.deleteMany();
+    await prisma.user.deleteMany();
   });
 
   afterEach(async () => {
@@ -26,7 +32,11 @@ describe('API Integration Tests', () => {
     await prisma.taskLabel.deleteMany();
     await prisma.dependency.deleteMany();
     await prisma.task.deleteMany();
+    await prisma.taskTemplate.deleteMany();
     await prisma.label.deleteMany();
+    await prisma.apiToken.deleteMany();
+    await prisma.project.deleteMany();
+    await prisma.user.deleteMany();
   });
 
   describe('Task Routes', () => {
@@ -286,7 +296,7 @@ describe('API Integration Tests', () => {
 
         await request(app)
           .delete(`/api/tasks/${task.id}`)
-          .expect(204);
+          .expect(200);
 
         // Verify task is deleted
         await request(app)
@@ -435,6 +445,231 @@ describe('API Integration Tests', () => {
           .expect(500);
       });
     });
+
+    describe('GET /api/tasks/:id/history', () => {
+      it('should return the audit trail newest first, paginated', async () => {
+        const created = await request(app)
+          .post('/api/tasks')
+          .send({ title: 'Draft' })
+          .expect(201);
+        const id = created.body.data.id;
+
+        await request(app).patch(`/api/tasks/${id}`).send({ title: 'Final', priority: 'High' }).expect(200);
+        await request(app).post(`/api/tasks/${id}/complete`).expect(200);
+
+        const response = await request(app)
+          .get(`/api/tasks/${id}/history?limit=2`)
+          .expect(200);
+
+        expect(response.body.pagination).toMatchObject({ total: 3, totalPages: 2 });
+        expect(response.body.data[0]).toMatchObject({ fieldName: 'status', oldValue: 'Todo', newValue: 'Completed' });
+
+        const titles = await request(app)
+          .get(`/api/tasks/${id}/history?fieldName=title`)
+          .expect(200);
+        expect(titles.body.data).toHaveLength(1);
+      });
+
+      it('should return 404 for non-existent task', async () => {
+        await request(app)
+          .get('/api/tasks/clxxxxxxxxxxxxxxxxxxxxxxx/history')
+          .expect(404);
+      });
+    });
+
+    describe('Trash', () => {
+      it('should move a task to the trash and restore it', async () => {
+        const created = await request(app).post('/api/tasks').send({ title: 'Draft' }).expect(201);
+        const id = created.body.data.id;
+
+        await request(app).delete(`/api/tasks/${id}`).expect(200);
+
+        const trash = await request(app).get('/api/tasks/trash').expect(200);
+        expect(trash.body.data).toMatchObject([{ id, subtreeCount: 0 }]);
+        expect(trash.body.pagination).toMatchObject({ total: 1 });
+
+        const restored = await request(app).post(`/api/tasks/${id}/restore`).expect(200);
+        expect(restored.body.data.task).toMatchObject({ id, deletedAt: null });
+
+        await request(app).get(`/api/tasks/${id}`).expect(200);
+        await request(app).post(`/api/tasks/${id}/restore`).expect(404);
+      });
+
+      it('should delete a task with children only with a children option', async () => {
+        const parent = await request(app).post('/api/tasks').send({ title: 'Parent' }).expect(201);
+        const id = parent.body.data.id;
+        const child = await request(app).post(`/api/tasks/${id}/subtasks`).send({ title: 'Child' }).expect(201);
+
+        const refused = await request(app).delete(`/api/tasks/${id}`).expect(409);
+        expect(refused.body.error).toMatchObject({ code: 'HAS_CHILDREN', details: { childIds: [child.body.data.id] } });
+
+        const deleted = await request(app).delete(`/api/tasks/${id}?children=cascade`).expect(200);
+        expect(deleted.body.data).toMatchObject({
+          deletedTaskIds: [id, child.body.data.id],
+          movedTaskIds: [],
+          severedDependencies: [],
+        });
+
+        const tasks = await request(app).get('/api/tasks').expect(200);
+        expect(tasks.body.data).toHaveLength(0);
+      });
+    });
+
+    describe('POST /api/tasks/:id/revert', () => {
+      it('should show the diff in a dry run and then revert', async () => {
+        const created = await request(app)
+          .post('/api/tasks')
+          .send({ title: 'Draft', priority: 'Low' })
+          .expect(201);
+        const id = created.body.data.id;
+
+        await request(app).patch(`/api/tasks/${id}`).send({ title: 'Final', priority: 'High' }).expect(200);
+        const history = await request(app).get(`/api/tasks/${id}/history`).expect(200);
+        const at = created.body.data.createdAt;
+
+        const preview = await request(app)
+          .post(`/api/tasks/${id}/revert`)
+          .send({ at, dryRun: true })
+          .expect(200);
+        expect(preview.body.data.changes).toHaveLength(history.body.data.length);
+        expect(preview.body.data.task).toBeUndefined();
+
+        const reverted = await request(app)
+          .post(`/api/tasks/${id}/revert`)
+          .send({ at })
+          .expect(200);
+        expect(reverted.body.data.task).toMatchObject({ title: 'Draft', priority: 'Low' });
+      });
+
+      it('should require either an audit entry or a time', async () => {
+        const created = await request(app).post('/api/tasks').send({ title: 'Draft' }).expect(201);
+
+        await request(app)
+          .post(`/api/tasks/${created.body.data.id}/revert`)
+          .send({ dryRun: true })
+          .expect(422);
+      });
+    });
+
+    describe('Clone and move', () => {
+      it('should copy a task with its subtasks', async () => {
+        const parent = await request(app)
+          .post('/api/tasks')
+          .send({ title: 'Sprint', dueAt: '2025-03-03T09:00:00.000Z' })
+          .expect(201);
+        const id = parent.body.data.id;
+        await request(app).post(`/api/tasks/${id}/subtasks`).send({ title: 'Retro' }).expect(201);
+
+        const cloned = await request(app)
+          .post(`/api/tasks/${id}/clone`)
+          .send({ title: 'Next sprint', shiftDays: 14 })
+          .expect(201);
+        expect(cloned.body.data.task).toMatchObject({ title: 'Next sprint', dueAt: '2025-03-17T09:00:00.000Z' });
+        expect(cloned.body.data.task.children).toMatchObject([{ title: 'Retro' }]);
+        expect(Object.keys(cloned.body.data.clonedTaskIds)).toHaveLength(2);
+      });
+
+      it('should move a task but not under its own subtree', async () => {
+        const parent = await request(app).post('/api/tasks').send({ title: 'Parent' }).expect(201);
+        const child = await request(app)
+          .post(`/api/tasks/${parent.body.data.id}/subtasks`)
+          .send({ title: 'Child' })
+          .expect(201);
+
+        const refused = await request(app)
+          .post(`/api/tasks/${parent.body.data.id}/move`)
+          .send({ parentId: child.body.data.id })
+          .expect(422);
+        expect(refused.body.error.code).toBe('DEPENDENCY_CYCLE');
+
+        const moved = await request(app)
+          .post(`/api/tasks/${child.body.data.id}/move`)
+          .send({ parentId: null })
+          .expect(200);
+        expect(moved.body.data.parentId).toBeNull();
+      });
+    });
+
+    describe('Templates', () => {
+      it('should save a task as a template and create tasks from it', async () => {
+        const release = await request(app)
+          .post('/api/tasks')
+          .send({ title: 'Release 2.3', dueAt: '2025-03-14T17:00:00.000Z' })
+          .expect(201);
+        await request(app)
+          .post(`/api/tasks/${release.body.data.id}/subtasks`)
+          .send({ title: 'Tag 2.3', dueAt: '2025-03-13T17:00:00.000Z' })
+          .expect(201);
+
+        const created = await request(app)
+          .post(`/api/tasks/${release.body.data.id}/template`)
+          .send({ name: 'Release checklist', variables: { version: '2.3' } })
+          .expect(201);
+        expect(created.body.data).toMatchObject({ name: 'Release checklist', variables: ['version'] });
+
+        const templates = await request(app).get('/api/tasks/templates').expect(200);
+        expect(templates.body.data).toHaveLength(1);
+
+        const templateId = created.body.data.id;
+        const missing = await request(app).post(`/api/tasks/templates/${templateId}/instantiate`).send({}).expect(409);
+        expect(missing.body.error).toMatchObject({ code: 'MISSING_VARIABLES', details: { missing: ['version'] } });
+
+        const instantiated = await request(app)
+          .post(`/api/tasks/templates/${templateId}/instantiate`)
+          .send({ variables: { version: '2.4' }, anchorDate: '2025-03-28T17:00:00.000Z' })
+          .expect(201);
+        expect(instantiated.body.data.task).toMatchObject({ title: 'Release 2.4', dueAt: '2025-03-28T17:00:00.000Z' });
+        expect(instantiated.body.data.task.children).toMatchObject([
+          { title: 'Tag 2.4', dueAt: '2025-03-27T17:00:00.000Z' },
+        ]);
+
+        await request(app).delete(`/api/tasks/templates/${templateId}`).expect(204);
+        await request(app).delete(`/api/tasks/templates/${templateId}`).expect(404);
+      });
+    });
+
+    describe('Bulk import', () => {
+      it('should import a batch whose items refer to each other', async () => {
+        const tasks = [
+          { title: 'Release', key: 'release' },
+          { title: 'Test', key: 'test', parentKey: 'release' },
+          { title: 'Deploy', parentKey: 'release', dependsOnKeys: ['test'] },
+        ];
+
+        const dryRun = await request(app).post('/api/tasks/bulkImport').send({ tasks, dryRun: true }).expect(200);
+        expect(dryRun.body.data).toMatchObject({ dryRun: true, valid: true });
+        const afterDryRun = await request(app).get('/api/tasks').expect(200);
+        expect(afterDryRun.body.data).toHaveLength(0);
+
+        const imported = await request(app).post('/api/tasks/bulkImport').send({ tasks }).expect(201);
+        const [releaseId, testId, deployId] = imported.body.data.items.map((item: { id: string }) => item.id);
+        const deploy = await request(app).get(`/api/tasks/${deployId}`).expect(200);
+        expect(deploy.body.data.parentId).toBe(releaseId);
+        expect(deploy.body.data.dependencies.map((d: { dependsOnTaskId: string }) => d.dependsOnTaskId)).toEqual([testId]);
+      });
+
+      it('should reject the whole batch with a report of each item', async () => {
+        const response = await request(app)
+          .post('/api/tasks/bulkImport')
+          .send({
+            tasks: [
+              { title: 'Build', key: 'build', dependsOnKeys: ['ship'] },
+              { title: 'Ship', key: 'ship', dependsOnKeys: ['build'] },
+              { title: 'Notes' },
+            ],
+          })
+          .expect(409);
+
+        expect(response.body.error.code).toBe('IMPORT_FAILED');
+        expect(response.body.error.details.items[0].errors[0]).toMatchObject({
+          field: 'dependsOnKeys',
+          code: 'DEPENDENCY_CYCLE',
+        });
+        expect(response.body.error.details.items[2].errors).toEqual([]);
+        const listed = await request(app).get('/api/tasks').expect(200);
+        expect(listed.body.data).toHaveLength(0);
+      });
+    });
   });
 
   describe('Label Routes', () => {
@@ -778,4 +1013,425 @@ describe('API Integration Tests', () => {
       });
     });
   });
+
+  describe('Auth Routes', () => {
+    beforeEach(() => {
+      process.env.BYPASS_AUTH = 'false';
+    });
+
+    afterEach(() => {
+      process.env.BYPASS_AUTH = 'true';
+    });
+
+    it('should reject task requests without a session', async () => {
+      const response = await request(app)
+        .get('/api/tasks')
+        .expect(401);
+
+      expect(response.body.error.code).toBe('UNAUTHORIZED');
+    });
+
+    it('should register, keep the session in a cookie and log out', async () => {
+      const agent = request.agent(app);
+
+      const registered = await agent
+        .post('/api/auth/register')
+        .send({ email: 'ada@example.com', password: 'secret1', name: 'Ada' })
+        .expect(201);
+
+      expect(registered.body.data.user).toMatchObject({ email: 'ada@example.com', name: 'Ada' });
+      expect(registered.headers['set-cookie'][0]).toContain('deano_session=');
+
+      const me = await agent.get('/api/auth/me').expect(200);
+      expect(me.body.data.email).toBe('ada@example.com');
+
+      await agent.post('/api/auth/logout').expect(204);
+      await agent.get('/api/tasks').expect(401);
+    });
+
+    it('should accept a bearer token and reject a wrong password', async () => {
+      await request(app)
+        .post('/api/auth/register')
+        .send({ email: 'ada@example.com', password: 'secret1' })
+        .expect(201);
+
+      await request(app)
+        .post('/api/auth/login')
+        .send({ email: 'ada@example.com', password: 'wrong-one' })
+        .expect(401);
+
+      const login = await request(app)
+        .post('/api/auth/login')
+        .send({ email: 'ada@example.com', password: 'secret1' })
+        .expect(200);
+
+      await request(app)
+        .get('/api/tasks')
+        .set('Authorization', `Bearer ${login.body.data.token}`)
+        .expect(200);
+    });
+
+    it('should enforce API token scopes per route', async () => {
+      const agent = request.agent(app);
+      await agent
+        .post('/api/auth/register')
+        .send({ email: 'ada@example.com', password: 'secret1' })
+        .expect(201);
+
+      const created = await agent
+        .post('/api/auth/tokens')
+        .send({ name: 'Read-only script', scopes: ['tasks:read'] })
+        .expect(201);
+      const secret = created.body.data.secret;
+
+      await request(app)
+        .get('/api/tasks')
+        .set('Authorization', `Bearer ${secret}`)
+        .expect(200);
+
+      const denied = await request(app)
+        .post('/api/tasks')
+        .set('Authorization', `Bearer ${secret}`)
+        .send({ title: 'Not allowed' })
+        .expect(403);
+      expect(denied.body.error.code).toBe('INSUFFICIENT_SCOPE');
+
+      await request(app)
+        .post('/api/schedule/plan')
+        .set('Authorization', `Bearer ${secret}`)
+        .send({ commit: true })
+        .expect(403);
+
+      // Tokens can't mint more tokens
+      await request(app)
+        .post('/api/auth/tokens')
+        .set('Authorization', `Bearer ${secret}`)
+        .send({ name: 'Escalation', scopes: ['labels:admin'] })
+        .expect(403);
+
+      await agent.delete(`/api/auth/tokens/${created.body.data.token.id}`).expect(200);
+      await request(app)
+        .get('/api/tasks')
+        .set('Authorization', `Bearer ${secret}`)
+        .expect(401);
+    });
+
+    it("should share a project's tasks with its members by role", async () => {
+      const ada = (await request(app)
+        .post('/api/auth/register')
+        .send({ email: 'ada@example.com', password: 'secret1' })).body.data.token;
+      const bob = (await request(app)
+        .post('/api/auth/register')
+        .send({ email: 'bob@example.com', password: 'secret1' })).body.data.token;
+      const carol = (await request(app)
+        .post('/api/auth/register')
+        .send({ email: 'carol@example.com', password: 'secret1' })).body.data.token;
+
+      const project = await request(app)
+        .post('/api/projects')
+        .set('Authorization', `Bearer ${ada}`)
+        .send({ name: 'Launch' })
+        .expect(201);
+      const projectId = project.body.data.id;
+      expect(project.body.data.role).toBe('Owner');
+
+      await request(app)
+        .put(`/api/projects/${projectId}/members`)
+        .set('Authorization', `Bearer ${ada}`)
+        .send({ email: 'bob@example.com', role: 'Viewer' })
+        .expect(200);
+
+      const task = await request(app)
+        .post(`/api/projects/${projectId}/tasks`)
+        .set('Authorization', `Bearer ${ada}`)
+        .send({ title: 'Ship it' })
+        .expect(201);
+      expect(task.body.data.projectId).toBe(projectId);
+
+      // Project tasks stay out of personal lists, but members can filter for them with their role
+      const adasOwn = await request(app)
+        .get('/api/tasks')
+        .set('Authorization', `Bearer ${ada}`)
+        .expect(200);
+      expect(adasOwn.body.data).toHaveLength(0);
+
+      const bobsFiltered = await request(app)
+        .get(`/api/tasks?projectId=${projectId}`)
+        .set('Authorization', `Bearer ${bob}`)
+        .expect(200);
+      expect(bobsFiltered.body.data.map((t: { title: string }) => t.title)).toEqual(['Ship it']);
+
+      const bobsCommit = await request(app)
+        .post('/api/schedule/plan')
+        .set('Authorization', `Bearer ${bob}`)
+        .send({ filter: { projectId }, commit: true })
+        .expect(403);
+      expect(bobsCommit.body.error.code).toBe('INSUFFICIENT_ROLE');
+
+      await request(app)
+        .get(`/api/tasks?projectId=${projectId}`)
+        .set('Authorization', `Bearer ${carol}`)
+        .expect(404);
+      await request(app)
+        .post('/api/schedule/plan')
+        .set('Authorization', `Bearer ${carol}`)
+        .send({ filter: { projectId } })
+        .expect(404);
+
+      const bobsView = await request(app)
+        .get(`/api/projects/${projectId}/tasks`)
+        .set('Authorization', `Bearer ${bob}`)
+        .expect(200);
+      expect(bobsView.body.data[0].title).toBe('Ship it');
+
+      // Viewers may only read
+      const denied = await request(app)
+        .post(`/api/projects/${projectId}/tasks`)
+        .set('Authorization', `Bearer ${bob}`)
+        .send({ title: 'Not allowed' })
+        .expect(403);
+      expect(denied.body.error.code).toBe('INSUFFICIENT_ROLE');
+
+      await request(app)
+        .get(`/api/projects/${projectId}/tasks`)
+        .set('Authorization', `Bearer ${carol}`)
+        .expect(404);
+
+    });
+
+    it('should keep labels and their names to each user and project', async () => {
+      const ada = (await request(app)
+        .post('/api/auth/register')
+        .send({ email: 'ada@example.com', password: 'secret1' })).body.data.token;
+      const bob = (await request(app)
+        .post('/api/auth/register')
+        .send({ email: 'bob@example.com', password: 'secret1' })).body.data.token;
+
+      const project = await request(app)
+        .post('/api/projects')
+        .set('Authorization', `Bearer ${ada}`)
+        .send({ name: 'Launch' })
+        .expect(201);
+      const projectId = project.body.data.id;
+
+      const adasLabel = await request(app)
+        .post('/api/labels')
+        .set('Authorization', `Bearer ${ada}`)
+        .send({ name: 'Urgent' })
+        .expect(201);
+      await request(app)
+        .post('/api/labels')
+        .set('Authorization', `Bearer ${bob}`)
+        .send({ name: 'Urgent' })
+        .expect(201);
+      await request(app)
+        .post(`/api/projects/${projectId}/labels`)
+        .set('Authorization', `Bearer ${ada}`)
+        .send({ name: 'Urgent' })
+        .expect(201);
+      await request(app)
+        .post(`/api/projects/${projectId}/labels`)
+        .set('Authorization', `Bearer ${ada}`)
+        .send({ name: 'Urgent' })
+        .expect(400);
+
+      // Your own labels outside the project; only the project's within it
+      const own = await request(app)
+        .get('/api/labels')
+        .set('Authorization', `Bearer ${ada}`)
+        .expect(200);
+      expect(own.body.data).toHaveLength(1);
+
+      const inProject = await request(app)
+        .get(`/api/projects/${projectId}/labels`)
+        .set('Authorization', `Bearer ${ada}`)
+        .expect(200);
+      expect(inProject.body.data).toHaveLength(1);
+
+      // Other users' labels read as not found
+      await request(app)
+        .put(`/api/labels/${adasLabel.body.data.id}`)
+        .set('Authorization', `Bearer ${bob}`)
+        .send({ name: 'Mine now' })
+        .expect(404);
+      await request(app)
+        .delete(`/api/labels/${adasLabel.body.data.id}`)
+        .set('Authorization', `Bearer ${bob}`)
+        .expect(404);
+      await request(app)
+        .post('/api/tasks')
+        .set('Authorization', `Bearer ${bob}`)
+        .send({ title: 'Borrowed label', labelIds: [adasLabel.body.data.id] })
+        .expect(422);
+    });
+
+    it('should plan a project by assignee with their own capacity', async () => {
+      const ada = (await request(app)
+        .post('/api/auth/register')
+        .send({ email: 'ada@example.com', password: 'secret1' })).body.data.token;
+      const bobSession = (await request(app)
+        .post('/api/auth/register')
+        .send({ email: 'bob@example.com', password: 'secret1' })).body.data;
+      const carol = (await request(app)
+        .post('/api/auth/register')
+        .send({ email: 'carol@example.com', password: 'secret1' })).body.data;
+
+      const projectId = (await request(app)
+        .post('/api/projects')
+        .set('Authorization', `Bearer ${ada}`)
+        .send({ name: 'Launch' })
+        .expect(201)).body.data.id;
+      await request(app)
+        .put(`/api/projects/${projectId}/members`)
+        .set('Authorization', `Bearer ${ada}`)
+        .send({ email: 'bob@example.com', role: 'Editor' })
+        .expect(200);
+
+      // Bob only has an hour a day for this
+      const availability = await request(app)
+        .put('/api/auth/me/availability')
+        .set('Authorization', `Bearer ${bobSession.token}`)
+        .send({ dailyCapacityMinutes: 60 })
+        .expect(200);
+      expect(availability.body.data).toEqual({ workingHours: null, calendarId: null, dailyCapacityMinutes: 60 });
+
+      // Only members can be assigned
+      await request(app)
+        .post(`/api/projects/${projectId}/tasks`)
+        .set('Authorization', `Bearer ${ada}`)
+        .send({ title: 'Outsourced', assigneeIds: [carol.user.id] })
+        .expect(422);
+
+      for (const title of ['Write copy', 'Proofread']) {
+        await request(app)
+          .post(`/api/projects/${projectId}/tasks`)
+          .set('Authorization', `Bearer ${ada}`)
+          .send({ title, estimatedDurationMinutes: 60, assigneeIds: [bobSession.user.id] })
+          .expect(201);
+      }
+
+      const plan = await request(app)
+        .post(`/api/projects/${projectId}/schedule/plan`)
+        .set('Authorization', `Bearer ${ada}`)
+        .send({
+          mode: 'byAssignee',
+          workingHours: { start: '09:00', end: '17:00', timezone: 'UTC' },
+          startDate: '2025-06-02T09:00:00Z',
+        })
+        .expect(200);
+
+      expect(plan.body.data.summary.mode).toBe('byAssignee');
+      expect(plan.body.data.assignees).toHaveLength(1);
+      expect(plan.body.data.assignees[0]).toMatchObject({ email: 'bob@example.com', dailyCapacity: 60, plannedMinutes: 120 });
+      expect(plan.body.data.tasks.map((t: { scheduledStart: string }) => t.scheduledStart)).toEqual([
+        '2025-06-02T09:00:00.000Z',
+        '2025-06-03T09:00:00.000Z',
+      ]);
+    });
+
+    it('should let project members discuss a task and only authors change their comments', async () => {
+      const ada = (await request(app)
+        .post('/api/auth/register')
+        .send({ email: 'ada@example.com', password: 'secret1' })).body.data.token;
+      const bob = (await request(app)
+        .post('/api/auth/register')
+        .send({ email: 'bob@example.com', password: 'secret1' })).body.data.token;
+
+      const projectId = (await request(app)
+        .post('/api/projects')
+        .set('Authorization', `Bearer ${ada}`)
+        .send({ name: 'Launch' })).body.data.id;
+      await request(app)
+        .put(`/api/projects/${projectId}/members`)
+        .set('Authorization', `Bearer ${ada}`)
+        .send({ email: 'bob@example.com', role: 'Editor' })
+        .expect(200);
+      const taskId = (await request(app)
+        .post(`/api/projects/${projectId}/tasks`)
+        .set('Authorization', `Bearer ${ada}`)
+        .send({ title: 'Ship it' })).body.data.id;
+
+      const question = await request(app)
+        .post(`/api/projects/${projectId}/tasks/${taskId}/comments`)
+        .set('Authorization', `Bearer ${ada}`)
+        .send({ body: 'Which **release** is this for?' })
+        .expect(201);
+      expect(question.body.data.author.email).toBe('ada@example.com');
+
+      await request(app)
+        .post(`/api/projects/${projectId}/tasks/${taskId}/comments`)
+        .set('Authorization', `Bearer ${bob}`)
+        .send({ body: 'The next one', parentId: question.body.data.id })
+        .expect(201);
+
+      const forbidden = await request(app)
+        .patch(`/api/projects/${projectId}/tasks/${taskId}/comments/${question.body.data.id}`)
+        .set('Authorization', `Bearer ${bob}`)
+        .send({ body: 'Edited by someone else' })
+        .expect(403);
+      expect(forbidden.body.error.code).toBe('NOT_AUTHOR');
+
+      const threads = await request(app)
+        .get(`/api/projects/${projectId}/tasks/${taskId}/comments`)
+        .set('Authorization', `Bearer ${bob}`)
+        .expect(200);
+      expect(threads.body.data).toHaveLength(1);
+      expect(threads.body.data[0].replies[0].body).toBe('The next one');
+
+      await request(app)
+        .patch(`/api/projects/${projectId}/tasks/${taskId}`)
+        .set('Authorization', `Bearer ${ada}`)
+        .send({ status: 'InProgress' })
+        .expect(200);
+
+      const activity = await request(app)
+        .get(`/api/projects/${projectId}/tasks/${taskId}/activity`)
+        .set('Authorization', `Bearer ${ada}`)
+        .expect(200);
+      expect(activity.body.data.map((entry: { type: string }) => entry.type)).toEqual(['comment', 'comment', 'change']);
+
+      // The task isn't visible outside the project, and neither are its comments
+      await request(app)
+        .get(`/api/tasks/${taskId}/comments`)
+        .set('Authorization', `Bearer ${bob}`)
+        .expect(404);
+    });
+
+    it('should keep each user to their own tasks', async () => {
+      const ada = (await request(app)
+        .post('/api/auth/register')
+        .send({ email: 'ada@example.com', password: 'secret1' })).body.data.token;
+      const bob = (await request(app)
+        .post('/api/auth/register')
+        .send({ email: 'bob@example.com', password: 'secret1' })).body.data.token;
+
+      const created = await request(app)
+        .post('/api/tasks')
+        .set('Authorization', `Bearer ${ada}`)
+        .send({ title: "Ada's task" })
+        .expect(201);
+
+      const bobsList = await request(app)
+        .get('/api/tasks')
+        .set('Authorization', `Bearer ${bob}`)
+        .expect(200);
+      expect(bobsList.body.data).toHaveLength(0);
+
+      await request(app)
+        .get(`/api/tasks/${created.body.data.id}`)
+        .set('Authorization', `Bearer ${bob}`)
+        .expect(404);
+
+      await request(app)
+        .post(`/api/tasks/${created.body.data.id}/complete`)
+        .set('Authorization', `Bearer ${bob}`)
+        .expect(404);
+
+      const adasList = await request(app)
+        .get('/api/tasks')
+        .set('Authorization', `Bearer ${ada}`)
+        .expect(200);
+      expect(adasList.body.data).toHaveLength(1);
+    });
+  });
 });
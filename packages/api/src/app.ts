@@ -2,7 +2,6 @@ import express from 'express';
 import cors from 'cors';
 import helmet from 'helmet';
 import compression from 'compression';
-import rateLimit from 'express-rate-limit';
 import swaggerUi from 'swagger-ui-express';
 import swaggerJsdoc from 'swagger-jsdoc';
 import dotenv from 'dotenv';
@@ -10,7 +9,14 @@ import dotenv from 'dotenv';
 import taskRoutes from './routes/taskRoutes';
 import scheduleRoutes from './routes/scheduleRoutes';
 import labelRoutes from './routes/labelRoutes';
+import authRoutes from './routes/authRoutes';
+import projectRoutes from './routes/projectRoutes';
+import { requireAuth } from './lib/auth';
+import { createAuthFailureRateLimiter, createClientRateLimiter } from './lib/rateLimit';
 import { connectDatabase } from './lib/database';
+import { TaskService } from './services/taskService';
+import { RecurrenceMaterializer } from './services/recurrenceMaterializer';
+import { TrashPurger } from './services/trashPurger';
 
 // Load environment variables
 dotenv.config();
@@ -46,6 +52,7 @@ const swaggerOptions = {
         },
       },
     },
+    security: [{ bearerAuth: [] }],
   },
   apis: ['./src/routes/*.ts'], // Path to the API docs
 };
@@ -71,21 +78,9 @@ app.use(cors({
   credentials: true,
 }));
 
-// Rate limiting
-const limiter = rateLimit({
-  windowMs: parseInt(process.env.RATE_LIMIT_WINDOW_MS || '900000'), // 15 minutes default
-  max: parseInt(process.env.RATE_LIMIT_MAX_REQUESTS || '100'), // limit each IP to 100 requests per windowMs default
-  message: {
-    error: {
-      code: 'RATE_LIMIT_EXCEEDED',
-      message: 'Too many requests from this IP, please try again later.',
-    },
-  },
-  standardHeaders: true,
-  legacyHeaders: false,
-});
-
-app.use('/api/', limiter);
+// Rate limiting: failed authentications per IP, then requests per API token, user or IP
+const authFailureLimiter = createAuthFailureRateLimiter();
+const rateLimiter = createClientRateLimiter();
 
 // Body parsing middleware
 app.use(express.json({ limit: '10mb' }));
@@ -115,10 +110,13 @@ app.get('/api/docs.json', (_req, res) => {
   res.send(swaggerSpec);
 });
 
-// API routes
-app.use('/api/tasks', taskRoutes);
-app.use('/api/schedule', scheduleRoutes);
-app.use('/api/labels', labelRoutes);
+// API routes; the per-client limiter needs to know the caller, so it runs after authentication
+app.use('/api', authFailureLimiter);
+app.use('/api/auth', rateLimiter, authRoutes);
+app.use('/api/tasks', requireAuth, rateLimiter, taskRoutes);
+app.use('/api/schedule', requireAuth, rateLimiter, scheduleRoutes);
+app.use('/api/labels', requireAuth, rateLimiter, labelRoutes);
+app.use('/api/projects', requireAuth, rateLimiter, projectRoutes);
 
 // 404 handler
 app.use('*', (req, res) => {
@@ -181,6 +179,16 @@ async function startServer() {
     // Connect to database
     await connectDatabase();
 
+    // Create upcoming occurrences of recurring tasks ahead of time
+    if (process.env.RECURRENCE_MATERIALIZER !== 'false') {
+      new RecurrenceMaterializer(new TaskService()).start();
+    }
+
+    // Remove tasks that have been in the trash past the retention period
+    if (process.env.TRASH_PURGER !== 'false') {
+      new TrashPurger(new TaskService()).start();
+    }
+
     app.listen(PORT, () => {
       console.log(`🚀 Server running on port ${PORT}`);
       console.log(`📚 API Documentation: http://localhost:${PORT}/api/docs`);
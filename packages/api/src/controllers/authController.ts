@@ -0,0 +1,236 @@
+import { Request, Response } from 'express';
+import { ZodError } from 'zod';
+import { AuthService } from '../services/authService';
+import { ApiTokenService } from '../services/apiTokenService';
+import { prisma } from '../lib/database';
+import { clearSessionCookie, setSessionCookie } from '../lib/auth';
+import { availabilitySchema, createApiTokenSchema, loginSchema, registerSchema } from '../lib/validation';
+import { AuthUser, AuthenticationError, BusinessRuleError, ValidationError } from '../types';
+
+const authService = new AuthService(prisma);
+const apiTokenService = new ApiTokenService(prisma);
+
+export class AuthController {
+  async register(req: Request, res: Response) {
+    try {
+      const credentials = registerSchema.parse(req.body);
+      const session = await authService.register(credentials);
+
+      setSessionCookie(res, session);
+      res.status(201).json({
+        data: session,
+      });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        res.status(422).json({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Validation failed',
+            details: error.errors,
+          },
+        });
+      } else if (error instanceof BusinessRuleError) {
+        res.status(409).json({
+          error: {
+            code: error.code,
+            message: error.message,
+          },
+        });
+      } else {
+        console.error('Register error:', error);
+        res.status(500).json({
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: 'Internal server error',
+          },
+        });
+      }
+    }
+  }
+
+  async login(req: Request, res: Response) {
+    try {
+      const credentials = loginSchema.parse(req.body);
+      const session = await authService.login(credentials);
+
+      setSessionCookie(res, session);
+      res.json({
+        data: session,
+      });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        res.status(422).json({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Validation failed',
+            details: error.errors,
+          },
+        });
+      } else if (error instanceof AuthenticationError) {
+        res.status(401).json({
+          error: {
+            code: error.code,
+            message: error.message,
+          },
+        });
+      } else {
+        console.error('Login error:', error);
+        res.status(500).json({
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: 'Internal server error',
+          },
+        });
+      }
+    }
+  }
+
+  // Tokens are stateless, so logging out only drops the web session's cookie
+  async logout(_req: Request, res: Response) {
+    clearSessionCookie(res);
+    res.status(204).send();
+  }
+
+  async me(req: Request, res: Response) {
+    res.json({
+      data: req.user ?? null,
+    });
+  }
+
+  // Account settings; the routes make sure a login session, not a token, is acting
+  async getAvailability(req: Request, res: Response) {
+    try {
+      const availability = await authService.getAvailability((req.user as AuthUser).id);
+
+      res.json({
+        data: availability,
+      });
+    } catch (error) {
+      console.error('Get availability error:', error);
+      res.status(500).json({
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Internal server error',
+        },
+      });
+    }
+  }
+
+  async updateAvailability(req: Request, res: Response) {
+    try {
+      const input = availabilitySchema.parse(req.body);
+      const availability = await authService.updateAvailability((req.user as AuthUser).id, input);
+
+      res.json({
+        data: availability,
+      });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        res.status(422).json({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Validation failed',
+            details: error.errors,
+          },
+        });
+      } else if (error instanceof ValidationError) {
+        res.status(404).json({
+          error: {
+            code: 'NOT_FOUND',
+            message: error.message,
+          },
+        });
+      } else {
+        console.error('Update availability error:', error);
+        res.status(500).json({
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: 'Internal server error',
+          },
+        });
+      }
+    }
+  }
+
+  // API tokens; the routes make sure a login session, not a token, is acting
+  async createToken(req: Request, res: Response) {
+    try {
+      const input = createApiTokenSchema.parse(req.body);
+      const created = await apiTokenService.createToken((req.user as AuthUser).id, input);
+
+      res.status(201).json({
+        data: created,
+      });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        res.status(422).json({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Validation failed',
+            details: error.errors,
+          },
+        });
+      } else if (error instanceof BusinessRuleError) {
+        res.status(409).json({
+          error: {
+            code: error.code,
+            message: error.message,
+          },
+        });
+      } else {
+        console.error('Create API token error:', error);
+        res.status(500).json({
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: 'Internal server error',
+          },
+        });
+      }
+    }
+  }
+
+  async listTokens(req: Request, res: Response) {
+    try {
+      const tokens = await apiTokenService.listTokens((req.user as AuthUser).id);
+
+      res.json({
+        data: tokens,
+      });
+    } catch (error) {
+      console.error('List API tokens error:', error);
+      res.status(500).json({
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Internal server error',
+        },
+      });
+    }
+  }
+
+  async revokeToken(req: Request, res: Response) {
+    try {
+      const token = await apiTokenService.revokeToken((req.user as AuthUser).id, req.params.id);
+
+      res.json({
+        data: token,
+      });
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        res.status(404).json({
+          error: {
+            code: 'NOT_FOUND',
+            message: error.message,
+          },
+        });
+      } else {
+        console.error('Revoke API token error:', error);
+        res.status(500).json({
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: 'Internal server error',
+          },
+        });
+      }
+    }
+  }
+}
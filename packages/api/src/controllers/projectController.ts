@@ -0,0 +1,216 @@
+import { Request, Response } from 'express';
+import { ZodError } from 'zod';
+import { ProjectService } from '../services/projectService';
+import { prisma } from '../lib/database';
+import { createProjectSchema, projectMemberSchema, updateProjectSchema } from '../lib/validation';
+import { BusinessRuleError, ProjectAccess, ValidationError } from '../types';
+
+const projectService = new ProjectService(prisma);
+
+// The routes put requireProjectMember in front of everything under /:projectId
+const accessOf = (req: Request) => req.project as ProjectAccess;
+
+export class ProjectController {
+  async createProject(req: Request, res: Response) {
+    try {
+      const input = createProjectSchema.parse(req.body);
+      const project = await projectService.createProject(req.user?.id, input);
+
+      res.status(201).json({
+        data: project,
+      });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        res.status(422).json({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Validation failed',
+            details: error.errors,
+          },
+        });
+      } else {
+        console.error('Create project error:', error);
+        res.status(500).json({
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: 'Internal server error',
+          },
+        });
+      }
+    }
+  }
+
+  async listProjects(req: Request, res: Response) {
+    try {
+      const projects = await projectService.listProjects(req.user?.id);
+
+      res.json({
+        data: projects,
+      });
+    } catch (error) {
+      console.error('List projects error:', error);
+      res.status(500).json({
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Internal server error',
+        },
+      });
+    }
+  }
+
+  async getProject(req: Request, res: Response) {
+    try {
+      const project = await projectService.getProject(accessOf(req));
+
+      res.json({
+        data: project,
+      });
+    } catch (error) {
+      console.error('Get project error:', error);
+      res.status(500).json({
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Internal server error',
+        },
+      });
+    }
+  }
+
+  async updateProject(req: Request, res: Response) {
+    try {
+      const input = updateProjectSchema.parse(req.body);
+      const project = await projectService.updateProject(accessOf(req), input);
+
+      res.json({
+        data: project,
+      });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        res.status(422).json({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Validation failed',
+            details: error.errors,
+          },
+        });
+      } else {
+        console.error('Update project error:', error);
+        res.status(500).json({
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: 'Internal server error',
+          },
+        });
+      }
+    }
+  }
+
+  async deleteProject(req: Request, res: Response) {
+    try {
+      await projectService.deleteProject(accessOf(req).id);
+
+      res.status(204).send();
+    } catch (error) {
+      console.error('Delete project error:', error);
+      res.status(500).json({
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Internal server error',
+        },
+      });
+    }
+  }
+
+  async listMembers(req: Request, res: Response) {
+    try {
+      const members = await projectService.listMembers(accessOf(req).id);
+
+      res.json({
+        data: members,
+      });
+    } catch (error) {
+      console.error('List project members error:', error);
+      res.status(500).json({
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Internal server error',
+        },
+      });
+    }
+  }
+
+  async setMember(req: Request, res: Response) {
+    try {
+      const input = projectMemberSchema.parse(req.body);
+      const member = await projectService.setMember(accessOf(req).id, input);
+
+      res.json({
+        data: member,
+      });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        res.status(422).json({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Validation failed',
+            details: error.errors,
+          },
+        });
+      } else if (error instanceof ValidationError) {
+        res.status(404).json({
+          error: {
+            code: 'NOT_FOUND',
+            message: error.message,
+          },
+        });
+      } else if (error instanceof BusinessRuleError) {
+        res.status(409).json({
+          error: {
+            code: error.code,
+            message: error.message,
+          },
+        });
+      } else {
+        console.error('Set project member error:', error);
+        res.status(500).json({
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: 'Internal server error',
+          },
+        });
+      }
+    }
+  }
+
+  async removeMember(req: Request, res: Response) {
+    try {
+      await projectService.removeMember(accessOf(req).id, req.params.userId);
+
+      res.status(204).send();
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        res.status(404).json({
+          error: {
+            code: 'NOT_FOUND',
+            message: error.message,
+          },
+        });
+      } else if (error instanceof BusinessRuleError) {
+        res.status(409).json({
+          error: {
+            code: error.code,
+            message: error.message,
+          },
+        });
+      } else {
+        console.error('Remove project member error:', error);
+        res.status(500).json({
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: 'Internal server error',
+          },
+        });
+      }
+    }
+  }
+}
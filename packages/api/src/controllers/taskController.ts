@@ -1,28 +1,54 @@
 import { Request, Response } from 'express';
+import { ZodError } from 'zod';
 import { TaskService } from '../services/taskService';
+import { CommentService } from '../services/commentService';
+import { prisma } from '../lib/database';
+import { resolveProjectFilter } from '../lib/auth';
 import {
   createTaskSchema,
   updateTaskSchema,
+  updateTaskQuerySchema,
+  deleteTaskQuerySchema,
+  trashQuerySchema,
   taskQuerySchema,
   addDependencySchema,
+  updateDependencySchema,
   setDependenciesSchema,
   completeTaskSchema,
+  pinTaskSchema,
+  postponeOccurrenceSchema,
+  seriesSettingsSchema,
+  previewRecurrenceSchema,
+  seriesQuerySchema,
+  historyQuerySchema,
+  revertTaskSchema,
+  cloneTaskSchema,
+  moveTaskSchema,
+  createTemplateSchema,
+  instantiateTemplateSchema,
   scheduleOptionsSchema,
   bulkImportSchema,
   exportQuerySchema,
+  createCommentSchema,
+  updateCommentSchema,
   taskIdParamSchema,
-  dependencyIdParamSchema
+  dependencyIdParamSchema,
+  commentIdParamSchema,
+  templateIdParamSchema
 } from '../lib/validation';
 import { BusinessRuleError, ValidationError, DependencyCycleError } from '../types';
 
-const taskService = new TaskService();
+// Each request works on the logged-in user's tasks, or on its project's under /api/projects/:projectId
+const serviceFor = (req: Request) => new TaskService({ ownerId: req.user?.id, projectId: req.project?.id });
+
+const commentService = new CommentService(prisma);
 
 export class TaskController {
   // Task CRUD operations
   async createTask(req: Request, res: Response) {
     try {
       const validatedData = createTaskSchema.parse(req.body);
-      const task = await taskService.createTask(validatedData);
+      const task = await serviceFor(req).createTask(validatedData);
       
       res.status(201).json({
         data: task,
@@ -52,8 +78,9 @@ export class TaskController {
     try {
       const { id } = taskIdParamSchema.parse(req.params);
       const validatedData = updateTaskSchema.parse(req.body);
+      const { force, scope } = updateTaskQuerySchema.parse(req.query);
       
-      const task = await taskService.updateTask(id, validatedData);
+      const task = await serviceFor(req).updateTask(id, validatedData, { force, scope });
       
       res.json({
         data: task,
@@ -97,9 +124,10 @@ export class TaskController {
   async deleteTask(req: Request, res: Response) {
     try {
       const { id } = taskIdParamSchema.parse(req.params);
-      await taskService.deleteTask(id);
-      
-      res.status(204).send();
+      const options = deleteTaskQuerySchema.parse(req.query);
+      const result = await serviceFor(req).deleteTask(id, options);
+
+      res.json({ data: result });
     } catch (error) {
       if (error instanceof ValidationError) {
         res.status(404).json({
@@ -131,7 +159,7 @@ export class TaskController {
   async getTask(req: Request, res: Response) {
     try {
       const { id } = taskIdParamSchema.parse(req.params);
-      const task = await taskService.getTask(id);
+      const task = await serviceFor(req).getTask(id);
       
       res.json({
         data: task,
@@ -159,7 +187,10 @@ export class TaskController {
   async listTasks(req: Request, res: Response) {
     try {
       const validatedQuery = taskQuerySchema.parse(req.query);
-      const result = await taskService.listTasks(validatedQuery);
+      if (!(await resolveProjectFilter(req, res, validatedQuery.projectId))) {
+        return;
+      }
+      const result = await serviceFor(req).listTasks(validatedQuery);
       
       res.json({
         data: result.tasks,
@@ -171,13 +202,23 @@ export class TaskController {
         },
       });
     } catch (error) {
-      console.error('List tasks error:', error);
-      res.status(500).json({
-        error: {
-          code: 'INTERNAL_ERROR',
-          message: 'Internal server error',
-        },
-      });
+      if (error instanceof ZodError) {
+        res.status(422).json({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Validation failed',
+            details: error.errors,
+          },
+        });
+      } else {
+        console.error('List tasks error:', error);
+        res.status(500).json({
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: 'Internal server error',
+          },
+        });
+      }
     }
   }
 
@@ -193,7 +234,7 @@ export class TaskController {
         parentId: id,
       };
       
-      const task = await taskService.addSubtask(id, subtaskData);
+      const task = await serviceFor(req).addSubtask(id, subtaskData);
       
       res.status(201).json({
         data: task,
@@ -222,9 +263,9 @@ export class TaskController {
   async addDependency(req: Request, res: Response) {
     try {
       const { id } = taskIdParamSchema.parse(req.params);
-      const { dependsOnTaskId } = addDependencySchema.parse(req.body);
+      const { dependsOnTaskId, ...options } = addDependencySchema.parse(req.body);
       
-      await taskService.addDependency(id, dependsOnTaskId);
+      await serviceFor(req).addDependency(id, dependsOnTaskId, options);
       
       res.status(201).json({
         data: { message: 'Dependency added successfully' },
@@ -268,7 +309,7 @@ export class TaskController {
   async removeDependency(req: Request, res: Response) {
     try {
       const { id, dependsOnTaskId } = dependencyIdParamSchema.parse(req.params);
-      await taskService.removeDependency(id, dependsOnTaskId);
+      await serviceFor(req).removeDependency(id, dependsOnTaskId);
       
       res.status(204).send();
     } catch (error) {
@@ -282,12 +323,50 @@ export class TaskController {
     }
   }
 
+  async updateDependency(req: Request, res: Response) {
+    try {
+      const { id, dependsOnTaskId } = dependencyIdParamSchema.parse(req.params);
+      const options = updateDependencySchema.parse(req.body);
+
+      await serviceFor(req).updateDependency(id, dependsOnTaskId, options);
+
+      res.json({
+        data: { message: 'Dependency updated successfully' },
+      });
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        res.status(404).json({
+          error: {
+            code: 'NOT_FOUND',
+            message: error.message,
+          },
+        });
+      } else if (error instanceof BusinessRuleError) {
+        res.status(409).json({
+          error: {
+            code: error.code,
+            message: error.message,
+            details: error.details,
+          },
+        });
+      } else {
+        console.error('Update dependency error:', error);
+        res.status(500).json({
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: 'Internal server error',
+          },
+        });
+      }
+    }
+  }
+
   async setDependencies(req: Request, res: Response) {
     try {
       const { id } = taskIdParamSchema.parse(req.params);
       const { dependsOnTaskIds } = setDependenciesSchema.parse(req.body);
       
-      await taskService.setDependencies(id, dependsOnTaskIds);
+      await serviceFor(req).setDependencies(id, dependsOnTaskIds);
       
       res.json({
         data: { message: 'Dependencies updated successfully' },
@@ -334,7 +413,7 @@ export class TaskController {
       const { id } = taskIdParamSchema.parse(req.params);
       const validatedData = completeTaskSchema.parse(req.body);
       
-      const task = await taskService.completeTask(id, validatedData);
+      const task = await serviceFor(req).completeTask(id, validatedData);
       
       res.json({
         data: task,
@@ -370,7 +449,7 @@ export class TaskController {
   async reopenTask(req: Request, res: Response) {
     try {
       const { id } = taskIdParamSchema.parse(req.params);
-      const task = await taskService.reopenTask(id);
+      const task = await serviceFor(req).reopenTask(id);
       
       res.json({
         data: task,
@@ -403,26 +482,35 @@ export class TaskController {
     }
   }
 
-  // Scheduling operations
-  async planSchedule(req: Request, res: Response) {
+  // Pinning operations
+  async pinTask(req: Request, res: Response) {
     try {
-      const validatedData = scheduleOptionsSchema.parse(req.body);
-      const schedule = await taskService.planSchedule(validatedData);
-      
+      const { id } = taskIdParamSchema.parse(req.params);
+      const validatedData = pinTaskSchema.parse(req.body);
+
+      const task = await serviceFor(req).pinTask(id, validatedData);
+
       res.json({
-        data: schedule,
+        data: task,
       });
     } catch (error) {
-      if (error instanceof DependencyCycleError) {
-        res.status(422).json({
+      if (error instanceof ValidationError) {
+        res.status(404).json({
           error: {
-            code: 'DEPENDENCY_CYCLE',
+            code: 'NOT_FOUND',
             message: error.message,
-            details: { cycle: error.cycle },
+          },
+        });
+      } else if (error instanceof BusinessRuleError) {
+        res.status(409).json({
+          error: {
+            code: error.code,
+            message: error.message,
+            details: error.details,
           },
         });
       } else {
-        console.error('Plan schedule error:', error);
+        console.error('Pin task error:', error);
         res.status(500).json({
           error: {
             code: 'INTERNAL_ERROR',
@@ -433,30 +521,921 @@ export class TaskController {
     }
   }
 
-  // Bulk operations
-  async bulkImport(req: Request, res: Response) {
+  async unpinTask(req: Request, res: Response) {
     try {
-      const validatedData = bulkImportSchema.parse(req.body);
-      const tasks = await taskService.bulkImport(validatedData.tasks);
-      
+      const { id } = taskIdParamSchema.parse(req.params);
+      const task = await serviceFor(req).unpinTask(id);
+
+      res.json({
+        data: task,
+      });
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        res.status(404).json({
+          error: {
+            code: 'NOT_FOUND',
+            message: error.message,
+          },
+        });
+      } else if (error instanceof BusinessRuleError) {
+        res.status(409).json({
+          error: {
+            code: error.code,
+            message: error.message,
+            details: error.details,
+          },
+        });
+      } else {
+        console.error('Unpin task error:', error);
+        res.status(500).json({
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: 'Internal server error',
+          },
+        });
+      }
+    }
+  }
+
+  // Comments and activity; each first checks the task is visible to the caller
+  async listComments(req: Request, res: Response) {
+    try {
+      const { id } = taskIdParamSchema.parse(req.params);
+      await serviceFor(req).getTask(id);
+      const comments = await commentService.listComments(id);
+
+      res.json({
+        data: comments,
+      });
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        res.status(404).json({
+          error: {
+            code: 'NOT_FOUND',
+            message: error.message,
+          },
+        });
+      } else {
+        console.error('List comments error:', error);
+        res.status(500).json({
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: 'Internal server error',
+          },
+        });
+      }
+    }
+  }
+
+  async addComment(req: Request, res: Response) {
+    try {
+      const { id } = taskIdParamSchema.parse(req.params);
+      const input = createCommentSchema.parse(req.body);
+      await serviceFor(req).getTask(id);
+      const comment = await commentService.addComment(id, req.user?.id, input);
+
       res.status(201).json({
-        data: tasks,
+        data: comment,
       });
     } catch (error) {
-      console.error('Bulk import error:', error);
-      res.status(500).json({
-        error: {
-          code: 'INTERNAL_ERROR',
-          message: 'Internal server error',
-        },
+      if (error instanceof ZodError) {
+        res.status(422).json({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Validation failed',
+            details: error.errors,
+          },
+        });
+      } else if (error instanceof ValidationError) {
+        res.status(404).json({
+          error: {
+            code: 'NOT_FOUND',
+            message: error.message,
+          },
+        });
+      } else {
+        console.error('Add comment error:', error);
+        res.status(500).json({
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: 'Internal server error',
+          },
+        });
+      }
+    }
+  }
+
+  async updateComment(req: Request, res: Response) {
+    try {
+      const { id, commentId } = commentIdParamSchema.parse(req.params);
+      const input = updateCommentSchema.parse(req.body);
+      await serviceFor(req).getTask(id);
+      const comment = await commentService.updateComment(id, commentId, req.user?.id, input);
+
+      res.json({
+        data: comment,
+      });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        res.status(422).json({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Validation failed',
+            details: error.errors,
+          },
+        });
+      } else if (error instanceof ValidationError) {
+        res.status(404).json({
+          error: {
+            code: 'NOT_FOUND',
+            message: error.message,
+          },
+        });
+      } else if (error instanceof BusinessRuleError) {
+        res.status(error.code === 'NOT_AUTHOR' ? 403 : 409).json({
+          error: {
+            code: error.code,
+            message: error.message,
+          },
+        });
+      } else {
+        console.error('Update comment error:', error);
+        res.status(500).json({
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: 'Internal server error',
+          },
+        });
+      }
+    }
+  }
+
+  async deleteComment(req: Request, res: Response) {
+    try {
+      const { id, commentId } = commentIdParamSchema.parse(req.params);
+      await serviceFor(req).getTask(id);
+      await commentService.deleteComment(id, commentId, req.user?.id);
+
+      res.status(204).send();
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        res.status(404).json({
+          error: {
+            code: 'NOT_FOUND',
+            message: error.message,
+          },
+        });
+      } else if (error instanceof BusinessRuleError) {
+        res.status(error.code === 'NOT_AUTHOR' ? 403 : 409).json({
+          error: {
+            code: error.code,
+            message: error.message,
+          },
+        });
+      } else {
+        console.error('Delete comment error:', error);
+        res.status(500).json({
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: 'Internal server error',
+          },
+        });
+      }
+    }
+  }
+
+  async getActivity(req: Request, res: Response) {
+    try {
+      const { id } = taskIdParamSchema.parse(req.params);
+      await serviceFor(req).getTask(id);
+      const activity = await commentService.getActivity(id);
+
+      res.json({
+        data: activity,
       });
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        res.status(404).json({
+          error: {
+            code: 'NOT_FOUND',
+            message: error.message,
+          },
+        });
+      } else {
+        console.error('Get task activity error:', error);
+        res.status(500).json({
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: 'Internal server error',
+          },
+        });
+      }
+    }
+  }
+
+  async getHistory(req: Request, res: Response) {
+    try {
+      const { id } = taskIdParamSchema.parse(req.params);
+      const filter = historyQuerySchema.parse(req.query);
+      const history = await serviceFor(req).getHistory(id, filter);
+
+      res.json({
+        data: history.entries,
+        pagination: {
+          page: history.page,
+          limit: history.limit,
+          total: history.total,
+          totalPages: history.totalPages,
+        },
+      });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        res.status(422).json({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Validation failed',
+            details: error.errors,
+          },
+        });
+      } else if (error instanceof ValidationError) {
+        res.status(404).json({
+          error: {
+            code: 'NOT_FOUND',
+            message: error.message,
+          },
+        });
+      } else {
+        console.error('Get task history error:', error);
+        res.status(500).json({
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: 'Internal server error',
+          },
+        });
+      }
+    }
+  }
+
+  async listTrash(req: Request, res: Response) {
+    try {
+      const filter = trashQuerySchema.parse(req.query);
+      const trash = await serviceFor(req).listTrash(filter);
+
+      res.json({
+        data: trash.entries,
+        pagination: {
+          page: trash.page,
+          limit: trash.limit,
+          total: trash.total,
+          totalPages: trash.totalPages,
+        },
+      });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        res.status(422).json({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Validation failed',
+            details: error.errors,
+          },
+        });
+      } else {
+        console.error('List trash error:', error);
+        res.status(500).json({
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: 'Internal server error',
+          },
+        });
+      }
+    }
+  }
+
+  async restoreTask(req: Request, res: Response) {
+    try {
+      const { id } = taskIdParamSchema.parse(req.params);
+      const result = await serviceFor(req).restoreTask(id);
+
+      res.json({ data: result });
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        res.status(404).json({
+          error: {
+            code: 'NOT_FOUND',
+            message: error.message,
+          },
+        });
+      } else if (error instanceof BusinessRuleError) {
+        res.status(409).json({
+          error: {
+            code: error.code,
+            message: error.message,
+            details: error.details,
+          },
+        });
+      } else {
+        console.error('Restore task error:', error);
+        res.status(500).json({
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: 'Internal server error',
+          },
+        });
+      }
+    }
+  }
+
+  async revertTask(req: Request, res: Response) {
+    try {
+      const { id } = taskIdParamSchema.parse(req.params);
+      const input = revertTaskSchema.parse(req.body);
+      const result = await serviceFor(req).revertTask(id, input);
+
+      res.json({ data: result });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        res.status(422).json({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Validation failed',
+            details: error.errors,
+          },
+        });
+      } else if (error instanceof ValidationError) {
+        res.status(404).json({
+          error: {
+            code: 'NOT_FOUND',
+            message: error.message,
+          },
+        });
+      } else if (error instanceof BusinessRuleError) {
+        res.status(409).json({
+          error: {
+            code: error.code,
+            message: error.message,
+            details: error.details,
+          },
+        });
+      } else if (error instanceof DependencyCycleError) {
+        res.status(422).json({
+          error: {
+            code: 'DEPENDENCY_CYCLE',
+            message: error.message,
+            details: { cycle: error.cycle },
+          },
+        });
+      } else {
+        console.error('Revert task error:', error);
+        res.status(500).json({
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: 'Internal server error',
+          },
+        });
+      }
+    }
+  }
+
+  async cloneTask(req: Request, res: Response) {
+    try {
+      const { id } = taskIdParamSchema.parse(req.params);
+      const input = cloneTaskSchema.parse(req.body);
+      const result = await serviceFor(req).cloneTask(id, input);
+
+      res.status(201).json({ data: result });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        res.status(422).json({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Validation failed',
+            details: error.errors,
+          },
+        });
+      } else if (error instanceof ValidationError) {
+        res.status(404).json({
+          error: {
+            code: 'NOT_FOUND',
+            message: error.message,
+          },
+        });
+      } else {
+        console.error('Clone task error:', error);
+        res.status(500).json({
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: 'Internal server error',
+          },
+        });
+      }
+    }
+  }
+
+  async moveTask(req: Request, res: Response) {
+    try {
+      const { id } = taskIdParamSchema.parse(req.params);
+      const input = moveTaskSchema.parse(req.body);
+      const result = await serviceFor(req).moveTask(id, input);
+
+      res.json({ data: result });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        res.status(422).json({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Validation failed',
+            details: error.errors,
+          },
+        });
+      } else if (error instanceof ValidationError) {
+        res.status(404).json({
+          error: {
+            code: 'NOT_FOUND',
+            message: error.message,
+          },
+        });
+      } else if (error instanceof BusinessRuleError) {
+        res.status(409).json({
+          error: {
+            code: error.code,
+            message: error.message,
+            details: error.details,
+          },
+        });
+      } else if (error instanceof DependencyCycleError) {
+        res.status(422).json({
+          error: {
+            code: 'DEPENDENCY_CYCLE',
+            message: error.message,
+            details: { cycle: error.cycle },
+          },
+        });
+      } else {
+        console.error('Move task error:', error);
+        res.status(500).json({
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: 'Internal server error',
+          },
+        });
+      }
+    }
+  }
+
+  // Template operations
+  async listTemplates(req: Request, res: Response) {
+    try {
+      const templates = await serviceFor(req).listTemplates();
+
+      res.json({
+        data: templates,
+      });
+    } catch (error) {
+      console.error('List templates error:', error);
+      res.status(500).json({
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Internal server error',
+        },
+      });
+    }
+  }
+
+  async createTemplate(req: Request, res: Response) {
+    try {
+      const { id } = taskIdParamSchema.parse(req.params);
+      const input = createTemplateSchema.parse(req.body);
+      const template = await serviceFor(req).createTemplate(id, input);
+
+      res.status(201).json({ data: template });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        res.status(422).json({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Validation failed',
+            details: error.errors,
+          },
+        });
+      } else if (error instanceof ValidationError) {
+        res.status(404).json({
+          error: {
+            code: 'NOT_FOUND',
+            message: error.message,
+          },
+        });
+      } else {
+        console.error('Create template error:', error);
+        res.status(500).json({
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: 'Internal server error',
+          },
+        });
+      }
+    }
+  }
+
+  async instantiateTemplate(req: Request, res: Response) {
+    try {
+      const { templateId } = templateIdParamSchema.parse(req.params);
+      const input = instantiateTemplateSchema.parse(req.body);
+      const result = await serviceFor(req).instantiateTemplate(templateId, input);
+
+      res.status(201).json({ data: result });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        res.status(422).json({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Validation failed',
+            details: error.errors,
+          },
+        });
+      } else if (error instanceof ValidationError) {
+        res.status(404).json({
+          error: {
+            code: 'NOT_FOUND',
+            message: error.message,
+          },
+        });
+      } else if (error instanceof BusinessRuleError) {
+        res.status(409).json({
+          error: {
+            code: error.code,
+            message: error.message,
+            details: error.details,
+          },
+        });
+      } else {
+        console.error('Instantiate template error:', error);
+        res.status(500).json({
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: 'Internal server error',
+          },
+        });
+      }
+    }
+  }
+
+  async deleteTemplate(req: Request, res: Response) {
+    try {
+      const { templateId } = templateIdParamSchema.parse(req.params);
+      await serviceFor(req).deleteTemplate(templateId);
+
+      res.status(204).send();
+    } catch (error) {
+      if (error instanceof ZodError) {
+        res.status(422).json({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Validation failed',
+            details: error.errors,
+          },
+        });
+      } else if (error instanceof ValidationError) {
+        res.status(404).json({
+          error: {
+            code: 'NOT_FOUND',
+            message: error.message,
+          },
+        });
+      } else {
+        console.error('Delete template error:', error);
+        res.status(500).json({
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: 'Internal server error',
+          },
+        });
+      }
+    }
+  }
+
+  // Recurrence series
+  async getSeries(req: Request, res: Response) {
+    try {
+      const { id } = taskIdParamSchema.parse(req.params);
+      const { upcoming } = seriesQuerySchema.parse(req.query);
+      const series = await serviceFor(req).getSeries(id, upcoming);
+
+      res.json({
+        data: series,
+      });
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        res.status(404).json({
+          error: {
+            code: 'NOT_FOUND',
+            message: error.message,
+          },
+        });
+      } else if (error instanceof BusinessRuleError) {
+        res.status(409).json({
+          error: {
+            code: error.code,
+            message: error.message,
+            details: error.details,
+          },
+        });
+      } else {
+        console.error('Get series error:', error);
+        res.status(500).json({
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: 'Internal server error',
+          },
+        });
+      }
+    }
+  }
+
+  async updateSeriesSettings(req: Request, res: Response) {
+    try {
+      const { id } = taskIdParamSchema.parse(req.params);
+      const settings = seriesSettingsSchema.parse(req.body);
+      const series = await serviceFor(req).updateSeriesSettings(id, settings);
+
+      res.json({
+        data: series,
+      });
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        res.status(404).json({
+          error: {
+            code: 'NOT_FOUND',
+            message: error.message,
+          },
+        });
+      } else if (error instanceof BusinessRuleError) {
+        res.status(409).json({
+          error: {
+            code: error.code,
+            message: error.message,
+            details: error.details,
+          },
+        });
+      } else {
+        console.error('Update series settings error:', error);
+        res.status(500).json({
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: 'Internal server error',
+          },
+        });
+      }
+    }
+  }
+
+  async skipOccurrence(req: Request, res: Response) {
+    try {
+      const { id } = taskIdParamSchema.parse(req.params);
+      const result = await serviceFor(req).skipOccurrence(id);
+
+      res.json({
+        data: result,
+      });
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        res.status(404).json({
+          error: {
+            code: 'NOT_FOUND',
+            message: error.message,
+          },
+        });
+      } else if (error instanceof BusinessRuleError) {
+        res.status(409).json({
+          error: {
+            code: error.code,
+            message: error.message,
+            details: error.details,
+          },
+        });
+      } else {
+        console.error('Skip occurrence error:', error);
+        res.status(500).json({
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: 'Internal server error',
+          },
+        });
+      }
+    }
+  }
+
+  async postponeOccurrence(req: Request, res: Response) {
+    try {
+      const { id } = taskIdParamSchema.parse(req.params);
+      const { dueAt } = postponeOccurrenceSchema.parse(req.body);
+      const task = await serviceFor(req).postponeOccurrence(id, dueAt);
+
+      res.json({
+        data: task,
+      });
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        res.status(404).json({
+          error: {
+            code: 'NOT_FOUND',
+            message: error.message,
+          },
+        });
+      } else if (error instanceof BusinessRuleError) {
+        res.status(409).json({
+          error: {
+            code: error.code,
+            message: error.message,
+            details: error.details,
+          },
+        });
+      } else {
+        console.error('Postpone occurrence error:', error);
+        res.status(500).json({
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: 'Internal server error',
+          },
+        });
+      }
+    }
+  }
+
+  // Scheduling operations
+  async planSchedule(req: Request, res: Response) {
+    try {
+      const validatedData = scheduleOptionsSchema.parse(req.body);
+      const schedule = await serviceFor(req).planSchedule(validatedData);
+      
+      res.json({
+        data: schedule,
+      });
+    } catch (error) {
+      if (error instanceof DependencyCycleError) {
+        res.status(422).json({
+          error: {
+            code: 'DEPENDENCY_CYCLE',
+            message: error.message,
+            details: { cycle: error.cycle },
+          },
+        });
+      } else if (error instanceof ValidationError) {
+        res.status(422).json({
+          error: {
+            code: error.code,
+            message: error.message,
+            details: error.details,
+          },
+        });
+      } else {
+        console.error('Plan schedule error:', error);
+        res.status(500).json({
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: 'Internal server error',
+          },
+        });
+      }
+    }
+  }
+
+  // Critical path analysis
+  async previewRecurrence(req: Request, res: Response) {
+    try {
+      const { recurrencePattern, count, after } = previewRecurrenceSchema.parse(req.body);
+      const preview = await serviceFor(req).previewRecurrence(recurrencePattern, count, after);
+
+      res.json({
+        data: preview,
+      });
+    } catch (error) {
+      // The rule builder shows why a rule was rejected
+      if (error instanceof ZodError) {
+        res.status(422).json({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Validation failed',
+            details: error.errors,
+          },
+        });
+      } else {
+        console.error('Preview recurrence error:', error);
+        res.status(500).json({
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: 'Internal server error',
+          },
+        });
+      }
+    }
+  }
+
+  async getCriticalPath(req: Request, res: Response) {
+    try {
+      const analysis = await serviceFor(req).getCriticalPath();
+
+      res.json({
+        data: analysis,
+      });
+    } catch (error) {
+      if (error instanceof DependencyCycleError) {
+        res.status(422).json({
+          error: {
+            code: 'DEPENDENCY_CYCLE',
+            message: error.message,
+            details: { cycle: error.cycle },
+          },
+        });
+      } else {
+        console.error('Get critical path error:', error);
+        res.status(500).json({
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: 'Internal server error',
+          },
+        });
+      }
+    }
+  }
+
+  async getTaskCriticalPath(req: Request, res: Response) {
+    try {
+      const { id } = taskIdParamSchema.parse(req.params);
+      const analysis = await serviceFor(req).getCriticalPath(id);
+
+      res.json({
+        data: analysis,
+      });
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        res.status(404).json({
+          error: {
+            code: 'NOT_FOUND',
+            message: error.message,
+          },
+        });
+      } else if (error instanceof DependencyCycleError) {
+        res.status(422).json({
+          error: {
+            code: 'DEPENDENCY_CYCLE',
+            message: error.message,
+            details: { cycle: error.cycle },
+          },
+        });
+      } else {
+        console.error('Get task critical path error:', error);
+        res.status(500).json({
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: 'Internal server error',
+          },
+        });
+      }
+    }
+  }
+
+  // Bulk operations
+  async bulkImport(req: Request, res: Response) {
+    try {
+      const validatedData = bulkImportSchema.parse(req.body);
+      const result = await serviceFor(req).bulkImport(validatedData.tasks, { dryRun: validatedData.dryRun });
+
+      res.status(result.dryRun ? 200 : 201).json({
+        data: result,
+      });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        res.status(422).json({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Validation failed',
+            details: error.errors,
+          },
+        });
+      } else if (error instanceof BusinessRuleError) {
+        res.status(409).json({
+          error: {
+            code: error.code,
+            message: error.message,
+            details: error.details,
+          },
+        });
+      } else {
+        console.error('Bulk import error:', error);
+        res.status(500).json({
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: 'Internal server error',
+          },
+        });
+      }
     }
   }
 
   async exportTasks(req: Request, res: Response) {
     try {
       const validatedData = exportQuerySchema.parse(req.query);
-      const data = await taskService.exportTasks(validatedData.format);
+      const data = await serviceFor(req).exportTasks(validatedData.format);
       
       if (validatedData.format === 'csv') {
         res.setHeader('Content-Type', 'text/csv');
@@ -484,7 +1463,7 @@ export class TaskController {
       const targetDate = date ? new Date(date as string) : new Date();
       const daysToLookBack = days ? parseInt(days as string) : 1;
       
-      const analytics = await taskService.getTaskAnalytics(targetDate, daysToLookBack);
+      const analytics = await serviceFor(req).getTaskAnalytics(targetDate, daysToLookBack);
       
       res.json({
         data: analytics,
@@ -511,7 +1490,7 @@ export class TaskController {
         quickWinCapMins: quickWinCapMins || 30,
       };
       
-      const result = await taskService.orderTasks(config);
+      const result = await serviceFor(req).orderTasks(config);
       
       // Convert Map to object for JSON serialization
       const taskScoresObj: Record<string, { score: number; urgency: number; priority: number; blocking: number; quickWin: number }> = {};
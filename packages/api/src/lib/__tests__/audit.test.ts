@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import { auditSnapshot, diffRelation, diffTaskFields, restoreFromAudit, toAuditValue } from '../audit';
+
+describe('audit', () => {
+  describe('toAuditValue', () => {
+    it('should store values as text that reads back unambiguously', () => {
+      expect(toAuditValue(new Date('2025-06-02T09:00:00Z'))).toBe('2025-06-02T09:00:00.000Z');
+      expect(toAuditValue(45)).toBe('45');
+      expect(toAuditValue(false)).toBe('false');
+      expect(toAuditValue(null)).toBeNull();
+      expect(toAuditValue(['a', 'b'])).toBe('["a","b"]');
+    });
+  });
+
+  describe('diffTaskFields', () => {
+    it('should report changed fields and skip the ones an update leaves out', () => {
+      const before = {
+        title: 'Draft',
+        description: null,
+        dueAt: new Date('2025-06-02T09:00:00Z'),
+        estimatedDurationMinutes: 30,
+      };
+
+      expect(diffTaskFields(before, {
+        title: 'Draft',
+        description: 'Notes',
+        dueAt: new Date('2025-06-03T09:00:00Z'),
+        estimatedDurationMinutes: undefined,
+      })).toEqual([
+        { fieldName: 'description', oldValue: null, newValue: 'Notes' },
+        { fieldName: 'dueAt', oldValue: '2025-06-02T09:00:00.000Z', newValue: '2025-06-03T09:00:00.000Z' },
+      ]);
+    });
+
+    it('should report a field being cleared', () => {
+      expect(diffTaskFields({ parentId: 'p1' }, { parentId: null })).toEqual([
+        { fieldName: 'parentId', oldValue: 'p1', newValue: null },
+      ]);
+    });
+  });
+
+  describe('diffRelation', () => {
+    it('should ignore order and duplicates', () => {
+      expect(diffRelation('labels', ['b', 'a'], ['a', 'b', 'a'])).toEqual([]);
+      expect(diffRelation('labels', ['a'], ['b', 'a'])).toEqual([
+        { fieldName: 'labels', oldValue: '["a"]', newValue: '["a","b"]' },
+      ]);
+    });
+
+    it('should record dependency types and lag', () => {
+      const before = [{ dependsOnTaskId: 'x', type: 'FinishToStart' as const, lagMinutes: 0 }];
+      const after = [{ dependsOnTaskId: 'x', type: 'StartToStart' as const, lagMinutes: 30 }];
+
+      expect(diffRelation('dependencies', before, after)).toEqual([{
+        fieldName: 'dependencies',
+        oldValue: '[{"dependsOnTaskId":"x","type":"FinishToStart","lagMinutes":0}]',
+        newValue: '[{"dependsOnTaskId":"x","type":"StartToStart","lagMinutes":30}]',
+      }]);
+    });
+  });
+
+  describe('auditSnapshot', () => {
+    it('should encode current values the way they are audited', () => {
+      const snapshot = auditSnapshot(
+        { title: 'Ship', dueAt: new Date('2025-06-02T09:00:00Z'), isSplittable: true, parentId: null },
+        { labels: ['b', 'a'], assignees: [], dependencies: [] }
+      );
+
+      expect(snapshot).toMatchObject({
+        title: 'Ship',
+        dueAt: '2025-06-02T09:00:00.000Z',
+        isSplittable: 'true',
+        parentId: null,
+        labels: '["a","b"]',
+        assignees: '[]',
+      });
+    });
+  });
+
+  describe('restoreFromAudit', () => {
+    it('should read audited values back into an update', () => {
+      const dependency = { dependsOnTaskId: 'x', type: 'FinishToStart', lagMinutes: 0 };
+
+      expect(restoreFromAudit([
+        { fieldName: 'dueAt', value: '2025-06-02T09:00:00.000Z' },
+        { fieldName: 'estimatedDurationMinutes', value: '45' },
+        { fieldName: 'minChunkMinutes', value: null },
+        { fieldName: 'isRecurring', value: 'false' },
+        { fieldName: 'labels', value: '["a"]' },
+        { fieldName: 'dependencies', value: JSON.stringify([dependency]) },
+      ])).toEqual({
+        update: {
+          dueAt: new Date('2025-06-02T09:00:00Z'),
+          estimatedDurationMinutes: 45,
+          minChunkMinutes: null,
+          isRecurring: false,
+          labelIds: ['a'],
+        },
+        dependencies: [dependency],
+      });
+    });
+  });
+});
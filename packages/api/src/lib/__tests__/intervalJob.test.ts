@@ -0,0 +1,47 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { IntervalJob } from '../intervalJob';
+
+class CountingJob extends IntervalJob<number> {
+  constructor(public run: () => Promise<number>, intervalMinutes?: number) {
+    super('Counting job', 'COUNTING_JOB_INTERVAL_MINUTES', intervalMinutes);
+  }
+}
+
+describe('IntervalJob', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should share a run in progress', async () => {
+    const run = vi.fn().mockResolvedValue(1);
+    const job = new CountingJob(run);
+
+    await Promise.all([job.runOnce(), job.runOnce()]);
+
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  it('should run on start and then on every interval', async () => {
+    vi.useFakeTimers();
+    const run = vi.fn().mockResolvedValue(1);
+    const job = new CountingJob(run, 5);
+
+    job.start();
+    await vi.advanceTimersByTimeAsync(10 * 60 * 1000);
+    job.stop();
+    await vi.advanceTimersByTimeAsync(10 * 60 * 1000);
+
+    expect(run).toHaveBeenCalledTimes(3);
+  });
+
+  it('should keep going after a failed run', async () => {
+    const run = vi.fn()
+      .mockRejectedValueOnce(new Error('connection lost'))
+      .mockResolvedValueOnce(1);
+    const job = new CountingJob(run);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(await job.runOnce()).toBeNull();
+    expect(await job.runOnce()).toBe(1);
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import { createAuthFailureRateLimiter } from '../rateLimit';
+
+// Lets requests through with the right token, like requireAuth does
+function createApp() {
+  const app = express();
+  app.use(createAuthFailureRateLimiter());
+  app.get('/', (req, res) => {
+    if (req.headers.authorization !== 'Bearer good') {
+      res.status(401).json({ error: { code: 'INVALID_TOKEN' } });
+      return;
+    }
+    res.json({ data: 'ok' });
+  });
+  return app;
+}
+
+describe('createAuthFailureRateLimiter', () => {
+  beforeEach(() => {
+    process.env.RATE_LIMIT_AUTH_FAILURES = '3';
+  });
+
+  afterEach(() => {
+    delete process.env.RATE_LIMIT_AUTH_FAILURES;
+  });
+
+  it('should block an IP after too many failed authentications', async () => {
+    const app = createApp();
+    for (let i = 0; i < 3; i++) {
+      await request(app).get('/').set('Authorization', `Bearer guess-${i}`).expect(401);
+    }
+
+    const blocked = await request(app).get('/').set('Authorization', 'Bearer guess-3').expect(429);
+    expect(blocked.body.error.code).toBe('RATE_LIMIT_EXCEEDED');
+    await request(app).get('/').set('Authorization', 'Bearer good').expect(429);
+  });
+
+  it('should not count authenticated requests', async () => {
+    const app = createApp();
+    for (let i = 0; i < 5; i++) {
+      await request(app).get('/').set('Authorization', 'Bearer good').expect(200);
+    }
+
+    await request(app).get('/').set('Authorization', 'Bearer guess').expect(401);
+  });
+});
@@ -0,0 +1,165 @@
+import { describe, it, expect } from 'vitest';
+import {
+  formatRecurrenceRule,
+  isValidRecurrenceRule,
+  listOccurrences,
+  nextOccurrence,
+  parseRecurrenceRule,
+  patternToRRule,
+  resolveRecurrenceRule,
+} from '../rrule';
+import { RecurrenceType } from '@/types';
+
+const iso = (dates: Date[]) => dates.map(d => d.toISOString());
+
+function occurrencesOf(rule: string, dtstart: string, limit = 5) {
+  const set = { ...parseRecurrenceRule(rule), dtstart: new Date(dtstart) };
+  return iso(listOccurrences(set, new Date(new Date(dtstart).getTime() - 1), limit));
+}
+
+describe('rrule', () => {
+  describe('parsing', () => {
+    it('should accept a bare rule or iCalendar lines', () => {
+      const bare = parseRecurrenceRule('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE');
+      expect(bare.rule.freq).toBe('WEEKLY');
+      expect(bare.rule.interval).toBe(2);
+      expect(bare.rule.byDay).toEqual([{ weekday: 1 }, { weekday: 3 }]);
+
+      const lines = parseRecurrenceRule([
+        'DTSTART:20250106T090000Z',
+        'RRULE:FREQ=MONTHLY;BYDAY=-1FR',
+        'EXDATE:20250131T090000Z,20250228',
+      ].join('\n'));
+      expect(lines.dtstart?.toISOString()).toBe('2025-01-06T09:00:00.000Z');
+      expect(lines.rule.byDay).toEqual([{ weekday: 5, ordinal: -1 }]);
+      expect(iso(lines.exdates)).toEqual(['2025-01-31T09:00:00.000Z']);
+      expect(lines.exdays).toEqual(['20250228']);
+    });
+
+    it('should reject unsupported or inconsistent rules', () => {
+      expect(isValidRecurrenceRule('FREQ=HOURLY')).toBe(false);
+      expect(isValidRecurrenceRule('INTERVAL=2')).toBe(false);
+      expect(isValidRecurrenceRule('FREQ=DAILY;BYWEEKNO=3')).toBe(false);
+      expect(isValidRecurrenceRule('FREQ=DAILY;COUNT=3;UNTIL=20250101')).toBe(false);
+      expect(isValidRecurrenceRule('FREQ=WEEKLY;BYDAY=1MO')).toBe(false);
+      expect(isValidRecurrenceRule('FREQ=WEEKLY;BYMONTHDAY=3')).toBe(false);
+      expect(isValidRecurrenceRule('FREQ=MONTHLY;BYMONTHDAY=32')).toBe(false);
+      expect(() => parseRecurrenceRule('FREQ=DAILY;BYDAY=XX')).toThrow('unknown BYDAY value XX');
+    });
+
+    it('should round-trip through formatting', () => {
+      const text = 'RRULE:FREQ=MONTHLY;INTERVAL=2;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1;COUNT=6\nEXDATE:20250331T170000Z';
+      expect(formatRecurrenceRule(parseRecurrenceRule(text))).toBe(text);
+    });
+  });
+
+  describe('occurrences', () => {
+    it('should expand weekly BYDAY within each week', () => {
+      expect(occurrencesOf('FREQ=WEEKLY;BYDAY=MO,WE,FR', '2025-01-06T09:00:00Z')).toEqual([
+        '2025-01-06T09:00:00.000Z',
+        '2025-01-08T09:00:00.000Z',
+        '2025-01-10T09:00:00.000Z',
+        '2025-01-13T09:00:00.000Z',
+        '2025-01-15T09:00:00.000Z',
+      ]);
+    });
+
+    it('should pick the last Friday of the month with BYSETPOS', () => {
+      expect(occurrencesOf('FREQ=MONTHLY;BYDAY=FR;BYSETPOS=-1', '2025-01-01T16:00:00Z', 4)).toEqual([
+        '2025-01-31T16:00:00.000Z',
+        '2025-02-28T16:00:00.000Z',
+        '2025-03-28T16:00:00.000Z',
+        '2025-04-25T16:00:00.000Z',
+      ]);
+      expect(occurrencesOf('FREQ=MONTHLY;BYDAY=-1FR', '2025-01-01T16:00:00Z', 2)).toEqual([
+        '2025-01-31T16:00:00.000Z',
+        '2025-02-28T16:00:00.000Z',
+      ]);
+    });
+
+    it('should count BYMONTHDAY back from the end of the month', () => {
+      expect(occurrencesOf('FREQ=MONTHLY;BYMONTHDAY=-1', '2024-01-15T00:00:00Z', 3)).toEqual([
+        '2024-01-31T00:00:00.000Z',
+        '2024-02-29T00:00:00.000Z',
+        '2024-03-31T00:00:00.000Z',
+      ]);
+    });
+
+    it('should skip months without the start day when no BY rule is given', () => {
+      expect(occurrencesOf('FREQ=MONTHLY', '2025-01-31T10:00:00Z', 3)).toEqual([
+        '2025-01-31T10:00:00.000Z',
+        '2025-03-31T10:00:00.000Z',
+        '2025-05-31T10:00:00.000Z',
+      ]);
+    });
+
+    it('should expand yearly rules within BYMONTH', () => {
+      // Last Sunday of March
+      expect(occurrencesOf('FREQ=YEARLY;BYMONTH=3;BYDAY=-1SU', '2025-01-01T01:00:00Z', 2)).toEqual([
+        '2025-03-30T01:00:00.000Z',
+        '2026-03-29T01:00:00.000Z',
+      ]);
+    });
+
+    it('should stop after COUNT occurrences, counting excluded dates', () => {
+      const set = {
+        ...parseRecurrenceRule('RRULE:FREQ=DAILY;COUNT=3\nEXDATE:20250102T080000Z'),
+        dtstart: new Date('2025-01-01T08:00:00Z'),
+      };
+      expect(iso(listOccurrences(set, new Date(0), 10))).toEqual([
+        '2025-01-01T08:00:00.000Z',
+        '2025-01-03T08:00:00.000Z',
+      ]);
+      expect(nextOccurrence(set, new Date('2025-01-03T08:00:00Z'))).toBeNull();
+    });
+
+    it('should stop at UNTIL, including the whole day for a date-only value', () => {
+      expect(occurrencesOf('FREQ=DAILY;INTERVAL=2;UNTIL=20250105', '2025-01-01T18:00:00Z', 10)).toEqual([
+        '2025-01-01T18:00:00.000Z',
+        '2025-01-03T18:00:00.000Z',
+        '2025-01-05T18:00:00.000Z',
+      ]);
+    });
+
+    it('should terminate for rules that never match', () => {
+      expect(occurrencesOf('FREQ=YEARLY;BYMONTH=2;BYMONTHDAY=30', '2025-01-01T00:00:00Z')).toEqual([]);
+    });
+  });
+
+  describe('structured patterns', () => {
+    const startDate = new Date('2025-01-06T09:00:00Z'); // a Monday
+
+    it('should convert each pattern type to an RRULE', () => {
+      expect(patternToRRule({ type: RecurrenceType.Daily, interval: 3, startDate })).toBe('RRULE:FREQ=DAILY;INTERVAL=3');
+      expect(patternToRRule({ type: RecurrenceType.Weekly, interval: 1, startDate, daysOfWeek: [5, 1] }))
+        .toBe('RRULE:FREQ=WEEKLY;BYDAY=MO,FR');
+      expect(patternToRRule({ type: RecurrenceType.Monthly, interval: 1, startDate, dayOfMonth: 15 }))
+        .toBe('RRULE:FREQ=MONTHLY;BYMONTHDAY=15');
+      expect(patternToRRule({ type: RecurrenceType.Yearly, interval: 1, startDate, endDate: new Date('2030-01-01T00:00:00Z') }))
+        .toBe('RRULE:FREQ=YEARLY;UNTIL=20300101T000000Z');
+      expect(patternToRRule({ type: RecurrenceType.Custom, interval: 1, startDate, customPattern: 'FREQ=MONTHLY;BYDAY=1MO' }))
+        .toBe('RRULE:FREQ=MONTHLY;BYDAY=1MO');
+      expect(patternToRRule({ type: RecurrenceType.Custom, interval: 2, startDate, customPattern: 'every other day' }))
+        .toBe('RRULE:FREQ=DAILY;INTERVAL=2');
+    });
+
+    it('should fall back to the last day for monthly days past the 28th', () => {
+      const set = resolveRecurrenceRule({ type: RecurrenceType.Monthly, interval: 1, startDate, dayOfMonth: 31 });
+      expect(iso(listOccurrences(set, startDate, 3))).toEqual([
+        '2025-01-31T09:00:00.000Z',
+        '2025-02-28T09:00:00.000Z',
+        '2025-03-31T09:00:00.000Z',
+      ]);
+    });
+
+    it('should prefer a stored rrule over the structured fields', () => {
+      const set = resolveRecurrenceRule({
+        type: RecurrenceType.Daily,
+        interval: 1,
+        startDate,
+        rrule: 'RRULE:FREQ=WEEKLY;BYDAY=TH',
+      });
+      expect(nextOccurrence(set, startDate)?.toISOString()).toBe('2025-01-09T09:00:00.000Z');
+    });
+  });
+});
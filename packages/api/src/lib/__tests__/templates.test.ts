@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { TemplateSource, dueFromOffset, fillPlaceholders, snapshotTemplate, templateVariables, toPlaceholders } from '../templates';
+
+const source = (overrides: Partial<TemplateSource> & Pick<TemplateSource, 'id' | 'title'>): TemplateSource => ({
+  parentId: null,
+  description: null,
+  priority: 'Medium',
+  dueAt: null,
+  estimatedDurationMinutes: 30,
+  allowParentAutoComplete: false,
+  isSplittable: false,
+  minChunkMinutes: null,
+  labelIds: [],
+  dependencies: [],
+  ...overrides,
+});
+
+describe('templates', () => {
+  describe('placeholders', () => {
+    it('should list the variables used in titles and descriptions', () => {
+      expect(templateVariables([
+        { title: 'Release {{version}}', description: 'Tag {{ version }} for {{team}}' },
+        { title: 'Notes', description: null },
+      ])).toEqual(['team', 'version']);
+    });
+
+    it('should fill in values and leave unknown placeholders alone', () => {
+      expect(fillPlaceholders('Release {{version}} by {{owner}}', { version: '2.4' }))
+        .toBe('Release 2.4 by {{owner}}');
+    });
+
+    it('should turn values into placeholders, longest first', () => {
+      expect(toPlaceholders('Release 2.3.1 after 2.3', { patch: '2.3.1', minor: '2.3' }))
+        .toBe('Release {{patch}} after {{minor}}');
+    });
+  });
+
+  describe('snapshotTemplate', () => {
+    it('should key the tree and keep only dependencies within it', () => {
+      const tasks = snapshotTemplate([
+        source({ id: 'root', parentId: 'outside', title: 'Release 2.3' }),
+        source({ id: 'build', parentId: 'root', title: 'Build 2.3', labelIds: ['l1'] }),
+        source({
+          id: 'ship',
+          parentId: 'root',
+          title: 'Ship',
+          dependencies: [
+            { dependsOnTaskId: 'build', type: 'FinishToStart', lagMinutes: 30 },
+            { dependsOnTaskId: 'outside', type: 'FinishToStart', lagMinutes: 0 },
+          ],
+        }),
+      ], { version: '2.3' });
+
+      expect(tasks.map(t => [t.key, t.parentKey, t.title])).toEqual([
+        ['1', null, 'Release {{version}}'],
+        ['2', '1', 'Build {{version}}'],
+        ['3', '1', 'Ship'],
+      ]);
+      expect(tasks[1].labelIds).toEqual(['l1']);
+      expect(tasks[2].dependencies).toEqual([{ dependsOnKey: '2', type: 'FinishToStart', lagMinutes: 30 }]);
+    });
+
+    it('should keep due dates as offsets from the root, or the earliest one', () => {
+      const withRoot = snapshotTemplate([
+        source({ id: 'root', title: 'Sprint', dueAt: new Date('2025-03-14T17:00:00Z') }),
+        source({ id: 'plan', parentId: 'root', title: 'Plan', dueAt: new Date('2025-03-03T09:00:00Z') }),
+      ]);
+      expect(withRoot.map(t => t.dueOffsetMinutes)).toEqual([0, -(11 * 24 * 60 + 8 * 60)]);
+
+      const withoutRoot = snapshotTemplate([
+        source({ id: 'root', title: 'Sprint' }),
+        source({ id: 'plan', parentId: 'root', title: 'Plan', dueAt: new Date('2025-03-03T09:00:00Z') }),
+        source({ id: 'demo', parentId: 'root', title: 'Demo', dueAt: new Date('2025-03-14T17:00:00Z') }),
+      ]);
+      expect(withoutRoot.map(t => t.dueOffsetMinutes)).toEqual([null, 0, 11 * 24 * 60 + 8 * 60]);
+    });
+  });
+
+  describe('dueFromOffset', () => {
+    it('should count from the anchor date', () => {
+      expect(dueFromOffset(new Date('2025-06-02T09:00:00Z'), 90)).toEqual(new Date('2025-06-02T10:30:00Z'));
+      expect(dueFromOffset(new Date('2025-06-02T09:00:00Z'), null)).toBeNull();
+    });
+  });
+});
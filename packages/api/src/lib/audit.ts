@@ -0,0 +1,183 @@
+import { DependencyInput, DependencyType, Priority, TaskStatus, UpdateTaskInput } from '../types';
+
+// How task changes are written to the audit trail. Values are stored as text that reads back
+// unambiguously: dates as ISO 8601, numbers and booleans as written, relations as JSON arrays.
+
+// Task columns whose changes are audited; the planner's own output (scheduled slots) isn't
+export const AUDITED_FIELDS = [
+  'title',
+  'description',
+  'status',
+  'priority',
+  'dueAt',
+  'estimatedDurationMinutes',
+  'allowParentAutoComplete',
+  'isSplittable',
+  'minChunkMinutes',
+  'parentId',
+  'isRecurring',
+  'recurrencePattern',
+] as const;
+
+export type AuditedField = typeof AUDITED_FIELDS[number];
+
+// Relations audited as a whole, each as a sorted JSON array
+export const AUDITED_RELATIONS = ['labels', 'assignees', 'dependencies'] as const;
+
+export type AuditedRelation = typeof AUDITED_RELATIONS[number];
+
+export interface AuditChange {
+  fieldName: AuditedField | AuditedRelation;
+  oldValue: string | null;
+  newValue: string | null;
+}
+
+// A dependency as recorded under 'dependencies'
+export interface AuditedDependency {
+  dependsOnTaskId: string;
+  type: `${DependencyType}`;
+  lagMinutes: number;
+}
+
+export function toAuditValue(value: unknown): string | null {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (typeof value === 'string') {
+    return value;
+  }
+  if (typeof value === 'object') {
+    return JSON.stringify(value);
+  }
+  return String(value);
+}
+
+// Fields an update leaves out (undefined) are unchanged
+export function diffTaskFields(
+  before: { [F in AuditedField]?: unknown },
+  after: { [F in AuditedField]?: unknown }
+): AuditChange[] {
+  const changes: AuditChange[] = [];
+  for (const field of AUDITED_FIELDS) {
+    if (after[field] === undefined) {
+      continue;
+    }
+    const oldValue = toAuditValue(before[field]);
+    const newValue = toAuditValue(after[field]);
+    if (oldValue !== newValue) {
+      changes.push({ fieldName: field, oldValue, newValue });
+    }
+  }
+  return changes;
+}
+
+// Labels and assignees are recorded as sorted IDs, dependencies sorted by blocker
+export function diffRelation(
+  fieldName: 'labels' | 'assignees',
+  before: string[],
+  after: string[]
+): AuditChange[];
+export function diffRelation(
+  fieldName: 'dependencies',
+  before: AuditedDependency[],
+  after: AuditedDependency[]
+): AuditChange[];
+export function diffRelation(
+  fieldName: AuditedRelation,
+  before: Array<string | AuditedDependency>,
+  after: Array<string | AuditedDependency>
+): AuditChange[] {
+  const oldValue = toRelationValue(before);
+  const newValue = toRelationValue(after);
+  return oldValue === newValue ? [] : [{ fieldName, oldValue, newValue }];
+}
+
+export function toRelationValue(values: Array<string | AuditedDependency>): string {
+  return JSON.stringify(normalizeRelation(values));
+}
+
+// A task's current values in the form the audit trail stores them, for comparing with it
+export function auditSnapshot(
+  task: { [F in AuditedField]?: unknown },
+  relations: { labels: string[]; assignees: string[]; dependencies: AuditedDependency[] }
+): Record<AuditedField | AuditedRelation, string | null> {
+  const snapshot = {
+    labels: toRelationValue(relations.labels),
+    assignees: toRelationValue(relations.assignees),
+    dependencies: toRelationValue(relations.dependencies),
+  } as Record<AuditedField | AuditedRelation, string | null>;
+  for (const field of AUDITED_FIELDS) {
+    snapshot[field] = toAuditValue(task[field]);
+  }
+  return snapshot;
+}
+
+// Reads audited values back into the update that restores them; dependencies are set apart
+export function restoreFromAudit(values: Array<{ fieldName: string; value: string | null }>): {
+  update: UpdateTaskInput;
+  dependencies?: DependencyInput[];
+} {
+  const update: UpdateTaskInput = {};
+  let dependencies: DependencyInput[] | undefined;
+
+  for (const { fieldName, value } of values) {
+    switch (fieldName) {
+      case 'title':
+        update.title = value ?? '';
+        break;
+      case 'description':
+        update.description = value;
+        break;
+      case 'status':
+        update.status = value as TaskStatus;
+        break;
+      case 'priority':
+        update.priority = value as Priority;
+        break;
+      case 'dueAt':
+        update.dueAt = value ? new Date(value) : null;
+        break;
+      case 'estimatedDurationMinutes':
+        update.estimatedDurationMinutes = Number(value);
+        break;
+      case 'minChunkMinutes':
+        update.minChunkMinutes = value === null ? null : Number(value);
+        break;
+      case 'allowParentAutoComplete':
+      case 'isSplittable':
+      case 'isRecurring':
+        update[fieldName] = value === 'true';
+        break;
+      case 'parentId':
+        update.parentId = value;
+        break;
+      case 'recurrencePattern':
+        update.recurrencePattern = value ? JSON.parse(value) : null;
+        break;
+      case 'labels':
+        update.labelIds = value ? JSON.parse(value) : [];
+        break;
+      case 'assignees':
+        update.assigneeIds = value ? JSON.parse(value) : [];
+        break;
+      case 'dependencies':
+        dependencies = value ? JSON.parse(value) : [];
+        break;
+    }
+  }
+
+  return { update, dependencies };
+}
+
+function normalizeRelation(values: Array<string | AuditedDependency>): Array<string | AuditedDependency> {
+  const keyOf = (value: string | AuditedDependency) => (typeof value === 'string' ? value : value.dependsOnTaskId);
+  const unique = new Map(values.map(value => [keyOf(value), value]));
+  return Array.from(unique.values())
+    .map(value => (typeof value === 'string'
+      ? value
+      : { dependsOnTaskId: value.dependsOnTaskId, type: value.type, lagMinutes: value.lagMinutes }))
+    .sort((a, b) => keyOf(a).localeCompare(keyOf(b)));
+}
@@ -0,0 +1,259 @@
+import { NextFunction, Request, Response } from 'express';
+import { prisma } from './database';
+import { AuthService } from '../services/authService';
+import { API_TOKEN_PREFIX, ApiTokenService } from '../services/apiTokenService';
+import { ProjectService } from '../services/projectService';
+import {
+  ApiTokenGrant,
+  ApiTokenScope,
+  AuthSession,
+  AuthUser,
+  AuthenticationError,
+  ProjectAccess,
+  ProjectRole,
+  ValidationError
+} from '../types';
+
+declare module 'express-serve-static-core' {
+  interface Request {
+    // Set by requireAuth; absent when BYPASS_AUTH=true
+    user?: AuthUser;
+    // Set when the request came with an API token rather than a login session
+    apiToken?: ApiTokenGrant;
+    // Set by requireProjectMember on /api/projects/:projectId routes
+    project?: ProjectAccess;
+  }
+}
+
+// httpOnly cookie the web app's session travels in; API clients can send the token as a bearer instead
+export const SESSION_COOKIE = 'deano_session';
+
+const authService = new AuthService(prisma);
+const apiTokenService = new ApiTokenService(prisma);
+const projectService = new ProjectService(prisma);
+
+// A write scope also lets a token read what it writes
+const IMPLIED_SCOPES: Partial<Record<ApiTokenScope, ApiTokenScope[]>> = {
+  'tasks:write': ['tasks:read'],
+};
+
+// What each project role may do within the project
+const ROLE_SCOPES: Record<ProjectRole, ApiTokenScope[]> = {
+  [ProjectRole.Owner]: ['tasks:read', 'tasks:write', 'schedule:commit', 'labels:admin'],
+  [ProjectRole.Editor]: ['tasks:read', 'tasks:write', 'schedule:commit', 'labels:admin'],
+  [ProjectRole.Viewer]: ['tasks:read'],
+};
+
+function readCookie(req: Request, name: string): string | undefined {
+  const header = req.headers.cookie;
+  if (!header) {
+    return undefined;
+  }
+
+  for (const part of header.split(';')) {
+    const [key, ...value] = part.trim().split('=');
+    if (key === name) {
+      return decodeURIComponent(value.join('='));
+    }
+  }
+  return undefined;
+}
+
+function readToken(req: Request): string | undefined {
+  const authorization = req.headers.authorization;
+  if (authorization?.startsWith('Bearer ')) {
+    return authorization.slice('Bearer '.length).trim();
+  }
+  return readCookie(req, SESSION_COOKIE);
+}
+
+export function setSessionCookie(res: Response, session: AuthSession): void {
+  res.cookie(SESSION_COOKIE, session.token, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.SESSION_COOKIE_SECURE
+      ? process.env.SESSION_COOKIE_SECURE === 'true'
+      : process.env.NODE_ENV === 'production',
+    expires: session.expiresAt,
+    path: '/',
+  });
+}
+
+export function clearSessionCookie(res: Response): void {
+  res.clearCookie(SESSION_COOKIE, { path: '/' });
+}
+
+// Rejects requests without a valid session with 401 and exposes the user as req.user
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (process.env.BYPASS_AUTH === 'true') {
+    return next();
+  }
+
+  const token = readToken(req);
+  if (!token) {
+    return res.status(401).json({
+      error: {
+        code: 'UNAUTHORIZED',
+        message: 'Authentication required',
+      },
+    });
+  }
+
+  const authenticate = token.startsWith(API_TOKEN_PREFIX)
+    ? apiTokenService.authenticate(token).then(({ user, grant }) => {
+      req.apiToken = grant;
+      return user;
+    })
+    : authService.verifyToken(token);
+
+  authenticate
+    .then(user => {
+      req.user = user;
+      next();
+    })
+    .catch(error => {
+      if (error instanceof AuthenticationError) {
+        res.status(401).json({
+          error: {
+            code: error.code,
+            message: error.message,
+          },
+        });
+      } else {
+        next(error);
+      }
+    });
+}
+
+function tokenHasScope(req: Request, scope: ApiTokenScope): boolean {
+  if (!req.apiToken) {
+    return true;
+  }
+  return req.apiToken.scopes.some(granted => granted === scope || IMPLIED_SCOPES[granted]?.includes(scope));
+}
+
+function roleHasScope(req: Request, scope: ApiTokenScope): boolean {
+  return !req.project || ROLE_SCOPES[req.project.role].includes(scope);
+}
+
+// Login sessions may do anything their user can; API tokens only what their scopes allow.
+// Within a project, the user's role limits both.
+export function hasScope(req: Request, scope: ApiTokenScope): boolean {
+  return tokenHasScope(req, scope) && roleHasScope(req, scope);
+}
+
+export function rejectMissingScope(req: Request, res: Response, scope: ApiTokenScope) {
+  if (!tokenHasScope(req, scope)) {
+    return res.status(403).json({
+      error: {
+        code: 'INSUFFICIENT_SCOPE',
+        message: `This API token lacks the ${scope} scope`,
+        details: { requiredScope: scope },
+      },
+    });
+  }
+  return res.status(403).json({
+    error: {
+      code: 'INSUFFICIENT_ROLE',
+      message: `Project ${req.project?.role} members lack the ${scope} permission`,
+      details: { requiredScope: scope, role: req.project?.role },
+    },
+  });
+}
+
+// Route guard: 403 unless the session or API token, and project role, grant the scope
+export function requireScope(scope: ApiTokenScope) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!hasScope(req, scope)) {
+      return rejectMissingScope(req, res, scope);
+    }
+    return next();
+  };
+}
+
+// Route guard for /api/projects/:projectId: 404 unless the user is a member, and exposes
+// the project and their role as req.project
+export function requireProjectMember(req: Request, res: Response, next: NextFunction) {
+  projectService.getAccess(req.params.projectId, req.user?.id)
+    .then(access => {
+      req.project = access;
+      next();
+    })
+    .catch(error => {
+      if (error instanceof ValidationError) {
+        res.status(404).json({
+          error: {
+            code: 'NOT_FOUND',
+            message: error.message,
+          },
+        });
+      } else {
+        next(error);
+      }
+    });
+}
+
+// The same check for a projectId filter on the personal /api/tasks and /api/schedule routes: 404 unless
+// the user is a member, else req.project is set so the role checks and services that follow use it.
+// Returns false once it has answered the request.
+export async function resolveProjectFilter(req: Request, res: Response, projectId?: string): Promise<boolean> {
+  if (!projectId || req.project?.id === projectId) {
+    return true;
+  }
+
+  try {
+    // Under /api/projects/:projectId a filter can't reach into another project
+    if (req.project) {
+      throw new ValidationError('Project not found');
+    }
+    req.project = await projectService.getAccess(projectId, req.user?.id);
+    return true;
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      res.status(404).json({
+        error: {
+          code: 'NOT_FOUND',
+          message: error.message,
+        },
+      });
+      return false;
+    }
+    throw error;
+  }
+}
+
+// Route guard for managing a project and its members
+export function requireProjectOwner(req: Request, res: Response, next: NextFunction) {
+  if (req.project?.role !== ProjectRole.Owner) {
+    return res.status(403).json({
+      error: {
+        code: 'INSUFFICIENT_ROLE',
+        message: 'Only project owners can do this',
+        details: { role: req.project?.role },
+      },
+    });
+  }
+  return next();
+}
+
+// Route guard for things a token must not do for itself, like minting more tokens
+export function requireSession(req: Request, res: Response, next: NextFunction) {
+  // Without authentication (BYPASS_AUTH=true) there is no user to act for
+  if (!req.user) {
+    return res.status(401).json({
+      error: {
+        code: 'UNAUTHORIZED',
+        message: 'Authentication required',
+      },
+    });
+  }
+  if (req.apiToken) {
+    return res.status(403).json({
+      error: {
+        code: 'SESSION_REQUIRED',
+        message: 'This action needs a login session, not an API token',
+      },
+    });
+  }
+  return next();
+}
@@ -0,0 +1,47 @@
+// Runs a background job on a timer inside the API process. A failed run is logged and the
+// timer carries on; the next run starts from scratch.
+export abstract class IntervalJob<T> {
+  private timer: NodeJS.Timeout | null = null;
+  private running: Promise<T | null> | null = null;
+
+  // intervalMinutes falls back to the intervalEnv variable, then to an hour
+  constructor(private name: string, private intervalEnv: string, private intervalMinutes?: number) {}
+
+  protected abstract run(): Promise<T>;
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    const intervalMinutes = this.intervalMinutes ?? parseInt(process.env[this.intervalEnv] || '60', 10);
+
+    void this.runOnce();
+    this.timer = setInterval(() => void this.runOnce(), intervalMinutes * 60 * 1000);
+    // Don't keep the process alive just for the job
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // A run still in progress is shared rather than started again
+  async runOnce(): Promise<T | null> {
+    if (!this.running) {
+      this.running = this.run()
+        .catch(error => {
+          console.error(`${this.name} error:`, error);
+          return null;
+        })
+        .finally(() => {
+          this.running = null;
+        });
+    }
+
+    return this.running;
+  }
+}
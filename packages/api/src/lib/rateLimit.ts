@@ -0,0 +1,54 @@
+import { Request } from 'express';
+import rateLimit from 'express-rate-limit';
+
+// Each API token gets its own budget (its rateLimit, or the default); login sessions are
+// counted per user and anonymous requests per IP. Mount it after requireAuth.
+export function createClientRateLimiter() {
+  const windowMs = parseInt(process.env.RATE_LIMIT_WINDOW_MS || '900000'); // 15 minutes default
+  const defaultMaxRequests = parseInt(process.env.RATE_LIMIT_MAX_REQUESTS || '100');
+
+  return rateLimit({
+    windowMs,
+    limit: (req: Request) => req.apiToken?.rateLimit ?? defaultMaxRequests,
+    keyGenerator: (req: Request) => {
+      if (req.apiToken) {
+        return `token:${req.apiToken.id}`;
+      }
+      if (req.user) {
+        return `user:${req.user.id}`;
+      }
+      return `ip:${req.ip}`;
+    },
+    message: {
+      error: {
+        code: 'RATE_LIMIT_EXCEEDED',
+        message: 'Too many requests, please try again later.',
+      },
+    },
+    standardHeaders: true,
+    legacyHeaders: false,
+  });
+}
+
+// Counts failed authentications (401s) per IP, ahead of requireAuth, so that guessing
+// tokens or passwords runs out long before the per-client budget would notice it.
+export function createAuthFailureRateLimiter() {
+  const windowMs = parseInt(process.env.RATE_LIMIT_WINDOW_MS || '900000'); // 15 minutes default
+  const maxFailures = parseInt(process.env.RATE_LIMIT_AUTH_FAILURES || '20');
+
+  return rateLimit({
+    windowMs,
+    limit: maxFailures,
+    keyGenerator: (req: Request) => `ip:${req.ip}`,
+    skipSuccessfulRequests: true,
+    requestWasSuccessful: (_req, res) => res.statusCode !== 401,
+    message: {
+      error: {
+        code: 'RATE_LIMIT_EXCEEDED',
+        message: 'Too many failed authentication attempts, please try again later.',
+      },
+    },
+    standardHeaders: true,
+    legacyHeaders: false,
+  });
+}
@@ -0,0 +1,515 @@
+import { zonedTimeToUtc } from 'date-fns-tz';
+import { RecurrencePattern, RecurrenceType } from '../types';
+
+// A subset of RFC 5545 recurrence rules: FREQ (DAILY to YEARLY), INTERVAL, COUNT, UNTIL,
+// BYDAY (with ordinals such as -1FR), BYMONTHDAY, BYMONTH, BYSETPOS and WKST, plus
+// EXDATE and DTSTART lines. Rules are evaluated in UTC, keeping DTSTART's time of day.
+
+export type RRuleFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+export interface RRuleWeekday {
+  weekday: number; // 0=Sunday, 1=Monday, etc.
+  ordinal?: number; // e.g. -1 for the last one in the month (MONTHLY/YEARLY only)
+}
+
+export interface RRule {
+  freq: RRuleFrequency;
+  interval: number;
+  count?: number;
+  until?: Date;
+  byDay: RRuleWeekday[];
+  byMonthDay: number[]; // negative counts back from the end of the month
+  byMonth: number[];    // 1-12
+  bySetPos: number[];
+  weekStart: number;    // 0=Sunday, default Monday
+}
+
+export interface RecurrenceRuleSet {
+  dtstart?: Date;
+  rule: RRule;
+  exdates: Date[];
+  exdays: string[]; // yyyyMMdd, from date-only EXDATE values
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const FREQUENCIES: RRuleFrequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+// Upper bound on the periods walked, so rules that never match (e.g. 30 February) terminate
+const MAX_PERIODS = 100000;
+
+const FREQUENCY_BY_TYPE: Record<RecurrenceType, RRuleFrequency> = {
+  [RecurrenceType.Daily]: 'DAILY',
+  [RecurrenceType.Weekly]: 'WEEKLY',
+  [RecurrenceType.Monthly]: 'MONTHLY',
+  [RecurrenceType.Yearly]: 'YEARLY',
+  [RecurrenceType.Custom]: 'DAILY',
+};
+
+const TYPE_BY_FREQUENCY: Record<RRuleFrequency, RecurrenceType> = {
+  DAILY: RecurrenceType.Daily,
+  WEEKLY: RecurrenceType.Weekly,
+  MONTHLY: RecurrenceType.Monthly,
+  YEARLY: RecurrenceType.Yearly,
+};
+
+// Parsing
+
+function parseInteger(name: string, value: string, min: number, max: number, allowNegative = false): number {
+  if (!/^[+-]?\d+$/.test(value)) {
+    throw new Error(`Invalid RRULE: ${name} must be an integer`);
+  }
+  const n = parseInt(value, 10);
+  const magnitude = Math.abs(n);
+  if ((!allowNegative && n < 0) || magnitude < min || magnitude > max) {
+    throw new Error(`Invalid RRULE: ${name} value ${value} is out of range`);
+  }
+  return n;
+}
+
+function parseDateValue(name: string, value: string, tzid?: string): { date: Date; dateOnly: boolean } {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) {
+    throw new Error(`Invalid RRULE: ${name} must be yyyyMMdd or yyyyMMddTHHmmssZ`);
+  }
+  const [, y, mo, d, h, mi, s, utc] = match;
+  if (h === undefined) {
+    return { date: new Date(Date.UTC(+y, +mo - 1, +d)), dateOnly: true };
+  }
+  const date = tzid && !utc
+    ? zonedTimeToUtc(`${y}-${mo}-${d}T${h}:${mi}:${s}`, tzid)
+    : new Date(Date.UTC(+y, +mo - 1, +d, +h, +mi, +s));
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid RRULE: ${name} ${value} is not a valid date`);
+  }
+  return { date, dateOnly: false };
+}
+
+function parseRRuleValue(value: string): RRule {
+  const rule: Partial<RRule> & Pick<RRule, 'byDay' | 'byMonthDay' | 'byMonth' | 'bySetPos'> = {
+    interval: 1,
+    byDay: [],
+    byMonthDay: [],
+    byMonth: [],
+    bySetPos: [],
+    weekStart: 1,
+  };
+  const seen = new Set<string>();
+
+  for (const part of value.split(';').filter(p => p.trim() !== '')) {
+    const [rawName, rawValue] = part.split('=');
+    const name = rawName?.trim().toUpperCase();
+    const val = rawValue?.trim().toUpperCase();
+    if (!name || !val) {
+      throw new Error(`Invalid RRULE: malformed part "${part}"`);
+    }
+    if (seen.has(name)) {
+      throw new Error(`Invalid RRULE: ${name} given more than once`);
+    }
+    seen.add(name);
+
+    switch (name) {
+      case 'FREQ':
+        if (!FREQUENCIES.includes(val as RRuleFrequency)) {
+          throw new Error(`Invalid RRULE: unsupported FREQ ${val}`);
+        }
+        rule.freq = val as RRuleFrequency;
+        break;
+      case 'INTERVAL':
+        rule.interval = parseInteger(name, val, 1, 1000);
+        break;
+      case 'COUNT':
+        rule.count = parseInteger(name, val, 1, 10000);
+        break;
+      case 'UNTIL': {
+        const { date, dateOnly } = parseDateValue(name, val);
+        // A date-only UNTIL includes the whole of that day
+        rule.until = dateOnly ? new Date(date.getTime() + DAY_MS - 1) : date;
+        break;
+      }
+      case 'BYDAY':
+        rule.byDay = val.split(',').map(code => {
+          const match = code.match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/);
+          if (!match) {
+            throw new Error(`Invalid RRULE: unknown BYDAY value ${code}`);
+          }
+          const weekday = WEEKDAY_CODES.indexOf(match[2]);
+          return match[1] ? { weekday, ordinal: parseInteger(name, match[1], 1, 53, true) } : { weekday };
+        });
+        break;
+      case 'BYMONTHDAY':
+        rule.byMonthDay = val.split(',').map(v => parseInteger(name, v, 1, 31, true));
+        break;
+      case 'BYMONTH':
+        rule.byMonth = val.split(',').map(v => parseInteger(name, v, 1, 12));
+        break;
+      case 'BYSETPOS':
+        rule.bySetPos = val.split(',').map(v => parseInteger(name, v, 1, 366, true));
+        break;
+      case 'WKST':
+        if (!WEEKDAY_CODES.includes(val)) {
+          throw new Error(`Invalid RRULE: unknown WKST value ${val}`);
+        }
+        rule.weekStart = WEEKDAY_CODES.indexOf(val);
+        break;
+      default:
+        throw new Error(`Invalid RRULE: ${name} is not supported`);
+    }
+  }
+
+  if (!rule.freq) {
+    throw new Error('Invalid RRULE: FREQ is required');
+  }
+  if (rule.count !== undefined && rule.until !== undefined) {
+    throw new Error('Invalid RRULE: COUNT and UNTIL cannot both be set');
+  }
+  if ((rule.freq === 'DAILY' || rule.freq === 'WEEKLY') && rule.byDay.some(d => d.ordinal !== undefined)) {
+    throw new Error(`Invalid RRULE: BYDAY ordinals are only allowed with MONTHLY or YEARLY`);
+  }
+  if (rule.freq === 'WEEKLY' && rule.byMonthDay.length > 0) {
+    throw new Error('Invalid RRULE: BYMONTHDAY is not allowed with WEEKLY');
+  }
+  if (rule.freq === 'YEARLY' && rule.byMonth.length > 0 && rule.byDay.some(d => d.ordinal !== undefined && Math.abs(d.ordinal) > 5)) {
+    throw new Error('Invalid RRULE: BYDAY ordinal is out of range for a month');
+  }
+
+  return rule as RRule;
+}
+
+// Accepts a bare RRULE value ("FREQ=WEEKLY;BYDAY=MO") or iCalendar lines
+// (DTSTART, RRULE and any number of EXDATE lines).
+export function parseRecurrenceRule(text: string): RecurrenceRuleSet {
+  const lines = text.split(/\r?\n/).map(l => l.trim()).filter(l => l !== '');
+  let rule: RRule | undefined;
+  let dtstart: Date | undefined;
+  const exdates: Date[] = [];
+  const exdays: string[] = [];
+
+  for (const line of lines) {
+    if (!line.includes(':')) {
+      if (rule) {
+        throw new Error('Invalid RRULE: only one rule is supported');
+      }
+      rule = parseRRuleValue(line);
+      continue;
+    }
+
+    const colon = line.indexOf(':');
+    const [name, ...params] = line.slice(0, colon).toUpperCase().split(';');
+    const value = line.slice(colon + 1).trim();
+    const tzid = params.find(p => p.startsWith('TZID='))?.slice(5);
+
+    switch (name) {
+      case 'RRULE':
+        if (rule) {
+          throw new Error('Invalid RRULE: only one rule is supported');
+        }
+        rule = parseRRuleValue(value);
+        break;
+      case 'DTSTART':
+        dtstart = parseDateValue(name, value, tzid).date;
+        break;
+      case 'EXDATE':
+        for (const item of value.split(',')) {
+          const { date, dateOnly } = parseDateValue(name, item.trim(), tzid);
+          if (dateOnly) {
+            exdays.push(dayKey(date));
+          } else {
+            exdates.push(date);
+          }
+        }
+        break;
+      default:
+        throw new Error(`Invalid RRULE: ${name} lines are not supported`);
+    }
+  }
+
+  if (!rule) {
+    throw new Error('Invalid RRULE: no rule found');
+  }
+
+  return { dtstart, rule, exdates, exdays };
+}
+
+export function isValidRecurrenceRule(text: string): boolean {
+  try {
+    parseRecurrenceRule(text);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Formatting
+
+function formatDateValue(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function formatWeekday(day: RRuleWeekday): string {
+  return `${day.ordinal ?? ''}${WEEKDAY_CODES[day.weekday]}`;
+}
+
+export function formatRRule(rule: RRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval !== 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byMonth.length > 0) parts.push(`BYMONTH=${rule.byMonth.join(',')}`);
+  if (rule.byMonthDay.length > 0) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+  if (rule.byDay.length > 0) parts.push(`BYDAY=${rule.byDay.map(formatWeekday).join(',')}`);
+  if (rule.bySetPos.length > 0) parts.push(`BYSETPOS=${rule.bySetPos.join(',')}`);
+  if (rule.count !== undefined) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) parts.push(`UNTIL=${formatDateValue(rule.until)}`);
+  if (rule.weekStart !== 1) parts.push(`WKST=${WEEKDAY_CODES[rule.weekStart]}`);
+  return parts.join(';');
+}
+
+// DTSTART is left out: patterns carry it as startDate
+export function formatRecurrenceRule(set: RecurrenceRuleSet): string {
+  const lines = [`RRULE:${formatRRule(set.rule)}`];
+  const exdates = [
+    ...set.exdays,
+    ...set.exdates.map(formatDateValue),
+  ];
+  if (exdates.length > 0) {
+    lines.push(`EXDATE:${exdates.join(',')}`);
+  }
+  return lines.join('\n');
+}
+
+// Structured patterns
+
+// Converts the structured pattern to an equivalent rule. Monthly days past the 28th
+// fall back to the month's last day, as the previous date arithmetic did.
+export function patternToRRule(pattern: RecurrencePattern): string {
+  if (pattern.type === RecurrenceType.Custom && pattern.customPattern && isValidRecurrenceRule(pattern.customPattern)) {
+    return formatRecurrenceRule(parseRecurrenceRule(pattern.customPattern));
+  }
+
+  const rule: RRule = {
+    freq: FREQUENCY_BY_TYPE[pattern.type],
+    interval: pattern.interval || 1,
+    byDay: [],
+    byMonthDay: [],
+    byMonth: [],
+    bySetPos: [],
+    weekStart: 1,
+  };
+
+  if (pattern.type === RecurrenceType.Weekly && pattern.daysOfWeek && pattern.daysOfWeek.length > 0) {
+    rule.byDay = [...new Set(pattern.daysOfWeek)].sort((a, b) => a - b).map(weekday => ({ weekday }));
+  }
+
+  if (pattern.type === RecurrenceType.Monthly) {
+    const day = pattern.dayOfMonth ?? new Date(pattern.startDate).getUTCDate();
+    if (day > 28) {
+      for (let d = 28; d <= day; d++) rule.byMonthDay.push(d);
+      rule.bySetPos = [-1];
+    } else {
+      rule.byMonthDay = [day];
+    }
+  }
+
+  if (pattern.endDate) {
+    rule.until = new Date(pattern.endDate);
+  }
+
+  return formatRecurrenceRule({ rule, exdates: [], exdays: [] });
+}
+
+export function recurrenceTypeForRule(text: string): RecurrenceType {
+  return TYPE_BY_FREQUENCY[parseRecurrenceRule(text).rule.freq];
+}
+
+// The rule a pattern recurs by: its stored rrule, or the structured fields converted
+export function resolveRecurrenceRule(pattern: RecurrencePattern): RecurrenceRuleSet {
+  const set = parseRecurrenceRule(pattern.rrule || patternToRRule(pattern));
+  return { ...set, dtstart: set.dtstart ?? new Date(pattern.startDate) };
+}
+
+// Iteration
+
+function dayKey(date: Date): string {
+  return formatDateValue(date).slice(0, 8);
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+function pickOrdinal<T>(items: T[], ordinal: number): T | undefined {
+  return ordinal > 0 ? items[ordinal - 1] : items[items.length + ordinal];
+}
+
+// Days (UTC midnight timestamps) in [from, from + length) matching BYDAY, with ordinals
+// counted within that span
+function daysMatchingByDay(from: number, length: number, byDay: RRuleWeekday[]): Set<number> {
+  const matches = new Set<number>();
+  for (const { weekday, ordinal } of byDay) {
+    const days: number[] = [];
+    for (let i = 0; i < length; i++) {
+      const day = from + i * DAY_MS;
+      if (new Date(day).getUTCDay() === weekday) days.push(day);
+    }
+    if (ordinal === undefined) {
+      days.forEach(d => matches.add(d));
+    } else {
+      const picked = pickOrdinal(days, ordinal);
+      if (picked !== undefined) matches.add(picked);
+    }
+  }
+  return matches;
+}
+
+function daysMatchingByMonthDay(year: number, month: number, byMonthDay: number[]): Set<number> {
+  const length = daysInMonth(year, month);
+  const matches = new Set<number>();
+  for (const day of byMonthDay) {
+    const dayOfMonth = day > 0 ? day : length + day + 1;
+    if (dayOfMonth >= 1 && dayOfMonth <= length) {
+      matches.add(Date.UTC(year, month, dayOfMonth));
+    }
+  }
+  return matches;
+}
+
+function intersect(a: Set<number>, b: Set<number>): Set<number> {
+  return new Set([...a].filter(x => b.has(x)));
+}
+
+function expandMonth(year: number, month: number, rule: RRule, dtstart: Date): Set<number> {
+  const byDay = rule.byDay.length > 0
+    ? daysMatchingByDay(Date.UTC(year, month, 1), daysInMonth(year, month), rule.byDay)
+    : undefined;
+  const byMonthDay = rule.byMonthDay.length > 0
+    ? daysMatchingByMonthDay(year, month, rule.byMonthDay)
+    : undefined;
+
+  if (byDay && byMonthDay) return intersect(byDay, byMonthDay);
+  if (byDay) return byDay;
+  if (byMonthDay) return byMonthDay;
+  return daysMatchingByMonthDay(year, month, [dtstart.getUTCDate()]);
+}
+
+function expandYear(year: number, rule: RRule, dtstart: Date): Set<number> {
+  if (rule.byMonth.length > 0) {
+    const days = new Set<number>();
+    for (const month of rule.byMonth) {
+      expandMonth(year, month - 1, rule, dtstart).forEach(d => days.add(d));
+    }
+    return days;
+  }
+
+  if (rule.byDay.length > 0) {
+    const from = Date.UTC(year, 0, 1);
+    const byDay = daysMatchingByDay(from, (Date.UTC(year + 1, 0, 1) - from) / DAY_MS, rule.byDay);
+    if (rule.byMonthDay.length === 0) return byDay;
+    const byMonthDay = new Set<number>();
+    for (let month = 0; month < 12; month++) {
+      daysMatchingByMonthDay(year, month, rule.byMonthDay).forEach(d => byMonthDay.add(d));
+    }
+    return intersect(byDay, byMonthDay);
+  }
+
+  if (rule.byMonthDay.length > 0) {
+    const days = new Set<number>();
+    for (let month = 0; month < 12; month++) {
+      daysMatchingByMonthDay(year, month, rule.byMonthDay).forEach(d => days.add(d));
+    }
+    return days;
+  }
+
+  return daysMatchingByMonthDay(year, dtstart.getUTCMonth(), [dtstart.getUTCDate()]);
+}
+
+// Candidate days of the period-th period after DTSTART's, before BYSETPOS
+function expandPeriod(rule: RRule, dtstart: Date, period: number): number[] {
+  const startDay = Date.UTC(dtstart.getUTCFullYear(), dtstart.getUTCMonth(), dtstart.getUTCDate());
+  const step = period * rule.interval;
+  let days: Set<number>;
+
+  switch (rule.freq) {
+    case 'DAILY': {
+      const day = startDay + step * DAY_MS;
+      const date = new Date(day);
+      const matches = (rule.byDay.length === 0 || rule.byDay.some(d => d.weekday === date.getUTCDay())) &&
+        (rule.byMonthDay.length === 0 ||
+          daysMatchingByMonthDay(date.getUTCFullYear(), date.getUTCMonth(), rule.byMonthDay).has(day));
+      days = new Set(matches ? [day] : []);
+      break;
+    }
+    case 'WEEKLY': {
+      const offset = (dtstart.getUTCDay() - rule.weekStart + 7) % 7;
+      const weekStart = startDay - offset * DAY_MS + step * 7 * DAY_MS;
+      const byDay = rule.byDay.length > 0 ? rule.byDay : [{ weekday: dtstart.getUTCDay() }];
+      days = daysMatchingByDay(weekStart, 7, byDay);
+      break;
+    }
+    case 'MONTHLY': {
+      const months = dtstart.getUTCMonth() + step;
+      days = expandMonth(dtstart.getUTCFullYear() + Math.floor(months / 12), months % 12, rule, dtstart);
+      break;
+    }
+    case 'YEARLY':
+      days = expandYear(dtstart.getUTCFullYear() + step, rule, dtstart);
+      break;
+  }
+
+  let sorted = [...days].sort((a, b) => a - b);
+  if (rule.byMonth.length > 0 && rule.freq !== 'YEARLY') {
+    sorted = sorted.filter(d => rule.byMonth.includes(new Date(d).getUTCMonth() + 1));
+  }
+  if (rule.bySetPos.length > 0) {
+    const picked = new Set<number>();
+    for (const pos of rule.bySetPos) {
+      const day = pickOrdinal(sorted, pos);
+      if (day !== undefined) picked.add(day);
+    }
+    sorted = [...picked].sort((a, b) => a - b);
+  }
+  return sorted;
+}
+
+// Occurrences in order from DTSTART, honouring COUNT, UNTIL and EXDATE. COUNT counts
+// excluded dates too, as RFC 5545 applies EXDATE after the rule.
+export function* iterateOccurrences(set: RecurrenceRuleSet): Generator<Date> {
+  const { rule } = set;
+  const dtstart = set.dtstart ?? new Date();
+  const timeOfDay = dtstart.getTime() - Date.UTC(dtstart.getUTCFullYear(), dtstart.getUTCMonth(), dtstart.getUTCDate());
+  const excluded = new Set(set.exdates.map(d => d.getTime()));
+  const excludedDays = new Set(set.exdays);
+  let produced = 0;
+
+  for (let period = 0; period < MAX_PERIODS; period++) {
+    for (const day of expandPeriod(rule, dtstart, period)) {
+      const occurrence = new Date(day + timeOfDay);
+      if (occurrence < dtstart) continue;
+      if (rule.until && occurrence > rule.until) return;
+      if (occurrence.getUTCFullYear() > 9999) return;
+
+      produced++;
+      if (!excluded.has(occurrence.getTime()) && !excludedDays.has(dayKey(occurrence))) {
+        yield occurrence;
+      }
+      if (rule.count !== undefined && produced >= rule.count) return;
+    }
+  }
+}
+
+// First occurrence strictly after the given date, or null once the series has ended
+export function nextOccurrence(set: RecurrenceRuleSet, after: Date): Date | null {
+  for (const occurrence of iterateOccurrences(set)) {
+    if (occurrence > after) return occurrence;
+  }
+  return null;
+}
+
+export function listOccurrences(set: RecurrenceRuleSet, after: Date, limit: number): Date[] {
+  const occurrences: Date[] = [];
+  if (limit <= 0) return occurrences;
+  for (const occurrence of iterateOccurrences(set)) {
+    if (occurrence > after) {
+      occurrences.push(occurrence);
+      if (occurrences.length >= limit) break;
+    }
+  }
+  return occurrences;
+}
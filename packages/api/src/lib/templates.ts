@@ -0,0 +1,83 @@
+import { DependencyType, Priority, TemplateTask } from '../types';
+
+// Task templates keep a tree of tasks with {{placeholders}} in their titles and descriptions,
+// filled in with the caller's values when the template is instantiated.
+
+const PLACEHOLDER = /\{\{\s*([A-Za-z_][\w.-]*)\s*\}\}/g;
+
+const MINUTE_MS = 60 * 1000;
+
+// A task of the tree a template is made from, with the relations it keeps
+export interface TemplateSource {
+  id: string;
+  parentId: string | null;
+  title: string;
+  description: string | null;
+  priority: `${Priority}`;
+  dueAt: Date | null;
+  estimatedDurationMinutes: number;
+  allowParentAutoComplete: boolean;
+  isSplittable: boolean;
+  minChunkMinutes: number | null;
+  labelIds: string[];
+  dependencies: Array<{ dependsOnTaskId: string; type: `${DependencyType}`; lagMinutes: number }>;
+}
+
+// Placeholder names used across the tree, sorted
+export function templateVariables(tasks: Array<Pick<TemplateTask, 'title' | 'description'>>): string[] {
+  const names = new Set<string>();
+  for (const task of tasks) {
+    for (const text of [task.title, task.description ?? '']) {
+      for (const match of Array.from(text.matchAll(PLACEHOLDER))) {
+        names.add(match[1]);
+      }
+    }
+  }
+  return Array.from(names).sort();
+}
+
+// Placeholders without a value are left as they are
+export function fillPlaceholders(text: string, values: Record<string, string>): string {
+  return text.replace(PLACEHOLDER, (placeholder, name: string) => values[name] ?? placeholder);
+}
+
+// Turns values found in the text back into placeholders, longest value first so a value
+// that contains another wins
+export function toPlaceholders(text: string, variables: Record<string, string>): string {
+  const byLength = Object.entries(variables)
+    .filter(([, value]) => value.length > 0)
+    .sort(([, a], [, b]) => b.length - a.length);
+  return byLength.reduce((result, [name, value]) => result.split(value).join(`{{${name}}}`), text);
+}
+
+// The tree as a template: tasks keyed by their position, parents first, due dates as minutes from
+// the root's due date (or the earliest one in the tree), and only dependencies within the tree.
+// sources must list parents before their children, starting with the root.
+export function snapshotTemplate(sources: TemplateSource[], variables: Record<string, string> = {}): TemplateTask[] {
+  const keys = new Map(sources.map((source, index) => [source.id, String(index + 1)]));
+  const dueTimes = sources.filter(s => s.dueAt).map(s => s.dueAt!.getTime());
+  const anchor = sources[0]?.dueAt?.getTime() ?? (dueTimes.length > 0 ? Math.min(...dueTimes) : null);
+
+  return sources.map(source => ({
+    key: keys.get(source.id)!,
+    parentKey: source.parentId ? keys.get(source.parentId) ?? null : null,
+    title: toPlaceholders(source.title, variables),
+    description: source.description === null ? null : toPlaceholders(source.description, variables),
+    priority: source.priority,
+    estimatedDurationMinutes: source.estimatedDurationMinutes,
+    allowParentAutoComplete: source.allowParentAutoComplete,
+    isSplittable: source.isSplittable,
+    minChunkMinutes: source.minChunkMinutes,
+    labelIds: source.labelIds,
+    dueOffsetMinutes: source.dueAt && anchor !== null
+      ? Math.round((source.dueAt.getTime() - anchor) / MINUTE_MS)
+      : null,
+    dependencies: source.dependencies
+      .filter(d => keys.has(d.dependsOnTaskId))
+      .map(d => ({ dependsOnKey: keys.get(d.dependsOnTaskId)!, type: d.type, lagMinutes: d.lagMinutes })),
+  }));
+}
+
+export function dueFromOffset(anchorDate: Date, offsetMinutes: number | null): Date | null {
+  return offsetMinutes === null ? null : new Date(anchorDate.getTime() + offsetMinutes * MINUTE_MS);
+}
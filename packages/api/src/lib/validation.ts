@@ -1,16 +1,30 @@
 import { z } from 'zod';
-import { TaskStatus, Priority, RecurrenceType } from '../types';
+import { TaskStatus, Priority, RecurrenceType, DependencyType, DependencyCloneMode, ProjectRole } from '../types';
+import { parseRecurrenceRule, recurrenceTypeForRule } from './rrule';
+import { AUDITED_FIELDS, AUDITED_RELATIONS } from './audit';
 
 // Base schemas
 export const taskStatusSchema = z.nativeEnum(TaskStatus);
 export const prioritySchema = z.nativeEnum(Priority);
+export const dependencyTypeSchema = z.nativeEnum(DependencyType);
 
 // Recurring task schemas
 export const recurrenceTypeSchema = z.nativeEnum(RecurrenceType);
 
+export const rruleSchema = z.string().max(2000).superRefine((val, ctx) => {
+  try {
+    parseRecurrenceRule(val);
+  } catch (error) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: error instanceof Error ? error.message : 'Invalid RRULE.',
+    });
+  }
+});
+
 export const recurrencePatternSchema = z.object({
-  type: recurrenceTypeSchema,
-  interval: z.number().int().min(1),
+  type: recurrenceTypeSchema.optional(), // derived from FREQ when only an rrule is given
+  interval: z.number().int().min(1).optional().default(1),
   startDate: z.string().transform((val, ctx) => {
     try {
       const date = new Date(val);
@@ -53,7 +67,15 @@ export const recurrencePatternSchema = z.object({
   daysOfWeek: z.array(z.number().int().min(0).max(6)).optional(), // 0=Sunday, 1=Monday, etc.
   dayOfMonth: z.number().int().min(1).max(31).optional(),
   customPattern: z.string().optional(),
-});
+  rrule: rruleSchema.optional(), // RFC 5545, e.g. "RRULE:FREQ=MONTHLY;BYDAY=FR;BYSETPOS=-1"
+  mode: z.enum(['fixed', 'afterCompletion']).optional(),
+}).refine(pattern => pattern.type !== undefined || pattern.rrule !== undefined, {
+  message: 'Either type or rrule is required.',
+  path: ['type'],
+}).transform(pattern => ({
+  ...pattern,
+  type: pattern.type ?? recurrenceTypeForRule(pattern.rrule!),
+}));
 
 // Task schemas
 export const createTaskSchema = z.object({
@@ -84,8 +106,11 @@ export const createTaskSchema = z.object({
   }),
   estimatedDurationMinutes: z.number().int().min(0).optional().default(30),
   allowParentAutoComplete: z.boolean().optional().default(false),
+  isSplittable: z.boolean().optional().default(false),
+  minChunkMinutes: z.number().int().min(1).optional(),
   parentId: z.string().cuid().optional().or(z.literal('')).transform(val => val === '' ? undefined : val),
   labelIds: z.array(z.string().cuid()).optional(),
+  assigneeIds: z.array(z.string().cuid()).optional(),
   // Recurring task fields
   isRecurring: z.boolean().optional().default(false),
   recurrencePattern: recurrencePatternSchema.optional(),
@@ -120,8 +145,11 @@ export const updateTaskSchema = z.object({
   }),
   estimatedDurationMinutes: z.number().int().min(0).optional(),
   allowParentAutoComplete: z.boolean().optional(),
+  isSplittable: z.boolean().optional(),
+  minChunkMinutes: z.number().int().min(1).nullable().optional(),
   parentId: z.string().cuid().nullable().optional().or(z.literal('')).transform(val => val === '' ? null : val),
   labelIds: z.array(z.string().cuid()).optional(),
+  assigneeIds: z.array(z.string().cuid()).optional(),
   // Recurring task fields
   isRecurring: z.boolean().optional(),
   recurrencePattern: recurrencePatternSchema.nullable().optional(),
@@ -133,17 +161,33 @@ export const taskFilterSchema = z.object({
   priority: prioritySchema.optional(),
   parentId: z.string().cuid().nullable().optional().or(z.literal('')).transform(val => val === '' ? null : val),
   q: z.string().optional(),
+  assigneeId: z.string().cuid().optional(),
+  projectId: z.string().cuid().optional(),
   page: z.number().int().min(1).optional().default(1),
   limit: z.number().int().min(1).max(200).optional().default(200),
 });
 
 // Dependency schemas
-export const addDependencySchema = z.object({
+// Lag or lead of up to a year
+export const lagMinutesSchema = z.number().int().min(-525600).max(525600);
+
+export const dependencyOptionsSchema = z.object({
+  type: dependencyTypeSchema.optional(),
+  lagMinutes: lagMinutesSchema.optional(),
+});
+
+export const addDependencySchema = dependencyOptionsSchema.extend({
   dependsOnTaskId: z.string().cuid(),
 });
 
+export const updateDependencySchema = dependencyOptionsSchema.refine(
+  options => options.type !== undefined || options.lagMinutes !== undefined,
+  { message: 'Provide a type or lagMinutes to update.' }
+);
+
+// Plain IDs are finish-to-start links with no lag
 export const setDependenciesSchema = z.object({
-  dependsOnTaskIds: z.array(z.string().cuid()),
+  dependsOnTaskIds: z.array(z.union([z.string().cuid(), addDependencySchema])),
 });
 
 // Completion schemas
@@ -155,7 +199,7 @@ export const completeTaskSchema = z.object({
 export const workingHoursSchema = z.object({
   start: z.string().regex(/^([01]?[0-9]|2[0-3]):[0-5][0-9]$/), // HH:mm format
   end: z.string().regex(/^([01]?[0-9]|2[0-3]):[0-5][0-9]$/),   // HH:mm format
-  timezone: z.string().optional(),
+  timezone: z.string().optional(), // IANA zone, checked by planSchedule
 });
 
 export const scheduleOptionsSchema = z.object({
@@ -181,11 +225,152 @@ export const scheduleOptionsSchema = z.object({
       return z.NEVER;
     }
   }),
+  calendarId: z.string().cuid().optional(),
   dailyCapacity: z.number().int().min(1).optional(),
+  minChunkMinutes: z.number().int().min(1).optional(),
+  strategy: z.enum(['earliest-deadline-first', 'priority-first', 'score']).optional(),
+  mode: z.enum(['sequential', 'byAssignee']).optional(),
   commit: z.boolean().optional().default(false),
 });
 
+// Work calendar schemas
+const timeOfDaySchema = z.string().regex(/^([01]?[0-9]|2[0-3]):[0-5][0-9]$/); // HH:mm format
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+export const workingIntervalSchema = z.object({
+  start: timeOfDaySchema,
+  end: timeOfDaySchema,
+}).refine(interval => toMinutes(interval.start) < toMinutes(interval.end), {
+  message: 'Interval start must be before its end.',
+});
+
+export const weeklyHoursSchema = z.record(
+  z.enum(['0', '1', '2', '3', '4', '5', '6']), // 0=Sunday, 1=Monday, etc.
+  z.array(workingIntervalSchema)
+).transform(weeklyHours => {
+  const result: Record<number, Array<{ start: string; end: string }>> = {};
+  for (const [weekday, intervals] of Object.entries(weeklyHours)) {
+    result[Number(weekday)] = [...(intervals || [])].sort((a, b) => toMinutes(a.start) - toMinutes(b.start));
+  }
+  return result;
+});
+
+export const calendarHolidaySchema = z.object({
+  name: z.string().min(1).max(100),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Holiday date must be in yyyy-MM-dd format.'),
+});
+
+export const calendarBlackoutSchema = z.object({
+  name: z.string().max(100).optional(),
+  start: z.string().transform((val, ctx) => {
+    const date = new Date(val);
+    if (isNaN(date.getTime())) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'Invalid blackout start date format.',
+      });
+      return z.NEVER;
+    }
+    return date;
+  }),
+  end: z.string().transform((val, ctx) => {
+    const date = new Date(val);
+    if (isNaN(date.getTime())) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'Invalid blackout end date format.',
+      });
+      return z.NEVER;
+    }
+    return date;
+  }),
+}).refine(blackout => blackout.start < blackout.end, {
+  message: 'Blackout start must be before its end.',
+});
+
+export const createWorkCalendarSchema = z.object({
+  name: z.string().min(1).max(100),
+  timezone: z.string().refine(isValidTimezone, 'Invalid IANA timezone.').optional().default('UTC'),
+  weeklyHours: weeklyHoursSchema,
+  holidays: z.array(calendarHolidaySchema).optional(),
+  blackouts: z.array(calendarBlackoutSchema).optional(),
+});
+
+export const updateWorkCalendarSchema = z.object({
+  name: z.string().min(1).max(100).optional(),
+  timezone: z.string().refine(isValidTimezone, 'Invalid IANA timezone.').optional(),
+  weeklyHours: weeklyHoursSchema.optional(),
+  holidays: z.array(calendarHolidaySchema).optional(),
+  blackouts: z.array(calendarBlackoutSchema).optional(),
+});
+
+// Pinned task and busy block schemas
+const instantSchema = (field: string) => z.string().transform((val, ctx) => {
+  const date = new Date(val);
+  if (isNaN(date.getTime())) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: `Invalid ${field} date format.`,
+    });
+    return z.NEVER;
+  }
+  return date;
+});
+
+export const pinTaskSchema = z.object({
+  start: instantSchema('pin start'),
+  end: instantSchema('pin end'),
+}).refine(pin => pin.start < pin.end, {
+  message: 'Pin start must be before its end.',
+});
+
+export const createBusyBlockSchema = z.object({
+  title: z.string().min(1).max(200),
+  description: z.string().optional(),
+  start: instantSchema('busy block start'),
+  end: instantSchema('busy block end'),
+}).refine(block => block.start < block.end, {
+  message: 'Busy block start must be before its end.',
+});
+
+export const updateBusyBlockSchema = z.object({
+  title: z.string().min(1).max(200).optional(),
+  description: z.string().nullable().optional(),
+  start: instantSchema('busy block start').optional(),
+  end: instantSchema('busy block end').optional(),
+}).refine(block => !block.start || !block.end || block.start < block.end, {
+  message: 'Busy block start must be before its end.',
+});
+
+export const busyBlockQuerySchema = z.object({
+  from: instantSchema('from').optional(),
+  to: instantSchema('to').optional(),
+});
+
+// Upcoming occurrences of a pattern, for previewing a rule before saving it
+export const previewRecurrenceSchema = z.object({
+  recurrencePattern: recurrencePatternSchema,
+  after: instantSchema('preview after').optional(),
+  count: z.number().int().min(1).max(50).optional().default(5),
+});
+
+export const postponeOccurrenceSchema = z.object({
+  dueAt: instantSchema('postponed due'),
+});
+
+export const seriesSettingsSchema = z.object({
+  cloneLabels: z.boolean().optional(),
+  cloneSubtasks: z.boolean().optional(),
+  cloneDependencies: z.nativeEnum(DependencyCloneMode).optional(),
+});
+
 // Bulk import schemas
+const importKeySchema = z.string().trim().min(1).max(100);
+
 export const bulkImportTaskSchema = z.object({
   title: z.string().min(3).max(200),
   description: z.string().optional(),
@@ -213,12 +398,21 @@ export const bulkImportTaskSchema = z.object({
   }),
   estimatedDurationMinutes: z.number().int().min(0).optional(),
   allowParentAutoComplete: z.boolean().optional(),
+  isSplittable: z.boolean().optional(),
+  minChunkMinutes: z.number().int().min(1).optional(),
   parentId: z.string().cuid().optional().or(z.literal('')).transform(val => val === '' ? undefined : val),
   dependencies: z.array(z.string().cuid()).optional(),
+  key: importKeySchema.optional(),
+  parentKey: importKeySchema.optional(),
+  dependsOnKeys: z.array(importKeySchema).optional(),
+}).refine(task => !(task.parentId && task.parentKey), {
+  message: 'Use either parentId or parentKey, not both',
+  path: ['parentKey'],
 });
 
 export const bulkImportSchema = z.object({
   tasks: z.array(bulkImportTaskSchema),
+  dryRun: z.boolean().optional().default(false),
 });
 
 // Export schemas
@@ -236,6 +430,67 @@ export const registerSchema = z.object({
   name: z.string().optional(),
 });
 
+export const apiTokenScopeSchema = z.enum(['tasks:read', 'tasks:write', 'schedule:commit', 'labels:admin']);
+
+export const createApiTokenSchema = z.object({
+  name: z.string().min(1).max(100),
+  scopes: z.array(apiTokenScopeSchema).min(1),
+  rateLimit: z.number().int().min(1).max(100000).optional(),
+  expiresAt: instantSchema('token expiry').optional(),
+});
+
+// Unset fields fall back to the plan's own options when scheduling by assignee
+export const availabilitySchema = z.object({
+  workingHours: workingHoursSchema.extend({
+    timezone: z.string().refine(isValidTimezone, 'Invalid IANA timezone.').optional(),
+  }).nullable().optional(),
+  calendarId: z.string().cuid().nullable().optional(),
+  dailyCapacityMinutes: z.number().int().min(1).max(1440).nullable().optional(),
+});
+
+// Project schemas
+export const projectRoleSchema = z.nativeEnum(ProjectRole);
+
+export const createProjectSchema = z.object({
+  name: z.string().min(1).max(100),
+  description: z.string().optional(),
+});
+
+export const updateProjectSchema = z.object({
+  name: z.string().min(1).max(100).optional(),
+  description: z.string().nullable().optional(),
+});
+
+export const projectMemberSchema = z.object({
+  email: z.string().email(),
+  role: projectRoleSchema,
+});
+
+// Comment schemas
+export const createCommentSchema = z.object({
+  body: z.string().trim().min(1).max(10000),
+  parentId: z.string().cuid().optional(),
+});
+
+export const updateCommentSchema = z.object({
+  body: z.string().trim().min(1).max(10000),
+});
+
+// Template schemas
+const templateVariableNameSchema = z.string().regex(/^[A-Za-z_][\w.-]*$/, 'Use letters, digits, _, . or - for variable names');
+
+export const createTemplateSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  description: z.string().max(2000).optional(),
+  variables: z.record(templateVariableNameSchema, z.string().min(1).max(100)).optional(),
+});
+
+export const instantiateTemplateSchema = z.object({
+  variables: z.record(templateVariableNameSchema, z.string().max(100)).optional().default({}),
+  anchorDate: instantSchema('anchor').optional(),
+  parentId: z.string().cuid().nullable().optional(),
+});
+
 // Query parameter schemas
 export const taskQuerySchema = z.object({
   status: taskStatusSchema.optional(),
@@ -257,6 +512,67 @@ export const taskQuerySchema = z.object({
   dateRange: z.enum(['today', 'overdue', 'thisWeek', 'thisMonth', 'custom']).optional(),
   startDate: z.string().optional(),
   endDate: z.string().optional(),
+  projectId: z.string().cuid().optional(),
+  assigneeId: z.string().cuid().optional(),
+});
+
+// ?force=true lets a task start while it still has open blockers
+// ?scope=future|all carries series fields to later or all occurrences of a recurring task
+export const updateTaskQuerySchema = z.object({
+  force: z.enum(['true', 'false']).optional().transform(val => val === 'true'),
+  scope: z.enum(['this', 'future', 'all']).optional().default('this'),
+});
+
+export const deleteTaskQuerySchema = z.object({
+  children: z.enum(['cascade', 'reparent', 'orphan']).optional(),
+});
+
+export const cloneTaskSchema = z.object({
+  title: z.string().min(1).max(200).optional(),
+  parentId: z.string().cuid().nullable().optional(),
+  shiftDays: z.number().int().min(-3650).max(3650).optional(),
+});
+
+export const moveTaskSchema = z.object({
+  parentId: z.string().cuid().nullable(),
+});
+
+export const trashQuerySchema = z.object({
+  page: z.union([
+    z.string().transform(val => parseInt(val, 10)),
+    z.number()
+  ]).pipe(z.number().int().min(1)).optional().default(1),
+  limit: z.union([
+    z.string().transform(val => parseInt(val, 10)),
+    z.number()
+  ]).pipe(z.number().int().min(1).max(200)).optional().default(50),
+});
+
+export const seriesQuerySchema = z.object({
+  upcoming: z.string().optional().transform(val => (val ? parseInt(val, 10) : 5))
+    .pipe(z.number().int().min(0).max(50)),
+});
+
+export const historyQuerySchema = z.object({
+  fieldName: z.string().max(50).optional(),
+  page: z.union([
+    z.string().transform(val => parseInt(val, 10)),
+    z.number()
+  ]).pipe(z.number().int().min(1)).optional().default(1),
+  limit: z.union([
+    z.string().transform(val => parseInt(val, 10)),
+    z.number()
+  ]).pipe(z.number().int().min(1).max(200)).optional().default(50),
+});
+
+export const revertTaskSchema = z.object({
+  auditId: z.string().cuid().optional(),
+  at: instantSchema('at').optional(),
+  fields: z.array(z.enum([...AUDITED_FIELDS, ...AUDITED_RELATIONS])).min(1).optional(),
+  dryRun: z.boolean().optional().default(false),
+}).refine(data => (data.auditId === undefined) !== (data.at === undefined), {
+  message: 'Provide either auditId or at',
+  path: ['auditId'],
 });
 
 export const exportQuerySchema = z.object({
@@ -273,6 +589,15 @@ export const dependencyIdParamSchema = z.object({
   dependsOnTaskId: z.string().cuid(),
 });
 
+export const commentIdParamSchema = z.object({
+  id: z.string().cuid(),
+  commentId: z.string().cuid(),
+});
+
+export const templateIdParamSchema = z.object({
+  templateId: z.string().cuid(),
+});
+
 // Utility functions
 export function validateId(id: string): string {
   const result = z.string().cuid().safeParse(id);
@@ -282,6 +607,15 @@ export function validateId(id: string): string {
   return result.data;
 }
 
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-GB', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
 export function validateDate(date: string): Date {
   try {
     const parsedDate = new Date(date);
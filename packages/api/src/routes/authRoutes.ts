@@ -0,0 +1,351 @@
+import { Router } from 'express';
+import { AuthController } from '../controllers/authController';
+import { requireAuth, requireSession } from '../lib/auth';
+
+const router = Router();
+const authController = new AuthController();
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     AuthUser:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *         email:
+ *           type: string
+ *           format: email
+ *         name:
+ *           type: string
+ *           nullable: true
+ *     AuthSession:
+ *       type: object
+ *       properties:
+ *         user:
+ *           $ref: '#/components/schemas/AuthUser'
+ *         token:
+ *           type: string
+ *           description: JWT for the Authorization header as a bearer token; also set as the deano_session cookie
+ *         expiresAt:
+ *           type: string
+ *           format: date-time
+ *     ApiToken:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *         name:
+ *           type: string
+ *         prefix:
+ *           type: string
+ *           description: First characters of the secret
+ *         scopes:
+ *           type: array
+ *           items:
+ *             type: string
+ *             enum: [tasks:read, tasks:write, schedule:commit, labels:admin]
+ *         rateLimit:
+ *           type: integer
+ *           nullable: true
+ *           description: Requests per rate-limit window (RATE_LIMIT_MAX_REQUESTS when null)
+ *         lastUsedAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         expiresAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         revokedAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *     UserAvailability:
+ *       type: object
+ *       description: When you work, for planning tasks assigned to you in byAssignee mode. Unset fields fall back to the plan's options.
+ *       properties:
+ *         workingHours:
+ *           type: object
+ *           nullable: true
+ *           properties:
+ *             start:
+ *               type: string
+ *               example: "09:00"
+ *             end:
+ *               type: string
+ *               example: "17:30"
+ *             timezone:
+ *               type: string
+ *               example: Europe/London
+ *         calendarId:
+ *           type: string
+ *           nullable: true
+ *           description: Work calendar to plan on, taking precedence over workingHours
+ *         dailyCapacityMinutes:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 1440
+ *           nullable: true
+ */
+
+/**
+ * @swagger
+ * /api/auth/register:
+ *   post:
+ *     summary: Create an account and start a session
+ *     tags: [Auth]
+ *     security: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - email
+ *               - password
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *               password:
+ *                 type: string
+ *                 minLength: 6
+ *               name:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Account created; the first account also adopts tasks created before accounts existed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   $ref: '#/components/schemas/AuthSession'
+ *       409:
+ *         description: An account with this email already exists
+ *       422:
+ *         description: Validation error
+ */
+router.post('/register', authController.register.bind(authController));
+
+/**
+ * @swagger
+ * /api/auth/login:
+ *   post:
+ *     summary: Start a session
+ *     tags: [Auth]
+ *     security: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - email
+ *               - password
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *               password:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Logged in
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   $ref: '#/components/schemas/AuthSession'
+ *       401:
+ *         description: Invalid email or password
+ */
+router.post('/login', authController.login.bind(authController));
+
+/**
+ * @swagger
+ * /api/auth/logout:
+ *   post:
+ *     summary: End the web session by clearing its cookie
+ *     tags: [Auth]
+ *     security: []
+ *     responses:
+ *       204:
+ *         description: Logged out
+ */
+router.post('/logout', authController.logout.bind(authController));
+
+/**
+ * @swagger
+ * /api/auth/me:
+ *   get:
+ *     summary: Get the logged-in user
+ *     tags: [Auth]
+ *     responses:
+ *       200:
+ *         description: The current user (null when BYPASS_AUTH=true)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   $ref: '#/components/schemas/AuthUser'
+ *       401:
+ *         description: Not logged in
+ */
+router.get('/me', requireAuth, authController.me.bind(authController));
+
+/**
+ * @swagger
+ * /api/auth/me/availability:
+ *   get:
+ *     summary: Get your working hours and daily capacity
+ *     tags: [Auth]
+ *     responses:
+ *       200:
+ *         description: Your availability
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   $ref: '#/components/schemas/UserAvailability'
+ *       401:
+ *         description: Not logged in
+ *       403:
+ *         description: API tokens can't manage account settings
+ *   put:
+ *     summary: Set your working hours and daily capacity
+ *     description: Fields left out keep their value; null clears them.
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/UserAvailability'
+ *     responses:
+ *       200:
+ *         description: Availability updated
+ *       401:
+ *         description: Not logged in
+ *       403:
+ *         description: API tokens can't manage account settings
+ *       404:
+ *         description: Calendar not found
+ *       422:
+ *         description: Validation error
+ */
+router.get('/me/availability', requireAuth, requireSession, authController.getAvailability.bind(authController));
+router.put('/me/availability', requireAuth, requireSession, authController.updateAvailability.bind(authController));
+
+/**
+ * @swagger
+ * /api/auth/tokens:
+ *   post:
+ *     summary: Create an API token
+ *     description: Needs a login session. The secret is only returned here; send it as a bearer token.
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - scopes
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 maxLength: 100
+ *               scopes:
+ *                 type: array
+ *                 minItems: 1
+ *                 items:
+ *                   type: string
+ *                   enum: [tasks:read, tasks:write, schedule:commit, labels:admin]
+ *               rateLimit:
+ *                 type: integer
+ *                 minimum: 1
+ *               expiresAt:
+ *                 type: string
+ *                 format: date-time
+ *     responses:
+ *       201:
+ *         description: Token created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     token:
+ *                       $ref: '#/components/schemas/ApiToken'
+ *                     secret:
+ *                       type: string
+ *       403:
+ *         description: API tokens cannot create tokens
+ *       409:
+ *         description: Expiry is in the past
+ *   get:
+ *     summary: List your API tokens, including revoked ones
+ *     tags: [Auth]
+ *     responses:
+ *       200:
+ *         description: Tokens, newest first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/ApiToken'
+ */
+router.post('/tokens', requireAuth, requireSession, authController.createToken.bind(authController));
+router.get('/tokens', requireAuth, requireSession, authController.listTokens.bind(authController));
+
+/**
+ * @swagger
+ * /api/auth/tokens/{id}:
+ *   delete:
+ *     summary: Revoke an API token
+ *     tags: [Auth]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Token revoked; it stops working immediately
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   $ref: '#/components/schemas/ApiToken'
+ *       404:
+ *         description: Token not found
+ */
+router.delete('/tokens/:id', requireAuth, requireSession, authController.revokeToken.bind(authController));
+
+export default router;
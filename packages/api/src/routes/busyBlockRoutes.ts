@@ -0,0 +1,222 @@
+import { Request, Router } from 'express';
+import { BusyBlockService } from '../services/busyBlockService';
+import { requireScope } from '../lib/auth';
+import { prisma } from '../lib/database';
+import {
+  validateRequest,
+  createBusyBlockSchema,
+  updateBusyBlockSchema,
+  busyBlockQuerySchema,
+} from '../lib/validation';
+import { ValidationError } from '../types';
+
+const router = Router();
+// The logged-in user's busy blocks, or the project's under /api/projects/:projectId
+const serviceFor = (req: Request) => new BusyBlockService(prisma, { ownerId: req.user?.id, projectId: req.project?.id });
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     BusyBlock:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *         title:
+ *           type: string
+ *           maxLength: 200
+ *         description:
+ *           type: string
+ *           nullable: true
+ *         start:
+ *           type: string
+ *           format: date-time
+ *         end:
+ *           type: string
+ *           format: date-time
+ *     BusyBlockInput:
+ *       type: object
+ *       required:
+ *         - title
+ *         - start
+ *         - end
+ *       properties:
+ *         title:
+ *           type: string
+ *           maxLength: 200
+ *           example: Team meeting
+ *         description:
+ *           type: string
+ *         start:
+ *           type: string
+ *           format: date-time
+ *         end:
+ *           type: string
+ *           format: date-time
+ */
+
+/**
+ * @swagger
+ * /api/schedule/busy-blocks:
+ *   get:
+ *     summary: List busy blocks (non-task time the planner schedules around)
+ *     tags: [Scheduling]
+ *     parameters:
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Only blocks ending after this instant
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Only blocks starting before this instant
+ *     responses:
+ *       200:
+ *         description: Busy blocks retrieved successfully
+ *       400:
+ *         description: Invalid date range
+ *   post:
+ *     summary: Create a busy block
+ *     tags: [Scheduling]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/BusyBlockInput'
+ *     responses:
+ *       201:
+ *         description: Busy block created successfully
+ *       400:
+ *         description: Validation failed
+ */
+router.get('/', requireScope('tasks:read'), async (req, res) => {
+  try {
+    const query = busyBlockQuerySchema.safeParse(req.query);
+    if (!query.success) {
+      return res.status(400).json({ error: { message: 'Validation failed', details: query.error.errors } });
+    }
+
+    const busyBlocks = await serviceFor(req).getBusyBlocks(query.data);
+    return res.json({ data: busyBlocks });
+  } catch (error) {
+    console.error('Error fetching busy blocks:', error);
+    return res.status(500).json({ error: { message: 'Failed to fetch busy blocks' } });
+  }
+});
+
+router.post('/', requireScope('schedule:commit'), validateRequest(createBusyBlockSchema), async (req, res) => {
+  try {
+    const busyBlock = await serviceFor(req).createBusyBlock(req.body);
+    return res.status(201).json({ data: busyBlock });
+  } catch (error) {
+    console.error('Error creating busy block:', error);
+    return res.status(500).json({ error: { message: 'Failed to create busy block' } });
+  }
+});
+
+/**
+ * @swagger
+ * /api/schedule/busy-blocks/{id}:
+ *   get:
+ *     summary: Get a busy block
+ *     tags: [Scheduling]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Busy block retrieved successfully
+ *       404:
+ *         description: Busy block not found
+ *   put:
+ *     summary: Update a busy block
+ *     tags: [Scheduling]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/BusyBlockInput'
+ *     responses:
+ *       200:
+ *         description: Busy block updated successfully
+ *       400:
+ *         description: Validation failed or start is not before end
+ *       404:
+ *         description: Busy block not found
+ *   delete:
+ *     summary: Delete a busy block
+ *     tags: [Scheduling]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Busy block deleted successfully
+ *       404:
+ *         description: Busy block not found
+ */
+router.get('/:id', requireScope('tasks:read'), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const busyBlock = await serviceFor(req).getBusyBlockById(id);
+
+    if (!busyBlock) {
+      return res.status(404).json({ error: { message: 'Busy block not found' } });
+    }
+
+    return res.json({ data: busyBlock });
+  } catch (error) {
+    console.error('Error fetching busy block:', error);
+    return res.status(500).json({ error: { message: 'Failed to fetch busy block' } });
+  }
+});
+
+router.put('/:id', requireScope('schedule:commit'), validateRequest(updateBusyBlockSchema), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const busyBlock = await serviceFor(req).updateBusyBlock(id, req.body);
+    return res.json({ data: busyBlock });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      const status = error.code === 'INVALID_RANGE' ? 400 : 404;
+      return res.status(status).json({ error: { message: error.message } });
+    }
+    console.error('Error updating busy block:', error);
+    return res.status(500).json({ error: { message: 'Failed to update busy block' } });
+  }
+});
+
+router.delete('/:id', requireScope('schedule:commit'), async (req, res) => {
+  try {
+    const { id } = req.params;
+    await serviceFor(req).deleteBusyBlock(id);
+    return res.status(204).send();
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return res.status(404).json({ error: { message: error.message } });
+    }
+    console.error('Error deleting busy block:', error);
+    return res.status(500).json({ error: { message: 'Failed to delete busy block' } });
+  }
+});
+
+export default router;
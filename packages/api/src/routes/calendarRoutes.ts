@@ -0,0 +1,220 @@
+import { Request, Router } from 'express';
+import { CalendarService } from '../services/calendarService';
+import { requireScope } from '../lib/auth';
+import { prisma } from '../lib/database';
+import { validateRequest, createWorkCalendarSchema, updateWorkCalendarSchema } from '../lib/validation';
+import { ValidationError } from '../types';
+
+const router = Router();
+// The logged-in user's calendars, or the project's under /api/projects/:projectId
+const serviceFor = (req: Request) => new CalendarService(prisma, { ownerId: req.user?.id, projectId: req.project?.id });
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     WorkingInterval:
+ *       type: object
+ *       properties:
+ *         start:
+ *           type: string
+ *           pattern: '^([01]?[0-9]|2[0-3]):[0-5][0-9]$'
+ *           description: Start time in HH:mm format
+ *         end:
+ *           type: string
+ *           pattern: '^([01]?[0-9]|2[0-3]):[0-5][0-9]$'
+ *           description: End time in HH:mm format
+ *     WorkCalendarInput:
+ *       type: object
+ *       required:
+ *         - name
+ *         - weeklyHours
+ *       properties:
+ *         name:
+ *           type: string
+ *           maxLength: 100
+ *         timezone:
+ *           type: string
+ *           example: Europe/London
+ *           description: IANA timezone the hours are expressed in (default UTC)
+ *         weeklyHours:
+ *           type: object
+ *           description: Working intervals keyed by weekday (0=Sunday, 1=Monday, etc.). Missing days are non-working.
+ *           additionalProperties:
+ *             type: array
+ *             items:
+ *               $ref: '#/components/schemas/WorkingInterval'
+ *           example:
+ *             '1': [{ start: '09:00', end: '12:30' }, { start: '13:30', end: '17:30' }]
+ *         holidays:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               date:
+ *                 type: string
+ *                 format: date
+ *         blackouts:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               start:
+ *                 type: string
+ *                 format: date-time
+ *               end:
+ *                 type: string
+ *                 format: date-time
+ */
+
+/**
+ * @swagger
+ * /api/schedule/calendars:
+ *   get:
+ *     summary: List work calendars
+ *     tags: [Scheduling]
+ *     responses:
+ *       200:
+ *         description: Calendars retrieved successfully
+ *   post:
+ *     summary: Create a work calendar
+ *     tags: [Scheduling]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/WorkCalendarInput'
+ *     responses:
+ *       201:
+ *         description: Calendar created successfully
+ *       400:
+ *         description: Validation failed or name already exists
+ */
+router.get('/', requireScope('tasks:read'), async (req, res) => {
+  try {
+    const calendars = await serviceFor(req).getCalendars();
+    return res.json({ data: calendars });
+  } catch (error) {
+    console.error('Error fetching calendars:', error);
+    return res.status(500).json({ error: { message: 'Failed to fetch calendars' } });
+  }
+});
+
+router.post('/', requireScope('schedule:commit'), validateRequest(createWorkCalendarSchema), async (req, res) => {
+  try {
+    const calendar = await serviceFor(req).createCalendar(req.body);
+    return res.status(201).json({ data: calendar });
+  } catch (error) {
+    console.error('Error creating calendar:', error);
+    if (error instanceof Error && error.message.includes('Unique constraint')) {
+      return res.status(400).json({ error: { message: 'Calendar name already exists or holiday date is duplicated' } });
+    }
+    return res.status(500).json({ error: { message: 'Failed to create calendar' } });
+  }
+});
+
+/**
+ * @swagger
+ * /api/schedule/calendars/{id}:
+ *   get:
+ *     summary: Get a work calendar
+ *     tags: [Scheduling]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Calendar retrieved successfully
+ *       404:
+ *         description: Calendar not found
+ *   put:
+ *     summary: Update a work calendar (holidays and blackouts are replaced when provided)
+ *     tags: [Scheduling]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/WorkCalendarInput'
+ *     responses:
+ *       200:
+ *         description: Calendar updated successfully
+ *       404:
+ *         description: Calendar not found
+ *   delete:
+ *     summary: Delete a work calendar
+ *     tags: [Scheduling]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Calendar deleted successfully
+ *       404:
+ *         description: Calendar not found
+ */
+router.get('/:id', requireScope('tasks:read'), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const calendar = await serviceFor(req).getCalendarById(id);
+
+    if (!calendar) {
+      return res.status(404).json({ error: { message: 'Calendar not found' } });
+    }
+
+    return res.json({ data: calendar });
+  } catch (error) {
+    console.error('Error fetching calendar:', error);
+    return res.status(500).json({ error: { message: 'Failed to fetch calendar' } });
+  }
+});
+
+router.put('/:id', requireScope('schedule:commit'), validateRequest(updateWorkCalendarSchema), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const calendar = await serviceFor(req).updateCalendar(id, req.body);
+    return res.json({ data: calendar });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return res.status(404).json({ error: { message: error.message } });
+    }
+    console.error('Error updating calendar:', error);
+    if (error instanceof Error && error.message.includes('Unique constraint')) {
+      return res.status(400).json({ error: { message: 'Calendar name already exists or holiday date is duplicated' } });
+    }
+    return res.status(500).json({ error: { message: 'Failed to update calendar' } });
+  }
+});
+
+router.delete('/:id', requireScope('schedule:commit'), async (req, res) => {
+  try {
+    const { id } = req.params;
+    await serviceFor(req).deleteCalendar(id);
+    return res.status(204).send();
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return res.status(404).json({ error: { message: error.message } });
+    }
+    console.error('Error deleting calendar:', error);
+    return res.status(500).json({ error: { message: 'Failed to delete calendar' } });
+  }
+});
+
+export default router;
@@ -1,11 +1,14 @@
-import { Router } from 'express';
+import { Request, Router } from 'express';
 import { LabelService } from '../services/labelService';
+import { requireScope } from '../lib/auth';
 import { prisma } from '../lib/database';
 import { validateRequest } from '../lib/validation';
+import { ValidationError } from '../types';
 import { z } from 'zod';
 
 const router = Router();
-const labelService = new LabelService(prisma);
+// The logged-in user's labels, or the project's under /api/projects/:projectId/labels
+const serviceFor = (req: Request) => new LabelService(prisma, { ownerId: req.user?.id, projectId: req.project?.id });
 
 // Validation schemas
 const createLabelSchema = z.object({
@@ -21,9 +24,9 @@ const updateLabelSchema = z.object({
 });
 
 // Get all labels
-router.get('/', async (_req, res) => {
+router.get('/', requireScope('tasks:read'), async (req, res) => {
   try {
-    const labels = await labelService.getLabels();
+    const labels = await serviceFor(req).getLabels();
     return res.json({ data: labels });
   } catch (error) {
     console.error('Error fetching labels:', error);
@@ -32,10 +35,10 @@ router.get('/', async (_req, res) => {
 });
 
 // Get label by ID
-router.get('/:id', async (req, res) => {
+router.get('/:id', requireScope('tasks:read'), async (req, res) => {
   try {
     const { id } = req.params;
-    const label = await labelService.getLabelById(id);
+    const label = await serviceFor(req).getLabelById(id);
     
     if (!label) {
       return res.status(404).json({ error: { message: 'Label not found' } });
@@ -49,9 +52,9 @@ router.get('/:id', async (req, res) => {
 });
 
 // Create new label
-router.post('/', validateRequest(createLabelSchema), async (req, res) => {
+router.post('/', requireScope('labels:admin'), validateRequest(createLabelSchema), async (req, res) => {
   try {
-    const label = await labelService.createLabel(req.body);
+    const label = await serviceFor(req).createLabel(req.body);
     return res.status(201).json({ data: label });
   } catch (error) {
     console.error('Error creating label:', error);
@@ -63,16 +66,16 @@ router.post('/', validateRequest(createLabelSchema), async (req, res) => {
 });
 
 // Update label
-router.put('/:id', validateRequest(updateLabelSchema), async (req, res) => {
+router.put('/:id', requireScope('labels:admin'), validateRequest(updateLabelSchema), async (req, res) => {
   try {
     const { id } = req.params;
-    const label = await labelService.updateLabel(id, req.body);
+    const label = await serviceFor(req).updateLabel(id, req.body);
     return res.json({ data: label });
   } catch (error) {
-    console.error('Error updating label:', error);
-    if (error instanceof Error && error.message.includes('Record to update not found')) {
-      return res.status(404).json({ error: { message: 'Label not found' } });
+    if (error instanceof ValidationError) {
+      return res.status(404).json({ error: { message: error.message } });
     }
+    console.error('Error updating label:', error);
     if (error instanceof Error && error.message.includes('Unique constraint')) {
       return res.status(400).json({ error: { message: 'Label name already exists' } });
     }
@@ -81,19 +84,19 @@ router.put('/:id', validateRequest(updateLabelSchema), async (req, res) => {
 });
 
 // Delete label
-router.delete('/:id', async (req, res) => {
+router.delete('/:id', requireScope('labels:admin'), async (req, res) => {
   try {
     const { id } = req.params;
-    await labelService.deleteLabel(id);
+    await serviceFor(req).deleteLabel(id);
     return res.status(204).send();
   } catch (error) {
+    if (error instanceof ValidationError) {
+      return res.status(404).json({ error: { message: error.message } });
+    }
     console.error('Error deleting label:', error);
     if (error instanceof Error && error.message.includes('Cannot delete label that is used by')) {
       return res.status(400).json({ error: { message: error.message } });
     }
-    if (error instanceof Error && error.message.includes('Record to delete does not exist')) {
-      return res.status(404).json({ error: { message: 'Label not found' } });
-    }
     return res.status(500).json({ error: { message: 'Failed to delete label' } });
   }
 });
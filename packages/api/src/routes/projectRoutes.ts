@@ -0,0 +1,305 @@
+import { Router } from 'express';
+import { ProjectController } from '../controllers/projectController';
+import { requireProjectMember, requireProjectOwner, requireScope } from '../lib/auth';
+import taskRoutes from './taskRoutes';
+import labelRoutes from './labelRoutes';
+import scheduleRoutes from './scheduleRoutes';
+
+const router = Router();
+const projectController = new ProjectController();
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Project:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *         name:
+ *           type: string
+ *         description:
+ *           type: string
+ *           nullable: true
+ *         role:
+ *           type: string
+ *           enum: [Owner, Editor, Viewer]
+ *           nullable: true
+ *           description: The caller's role (null when BYPASS_AUTH=true)
+ *         taskCount:
+ *           type: integer
+ *         memberCount:
+ *           type: integer
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         updatedAt:
+ *           type: string
+ *           format: date-time
+ *     ProjectMember:
+ *       type: object
+ *       properties:
+ *         userId:
+ *           type: string
+ *         email:
+ *           type: string
+ *           format: email
+ *         name:
+ *           type: string
+ *           nullable: true
+ *         role:
+ *           type: string
+ *           enum: [Owner, Editor, Viewer]
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ */
+
+/**
+ * @swagger
+ * /api/projects:
+ *   post:
+ *     summary: Create a project, with yourself as its owner
+ *     tags: [Projects]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 maxLength: 100
+ *               description:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Project created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   $ref: '#/components/schemas/Project'
+ *       422:
+ *         description: Validation error
+ *   get:
+ *     summary: List the projects you are a member of
+ *     tags: [Projects]
+ *     responses:
+ *       200:
+ *         description: Projects, by name
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Project'
+ */
+router.post('/', requireScope('tasks:write'), projectController.createProject.bind(projectController));
+router.get('/', requireScope('tasks:read'), projectController.listProjects.bind(projectController));
+
+/**
+ * @swagger
+ * /api/projects/{projectId}:
+ *   get:
+ *     summary: Get a project
+ *     tags: [Projects]
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The project, with your role in it
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   $ref: '#/components/schemas/Project'
+ *       404:
+ *         description: Project not found, or you are not a member
+ *   patch:
+ *     summary: Rename or describe a project (owners only)
+ *     tags: [Projects]
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 maxLength: 100
+ *               description:
+ *                 type: string
+ *                 nullable: true
+ *     responses:
+ *       200:
+ *         description: Project updated
+ *       403:
+ *         description: Only owners can change the project
+ *       404:
+ *         description: Project not found, or you are not a member
+ *   delete:
+ *     summary: Delete a project with its tasks and labels (owners only)
+ *     tags: [Projects]
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Project deleted
+ *       403:
+ *         description: Only owners can delete the project
+ *       404:
+ *         description: Project not found, or you are not a member
+ */
+router.get('/:projectId', requireProjectMember, requireScope('tasks:read'), projectController.getProject.bind(projectController));
+router.patch('/:projectId', requireProjectMember, requireScope('tasks:write'), requireProjectOwner, projectController.updateProject.bind(projectController));
+router.delete('/:projectId', requireProjectMember, requireScope('tasks:write'), requireProjectOwner, projectController.deleteProject.bind(projectController));
+
+/**
+ * @swagger
+ * /api/projects/{projectId}/members:
+ *   get:
+ *     summary: List a project's members
+ *     tags: [Projects]
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Members, in the order they joined
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/ProjectMember'
+ *   put:
+ *     summary: Add a member by email or change their role (owners only)
+ *     tags: [Projects]
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - email
+ *               - role
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *               role:
+ *                 type: string
+ *                 enum: [Owner, Editor, Viewer]
+ *     responses:
+ *       200:
+ *         description: Member added or updated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   $ref: '#/components/schemas/ProjectMember'
+ *       403:
+ *         description: Only owners can manage members
+ *       404:
+ *         description: No account with this email
+ *       409:
+ *         description: The project's last owner can't be demoted
+ */
+router.get('/:projectId/members', requireProjectMember, requireScope('tasks:read'), projectController.listMembers.bind(projectController));
+router.put('/:projectId/members', requireProjectMember, requireScope('tasks:write'), requireProjectOwner, projectController.setMember.bind(projectController));
+
+/**
+ * @swagger
+ * /api/projects/{projectId}/members/{userId}:
+ *   delete:
+ *     summary: Remove a member (owners only)
+ *     tags: [Projects]
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Member removed
+ *       404:
+ *         description: Member not found
+ *       409:
+ *         description: The project's last owner can't be removed
+ */
+router.delete('/:projectId/members/:userId', requireProjectMember, requireScope('tasks:write'), requireProjectOwner, projectController.removeMember.bind(projectController));
+
+/**
+ * @swagger
+ * /api/projects/{projectId}/tasks:
+ *   get:
+ *     summary: List a project's tasks
+ *     description: Every /api/tasks route is also available under /api/projects/{projectId}/tasks, working on the project's tasks instead of your own. The same goes for /api/labels and /api/schedule (including /order and /plan). Viewers may only read.
+ *     tags: [Projects]
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The project's tasks, filtered and paginated as for /api/tasks
+ *       403:
+ *         description: Your role in the project doesn't allow this (INSUFFICIENT_ROLE)
+ *       404:
+ *         description: Project not found, or you are not a member
+ */
+router.use('/:projectId/tasks', requireProjectMember, taskRoutes);
+router.use('/:projectId/labels', requireProjectMember, labelRoutes);
+router.use('/:projectId/schedule', requireProjectMember, scheduleRoutes);
+
+export default router;
@@ -1,10 +1,16 @@
 import { Router } from 'express';
+import { ZodError } from 'zod';
 import { TaskService } from '../services/taskService';
 import { scheduleOptionsSchema } from '../lib/validation';
-import { DependencyCycleError } from '../types';
+import { hasScope, rejectMissingScope, requireScope, resolveProjectFilter } from '../lib/auth';
+import { DependencyCycleError, ValidationError } from '../types';
+import calendarRoutes from './calendarRoutes';
+import busyBlockRoutes from './busyBlockRoutes';
 
 const router = Router();
-const taskService = new TaskService();
+
+router.use('/calendars', calendarRoutes);
+router.use('/busy-blocks', busyBlockRoutes);
 
 /**
  * @swagger
@@ -23,15 +29,19 @@ const taskService = new TaskService();
  *           description: End time in HH:mm format
  *         timezone:
  *           type: string
- *           description: Timezone (optional)
+ *           example: Europe/London
+ *           description: IANA timezone the working hours are expressed in (default UTC). DST transitions are honoured.
  *     ScheduleOptions:
  *       type: object
  *       properties:
  *         filter:
  *           type: object
- *           description: Task filter options
+ *           description: Task filter options; a projectId plans that project's tasks, with your role in it
  *         workingHours:
  *           $ref: '#/components/schemas/WorkingHours'
+ *         calendarId:
+ *           type: string
+ *           description: Work calendar to plan against; replaces workingHours and skips non-working days, holidays and blackouts
  *         startDate:
  *           type: string
  *           format: date-time
@@ -40,6 +50,21 @@ const taskService = new TaskService();
  *           type: integer
  *           minimum: 1
  *           description: Daily capacity in minutes
+ *         minChunkMinutes:
+ *           type: integer
+ *           minimum: 1
+ *           default: 30
+ *           description: Smallest segment a splittable task is cut into, unless the task sets its own
+ *         strategy:
+ *           type: string
+ *           enum: [earliest-deadline-first, priority-first, score]
+ *           default: earliest-deadline-first
+ *           description: Order in which ready tasks are placed (score uses the /api/tasks/order weighting). Blockers always come first and inherit the urgency of their dependants.
+ *         mode:
+ *           type: string
+ *           enum: [sequential, byAssignee]
+ *           default: sequential
+ *           description: sequential plans all tasks on one timeline. byAssignee plans each assignee's tasks on their own timeline, in parallel, using their working hours and daily capacity where set; a task with several assignees goes to whoever finishes it first, and dependants wait for blockers whoever does them.
  *         commit:
  *           type: boolean
  *           default: false
@@ -58,6 +83,31 @@ const taskService = new TaskService();
  *           type: string
  *           format: date-time
  *           description: Scheduled end time
+ *         timezone:
+ *           type: string
+ *           description: IANA timezone used for planning
+ *         localStart:
+ *           type: string
+ *           example: '2025-03-31T09:00:00+01:00'
+ *           description: Scheduled start time with the timezone's offset
+ *         localEnd:
+ *           type: string
+ *           example: '2025-03-31T10:00:00+01:00'
+ *           description: Scheduled end time with the timezone's offset
+ *         segmentIndex:
+ *           type: integer
+ *           description: 1-based position of this segment; splittable tasks may appear several times
+ *         segmentCount:
+ *           type: integer
+ *           description: Number of segments the task was split into
+ *         pinned:
+ *           type: boolean
+ *           description: Whether this is a pinned task's fixed slot
+ *         assigneeIds:
+ *           type: array
+ *           items:
+ *             type: string
+ *           description: byAssignee mode only. Whose timeline the segment is on (empty when unassigned)
  *         constraints:
  *           type: object
  *           properties:
@@ -73,7 +123,29 @@ const taskService = new TaskService();
  *               type: array
  *               items:
  *                 type: string
- *               description: Additional notes about scheduling constraints
+ *               description: Additional notes about scheduling constraints, including overlaps with busy blocks or pinned tasks
+ *     AssigneeTimeline:
+ *       type: object
+ *       properties:
+ *         userId:
+ *           type: string
+ *           nullable: true
+ *           description: null for the unassigned tasks
+ *         email:
+ *           type: string
+ *         name:
+ *           type: string
+ *           nullable: true
+ *         timezone:
+ *           type: string
+ *         dailyCapacity:
+ *           type: integer
+ *         plannedMinutes:
+ *           type: integer
+ *         tasks:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/ScheduledTask'
  *     SchedulePlan:
  *       type: object
  *       properties:
@@ -81,6 +153,11 @@ const taskService = new TaskService();
  *           type: array
  *           items:
  *             $ref: '#/components/schemas/ScheduledTask'
+ *         assignees:
+ *           type: array
+ *           description: byAssignee mode only. Each person's share of the plan
+ *           items:
+ *             $ref: '#/components/schemas/AssigneeTimeline'
  *         summary:
  *           type: object
  *           properties:
@@ -93,6 +170,16 @@ const taskService = new TaskService();
  *             violations:
  *               type: integer
  *               description: Number of due date violations
+ *             timezone:
+ *               type: string
+ *               description: IANA timezone used for planning
+ *             strategy:
+ *               type: string
+ *               enum: [earliest-deadline-first, priority-first, score]
+ *               description: Strategy used to order the tasks
+ *             mode:
+ *               type: string
+ *               enum: [sequential, byAssignee]
  */
 
 /**
@@ -117,8 +204,10 @@ const taskService = new TaskService();
  *               properties:
  *                 data:
  *                   $ref: '#/components/schemas/SchedulePlan'
+ *       404:
+ *         description: Project in the filter not found
  *       422:
- *         description: Dependency cycle detected
+ *         description: Invalid options, dependency cycle detected, invalid timezone or unknown calendar
  *         content:
  *           application/json:
  *             schema:
@@ -140,16 +229,34 @@ const taskService = new TaskService();
  *                           items:
  *                             type: string
  */
-router.post('/plan', async (req, res) => {
+router.post('/plan', requireScope('tasks:read'), async (req, res) => {
   try {
     const validatedData = scheduleOptionsSchema.parse(req.body);
-    const schedule = await taskService.planSchedule(validatedData);
+    // A project filter plans the project's tasks, with the user's role in it
+    if (!(await resolveProjectFilter(req, res, validatedData.filter?.projectId))) {
+      return;
+    }
+    // Planning only reads; writing the plan back to the tasks is its own scope
+    if (validatedData.commit && !hasScope(req, 'schedule:commit')) {
+      rejectMissingScope(req, res, 'schedule:commit');
+      return;
+    }
+    // Plans only the logged-in user's tasks, or the project's
+    const schedule = await new TaskService({ ownerId: req.user?.id, projectId: req.project?.id }).planSchedule(validatedData);
     
     res.json({
       data: schedule,
     });
   } catch (error) {
-    if (error instanceof DependencyCycleError) {
+    if (error instanceof ZodError) {
+      res.status(422).json({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Validation failed',
+          details: error.errors,
+        },
+      });
+    } else if (error instanceof DependencyCycleError) {
       res.status(422).json({
         error: {
           code: 'DEPENDENCY_CYCLE',
@@ -157,6 +264,14 @@ router.post('/plan', async (req, res) => {
           details: { cycle: error.cycle },
         },
       });
+    } else if (error instanceof ValidationError) {
+      res.status(422).json({
+        error: {
+          code: error.code,
+          message: error.message,
+          details: error.details,
+        },
+      });
     } else {
       console.error('Plan schedule error:', error);
       res.status(500).json({
@@ -1,5 +1,6 @@
 import { Router } from 'express';
 import { TaskController } from '../controllers/taskController';
+import { requireScope } from '../lib/auth';
 
 const router = Router();
 const taskController = new TaskController();
@@ -41,6 +42,33 @@ const taskController = new TaskController();
  *         allowParentAutoComplete:
  *           type: boolean
  *           description: Whether completing parent auto-completes children
+ *         isSplittable:
+ *           type: boolean
+ *           description: Whether the scheduler may split the task into several segments
+ *         minChunkMinutes:
+ *           type: integer
+ *           nullable: true
+ *           description: Smallest segment when split (falls back to the plan's minChunkMinutes)
+ *         isPinned:
+ *           type: boolean
+ *           description: Whether scheduledStart/scheduledEnd are fixed (see /api/tasks/{id}/pin)
+ *         seriesId:
+ *           type: string
+ *           nullable: true
+ *           description: Recurrence series this occurrence belongs to
+ *         occurrenceDate:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *           description: Slot of the series this occurrence stands for (unchanged when postponed)
+ *         completedAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *           description: When the task was last completed
+ *         autoBlocked:
+ *           type: boolean
+ *           description: Blocked by the dependency automation (AUTO_BLOCK_TASKS) rather than by hand
  *         parentId:
  *           type: string
  *           description: Parent task ID
@@ -52,6 +80,16 @@ const taskController = new TaskController();
  *           type: string
  *           format: date-time
  *           description: Scheduled end time
+ *         assignees:
+ *           type: array
+ *           description: People doing the task
+ *           items:
+ *             type: object
+ *             properties:
+ *               userId:
+ *                 type: string
+ *               user:
+ *                 $ref: '#/components/schemas/AuthUser'
  *         createdAt:
  *           type: string
  *           format: date-time
@@ -85,8 +123,22 @@ const taskController = new TaskController();
  *           minimum: 0
  *         allowParentAutoComplete:
  *           type: boolean
+ *         isSplittable:
+ *           type: boolean
+ *         minChunkMinutes:
+ *           type: integer
+ *           minimum: 1
  *         parentId:
  *           type: string
+ *         assigneeIds:
+ *           type: array
+ *           items:
+ *             type: string
+ *           description: Users doing the task; project members for a project task, only its owner for a personal one
+ *         isRecurring:
+ *           type: boolean
+ *         recurrencePattern:
+ *           $ref: '#/components/schemas/RecurrencePattern'
  *     UpdateTaskInput:
  *       type: object
  *       properties:
@@ -111,9 +163,20 @@ const taskController = new TaskController();
  *           minimum: 0
  *         allowParentAutoComplete:
  *           type: boolean
+ *         isSplittable:
+ *           type: boolean
+ *         minChunkMinutes:
+ *           type: integer
+ *           minimum: 1
+ *           nullable: true
  *         parentId:
  *           type: string
  *           nullable: true
+ *         assigneeIds:
+ *           type: array
+ *           items:
+ *             type: string
+ *           description: Replaces the task's assignees
  *     ApiResponse:
  *       type: object
  *       properties:
@@ -146,6 +209,284 @@ const taskController = new TaskController();
  *               type: integer
  *             totalPages:
  *               type: integer
+ *     DependencyInput:
+ *       type: object
+ *       required:
+ *         - dependsOnTaskId
+ *       properties:
+ *         dependsOnTaskId:
+ *           type: string
+ *           description: ID of the task this task depends on
+ *         type:
+ *           type: string
+ *           enum: [FinishToStart, StartToStart, FinishToFinish, StartToFinish]
+ *           default: FinishToStart
+ *           description: Which end of the blocker constrains which end of this task
+ *         lagMinutes:
+ *           type: integer
+ *           minimum: -525600
+ *           maximum: 525600
+ *           default: 0
+ *           description: Delay after the blocker's end; negative values are a lead
+ *     TaskComment:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *         taskId:
+ *           type: string
+ *         parentId:
+ *           type: string
+ *           nullable: true
+ *           description: The comment this one replies to
+ *         author:
+ *           type: object
+ *           nullable: true
+ *           properties:
+ *             id:
+ *               type: string
+ *             email:
+ *               type: string
+ *             name:
+ *               type: string
+ *               nullable: true
+ *         body:
+ *           type: string
+ *           description: Markdown; empty for a deleted comment kept for its replies
+ *         editedAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         deletedAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         replies:
+ *           type: array
+ *           description: Only when listed as threads
+ *           items:
+ *             $ref: '#/components/schemas/TaskComment'
+ *     TaskActivity:
+ *       type: object
+ *       properties:
+ *         type:
+ *           type: string
+ *           enum: [comment, change]
+ *         at:
+ *           type: string
+ *           format: date-time
+ *         comment:
+ *           $ref: '#/components/schemas/TaskComment'
+ *         change:
+ *           $ref: '#/components/schemas/TaskAudit'
+ *     TaskAudit:
+ *       type: object
+ *       description: One changed field; the entries of one edit share their changedAt
+ *       properties:
+ *         id:
+ *           type: string
+ *         taskId:
+ *           type: string
+ *         fieldName:
+ *           type: string
+ *           description: A task field (title, description, status, priority, dueAt, estimatedDurationMinutes, allowParentAutoComplete, isSplittable, minChunkMinutes, parentId, isRecurring, recurrencePattern) or relation (labels, assignees, dependencies)
+ *         oldValue:
+ *           type: string
+ *           nullable: true
+ *           description: Dates as ISO 8601, relations as a JSON array of IDs (dependencies as dependsOnTaskId, type and lagMinutes)
+ *         newValue:
+ *           type: string
+ *           nullable: true
+ *         changedAt:
+ *           type: string
+ *           format: date-time
+ *     TaskTemplate:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *         name:
+ *           type: string
+ *         description:
+ *           type: string
+ *           nullable: true
+ *         variables:
+ *           type: array
+ *           items:
+ *             type: string
+ *           description: Placeholder names used in the template's titles and descriptions
+ *         tasks:
+ *           type: array
+ *           description: The tree's tasks, parents first
+ *           items:
+ *             type: object
+ *             properties:
+ *               key:
+ *                 type: string
+ *               parentKey:
+ *                 type: string
+ *                 nullable: true
+ *               title:
+ *                 type: string
+ *                 example: Release {{version}}
+ *               description:
+ *                 type: string
+ *                 nullable: true
+ *               priority:
+ *                 type: string
+ *                 enum: [Low, Medium, High]
+ *               estimatedDurationMinutes:
+ *                 type: integer
+ *               allowParentAutoComplete:
+ *                 type: boolean
+ *               isSplittable:
+ *                 type: boolean
+ *               minChunkMinutes:
+ *                 type: integer
+ *                 nullable: true
+ *               labelIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               dueOffsetMinutes:
+ *                 type: integer
+ *                 nullable: true
+ *                 description: Minutes from the anchor date the template is instantiated with
+ *               dependencies:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     dependsOnKey:
+ *                       type: string
+ *                     type:
+ *                       type: string
+ *                       enum: [FinishToStart, StartToStart, FinishToFinish, StartToFinish]
+ *                     lagMinutes:
+ *                       type: integer
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         updatedAt:
+ *           type: string
+ *           format: date-time
+ *     BulkImportResult:
+ *       type: object
+ *       properties:
+ *         dryRun:
+ *           type: boolean
+ *         valid:
+ *           type: boolean
+ *           description: Whether every item can be imported
+ *         items:
+ *           type: array
+ *           description: One entry per imported item, in request order
+ *           items:
+ *             type: object
+ *             properties:
+ *               index:
+ *                 type: integer
+ *               key:
+ *                 type: string
+ *               id:
+ *                 type: string
+ *                 nullable: true
+ *                 description: The created task; null on a dry run
+ *               errors:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     field:
+ *                       type: string
+ *                     code:
+ *                       type: string
+ *                       enum: [DUPLICATE_KEY, UNKNOWN_KEY, PARENT_NOT_FOUND, BLOCKER_NOT_FOUND, DUPLICATE_DEPENDENCY, DEPENDENCY_CYCLE]
+ *                     message:
+ *                       type: string
+ *     RecurrencePattern:
+ *       type: object
+ *       description: Either the structured fields or an RFC 5545 rrule (which takes precedence)
+ *       required:
+ *         - startDate
+ *       properties:
+ *         type:
+ *           type: string
+ *           enum: [Daily, Weekly, Monthly, Yearly, Custom]
+ *           description: Required unless rrule is given (then derived from FREQ)
+ *         interval:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *         startDate:
+ *           type: string
+ *           format: date-time
+ *           description: DTSTART; occurrences keep its UTC time of day
+ *         endDate:
+ *           type: string
+ *           format: date-time
+ *         daysOfWeek:
+ *           type: array
+ *           items:
+ *             type: integer
+ *             minimum: 0
+ *             maximum: 6
+ *         dayOfMonth:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 31
+ *         rrule:
+ *           type: string
+ *           description: RRULE (FREQ, INTERVAL, COUNT, UNTIL, BYDAY, BYMONTHDAY, BYMONTH, BYSETPOS, WKST) with optional EXDATE lines
+ *           example: "RRULE:FREQ=MONTHLY;BYDAY=FR;BYSETPOS=-1\nEXDATE:20251226T090000Z"
+ *         mode:
+ *           type: string
+ *           enum: [fixed, afterCompletion]
+ *           default: fixed
+ *           description: afterCompletion counts the next due date from when the occurrence was completed
+ *     CriticalPathAnalysis:
+ *       type: object
+ *       properties:
+ *         rootTaskId:
+ *           type: string
+ *           nullable: true
+ *           description: Parent task whose subtree was analysed (null for all open tasks)
+ *         totalDurationMinutes:
+ *           type: integer
+ *           description: Length of the critical chain
+ *         criticalPath:
+ *           type: array
+ *           items:
+ *             type: string
+ *           description: Task IDs on the critical chain, first to last
+ *         tasks:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               taskId:
+ *                 type: string
+ *               title:
+ *                 type: string
+ *               durationMinutes:
+ *                 type: integer
+ *               earliestStart:
+ *                 type: integer
+ *                 description: Minutes from the start of the analysed work
+ *               earliestFinish:
+ *                 type: integer
+ *               latestStart:
+ *                 type: integer
+ *               latestFinish:
+ *                 type: integer
+ *               slack:
+ *                 type: integer
+ *                 description: Minutes the task can slip without delaying the finish
+ *               critical:
+ *                 type: boolean
  */
 
 /**
@@ -203,6 +544,16 @@ const taskController = new TaskController();
  *           type: string
  *         description: Search query
  *       - in: query
+ *         name: assigneeId
+ *         schema:
+ *           type: string
+ *         description: Only tasks assigned to this user
+ *       - in: query
+ *         name: projectId
+ *         schema:
+ *           type: string
+ *         description: A project's tasks instead of your own; 404 unless you are a member
+ *       - in: query
  *         name: page
  *         schema:
  *           type: integer
@@ -225,8 +576,8 @@ const taskController = new TaskController();
  *             schema:
  *               $ref: '#/components/schemas/PaginatedResponse'
  */
-router.post('/', taskController.createTask.bind(taskController));
-router.get('/', taskController.listTasks.bind(taskController));
+router.post('/', requireScope('tasks:write'), taskController.createTask.bind(taskController));
+router.get('/', requireScope('tasks:read'), taskController.listTasks.bind(taskController));
 
 /**
  * @swagger
@@ -263,6 +614,19 @@ router.get('/', taskController.listTasks.bind(taskController));
  *         schema:
  *           type: string
  *         description: Task ID
+ *       - in: query
+ *         name: force
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *         description: Start the task (status InProgress) even though it has open blockers
+ *       - in: query
+ *         name: scope
+ *         schema:
+ *           type: string
+ *           enum: [this, future, all]
+ *           default: this
+ *         description: For occurrences of a recurring task, also apply title, description, priority, estimate, splitting and recurrencePattern changes to later open occurrences (future) or every occurrence (all) and to the series template
  *     requestBody:
  *       required: true
  *       content:
@@ -282,11 +646,12 @@ router.get('/', taskController.listTasks.bind(taskController));
  *       404:
  *         description: Task not found
  *       409:
- *         description: Business rule violation
+ *         description: Business rule violation (OPEN_BLOCKERS when starting a task with open blockers under auto-blocking)
  *       422:
  *         description: Validation error or dependency cycle
  *   delete:
- *     summary: Delete a task
+ *     summary: Move a task to the trash
+ *     description: The task disappears from listings and plans until it is restored or purged. Its parent, labels and outside dependencies are detached and kept for a restore. All changes are made in one transaction.
  *     tags: [Tasks]
  *     parameters:
  *       - in: path
@@ -295,13 +660,50 @@ router.get('/', taskController.listTasks.bind(taskController));
  *         schema:
  *           type: string
  *         description: Task ID
+ *       - in: query
+ *         name: children
+ *         schema:
+ *           type: string
+ *           enum: [cascade, reparent, orphan]
+ *         description: Required for a task with children. cascade trashes the whole subtree, reparent moves the children to the task's parent, orphan makes them top-level tasks.
  *     responses:
- *       204:
+ *       200:
  *         description: Task deleted successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     deletedTaskIds:
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *                     movedTaskIds:
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *                     severedDependencies:
+ *                       type: array
+ *                       description: Links between the deleted tasks and tasks outside them, now removed
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           taskId:
+ *                             type: string
+ *                           dependsOnTaskId:
+ *                             type: string
+ *                           type:
+ *                             type: string
+ *                             enum: [FinishToStart, StartToStart, FinishToFinish, StartToFinish]
+ *                           lagMinutes:
+ *                             type: integer
  *       404:
  *         description: Task not found
  *       409:
- *         description: Cannot delete task with children
+ *         description: Task has children and no children option (HAS_CHILDREN)
  */
 /**
  * @swagger
@@ -376,59 +778,37 @@ router.get('/', taskController.listTasks.bind(taskController));
  *                         totalOverdue:
  *                           type: integer
  */
-router.get('/analytics', taskController.getTaskAnalytics.bind(taskController));
-
-router.get('/:id', taskController.getTask.bind(taskController));
-router.patch('/:id', taskController.updateTask.bind(taskController));
-router.delete('/:id', taskController.deleteTask.bind(taskController));
+router.get('/analytics', requireScope('tasks:read'), taskController.getTaskAnalytics.bind(taskController));
 
 /**
  * @swagger
- * /api/tasks/{id}/subtasks:
- *   post:
- *     summary: Add a subtask to a parent task
+ * /api/tasks/critical-path:
+ *   get:
+ *     summary: Critical path across all open tasks
+ *     description: Earliest/latest start and slack per task from estimated durations and dependencies, plus the chain that drives the finish.
  *     tags: [Tasks]
- *     parameters:
- *       - in: path
- *         name: id
- *         required: true
- *         schema:
- *           type: string
- *         description: Parent task ID
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             $ref: '#/components/schemas/CreateTaskInput'
  *     responses:
- *       201:
- *         description: Subtask created successfully
+ *       200:
+ *         description: Critical path calculated successfully
  *         content:
  *           application/json:
  *             schema:
  *               type: object
  *               properties:
  *                 data:
- *                   $ref: '#/components/schemas/Task'
- *       404:
- *         description: Parent task not found
+ *                   $ref: '#/components/schemas/CriticalPathAnalysis'
+ *       422:
+ *         description: Dependency cycle detected
  */
-router.post('/:id/subtasks', taskController.addSubtask.bind(taskController));
+router.get('/critical-path', requireScope('tasks:read'), taskController.getCriticalPath.bind(taskController));
 
 /**
  * @swagger
- * /api/tasks/{id}/dependencies:
+ * /api/tasks/recurrence/preview:
  *   post:
- *     summary: Add a dependency to a task
- *     tags: [Dependencies]
- *     parameters:
- *       - in: path
- *         name: id
- *         required: true
- *         schema:
- *           type: string
- *         description: Task ID
+ *     summary: Preview upcoming occurrences of a recurrence pattern
+ *     description: Converts the pattern to its RFC 5545 RRULE and lists the next occurrences, without saving anything.
+ *     tags: [Tasks]
  *     requestBody:
  *       required: true
  *       content:
@@ -436,29 +816,698 @@ router.post('/:id/subtasks', taskController.addSubtask.bind(taskController));
  *           schema:
  *             type: object
  *             required:
- *               - dependsOnTaskId
+ *               - recurrencePattern
  *             properties:
- *               dependsOnTaskId:
+ *               recurrencePattern:
+ *                 $ref: '#/components/schemas/RecurrencePattern'
+ *               after:
  *                 type: string
- *                 description: ID of the task this task depends on
+ *                 format: date-time
+ *                 description: List occurrences after this instant (default - from startDate)
+ *               count:
+ *                 type: integer
+ *                 minimum: 1
+ *                 maximum: 50
+ *                 default: 5
  *     responses:
- *       201:
- *         description: Dependency added successfully
- *       404:
- *         description: Task or blocker not found
- *       409:
- *         description: Self-dependency or business rule violation
- *       422:
- *         description: Dependency cycle detected
- *   put:
- *     summary: Set all dependencies for a task
- *     tags: [Dependencies]
- *     parameters:
- *       - in: path
- *         name: id
- *         required: true
- *         schema:
- *           type: string
+ *       200:
+ *         description: Preview calculated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     rrule:
+ *                       type: string
+ *                       example: "RRULE:FREQ=MONTHLY;BYDAY=FR;BYSETPOS=-1"
+ *                     occurrences:
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *                         format: date-time
+ *       422:
+ *         description: Invalid pattern or RRULE
+ */
+router.post('/recurrence/preview', requireScope('tasks:read'), taskController.previewRecurrence.bind(taskController));
+
+/**
+ * @swagger
+ * /api/tasks/trash:
+ *   get:
+ *     summary: Deleted tasks, newest first
+ *     description: Lists each deleted task once, with subtreeCount for the descendants that went along with it.
+ *     tags: [Tasks]
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 200
+ *           default: 50
+ *     responses:
+ *       200:
+ *         description: Trash retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     allOf:
+ *                       - $ref: '#/components/schemas/Task'
+ *                       - type: object
+ *                         properties:
+ *                           deletedAt:
+ *                             type: string
+ *                             format: date-time
+ *                           subtreeCount:
+ *                             type: integer
+ *                 pagination:
+ *                   type: object
+ *                   properties:
+ *                     page:
+ *                       type: integer
+ *                     limit:
+ *                       type: integer
+ *                     total:
+ *                       type: integer
+ *                     totalPages:
+ *                       type: integer
+ *       422:
+ *         description: Validation error
+ */
+router.get('/trash', requireScope('tasks:read'), taskController.listTrash.bind(taskController));
+
+/**
+ * @swagger
+ * /api/tasks/templates:
+ *   get:
+ *     summary: List task templates
+ *     tags: [Templates]
+ *     responses:
+ *       200:
+ *         description: Templates retrieved successfully, by name
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/TaskTemplate'
+ */
+router.get('/templates', requireScope('tasks:read'), taskController.listTemplates.bind(taskController));
+
+/**
+ * @swagger
+ * /api/tasks/templates/{templateId}/instantiate:
+ *   post:
+ *     summary: Create a task tree from a template
+ *     description: Fills in the placeholders, counts due dates from the anchor date and creates the tasks, labels and dependencies in one transaction. Labels that no longer exist are left out and listed under skippedLabelIds.
+ *     tags: [Templates]
+ *     parameters:
+ *       - in: path
+ *         name: templateId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               variables:
+ *                 type: object
+ *                 additionalProperties:
+ *                   type: string
+ *                 example: { "version": "2.4" }
+ *               anchorDate:
+ *                 type: string
+ *                 format: date-time
+ *                 description: Due dates are counted from here (default is now)
+ *               parentId:
+ *                 type: string
+ *                 nullable: true
+ *                 description: Parent for the new tree's root
+ *     responses:
+ *       201:
+ *         description: Tasks created successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     task:
+ *                       $ref: '#/components/schemas/Task'
+ *                     createdTaskIds:
+ *                       type: object
+ *                       description: ID of the task created for each template task key
+ *                       additionalProperties:
+ *                         type: string
+ *                     skippedLabelIds:
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *       404:
+ *         description: Template or parent task not found
+ *       409:
+ *         description: A placeholder has no value (MISSING_VARIABLES) or a filled-in title is too long (TITLE_TOO_LONG)
+ *       422:
+ *         description: Validation error
+ */
+router.post('/templates/:templateId/instantiate', requireScope('tasks:write'), taskController.instantiateTemplate.bind(taskController));
+
+/**
+ * @swagger
+ * /api/tasks/templates/{templateId}:
+ *   delete:
+ *     summary: Delete a task template
+ *     tags: [Templates]
+ *     parameters:
+ *       - in: path
+ *         name: templateId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Template deleted successfully
+ *       404:
+ *         description: Template not found
+ */
+router.delete('/templates/:templateId', requireScope('tasks:write'), taskController.deleteTemplate.bind(taskController));
+
+router.get('/:id', requireScope('tasks:read'), taskController.getTask.bind(taskController));
+router.patch('/:id', requireScope('tasks:write'), taskController.updateTask.bind(taskController));
+router.delete('/:id', requireScope('tasks:write'), taskController.deleteTask.bind(taskController));
+
+/**
+ * @swagger
+ * /api/tasks/{id}/subtasks:
+ *   post:
+ *     summary: Add a subtask to a parent task
+ *     tags: [Tasks]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Parent task ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CreateTaskInput'
+ *     responses:
+ *       201:
+ *         description: Subtask created successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   $ref: '#/components/schemas/Task'
+ *       404:
+ *         description: Parent task not found
+ */
+router.post('/:id/subtasks', requireScope('tasks:write'), taskController.addSubtask.bind(taskController));
+
+/**
+ * @swagger
+ * /api/tasks/{id}/critical-path:
+ *   get:
+ *     summary: Critical path within a task's subtree
+ *     description: Analyses the open task and its descendants; dependencies on tasks outside the subtree are ignored.
+ *     tags: [Tasks]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Critical path calculated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   $ref: '#/components/schemas/CriticalPathAnalysis'
+ *       404:
+ *         description: Task not found
+ *       422:
+ *         description: Dependency cycle detected
+ */
+router.get('/:id/critical-path', requireScope('tasks:read'), taskController.getTaskCriticalPath.bind(taskController));
+
+/**
+ * @swagger
+ * /api/tasks/{id}/dependencies:
+ *   post:
+ *     summary: Add a dependency to a task
+ *     tags: [Dependencies]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Task ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             $ref: '#/components/schemas/DependencyInput'
+ *     responses:
+ *       201:
+ *         description: Dependency added successfully
+ *       404:
+ *         description: Task or blocker not found
+ *       409:
+ *         description: Self-dependency or business rule violation
+ *       422:
+ *         description: Dependency cycle detected
+ *   put:
+ *     summary: Set all dependencies for a task
+ *     tags: [Dependencies]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Task ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - dependsOnTaskIds
+ *             properties:
+ *               dependsOnTaskIds:
+ *                 type: array
+ *                 items:
+ *                   oneOf:
+ *                     - type: string
+ *                     - $ref: '#/components/schemas/DependencyInput'
+ *                 description: Tasks this task depends on; plain IDs are finish-to-start links with no lag
+ *     responses:
+ *       200:
+ *         description: Dependencies updated successfully
+ *       404:
+ *         description: Task not found
+ *       409:
+ *         description: Business rule violation
+ *       422:
+ *         description: Dependency cycle detected
+ */
+router.post('/:id/dependencies', requireScope('tasks:write'), taskController.addDependency.bind(taskController));
+router.put('/:id/dependencies', requireScope('tasks:write'), taskController.setDependencies.bind(taskController));
+
+/**
+ * @swagger
+ * /api/tasks/{id}/dependencies/{dependsOnTaskId}:
+ *   delete:
+ *     summary: Remove a specific dependency
+ *     tags: [Dependencies]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Task ID
+ *       - in: path
+ *         name: dependsOnTaskId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Blocker task ID
+ *     responses:
+ *       204:
+ *         description: Dependency removed successfully
+ *   patch:
+ *     summary: Change a dependency's type or lag
+ *     tags: [Dependencies]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Task ID
+ *       - in: path
+ *         name: dependsOnTaskId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Blocker task ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               type:
+ *                 type: string
+ *                 enum: [FinishToStart, StartToStart, FinishToFinish, StartToFinish]
+ *               lagMinutes:
+ *                 type: integer
+ *     responses:
+ *       200:
+ *         description: Dependency updated successfully
+ *       404:
+ *         description: Dependency not found
+ *       409:
+ *         description: Invalid lag
+ */
+router.delete('/:id/dependencies/:dependsOnTaskId', requireScope('tasks:write'), taskController.removeDependency.bind(taskController));
+router.patch('/:id/dependencies/:dependsOnTaskId', requireScope('tasks:write'), taskController.updateDependency.bind(taskController));
+
+/**
+ * @swagger
+ * /api/tasks/{id}/complete:
+ *   post:
+ *     summary: Complete a task
+ *     tags: [Tasks]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Task ID
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               mode:
+ *                 type: string
+ *                 enum: [normal, forceParentAutoComplete]
+ *                 default: normal
+ *                 description: Completion mode
+ *     responses:
+ *       200:
+ *         description: Task completed successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   $ref: '#/components/schemas/Task'
+ *       404:
+ *         description: Task not found
+ *       409:
+ *         description: Cannot complete task with incomplete children
+ */
+router.post('/:id/complete', requireScope('tasks:write'), taskController.completeTask.bind(taskController));
+
+/**
+ * @swagger
+ * /api/tasks/{id}/reopen:
+ *   post:
+ *     summary: Reopen a completed task
+ *     tags: [Tasks]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Task ID
+ *     responses:
+ *       200:
+ *         description: Task reopened successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   $ref: '#/components/schemas/Task'
+ *       404:
+ *         description: Task not found
+ *       409:
+ *         description: Only completed tasks can be reopened
+ */
+router.post('/:id/reopen', requireScope('tasks:write'), taskController.reopenTask.bind(taskController));
+
+/**
+ * @swagger
+ * /api/tasks/{id}/pin:
+ *   post:
+ *     summary: Pin a task to a fixed time slot the planner will not move
+ *     tags: [Tasks]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Task ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - start
+ *               - end
+ *             properties:
+ *               start:
+ *                 type: string
+ *                 format: date-time
+ *               end:
+ *                 type: string
+ *                 format: date-time
+ *     responses:
+ *       200:
+ *         description: Task pinned successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   $ref: '#/components/schemas/Task'
+ *       404:
+ *         description: Task not found
+ *       409:
+ *         description: Only open tasks can be pinned
+ */
+router.post('/:id/pin', requireScope('tasks:write'), taskController.pinTask.bind(taskController));
+
+/**
+ * @swagger
+ * /api/tasks/{id}/unpin:
+ *   post:
+ *     summary: Release a pinned task so the planner may move it again
+ *     tags: [Tasks]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Task ID
+ *     responses:
+ *       200:
+ *         description: Task unpinned successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   $ref: '#/components/schemas/Task'
+ *       404:
+ *         description: Task not found
+ *       409:
+ *         description: Task is not pinned
+ */
+router.post('/:id/unpin', requireScope('tasks:write'), taskController.unpinTask.bind(taskController));
+
+/**
+ * @swagger
+ * /api/tasks/{id}/series:
+ *   get:
+ *     summary: Past and upcoming occurrences of a recurring task's series
+ *     tags: [Tasks]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID of any occurrence in the series
+ *       - in: query
+ *         name: upcoming
+ *         schema:
+ *           type: integer
+ *           minimum: 0
+ *           maximum: 50
+ *           default: 5
+ *         description: Number of not-yet-created occurrences to project
+ *     responses:
+ *       200:
+ *         description: Series retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     series:
+ *                       type: object
+ *                       description: Template (title, priority, estimate, ...) and recurrencePattern of the series
+ *                     past:
+ *                       type: array
+ *                       description: Completed and skipped occurrences
+ *                       items:
+ *                         $ref: '#/components/schemas/Task'
+ *                     upcoming:
+ *                       type: array
+ *                       description: Open occurrences, then projected ones with a null task
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           occurrenceDate:
+ *                             type: string
+ *                             format: date-time
+ *                           task:
+ *                             nullable: true
+ *                             allOf:
+ *                               - $ref: '#/components/schemas/Task'
+ *       404:
+ *         description: Task not found
+ *       409:
+ *         description: Task is not part of a recurring series
+ */
+router.get('/:id/series', requireScope('tasks:read'), taskController.getSeries.bind(taskController));
+
+/**
+ * @swagger
+ * /api/tasks/{id}/series:
+ *   patch:
+ *     summary: Choose what the next occurrences of a series copy
+ *     description: Each new occurrence can clone the previous one's labels, its child subtree (reset to Todo) and its dependency links.
+ *     tags: [Tasks]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID of any task in the series
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               cloneLabels:
+ *                 type: boolean
+ *               cloneSubtasks:
+ *                 type: boolean
+ *               cloneDependencies:
+ *                 type: string
+ *                 enum: [None, Subtree, All]
+ *                 description: None, only links between cloned subtasks, or also links to outside blockers
+ *     responses:
+ *       200:
+ *         description: Series settings updated
+ *       404:
+ *         description: Task not found
+ *       409:
+ *         description: Task is not part of a recurring series
+ */
+router.patch('/:id/series', requireScope('tasks:write'), taskController.updateSeriesSettings.bind(taskController));
+
+/**
+ * @swagger
+ * /api/tasks/{id}/skip:
+ *   post:
+ *     summary: Skip one occurrence of a recurring task
+ *     description: Cancels the occurrence, excludes its slot from the series rule (EXDATE) and creates the next occurrence.
+ *     tags: [Tasks]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Task ID
+ *     responses:
+ *       200:
+ *         description: Occurrence skipped
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     skipped:
+ *                       $ref: '#/components/schemas/Task'
+ *                     next:
+ *                       nullable: true
+ *                       allOf:
+ *                         - $ref: '#/components/schemas/Task'
+ *       404:
+ *         description: Task not found
+ *       409:
+ *         description: Task is not an open occurrence of a recurring series
+ */
+router.post('/:id/skip', requireScope('tasks:write'), taskController.skipOccurrence.bind(taskController));
+
+/**
+ * @swagger
+ * /api/tasks/{id}/postpone:
+ *   post:
+ *     summary: Postpone one occurrence of a recurring task
+ *     description: Moves this occurrence's due date later; the rest of the series keeps its rhythm.
+ *     tags: [Tasks]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
  *         description: Task ID
  *     requestBody:
  *       required: true
@@ -466,57 +1515,458 @@ router.post('/:id/subtasks', taskController.addSubtask.bind(taskController));
  *         application/json:
  *           schema:
  *             type: object
- *             required:
- *               - dependsOnTaskIds
+ *             required:
+ *               - dueAt
+ *             properties:
+ *               dueAt:
+ *                 type: string
+ *                 format: date-time
+ *     responses:
+ *       200:
+ *         description: Occurrence postponed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   $ref: '#/components/schemas/Task'
+ *       404:
+ *         description: Task not found
+ *       409:
+ *         description: Not an open occurrence, or the new due date is not later
+ */
+router.post('/:id/postpone', requireScope('tasks:write'), taskController.postponeOccurrence.bind(taskController));
+
+/**
+ * @swagger
+ * /api/tasks/{id}/comments:
+ *   get:
+ *     summary: A task's comments, as threads oldest first
+ *     tags: [Tasks]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Top-level comments with their replies nested
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/TaskComment'
+ *       404:
+ *         description: Task not found
+ *   post:
+ *     summary: Comment on a task, or reply to a comment
+ *     tags: [Tasks]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - body
+ *             properties:
+ *               body:
+ *                 type: string
+ *                 maxLength: 10000
+ *                 description: Markdown
+ *               parentId:
+ *                 type: string
+ *                 description: Comment to reply to
+ *     responses:
+ *       201:
+ *         description: Comment created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   $ref: '#/components/schemas/TaskComment'
+ *       404:
+ *         description: Task or parent comment not found
+ *       422:
+ *         description: Validation error
+ */
+router.get('/:id/comments', requireScope('tasks:read'), taskController.listComments.bind(taskController));
+router.post('/:id/comments', requireScope('tasks:write'), taskController.addComment.bind(taskController));
+
+/**
+ * @swagger
+ * /api/tasks/{id}/comments/{commentId}:
+ *   patch:
+ *     summary: Edit a comment (its author only)
+ *     tags: [Tasks]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: commentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - body
+ *             properties:
+ *               body:
+ *                 type: string
+ *                 maxLength: 10000
+ *     responses:
+ *       200:
+ *         description: Comment updated, with editedAt set
+ *       403:
+ *         description: Only the author can change a comment (NOT_AUTHOR)
+ *       404:
+ *         description: Task or comment not found
+ *       422:
+ *         description: Validation error
+ *   delete:
+ *     summary: Delete a comment (its author only)
+ *     description: A comment with replies is kept as an empty placeholder so the thread stays intact.
+ *     tags: [Tasks]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: commentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Comment deleted
+ *       403:
+ *         description: Only the author can change a comment (NOT_AUTHOR)
+ *       404:
+ *         description: Task or comment not found
+ */
+router.patch('/:id/comments/:commentId', requireScope('tasks:write'), taskController.updateComment.bind(taskController));
+router.delete('/:id/comments/:commentId', requireScope('tasks:write'), taskController.deleteComment.bind(taskController));
+
+/**
+ * @swagger
+ * /api/tasks/{id}/activity:
+ *   get:
+ *     summary: A task's comments and recorded changes in one feed, oldest first
+ *     tags: [Tasks]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Activity retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/TaskActivity'
+ *       404:
+ *         description: Task not found
+ */
+router.get('/:id/activity', requireScope('tasks:read'), taskController.getActivity.bind(taskController));
+
+/**
+ * @swagger
+ * /api/tasks/{id}/history:
+ *   get:
+ *     summary: A task's audit trail, newest first
+ *     tags: [Tasks]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: fieldName
+ *         schema:
+ *           type: string
+ *         description: Only changes to this field or relation
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 200
+ *           default: 50
+ *     responses:
+ *       200:
+ *         description: History retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/TaskAudit'
+ *                 pagination:
+ *                   type: object
+ *                   properties:
+ *                     page:
+ *                       type: integer
+ *                     limit:
+ *                       type: integer
+ *                     total:
+ *                       type: integer
+ *                     totalPages:
+ *                       type: integer
+ *       404:
+ *         description: Task not found
+ *       422:
+ *         description: Validation error
+ */
+router.get('/:id/history', requireScope('tasks:read'), taskController.getHistory.bind(taskController));
+
+/**
+ * @swagger
+ * /api/tasks/{id}/revert:
+ *   post:
+ *     summary: Revert a task to an earlier version from its audit history
+ *     description: Restores the values the task had right after an audit entry, or at a point in time, and saves them as a new audited edit. With dryRun the changes are only reported.
+ *     tags: [Tasks]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
  *             properties:
- *               dependsOnTaskIds:
+ *               auditId:
+ *                 type: string
+ *                 description: Revert to the version this entry produced (give this or at)
+ *               at:
+ *                 type: string
+ *                 format: date-time
+ *                 description: Revert to the version current at this time (give this or auditId)
+ *               fields:
  *                 type: array
  *                 items:
  *                   type: string
- *                 description: Array of task IDs this task depends on
+ *                 description: Only revert these fields or relations
+ *               dryRun:
+ *                 type: boolean
+ *                 default: false
  *     responses:
  *       200:
- *         description: Dependencies updated successfully
+ *         description: Changes that were (or, in a dry run, would be) made
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     at:
+ *                       type: string
+ *                       format: date-time
+ *                     dryRun:
+ *                       type: boolean
+ *                     changes:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           fieldName:
+ *                             type: string
+ *                           currentValue:
+ *                             type: string
+ *                             nullable: true
+ *                           revertedValue:
+ *                             type: string
+ *                             nullable: true
+ *                     skipped:
+ *                       type: array
+ *                       description: Parts of the old version that can't be restored any more and were left out
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           fieldName:
+ *                             type: string
+ *                           code:
+ *                             type: string
+ *                             example: LABEL_NOT_FOUND
+ *                           message:
+ *                             type: string
+ *                           ids:
+ *                             type: array
+ *                             items:
+ *                               type: string
+ *                     task:
+ *                       $ref: '#/components/schemas/Task'
  *       404:
- *         description: Task not found
+ *         description: Task or audit entry not found
  *       409:
- *         description: Business rule violation
+ *         description: The earlier version breaks a business rule
  *       422:
- *         description: Dependency cycle detected
+ *         description: Validation error or dependency cycle
  */
-router.post('/:id/dependencies', taskController.addDependency.bind(taskController));
-router.put('/:id/dependencies', taskController.setDependencies.bind(taskController));
+router.post('/:id/revert', requireScope('tasks:write'), taskController.revertTask.bind(taskController));
 
 /**
  * @swagger
- * /api/tasks/{id}/dependencies/{dependsOnTaskId}:
- *   delete:
- *     summary: Remove a specific dependency
- *     tags: [Dependencies]
+ * /api/tasks/{id}/restore:
+ *   post:
+ *     summary: Restore a deleted task with its subtree
+ *     description: Re-links the parent, labels and dependencies the task was detached from, where the other end still exists and the link wouldn't close a cycle. Links that can't be restored are listed under skipped.
+ *     tags: [Tasks]
  *     parameters:
  *       - in: path
  *         name: id
  *         required: true
  *         schema:
  *           type: string
- *         description: Task ID
+ *     responses:
+ *       200:
+ *         description: Task restored successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     task:
+ *                       $ref: '#/components/schemas/Task'
+ *                     restoredTaskIds:
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *                     skipped:
+ *                       type: object
+ *                       properties:
+ *                         parentId:
+ *                           type: string
+ *                           nullable: true
+ *                         labelIds:
+ *                           type: array
+ *                           items:
+ *                             type: string
+ *                         dependencies:
+ *                           type: array
+ *                           items:
+ *                             type: object
+ *                             properties:
+ *                               taskId:
+ *                                 type: string
+ *                               dependsOnTaskId:
+ *                                 type: string
+ *       404:
+ *         description: Task not found in trash
+ *       409:
+ *         description: Task was deleted along with its parent (DELETED_WITH_PARENT)
+ */
+router.post('/:id/restore', requireScope('tasks:write'), taskController.restoreTask.bind(taskController));
+
+/**
+ * @swagger
+ * /api/tasks/{id}/clone:
+ *   post:
+ *     summary: Copy a task with its subtree
+ *     description: Copies the task and its descendants with their labels and the dependencies among them, in one transaction. Copies start as Todo one-off tasks with nothing scheduled.
+ *     tags: [Tasks]
+ *     parameters:
  *       - in: path
- *         name: dependsOnTaskId
+ *         name: id
  *         required: true
  *         schema:
  *           type: string
- *         description: Blocker task ID
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               title:
+ *                 type: string
+ *                 description: Title for the copy of the task itself (default is the original's)
+ *               parentId:
+ *                 type: string
+ *                 nullable: true
+ *                 description: Parent for the copy (default is the original's parent)
+ *               shiftDays:
+ *                 type: integer
+ *                 description: Moves every copied due date by this many days
  *     responses:
- *       204:
- *         description: Dependency removed successfully
+ *       201:
+ *         description: Task copied successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     task:
+ *                       $ref: '#/components/schemas/Task'
+ *                     clonedTaskIds:
+ *                       type: object
+ *                       description: ID of each copy, by the ID of its original
+ *                       additionalProperties:
+ *                         type: string
+ *       404:
+ *         description: Task or parent task not found
+ *       422:
+ *         description: Validation error
  */
-router.delete('/:id/dependencies/:dependsOnTaskId', taskController.removeDependency.bind(taskController));
+router.post('/:id/clone', requireScope('tasks:write'), taskController.cloneTask.bind(taskController));
 
 /**
  * @swagger
- * /api/tasks/{id}/complete:
+ * /api/tasks/{id}/move:
  *   post:
- *     summary: Complete a task
+ *     summary: Move a task with its subtree under another parent
  *     tags: [Tasks]
  *     parameters:
  *       - in: path
@@ -524,21 +1974,21 @@ router.delete('/:id/dependencies/:dependsOnTaskId', taskController.removeDepende
  *         required: true
  *         schema:
  *           type: string
- *         description: Task ID
  *     requestBody:
+ *       required: true
  *       content:
  *         application/json:
  *           schema:
  *             type: object
+ *             required: [parentId]
  *             properties:
- *               mode:
+ *               parentId:
  *                 type: string
- *                 enum: [normal, forceParentAutoComplete]
- *                 default: normal
- *                 description: Completion mode
+ *                 nullable: true
+ *                 description: New parent, or null for a top-level task
  *     responses:
  *       200:
- *         description: Task completed successfully
+ *         description: Task moved successfully
  *         content:
  *           application/json:
  *             schema:
@@ -547,47 +1997,69 @@ router.delete('/:id/dependencies/:dependsOnTaskId', taskController.removeDepende
  *                 data:
  *                   $ref: '#/components/schemas/Task'
  *       404:
- *         description: Task not found
+ *         description: Task or parent task not found
  *       409:
- *         description: Cannot complete task with incomplete children
+ *         description: Task cannot be its own parent
+ *       422:
+ *         description: Validation error, or the new parent is in the task's own subtree (DEPENDENCY_CYCLE)
  */
-router.post('/:id/complete', taskController.completeTask.bind(taskController));
+router.post('/:id/move', requireScope('tasks:write'), taskController.moveTask.bind(taskController));
 
 /**
  * @swagger
- * /api/tasks/{id}/reopen:
+ * /api/tasks/{id}/template:
  *   post:
- *     summary: Reopen a completed task
- *     tags: [Tasks]
+ *     summary: Save a task and its subtree as a template
+ *     description: Keeps titles, descriptions, estimates, labels and the dependencies within the tree. Due dates become offsets from the task's own due date, or the earliest one in the tree.
+ *     tags: [Templates]
  *     parameters:
  *       - in: path
  *         name: id
  *         required: true
  *         schema:
  *           type: string
- *         description: Task ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [name]
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 maxLength: 100
+ *               description:
+ *                 type: string
+ *               variables:
+ *                 type: object
+ *                 additionalProperties:
+ *                   type: string
+ *                 description: Text in the tree to turn into placeholders, by placeholder name
+ *                 example: { "version": "2.3" }
  *     responses:
- *       200:
- *         description: Task reopened successfully
+ *       201:
+ *         description: Template created successfully
  *         content:
  *           application/json:
  *             schema:
  *               type: object
  *               properties:
  *                 data:
- *                   $ref: '#/components/schemas/Task'
+ *                   $ref: '#/components/schemas/TaskTemplate'
  *       404:
  *         description: Task not found
- *       409:
- *         description: Only completed tasks can be reopened
+ *       422:
+ *         description: Validation error
  */
-router.post('/:id/reopen', taskController.reopenTask.bind(taskController));
+router.post('/:id/template', requireScope('tasks:write'), taskController.createTemplate.bind(taskController));
 
 /**
  * @swagger
  * /api/tasks/bulkImport:
  *   post:
  *     summary: Bulk import tasks
+ *     description: Checks the whole batch, then creates it in one transaction or not at all. Items can refer to each other by temporary key.
  *     tags: [Tasks]
  *     requestBody:
  *       required: true
@@ -626,7 +2098,30 @@ router.post('/:id/reopen', taskController.reopenTask.bind(taskController));
  *                       type: array
  *                       items:
  *                         type: string
+ *                     key:
+ *                       type: string
+ *                       description: Temporary key other items of this import refer to this one by
+ *                     parentKey:
+ *                       type: string
+ *                       description: Key of the item to nest this one under, in place of parentId
+ *                     dependsOnKeys:
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *               dryRun:
+ *                 type: boolean
+ *                 default: false
+ *                 description: Check the import and report on it without creating anything
  *     responses:
+ *       200:
+ *         description: Dry run report
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   $ref: '#/components/schemas/BulkImportResult'
  *       201:
  *         description: Tasks imported successfully
  *         content:
@@ -635,11 +2130,13 @@ router.post('/:id/reopen', taskController.reopenTask.bind(taskController));
  *               type: object
  *               properties:
  *                 data:
- *                   type: array
- *                   items:
- *                     $ref: '#/components/schemas/Task'
+ *                   $ref: '#/components/schemas/BulkImportResult'
+ *       409:
+ *         description: Nothing was imported (IMPORT_FAILED); error.details.items holds the errors of each item
+ *       422:
+ *         description: Validation error
  */
-router.post('/bulkImport', taskController.bulkImport.bind(taskController));
+router.post('/bulkImport', requireScope('tasks:write'), taskController.bulkImport.bind(taskController));
 
 /**
  * @swagger
@@ -666,7 +2163,7 @@ router.post('/bulkImport', taskController.bulkImport.bind(taskController));
  *             schema:
  *               type: string
  */
-router.get('/export', taskController.exportTasks.bind(taskController));
+router.get('/export', requireScope('tasks:read'), taskController.exportTasks.bind(taskController));
 
 /**
  * @swagger
@@ -763,6 +2260,6 @@ router.get('/export', taskController.exportTasks.bind(taskController));
  *                           items:
  *                             type: string
  */
-router.post('/order', taskController.orderTasks.bind(taskController));
+router.post('/order', requireScope('tasks:read'), taskController.orderTasks.bind(taskController));
 
 export default router;
@@ -2,7 +2,9 @@
 
 import { TaskService } from '../services/taskService';
 import { connectDatabase, disconnectDatabase } from '../lib/database';
+import { MaterializeOptions, MissedOccurrencePolicy, PurgeTrashOptions } from '../types';
 import { format } from 'date-fns';
+import { formatInTimeZone } from 'date-fns-tz';
 
 const taskService = new TaskService();
 
@@ -26,6 +28,12 @@ async function main() {
       case 'complete':
         await handleComplete(args);
         break;
+      case 'recurrences':
+        await handleRecurrences(args);
+        break;
+      case 'trash':
+        await handleTrash(args);
+        break;
       case 'help':
       case '--help':
       case '-h':
@@ -45,6 +53,7 @@ async function main() {
 
 async function handleSchedule(args: string[]) {
   const options: any = {};
+  let projectId: string | undefined;
   
   // Parse arguments
   for (let i = 0; i < args.length; i += 2) {
@@ -54,7 +63,13 @@ async function handleSchedule(args: string[]) {
     switch (key) {
       case '--working-hours':
         const [start, end] = value.split('-');
-        options.workingHours = { start, end };
+        options.workingHours = { ...options.workingHours, start, end };
+        break;
+      case '--timezone':
+        options.workingHours = { start: '09:00', end: '17:30', ...options.workingHours, timezone: value };
+        break;
+      case '--calendar':
+        options.calendarId = value;
         break;
       case '--start-date':
         options.startDate = new Date(value);
@@ -62,6 +77,23 @@ async function handleSchedule(args: string[]) {
       case '--daily-capacity':
         options.dailyCapacity = parseInt(value);
         break;
+      case '--min-chunk':
+        options.minChunkMinutes = parseInt(value);
+        break;
+      case '--strategy':
+        if (!['earliest-deadline-first', 'priority-first', 'score'].includes(value)) {
+          console.error('Usage: --strategy <earliest-deadline-first|priority-first|score>');
+          process.exit(1);
+        }
+        options.strategy = value;
+        break;
+      case '--mode':
+        if (!['sequential', 'byAssignee'].includes(value)) {
+          console.error('Usage: --mode <sequential|byAssignee>');
+          process.exit(1);
+        }
+        options.mode = value;
+        break;
       case '--commit':
         options.commit = value === 'true';
         break;
@@ -71,12 +103,17 @@ async function handleSchedule(args: string[]) {
       case '--priority':
         options.filter = { ...options.filter, priority: value };
         break;
+      case '--project':
+        projectId = value;
+        break;
     }
   }
 
   console.log('📅 Planning schedule...\n');
   
-  const schedule = await taskService.planSchedule(options);
+  // A project's plan only places its own tasks, around its own pinned ones
+  const service = projectId ? new TaskService({ projectId }) : taskService;
+  const schedule = await service.planSchedule(options);
   
   console.log('📋 Schedule Plan:');
   console.log('='.repeat(80));
@@ -86,11 +123,12 @@ async function handleSchedule(args: string[]) {
     return;
   }
 
-  // Group by day
+  // Group by day in the planning timezone
+  const timezone = schedule.summary.timezone;
   const tasksByDay = new Map<string, typeof schedule.tasks>();
   
   schedule.tasks.forEach(task => {
-    const day = format(new Date(task.scheduledStart), 'yyyy-MM-dd');
+    const day = formatInTimeZone(task.scheduledStart, timezone, 'yyyy-MM-dd');
     if (!tasksByDay.has(day)) {
       tasksByDay.set(day, []);
     }
@@ -98,15 +136,18 @@ async function handleSchedule(args: string[]) {
   });
 
   for (const [day, tasks] of tasksByDay) {
-    console.log(`\n📅 ${format(new Date(day), 'EEEE, MMMM d, yyyy')}`);
+    console.log(`\n📅 ${format(new Date(`${day}T00:00:00`), 'EEEE, MMMM d, yyyy')} (${timezone})`);
     console.log('-'.repeat(50));
     
     tasks.forEach(task => {
-      const startTime = format(new Date(task.scheduledStart), 'HH:mm');
-      const endTime = format(new Date(task.scheduledEnd), 'HH:mm');
+      const startTime = formatInTimeZone(task.scheduledStart, timezone, 'HH:mm');
+      const endTime = formatInTimeZone(task.scheduledEnd, timezone, 'HH:mm');
       const duration = Math.round((new Date(task.scheduledEnd).getTime() - new Date(task.scheduledStart).getTime()) / (1000 * 60));
       
-      console.log(`${startTime}-${endTime} (${duration}min) | ${task.taskId.slice(0, 8)}...`);
+      const segment = task.segmentCount > 1 ? ` [part ${task.segmentIndex}/${task.segmentCount}]` : '';
+      const pinned = task.pinned ? ' 📌' : '';
+      const who = task.assigneeIds?.length ? ` 👤 ${task.assigneeIds.map(id => id.slice(0, 8)).join(', ')}` : '';
+      console.log(`${startTime}-${endTime} (${duration}min) | ${task.taskId.slice(0, 8)}...${segment}${pinned}${who}`);
       
       if (task.constraints.blockers.length > 0) {
         console.log(`  🔗 Depends on: ${task.constraints.blockers.map(id => id.slice(0, 8)).join(', ')}`);
@@ -126,6 +167,16 @@ async function handleSchedule(args: string[]) {
   console.log(`Total planned minutes: ${schedule.summary.totalPlannedMinutes}`);
   console.log(`Unplaced tasks: ${schedule.summary.unplacedTasks}`);
   console.log(`Due date violations: ${schedule.summary.violations}`);
+  console.log(`Timezone: ${timezone}`);
+  console.log(`Strategy: ${schedule.summary.strategy}`);
+
+  if (schedule.assignees) {
+    console.log('\n👥 By assignee:');
+    for (const timeline of schedule.assignees) {
+      const who = timeline.email ?? 'Unassigned';
+      console.log(`${who}: ${timeline.plannedMinutes} min planned, ${timeline.dailyCapacity} min/day (${timeline.timezone})`);
+    }
+  }
 }
 
 async function handleList(args: string[]) {
@@ -148,6 +199,9 @@ async function handleList(args: string[]) {
       case '--q':
         filter.q = value;
         break;
+      case '--project':
+        filter.projectId = value;
+        break;
     }
   }
 
@@ -219,6 +273,75 @@ async function handleComplete(args: string[]) {
   console.log(`✅ Task completed: ${task.title}`);
 }
 
+async function handleRecurrences(args: string[]) {
+  if (args[0] !== 'materialize') {
+    console.error('Usage: recurrences materialize [--horizon-days <days>] [--missed <skip|all|catchUp>]');
+    process.exit(1);
+  }
+
+  const options: MaterializeOptions = {};
+
+  for (let i = 1; i < args.length; i += 2) {
+    const key = args[i];
+    const value = args[i + 1];
+
+    switch (key) {
+      case '--horizon-days':
+        options.horizonDays = parseInt(value);
+        break;
+      case '--missed':
+        if (!['skip', 'all', 'catchUp'].includes(value)) {
+          console.error('Usage: --missed <skip|all|catchUp>');
+          process.exit(1);
+        }
+        options.missedPolicy = value as MissedOccurrencePolicy;
+        break;
+    }
+  }
+
+  console.log('🔁 Materializing recurring tasks...\n');
+
+  const result = await taskService.materializeRecurrences(options);
+
+  result.created.forEach(task => {
+    const dueDate = task.dueAt ? format(new Date(task.dueAt), 'MMM dd HH:mm') : 'No due date';
+    console.log(`${task.id.slice(0, 8)} | ${dueDate} | ${task.title}`);
+  });
+
+  console.log('\n📊 Summary:');
+  console.log(`Series checked: ${result.seriesChecked}`);
+  console.log(`Occurrences created: ${result.created.length}`);
+  console.log(`Missed occurrences skipped: ${result.missedSkipped}`);
+  console.log(`Horizon: ${format(result.horizonEnd, 'MMM dd, yyyy HH:mm')}`);
+}
+
+async function handleTrash(args: string[]) {
+  if (args[0] !== 'purge') {
+    console.error('Usage: trash purge [--retention-days <days>]');
+    process.exit(1);
+  }
+
+  const options: PurgeTrashOptions = {};
+
+  for (let i = 1; i < args.length; i += 2) {
+    const key = args[i];
+    const value = args[i + 1];
+
+    switch (key) {
+      case '--retention-days':
+        options.retentionDays = parseInt(value);
+        break;
+    }
+  }
+
+  console.log('🗑️  Purging the trash...\n');
+
+  const result = await taskService.purgeTrash(options);
+
+  console.log(`Tasks purged: ${result.purged}`);
+  console.log(`Deleted before: ${format(result.cutoff, 'MMM dd, yyyy HH:mm')}`);
+}
+
 function showHelp() {
   console.log(`
 Deano Task Manager CLI
@@ -230,21 +353,30 @@ Commands:
   list [options]         List tasks with filtering
   create <title> [options] Create a new task
   complete <task-id> [options] Complete a task
+  recurrences materialize [options] Create upcoming occurrences of recurring tasks
+  trash purge [options]  Remove tasks deleted longer ago than the retention period
   help                   Show this help message
 
 Schedule Options:
   --working-hours <start-end>  Working hours (e.g., "09:00-17:30")
+  --timezone <iana-zone>       Timezone for working hours (e.g., "Europe/London", default UTC)
+  --calendar <id>              Work calendar to plan against (overrides working hours)
   --start-date <date>          Start date for scheduling
   --daily-capacity <minutes>   Daily capacity in minutes
+  --min-chunk <minutes>        Smallest segment for splittable tasks (default 30)
+  --strategy <name>            earliest-deadline-first (default), priority-first or score
+  --mode <mode>                sequential (default), or byAssignee for one timeline per assignee
   --commit <true|false>        Whether to commit schedule to database
   --status <status>            Filter by task status
   --priority <priority>        Filter by task priority
+  --project <id>               Only plan this project's tasks
 
 List Options:
   --status <status>            Filter by task status
   --priority <priority>        Filter by task priority
   --parent-id <id>             Filter by parent task ID
   --q <query>                  Search query
+  --project <id>               Only list this project's tasks
 
 Create Options:
   --description <text>         Task description
@@ -255,11 +387,24 @@ Create Options:
 Complete Options:
   --force-parent-auto-complete Force complete parent with incomplete children
 
+Recurrences Materialize Options:
+  --horizon-days <days>        Create occurrences due up to this many days ahead (default 7)
+  --missed <policy>            Missed occurrences: skip, all or catchUp (default, only the latest)
+
+Trash Purge Options:
+  --retention-days <days>      Keep deleted tasks this many days (default 30)
+
 Examples:
   npm run cli schedule --working-hours "09:00-17:30" --daily-capacity 480
+  npm run cli schedule --working-hours "09:00-17:00" --timezone "Australia/Sydney"
+  npm run cli schedule --calendar clm987654 --commit true
+  npm run cli schedule --strategy priority-first
+  npm run cli schedule --project clp123456 --mode byAssignee
   npm run cli list --status Todo --priority High
   npm run cli create "Review code" --priority High --due "2024-01-15"
   npm run cli complete clm123456 --force-parent-auto-complete
+  npm run cli recurrences materialize --horizon-days 14 --missed skip
+  npm run cli trash purge --retention-days 7
 `);
 }
 
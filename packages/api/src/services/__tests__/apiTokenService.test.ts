@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { ApiTokenService } from '../apiTokenService';
+import { prisma } from '@/lib/database';
+import { AuthenticationError, BusinessRuleError, ValidationError } from '@/types';
+
+describe('ApiTokenService', () => {
+  let apiTokenService: ApiTokenService;
+  let userId: string;
+
+  beforeEach(async () => {
+    apiTokenService = new ApiTokenService(prisma);
+    // Clean up database before each test
+    await prisma.apiToken.deleteMany();
+    await prisma.user.deleteMany();
+
+    const user = await prisma.user.create({
+      data: { email: 'ada@example.com', passwordHash: 'not-a-real-hash' },
+    });
+    userId = user.id;
+  });
+
+  afterEach(async () => {
+    // Clean up after each test
+    await prisma.apiToken.deleteMany();
+    await prisma.user.deleteMany();
+  });
+
+  describe('createToken', () => {
+    it('should return the secret once and store only its hash', async () => {
+      const { token, secret } = await apiTokenService.createToken(userId, {
+        name: 'CI',
+        scopes: ['tasks:read', 'tasks:read', 'schedule:commit'],
+        rateLimit: 20,
+      });
+
+      expect(secret).toMatch(/^dtk_/);
+      expect(token.prefix).toBe(secret.slice(0, 12));
+      expect(token.scopes).toEqual(['tasks:read', 'schedule:commit']);
+      expect(token.rateLimit).toBe(20);
+
+      const stored = await prisma.apiToken.findUnique({ where: { id: token.id } });
+      expect(stored?.tokenHash).not.toBe(secret);
+    });
+
+    it('should reject an expiry in the past', async () => {
+      await expect(apiTokenService.createToken(userId, {
+        name: 'Old',
+        scopes: ['tasks:read'],
+        expiresAt: new Date(Date.now() - 1000),
+      })).rejects.toThrow(BusinessRuleError);
+    });
+  });
+
+  describe('authenticate', () => {
+    it('should resolve the owner and scopes and record the last use', async () => {
+      const { token, secret } = await apiTokenService.createToken(userId, { name: 'CI', scopes: ['tasks:write'] });
+
+      const { user, grant } = await apiTokenService.authenticate(secret);
+
+      expect(user.id).toBe(userId);
+      expect(grant).toEqual({ id: token.id, scopes: ['tasks:write'], rateLimit: null });
+
+      const [listed] = await apiTokenService.listTokens(userId);
+      expect(listed.lastUsedAt).not.toBeNull();
+    });
+
+    it('should reject unknown, revoked and expired tokens', async () => {
+      const { token, secret } = await apiTokenService.createToken(userId, {
+        name: 'Short-lived',
+        scopes: ['tasks:read'],
+        expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+      });
+
+      await expect(apiTokenService.authenticate('dtk_unknown')).rejects.toThrow(AuthenticationError);
+      await expect(apiTokenService.authenticate(secret, new Date(Date.now() + 2 * 60 * 60 * 1000)))
+        .rejects.toThrow(AuthenticationError);
+
+      await apiTokenService.revokeToken(userId, token.id);
+      await expect(apiTokenService.authenticate(secret)).rejects.toThrow(AuthenticationError);
+    });
+  });
+
+  describe('revokeToken', () => {
+    it("should not revoke another user's token", async () => {
+      const other = await prisma.user.create({
+        data: { email: 'bob@example.com', passwordHash: 'not-a-real-hash' },
+      });
+      const { token } = await apiTokenService.createToken(userId, { name: 'CI', scopes: ['tasks:read'] });
+
+      await expect(apiTokenService.revokeToken(other.id, token.id)).rejects.toThrow(ValidationError);
+    });
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { AuthService } from '../authService';
+import { prisma } from '@/lib/database';
+import { AuthenticationError, BusinessRuleError, ValidationError } from '@/types';
+
+describe('AuthService', () => {
+  let authService: AuthService;
+
+  beforeEach(async () => {
+    authService = new AuthService(prisma);
+    // Clean up database before each test
+    await prisma.task.deleteMany();
+    await prisma.user.deleteMany();
+  });
+
+  afterEach(async () => {
+    // Clean up after each test
+    await prisma.task.deleteMany();
+    await prisma.user.deleteMany();
+  });
+
+  describe('register', () => {
+    it('should create an account with a hashed password', async () => {
+      const session = await authService.register({ email: 'Ada@Example.com', password: 'secret1', name: 'Ada' });
+
+      expect(session.user).toMatchObject({ email: 'ada@example.com', name: 'Ada' });
+      expect(session.token).toBeDefined();
+      expect(session.expiresAt.getTime()).toBeGreaterThan(Date.now());
+
+      const user = await prisma.user.findUnique({ where: { id: session.user.id } });
+      expect(user?.passwordHash).not.toBe('secret1');
+    });
+
+    it('should reject an email that is already taken', async () => {
+      await authService.register({ email: 'ada@example.com', password: 'secret1' });
+
+      await expect(authService.register({ email: 'ADA@example.com', password: 'secret2' }))
+        .rejects.toThrow(BusinessRuleError);
+    });
+
+    it('should reject the loser of two registrations racing for one email', async () => {
+      const results = await Promise.allSettled([
+        authService.register({ email: 'ada@example.com', password: 'secret1' }),
+        authService.register({ email: 'ada@example.com', password: 'secret2' }),
+      ]);
+
+      expect(results.filter(r => r.status === 'fulfilled')).toHaveLength(1);
+      const rejected = results.find((r): r is PromiseRejectedResult => r.status === 'rejected');
+      expect(rejected?.reason).toBeInstanceOf(BusinessRuleError);
+    });
+
+    it('should give tasks without an owner to the first account only', async () => {
+      const legacy = await prisma.task.create({ data: { title: 'Before accounts' } });
+      const first = await authService.register({ email: 'ada@example.com', password: 'secret1' });
+
+      const orphan = await prisma.task.create({ data: { title: 'Created by the CLI' } });
+      await authService.register({ email: 'bob@example.com', password: 'secret1' });
+
+      expect((await prisma.task.findUnique({ where: { id: legacy.id } }))?.ownerId).toBe(first.user.id);
+      expect((await prisma.task.findUnique({ where: { id: orphan.id } }))?.ownerId).toBeNull();
+    });
+  });
+
+  describe('login', () => {
+    beforeEach(async () => {
+      await authService.register({ email: 'ada@example.com', password: 'secret1' });
+    });
+
+    it('should start a session with the right password', async () => {
+      const session = await authService.login({ email: 'ada@example.com', password: 'secret1' });
+
+      expect(session.user.email).toBe('ada@example.com');
+    });
+
+    it('should reject a wrong password or unknown email the same way', async () => {
+      await expect(authService.login({ email: 'ada@example.com', password: 'wrong-one' }))
+        .rejects.toThrow('Invalid email or password');
+      await expect(authService.login({ email: 'nobody@example.com', password: 'secret1' }))
+        .rejects.toThrow('Invalid email or password');
+    });
+  });
+
+  describe('verifyToken', () => {
+    it('should resolve the user a token was issued to', async () => {
+      const session = await authService.register({ email: 'ada@example.com', password: 'secret1' });
+
+      const user = await authService.verifyToken(session.token);
+
+      expect(user).toEqual(session.user);
+    });
+
+    it('should reject tampered tokens and removed accounts', async () => {
+      const session = await authService.register({ email: 'ada@example.com', password: 'secret1' });
+
+      await expect(authService.verifyToken(`${session.token}x`)).rejects.toThrow(AuthenticationError);
+
+      await prisma.user.delete({ where: { id: session.user.id } });
+      await expect(authService.verifyToken(session.token)).rejects.toThrow(AuthenticationError);
+    });
+  });
+
+  describe('availability', () => {
+    it('should keep fields left out and clear nulls', async () => {
+      const { user } = await authService.register({ email: 'ada@example.com', password: 'secret1' });
+
+      expect(await authService.getAvailability(user.id))
+        .toEqual({ workingHours: null, calendarId: null, dailyCapacityMinutes: null });
+
+      await authService.updateAvailability(user.id, {
+        workingHours: { start: '08:00', end: '16:00', timezone: 'Europe/London' },
+        dailyCapacityMinutes: 300,
+      });
+      const availability = await authService.updateAvailability(user.id, { dailyCapacityMinutes: null });
+
+      expect(availability).toEqual({
+        workingHours: { start: '08:00', end: '16:00', timezone: 'Europe/London' },
+        calendarId: null,
+        dailyCapacityMinutes: null,
+      });
+    });
+
+    it('should reject an unknown calendar', async () => {
+      const { user } = await authService.register({ email: 'ada@example.com', password: 'secret1' });
+
+      await expect(authService.updateAvailability(user.id, { calendarId: 'ckmissingcalendar0000000' }))
+        .rejects.toThrow(ValidationError);
+    });
+  });
+});
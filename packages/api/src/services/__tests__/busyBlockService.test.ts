@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { BusyBlockService } from '../busyBlockService';
+import { prisma } from '@/lib/database';
+import { ValidationError } from '@/types';
+
+describe('BusyBlockService', () => {
+  let busyBlockService: BusyBlockService;
+
+  beforeEach(async () => {
+    busyBlockService = new BusyBlockService(prisma);
+    // Clean up database before each test
+    await prisma.busyBlock.deleteMany();
+  });
+
+  afterEach(async () => {
+    // Clean up after each test
+    await prisma.busyBlock.deleteMany();
+  });
+
+  describe('getBusyBlocks', () => {
+    it('should return blocks overlapping the range ordered by start', async () => {
+      await busyBlockService.createBusyBlock({
+        title: 'Afternoon review',
+        start: new Date('2025-06-02T14:00:00Z'),
+        end: new Date('2025-06-02T15:00:00Z'),
+      });
+      await busyBlockService.createBusyBlock({
+        title: 'Standup',
+        start: new Date('2025-06-02T09:00:00Z'),
+        end: new Date('2025-06-02T09:15:00Z'),
+      });
+      await busyBlockService.createBusyBlock({
+        title: 'Next week',
+        start: new Date('2025-06-09T09:00:00Z'),
+        end: new Date('2025-06-09T10:00:00Z'),
+      });
+
+      const blocks = await busyBlockService.getBusyBlocks({
+        from: new Date('2025-06-02T09:10:00Z'),
+        to: new Date('2025-06-03T00:00:00Z'),
+      });
+
+      expect(blocks.map(b => b.title)).toEqual(['Standup', 'Afternoon review']);
+    });
+  });
+
+  describe('updateBusyBlock', () => {
+    it('should reject an end before the stored start', async () => {
+      const block = await busyBlockService.createBusyBlock({
+        title: 'Standup',
+        start: new Date('2025-06-02T09:00:00Z'),
+        end: new Date('2025-06-02T09:15:00Z'),
+      });
+
+      await expect(
+        busyBlockService.updateBusyBlock(block.id, { end: new Date('2025-06-02T08:00:00Z') })
+      ).rejects.toThrow(ValidationError);
+    });
+
+    it('should throw error for non-existent busy block', async () => {
+      await expect(
+        busyBlockService.updateBusyBlock('non-existent-id', { title: 'Nope' })
+      ).rejects.toThrow(ValidationError);
+    });
+  });
+
+  describe('scoping', () => {
+    afterEach(async () => {
+      await prisma.user.deleteMany();
+    });
+
+    it("should keep each user to their own busy blocks", async () => {
+      const adaId = (await prisma.user.create({
+        data: { email: 'ada@example.com', passwordHash: 'not-a-real-hash' },
+      })).id;
+      const bobId = (await prisma.user.create({
+        data: { email: 'bob@example.com', passwordHash: 'not-a-real-hash' },
+      })).id;
+      const adas = new BusyBlockService(prisma, { ownerId: adaId });
+      const bobs = new BusyBlockService(prisma, { ownerId: bobId });
+
+      const block = await adas.createBusyBlock({
+        title: 'Dentist',
+        start: new Date('2025-06-02T09:00:00Z'),
+        end: new Date('2025-06-02T10:00:00Z'),
+      });
+      expect(block.ownerId).toBe(adaId);
+
+      expect(await bobs.getBusyBlocks()).toEqual([]);
+      expect(await bobs.getBusyBlockById(block.id)).toBeNull();
+      await expect(bobs.updateBusyBlock(block.id, { title: 'Mine now' })).rejects.toThrow(ValidationError);
+      await expect(bobs.deleteBusyBlock(block.id)).rejects.toThrow(ValidationError);
+      expect((await adas.getBusyBlocks()).map(b => b.title)).toEqual(['Dentist']);
+    });
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { CalendarService } from '../calendarService';
+import { prisma } from '@/lib/database';
+import { CreateWorkCalendarInput, ValidationError } from '@/types';
+
+describe('CalendarService', () => {
+  let calendarService: CalendarService;
+
+  const officeHours: CreateWorkCalendarInput = {
+    name: 'London Office',
+    timezone: 'Europe/London',
+    weeklyHours: {
+      1: [{ start: '09:00', end: '12:30' }, { start: '13:30', end: '17:30' }],
+      2: [{ start: '09:00', end: '17:30' }],
+    },
+    holidays: [{ name: 'Christmas Day', date: '2025-12-25' }],
+    blackouts: [{
+      name: 'Offsite',
+      start: new Date('2025-06-02T08:00:00Z'),
+      end: new Date('2025-06-02T16:00:00Z'),
+    }],
+  };
+
+  beforeEach(async () => {
+    calendarService = new CalendarService(prisma);
+    // Clean up database before each test
+    await prisma.workCalendar.deleteMany();
+  });
+
+  afterEach(async () => {
+    // Clean up after each test
+    await prisma.workCalendar.deleteMany();
+  });
+
+  describe('createCalendar', () => {
+    it('should create a calendar with holidays and blackouts', async () => {
+      const calendar = await calendarService.createCalendar(officeHours);
+
+      expect(calendar.name).toBe('London Office');
+      expect(calendar.timezone).toBe('Europe/London');
+      expect(calendarService.parseWeeklyHours(calendar.weeklyHours)[1]).toHaveLength(2);
+      expect(calendar.holidays).toHaveLength(1);
+      expect(calendar.holidays[0].date.toISOString()).toBe('2025-12-25T00:00:00.000Z');
+      expect(calendar.blackouts).toHaveLength(1);
+    });
+
+    it('should default the timezone to UTC', async () => {
+      const calendar = await calendarService.createCalendar({
+        name: 'Default Zone',
+        weeklyHours: { 1: [{ start: '09:00', end: '17:00' }] },
+      });
+
+      expect(calendar.timezone).toBe('UTC');
+      expect(calendar.holidays).toHaveLength(0);
+    });
+  });
+
+  describe('updateCalendar', () => {
+    it('should replace holidays when provided', async () => {
+      const calendar = await calendarService.createCalendar(officeHours);
+
+      const updated = await calendarService.updateCalendar(calendar.id, {
+        holidays: [
+          { name: 'New Year', date: '2026-01-01' },
+          { name: 'Boxing Day', date: '2025-12-26' },
+        ],
+      });
+
+      expect(updated.holidays.map(h => h.name)).toEqual(['Boxing Day', 'New Year']);
+      expect(updated.blackouts).toHaveLength(1);
+    });
+
+    it('should throw error for non-existent calendar', async () => {
+      await expect(
+        calendarService.updateCalendar('non-existent-id', { name: 'Nope' })
+      ).rejects.toThrow();
+    });
+  });
+
+  describe('deleteCalendar', () => {
+    it('should delete calendar with its holidays and blackouts', async () => {
+      const calendar = await calendarService.createCalendar(officeHours);
+
+      await calendarService.deleteCalendar(calendar.id);
+
+      expect(await calendarService.getCalendarById(calendar.id)).toBeNull();
+      expect(await prisma.calendarHoliday.count()).toBe(0);
+      expect(await prisma.calendarBlackout.count()).toBe(0);
+    });
+  });
+
+  describe('scoping', () => {
+    afterEach(async () => {
+      await prisma.user.deleteMany();
+    });
+
+    it('should keep calendars and their names to each user', async () => {
+      const adaId = (await prisma.user.create({
+        data: { email: 'ada@example.com', passwordHash: 'not-a-real-hash' },
+      })).id;
+      const bobId = (await prisma.user.create({
+        data: { email: 'bob@example.com', passwordHash: 'not-a-real-hash' },
+      })).id;
+      const adas = new CalendarService(prisma, { ownerId: adaId });
+      const bobs = new CalendarService(prisma, { ownerId: bobId });
+
+      const calendar = await adas.createCalendar(officeHours);
+      await expect(bobs.createCalendar(officeHours)).resolves.toMatchObject({ ownerId: bobId });
+      await expect(adas.createCalendar(officeHours)).rejects.toThrow();
+
+      expect((await bobs.getCalendars()).map(c => c.ownerId)).toEqual([bobId]);
+      expect(await bobs.getCalendarById(calendar.id)).toBeNull();
+      await expect(bobs.updateCalendar(calendar.id, { name: 'Mine now' })).rejects.toThrow(ValidationError);
+      await expect(bobs.deleteCalendar(calendar.id)).rejects.toThrow(ValidationError);
+    });
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { CommentService } from '../commentService';
+import { prisma } from '@/lib/database';
+import { BusinessRuleError, ValidationError } from '@/types';
+
+describe('CommentService', () => {
+  let commentService: CommentService;
+  let taskId: string;
+  let adaId: string;
+  let bobId: string;
+
+  beforeEach(async () => {
+    commentService = new CommentService(prisma);
+    // Clean up database before each test
+    await prisma.task.deleteMany();
+    await prisma.user.deleteMany();
+
+    adaId = (await prisma.user.create({
+      data: { email: 'ada@example.com', passwordHash: 'not-a-real-hash' },
+    })).id;
+    bobId = (await prisma.user.create({
+      data: { email: 'bob@example.com', passwordHash: 'not-a-real-hash' },
+    })).id;
+    taskId = (await prisma.task.create({ data: { title: 'Write the release notes' } })).id;
+  });
+
+  afterEach(async () => {
+    // Clean up after each test
+    await prisma.task.deleteMany();
+    await prisma.user.deleteMany();
+  });
+
+  describe('listComments', () => {
+    it('should nest replies under the comment they answer', async () => {
+      const question = await commentService.addComment(taskId, adaId, { body: 'Who reviews this?' });
+      await commentService.addComment(taskId, bobId, { body: 'I will', parentId: question.id });
+      await commentService.addComment(taskId, adaId, { body: 'Also, ship on *Friday*' });
+
+      const threads = await commentService.listComments(taskId);
+
+      expect(threads.map(thread => thread.body)).toEqual(['Who reviews this?', 'Also, ship on *Friday*']);
+      expect(threads[0].replies).toHaveLength(1);
+      expect(threads[0].replies[0]).toMatchObject({ body: 'I will', author: { email: 'bob@example.com' } });
+    });
+
+    it('should reject replies to comments on another task', async () => {
+      const otherTask = await prisma.task.create({ data: { title: 'Other' } });
+      const comment = await commentService.addComment(otherTask.id, adaId, { body: 'Elsewhere' });
+
+      await expect(commentService.addComment(taskId, adaId, { body: 'Reply', parentId: comment.id }))
+        .rejects.toThrow(ValidationError);
+    });
+  });
+
+  describe('updateComment', () => {
+    it('should only let the author edit a comment', async () => {
+      const comment = await commentService.addComment(taskId, adaId, { body: 'Draft' });
+
+      await expect(commentService.updateComment(taskId, comment.id, bobId, { body: 'Hijacked' }))
+        .rejects.toThrow(BusinessRuleError);
+
+      const updated = await commentService.updateComment(taskId, comment.id, adaId, { body: 'Final' });
+      expect(updated.body).toBe('Final');
+      expect(updated.editedAt).not.toBeNull();
+    });
+  });
+
+  describe('deleteComment', () => {
+    it('should keep a placeholder while a comment has replies', async () => {
+      const question = await commentService.addComment(taskId, adaId, { body: 'Who reviews this?' });
+      const reply = await commentService.addComment(taskId, bobId, { body: 'I will', parentId: question.id });
+
+      await commentService.deleteComment(taskId, question.id, adaId);
+      const [placeholder] = await commentService.listComments(taskId);
+      expect(placeholder).toMatchObject({ body: '', replies: [{ id: reply.id }] });
+      expect(placeholder.deletedAt).not.toBeNull();
+
+      // The placeholder goes with its last reply
+      await commentService.deleteComment(taskId, reply.id, bobId);
+      expect(await commentService.listComments(taskId)).toHaveLength(0);
+    });
+  });
+
+  describe('getActivity', () => {
+    it('should merge comments and recorded changes by time', async () => {
+      await prisma.taskAudit.create({
+        data: { taskId, fieldName: 'status', oldValue: 'Todo', newValue: 'InProgress', changedAt: new Date('2025-06-02T09:00:00Z') },
+      });
+      await commentService.addComment(taskId, adaId, { body: 'Started on it' });
+      await prisma.taskAudit.create({
+        data: { taskId, fieldName: 'priority', oldValue: 'Medium', newValue: 'High', changedAt: new Date('2025-06-01T09:00:00Z') },
+      });
+
+      const activity = await commentService.getActivity(taskId);
+
+      expect(activity.map(entry => entry.type)).toEqual(['change', 'change', 'comment']);
+      expect(activity[0].type === 'change' && activity[0].change.fieldName).toBe('priority');
+    });
+  });
+});
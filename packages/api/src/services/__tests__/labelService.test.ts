@@ -1,7 +1,7 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import { LabelService } from '../labelService';
 import { prisma } from '@/lib/database';
-import { CreateLabelInput, UpdateLabelInput } from '@/types';
+import { CreateLabelInput, UpdateLabelInput, ValidationError } from '@/types';
 
 describe('LabelService', () => {
   let labelService: LabelService;
@@ -393,4 +393,35 @@ describe('LabelService', () => {
       expect(taskLabels[0].label.description).toBe('Test description');
     });
   });
+
+  describe('scoping', () => {
+    afterEach(async () => {
+      await prisma.user.deleteMany();
+    });
+
+    it('should keep labels, their names and task counts to each user', async () => {
+      const adaId = (await prisma.user.create({
+        data: { email: 'ada@example.com', passwordHash: 'not-a-real-hash' },
+      })).id;
+      const bobId = (await prisma.user.create({
+        data: { email: 'bob@example.com', passwordHash: 'not-a-real-hash' },
+      })).id;
+      const adas = new LabelService(prisma, { ownerId: adaId });
+      const bobs = new LabelService(prisma, { ownerId: bobId });
+
+      const label = await adas.createLabel({ name: 'Urgent' });
+      await expect(bobs.createLabel({ name: 'Urgent' })).resolves.toMatchObject({ ownerId: bobId });
+      await expect(adas.createLabel({ name: 'Urgent' })).rejects.toThrow();
+
+      // Only the owner's own tasks count
+      const bobsTask = await prisma.task.create({ data: { title: "Bob's task", ownerId: bobId } });
+      await labelService.assignLabelsToTask(bobsTask.id, [label.id]);
+      expect((await adas.getLabelById(label.id))!._count.taskLabels).toBe(0);
+
+      expect((await bobs.getLabels()).map(l => l.ownerId)).toEqual([bobId]);
+      expect(await bobs.getLabelById(label.id)).toBeNull();
+      await expect(bobs.updateLabel(label.id, { name: 'Mine now' })).rejects.toThrow(ValidationError);
+      await expect(bobs.deleteLabel(label.id)).rejects.toThrow(ValidationError);
+    });
+  });
 });
@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { ProjectService } from '../projectService';
+import { prisma } from '@/lib/database';
+import { BusinessRuleError, ProjectRole, ValidationError } from '@/types';
+
+describe('ProjectService', () => {
+  let projectService: ProjectService;
+  let adaId: string;
+  let bobId: string;
+
+  beforeEach(async () => {
+    projectService = new ProjectService(prisma);
+    // Clean up database before each test
+    await prisma.project.deleteMany();
+    await prisma.user.deleteMany();
+
+    adaId = (await prisma.user.create({
+      data: { email: 'ada@example.com', passwordHash: 'not-a-real-hash' },
+    })).id;
+    bobId = (await prisma.user.create({
+      data: { email: 'bob@example.com', passwordHash: 'not-a-real-hash' },
+    })).id;
+  });
+
+  afterEach(async () => {
+    // Clean up after each test
+    await prisma.project.deleteMany();
+    await prisma.user.deleteMany();
+  });
+
+  describe('createProject', () => {
+    it('should make the creator its owner', async () => {
+      const project = await projectService.createProject(adaId, { name: 'Launch' });
+
+      expect(project).toMatchObject({ name: 'Launch', role: ProjectRole.Owner, memberCount: 1, taskCount: 0 });
+      await expect(projectService.getAccess(project.id, adaId))
+        .resolves.toEqual({ id: project.id, role: ProjectRole.Owner });
+    });
+  });
+
+  describe('listProjects', () => {
+    it('should only list projects the user is a member of', async () => {
+      await projectService.createProject(adaId, { name: 'Launch' });
+
+      expect(await projectService.listProjects(adaId)).toHaveLength(1);
+      expect(await projectService.listProjects(bobId)).toHaveLength(0);
+    });
+  });
+
+  describe('getAccess', () => {
+    it('should treat non-members as if the project did not exist', async () => {
+      const project = await projectService.createProject(adaId, { name: 'Launch' });
+
+      await expect(projectService.getAccess(project.id, bobId)).rejects.toThrow(ValidationError);
+      await expect(projectService.getAccess('non-existent-id', adaId)).rejects.toThrow(ValidationError);
+    });
+  });
+
+  describe('setMember', () => {
+    it('should add a member by email and change their role', async () => {
+      const project = await projectService.createProject(adaId, { name: 'Launch' });
+
+      await projectService.setMember(project.id, { email: 'BOB@example.com', role: ProjectRole.Viewer });
+      const member = await projectService.setMember(project.id, { email: 'bob@example.com', role: ProjectRole.Editor });
+
+      expect(member).toMatchObject({ userId: bobId, role: ProjectRole.Editor });
+      expect(await projectService.listMembers(project.id)).toHaveLength(2);
+    });
+
+    it('should reject unknown emails', async () => {
+      const project = await projectService.createProject(adaId, { name: 'Launch' });
+
+      await expect(projectService.setMember(project.id, { email: 'nobody@example.com', role: ProjectRole.Viewer }))
+        .rejects.toThrow(ValidationError);
+    });
+
+    it('should not demote the last owner', async () => {
+      const project = await projectService.createProject(adaId, { name: 'Launch' });
+
+      await expect(projectService.setMember(project.id, { email: 'ada@example.com', role: ProjectRole.Editor }))
+        .rejects.toThrow(BusinessRuleError);
+    });
+  });
+
+  describe('removeMember', () => {
+    it('should remove members but keep the last owner', async () => {
+      const project = await projectService.createProject(adaId, { name: 'Launch' });
+      await projectService.setMember(project.id, { email: 'bob@example.com', role: ProjectRole.Viewer });
+
+      await projectService.removeMember(project.id, bobId);
+
+      await expect(projectService.getAccess(project.id, bobId)).rejects.toThrow(ValidationError);
+      await expect(projectService.removeMember(project.id, adaId)).rejects.toThrow(BusinessRuleError);
+    });
+  });
+
+  describe('deleteProject', () => {
+    it('should delete its tasks and labels with it', async () => {
+      const project = await projectService.createProject(adaId, { name: 'Launch' });
+      await prisma.task.create({ data: { title: 'Ship it', projectId: project.id } });
+      await prisma.label.create({ data: { name: 'Launch', projectId: project.id } });
+
+      await projectService.deleteProject(project.id);
+
+      expect(await prisma.task.count({ where: { projectId: project.id } })).toBe(0);
+      expect(await prisma.label.count({ where: { projectId: project.id } })).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,23 @@
+import { describe, it, expect, vi } from 'vitest';
+import { RecurrenceMaterializer } from '../recurrenceMaterializer';
+import { TaskService } from '../taskService';
+import { MaterializeResult } from '@/types';
+
+describe('RecurrenceMaterializer', () => {
+  it('should pass its options on to materializeRecurrences', async () => {
+    const result: MaterializeResult = {
+      horizonEnd: new Date('2099-01-08T00:00:00Z'),
+      seriesChecked: 0,
+      created: [],
+      missedSkipped: 0,
+    };
+    const materializeRecurrences = vi.fn().mockResolvedValue(result);
+    const materializer = new RecurrenceMaterializer(
+      { materializeRecurrences } as unknown as TaskService,
+      { horizonDays: 14, missedPolicy: 'skip' }
+    );
+
+    expect(await materializer.runOnce()).toEqual(result);
+    expect(materializeRecurrences).toHaveBeenCalledWith({ horizonDays: 14, missedPolicy: 'skip' });
+  });
+});
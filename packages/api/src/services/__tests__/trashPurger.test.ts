@@ -0,0 +1,15 @@
+import { describe, it, expect, vi } from 'vitest';
+import { TrashPurger } from '../trashPurger';
+import { TaskService } from '../taskService';
+import { PurgeTrashResult } from '@/types';
+
+describe('TrashPurger', () => {
+  it('should pass its retention on to purgeTrash', async () => {
+    const result: PurgeTrashResult = { cutoff: new Date('2099-01-01T00:00:00Z'), purged: 0 };
+    const purgeTrash = vi.fn().mockResolvedValue(result);
+    const purger = new TrashPurger({ purgeTrash } as unknown as TaskService, { retentionDays: 7 });
+
+    expect(await purger.runOnce()).toEqual(result);
+    expect(purgeTrash).toHaveBeenCalledWith({ retentionDays: 7 });
+  });
+});
@@ -0,0 +1,119 @@
+import { ApiToken, PrismaClient } from '@prisma/client';
+import { createHash, randomBytes } from 'crypto';
+import {
+  ApiTokenGrant,
+  ApiTokenScope,
+  ApiTokenSummary,
+  AuthUser,
+  AuthenticationError,
+  BusinessRuleError,
+  CreateApiTokenInput,
+  CreatedApiToken,
+  ValidationError
+} from '../types';
+
+// Secrets look like dtk_<43 url-safe characters>, so they are easy to spot in logs and configs
+export const API_TOKEN_PREFIX = 'dtk_';
+
+// Shown back in listings so users can tell their tokens apart
+const VISIBLE_PREFIX_LENGTH = 12;
+
+// lastUsedAt is only written when it is older than this, not on every request
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+function hashSecret(secret: string): string {
+  return createHash('sha256').update(secret).digest('hex');
+}
+
+function toSummary(token: ApiToken): ApiTokenSummary {
+  return {
+    id: token.id,
+    name: token.name,
+    prefix: token.prefix,
+    scopes: token.scopes as ApiTokenScope[],
+    rateLimit: token.rateLimit,
+    lastUsedAt: token.lastUsedAt,
+    expiresAt: token.expiresAt,
+    revokedAt: token.revokedAt,
+    createdAt: token.createdAt,
+  };
+}
+
+export class ApiTokenService {
+  constructor(private prisma: PrismaClient) {}
+
+  async createToken(userId: string, input: CreateApiTokenInput): Promise<CreatedApiToken> {
+    if (input.expiresAt && input.expiresAt.getTime() <= Date.now()) {
+      throw new BusinessRuleError('Token expiry must be in the future', 'INVALID_EXPIRY');
+    }
+
+    const secret = `${API_TOKEN_PREFIX}${randomBytes(32).toString('base64url')}`;
+
+    const token = await this.prisma.apiToken.create({
+      data: {
+        userId,
+        name: input.name,
+        tokenHash: hashSecret(secret),
+        prefix: secret.slice(0, VISIBLE_PREFIX_LENGTH),
+        scopes: Array.from(new Set(input.scopes)),
+        rateLimit: input.rateLimit,
+        expiresAt: input.expiresAt,
+      },
+    });
+
+    return { token: toSummary(token), secret };
+  }
+
+  async listTokens(userId: string): Promise<ApiTokenSummary[]> {
+    const tokens = await this.prisma.apiToken.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return tokens.map(toSummary);
+  }
+
+  async revokeToken(userId: string, id: string): Promise<ApiTokenSummary> {
+    const token = await this.prisma.apiToken.findFirst({ where: { id, userId } });
+
+    if (!token) {
+      throw new ValidationError('API token not found');
+    }
+
+    // Revoking twice keeps the original revocation time
+    if (token.revokedAt) {
+      return toSummary(token);
+    }
+
+    const revoked = await this.prisma.apiToken.update({
+      where: { id },
+      data: { revokedAt: new Date() },
+    });
+
+    return toSummary(revoked);
+  }
+
+  // Resolves a secret to its owner and grant, recording when the token was last used
+  async authenticate(secret: string, now = new Date()): Promise<{ user: AuthUser; grant: ApiTokenGrant }> {
+    const token = await this.prisma.apiToken.findUnique({
+      where: { tokenHash: hashSecret(secret) },
+      include: { user: true },
+    });
+
+    if (!token || token.revokedAt || (token.expiresAt && token.expiresAt <= now)) {
+      throw new AuthenticationError('API token is invalid, revoked or expired', 'INVALID_TOKEN');
+    }
+
+    if (!token.lastUsedAt || now.getTime() - token.lastUsedAt.getTime() >= LAST_USED_RESOLUTION_MS) {
+      await this.prisma.apiToken.update({
+        where: { id: token.id },
+        data: { lastUsedAt: now },
+      });
+    }
+
+    return {
+      user: { id: token.user.id, email: token.user.email, name: token.user.name },
+      grant: { id: token.id, scopes: token.scopes as ApiTokenScope[], rateLimit: token.rateLimit },
+    };
+  }
+}
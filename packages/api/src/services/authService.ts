@@ -0,0 +1,155 @@
+import { Prisma, PrismaClient, User } from '@prisma/client';
+import bcrypt from 'bcryptjs';
+import jwt from 'jsonwebtoken';
+import {
+  AuthSession,
+  AuthUser,
+  AuthenticationError,
+  BusinessRuleError,
+  LoginCredentials,
+  RegisterCredentials,
+  UpdateAvailabilityInput,
+  UserAvailability,
+  ValidationError,
+  WorkingHours
+} from '../types';
+
+const PASSWORD_HASH_ROUNDS = 10;
+
+// Session lifetime, as a jsonwebtoken duration (e.g. '12h', '7d')
+const DEFAULT_SESSION_TTL = '7d';
+
+function getJwtSecret(): string {
+  const secret = process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error('JWT_SECRET is not set');
+  }
+  return secret;
+}
+
+function toAuthUser(user: User): AuthUser {
+  return { id: user.id, email: user.email, name: user.name };
+}
+
+export function toAvailability(user: User): UserAvailability {
+  return {
+    workingHours: user.workingHours ? (JSON.parse(user.workingHours) as WorkingHours) : null,
+    calendarId: user.calendarId,
+    dailyCapacityMinutes: user.dailyCapacityMinutes,
+  };
+}
+
+export class AuthService {
+  constructor(private prisma: PrismaClient) {}
+
+  async register(input: RegisterCredentials): Promise<AuthSession> {
+    const email = input.email.trim().toLowerCase();
+
+    const emailTaken = () => new BusinessRuleError('An account with this email already exists', 'EMAIL_TAKEN');
+
+    const existing = await this.prisma.user.findUnique({ where: { email } });
+    if (existing) {
+      throw emailTaken();
+    }
+
+    const passwordHash = await bcrypt.hash(input.password, PASSWORD_HASH_ROUNDS);
+
+    const user = await this.prisma.$transaction(async (tx) => {
+      const isFirstAccount = (await tx.user.count()) === 0;
+      const created = await tx.user.create({
+        data: { email, name: input.name, passwordHash },
+      });
+
+      // The first account adopts the tasks created before there were accounts, except project tasks
+      if (isFirstAccount) {
+        await tx.task.updateMany({
+          where: { ownerId: null, projectId: null },
+          data: { ownerId: created.id },
+        });
+      }
+
+      return created;
+    }).catch(error => {
+      // A registration with the same email can land between the check above and the create
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw emailTaken();
+      }
+      throw error;
+    });
+
+    return this.createSession(user);
+  }
+
+  async login(input: LoginCredentials): Promise<AuthSession> {
+    const user = await this.prisma.user.findUnique({
+      where: { email: input.email.trim().toLowerCase() },
+    });
+
+    // An unknown email and a wrong password get the same answer
+    if (!user || !(await bcrypt.compare(input.password, user.passwordHash))) {
+      throw new AuthenticationError('Invalid email or password', 'INVALID_CREDENTIALS');
+    }
+
+    return this.createSession(user);
+  }
+
+  async verifyToken(token: string): Promise<AuthUser> {
+    let userId: string | undefined;
+    try {
+      const payload = jwt.verify(token, getJwtSecret());
+      userId = typeof payload === 'string' ? undefined : payload.sub;
+    } catch {
+      userId = undefined;
+    }
+
+    // The account may have been removed since the token was issued
+    const user = userId ? await this.prisma.user.findUnique({ where: { id: userId } }) : null;
+    if (!user) {
+      throw new AuthenticationError('Session is invalid or has expired');
+    }
+
+    return toAuthUser(user);
+  }
+
+  async getAvailability(userId: string): Promise<UserAvailability> {
+    const user = await this.prisma.user.findUniqueOrThrow({ where: { id: userId } });
+    return toAvailability(user);
+  }
+
+  // Fields left out keep their value; null clears them
+  async updateAvailability(userId: string, input: UpdateAvailabilityInput): Promise<UserAvailability> {
+    if (input.calendarId) {
+      const calendar = await this.prisma.workCalendar.findFirst({ where: { id: input.calendarId, ownerId: userId } });
+      if (!calendar) {
+        throw new ValidationError('Calendar not found');
+      }
+    }
+
+    const user = await this.prisma.user.update({
+      where: { id: userId },
+      data: {
+        workingHours: input.workingHours === undefined
+          ? undefined
+          : input.workingHours && JSON.stringify(input.workingHours),
+        calendarId: input.calendarId,
+        dailyCapacityMinutes: input.dailyCapacityMinutes,
+      },
+    });
+
+    return toAvailability(user);
+  }
+
+  private createSession(user: User): AuthSession {
+    const token = jwt.sign({ email: user.email }, getJwtSecret(), {
+      subject: user.id,
+      expiresIn: (process.env.JWT_EXPIRES_IN || DEFAULT_SESSION_TTL) as jwt.SignOptions['expiresIn'],
+    });
+    const { exp } = jwt.decode(token) as jwt.JwtPayload;
+
+    return {
+      user: toAuthUser(user),
+      token,
+      expiresAt: new Date((exp ?? 0) * 1000),
+    };
+  }
+}
@@ -0,0 +1,81 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { CreateBusyBlockInput, OwnerScope, UpdateBusyBlockInput, ValidationError } from '../types';
+
+export class BusyBlockService {
+  constructor(private prisma: PrismaClient, private scope: OwnerScope = {}) {}
+
+  // Narrows to the project's busy blocks, or else the owner's, so others' read as not found
+  private owned(where: Prisma.BusyBlockWhereInput = {}): Prisma.BusyBlockWhereInput {
+    if (this.scope.projectId) {
+      return { ...where, projectId: this.scope.projectId };
+    }
+    return this.scope.ownerId ? { ...where, ownerId: this.scope.ownerId } : where;
+  }
+
+  async createBusyBlock(input: CreateBusyBlockInput) {
+    return this.prisma.busyBlock.create({
+      data: {
+        title: input.title,
+        description: input.description,
+        start: input.start,
+        end: input.end,
+        projectId: this.scope.projectId,
+        ownerId: this.scope.projectId ? undefined : this.scope.ownerId,
+      },
+    });
+  }
+
+  // Blocks overlapping [from, to); either bound may be omitted
+  async getBusyBlocks(range: { from?: Date; to?: Date } = {}) {
+    return this.prisma.busyBlock.findMany({
+      where: this.owned({
+        ...(range.from && { end: { gt: range.from } }),
+        ...(range.to && { start: { lt: range.to } }),
+      }),
+      orderBy: {
+        start: 'asc',
+      },
+    });
+  }
+
+  async getBusyBlockById(id: string) {
+    return this.prisma.busyBlock.findFirst({
+      where: this.owned({ id }),
+    });
+  }
+
+  async updateBusyBlock(id: string, input: UpdateBusyBlockInput) {
+    const existing = await this.getBusyBlockById(id);
+
+    if (!existing) {
+      throw new ValidationError('Busy block not found');
+    }
+
+    // Only one end of the range may be changing, so check against the stored values
+    const start = input.start ?? existing.start;
+    const end = input.end ?? existing.end;
+    if (start >= end) {
+      throw new ValidationError('Busy block start must be before its end', 'INVALID_RANGE', { start, end });
+    }
+
+    return this.prisma.busyBlock.update({
+      where: { id },
+      data: {
+        title: input.title,
+        description: input.description,
+        start: input.start,
+        end: input.end,
+      },
+    });
+  }
+
+  async deleteBusyBlock(id: string) {
+    const { count } = await this.prisma.busyBlock.deleteMany({
+      where: this.owned({ id }),
+    });
+
+    if (count === 0) {
+      throw new ValidationError('Busy block not found');
+    }
+  }
+}
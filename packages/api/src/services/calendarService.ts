@@ -0,0 +1,145 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { CreateWorkCalendarInput, OwnerScope, UpdateWorkCalendarInput, ValidationError, WeeklyHours } from '../types';
+
+export class CalendarService {
+  constructor(private prisma: PrismaClient, private scope: OwnerScope = {}) {}
+
+  // Narrows to the project's calendars, or else the owner's, so others' read as not found
+  private owned(where: Prisma.WorkCalendarWhereInput = {}): Prisma.WorkCalendarWhereInput {
+    if (this.scope.projectId) {
+      return { ...where, projectId: this.scope.projectId };
+    }
+    return this.scope.ownerId ? { ...where, ownerId: this.scope.ownerId } : where;
+  }
+
+  async createCalendar(input: CreateWorkCalendarInput) {
+    return this.prisma.workCalendar.create({
+      data: {
+        name: input.name,
+        timezone: input.timezone || 'UTC',
+        weeklyHours: JSON.stringify(input.weeklyHours),
+        projectId: this.scope.projectId,
+        ownerId: this.scope.projectId ? undefined : this.scope.ownerId,
+        holidays: {
+          create: (input.holidays || []).map(holiday => ({
+            name: holiday.name,
+            date: new Date(`${holiday.date}T00:00:00Z`),
+          })),
+        },
+        blackouts: {
+          create: (input.blackouts || []).map(blackout => ({
+            name: blackout.name,
+            start: blackout.start,
+            end: blackout.end,
+          })),
+        },
+      },
+      include: {
+        holidays: true,
+        blackouts: true,
+      },
+    });
+  }
+
+  async getCalendars() {
+    return this.prisma.workCalendar.findMany({
+      where: this.owned(),
+      include: {
+        holidays: {
+          orderBy: { date: 'asc' },
+        },
+        blackouts: {
+          orderBy: { start: 'asc' },
+        },
+      },
+      orderBy: {
+        name: 'asc',
+      },
+    });
+  }
+
+  async getCalendarById(id: string) {
+    return this.prisma.workCalendar.findFirst({
+      where: this.owned({ id }),
+      include: {
+        holidays: {
+          orderBy: { date: 'asc' },
+        },
+        blackouts: {
+          orderBy: { start: 'asc' },
+        },
+      },
+    });
+  }
+
+  async updateCalendar(id: string, input: UpdateWorkCalendarInput) {
+    // Holidays and blackouts are replaced wholesale when provided
+    return this.prisma.$transaction(async (tx) => {
+      if (!await tx.workCalendar.findFirst({ where: this.owned({ id }) })) {
+        throw new ValidationError('Calendar not found');
+      }
+
+      const calendar = await tx.workCalendar.update({
+        where: { id },
+        data: {
+          name: input.name,
+          timezone: input.timezone,
+          weeklyHours: input.weeklyHours ? JSON.stringify(input.weeklyHours) : undefined,
+        },
+      });
+
+      if (input.holidays !== undefined) {
+        await tx.calendarHoliday.deleteMany({ where: { calendarId: id } });
+        if (input.holidays.length > 0) {
+          await tx.calendarHoliday.createMany({
+            data: input.holidays.map(holiday => ({
+              calendarId: id,
+              name: holiday.name,
+              date: new Date(`${holiday.date}T00:00:00Z`),
+            })),
+          });
+        }
+      }
+
+      if (input.blackouts !== undefined) {
+        await tx.calendarBlackout.deleteMany({ where: { calendarId: id } });
+        if (input.blackouts.length > 0) {
+          await tx.calendarBlackout.createMany({
+            data: input.blackouts.map(blackout => ({
+              calendarId: id,
+              name: blackout.name,
+              start: blackout.start,
+              end: blackout.end,
+            })),
+          });
+        }
+      }
+
+      return tx.workCalendar.findUniqueOrThrow({
+        where: { id: calendar.id },
+        include: {
+          holidays: {
+            orderBy: { date: 'asc' },
+          },
+          blackouts: {
+            orderBy: { start: 'asc' },
+          },
+        },
+      });
+    });
+  }
+
+  async deleteCalendar(id: string) {
+    const { count } = await this.prisma.workCalendar.deleteMany({
+      where: this.owned({ id }),
+    });
+
+    if (count === 0) {
+      throw new ValidationError('Calendar not found');
+    }
+  }
+
+  parseWeeklyHours(weeklyHours: string): WeeklyHours {
+    return JSON.parse(weeklyHours) as WeeklyHours;
+  }
+}
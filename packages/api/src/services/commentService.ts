@@ -0,0 +1,141 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import {
+  BusinessRuleError,
+  CommentThread,
+  CreateCommentInput,
+  TaskActivity,
+  TaskCommentWithAuthor,
+  UpdateCommentInput,
+  ValidationError
+} from '../types';
+
+const withAuthor = {
+  author: { select: { id: true, email: true, name: true } },
+} satisfies Prisma.TaskCommentInclude;
+
+// Comments live under a task the caller can see; the controller checks that before calling in
+export class CommentService {
+  constructor(private prisma: PrismaClient) {}
+
+  // Top-level comments oldest first, each with its replies nested under it
+  async listComments(taskId: string): Promise<CommentThread[]> {
+    const comments = await this.prisma.taskComment.findMany({
+      where: { taskId },
+      include: withAuthor,
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const threads = new Map<string, CommentThread>(
+      comments.map(comment => [comment.id, { ...comment, replies: [] }])
+    );
+    const roots: CommentThread[] = [];
+    for (const thread of Array.from(threads.values())) {
+      const parent = thread.parentId ? threads.get(thread.parentId) : undefined;
+      if (parent) {
+        parent.replies.push(thread);
+      } else {
+        roots.push(thread);
+      }
+    }
+    return roots;
+  }
+
+  async addComment(taskId: string, authorId: string | undefined, input: CreateCommentInput): Promise<TaskCommentWithAuthor> {
+    if (input.parentId) {
+      const parent = await this.prisma.taskComment.findFirst({
+        where: { id: input.parentId, taskId, deletedAt: null },
+      });
+      if (!parent) {
+        throw new ValidationError('Comment not found');
+      }
+    }
+
+    return this.prisma.taskComment.create({
+      data: {
+        taskId,
+        parentId: input.parentId,
+        authorId,
+        body: input.body,
+      },
+      include: withAuthor,
+    });
+  }
+
+  async updateComment(
+    taskId: string,
+    commentId: string,
+    userId: string | undefined,
+    input: UpdateCommentInput
+  ): Promise<TaskCommentWithAuthor> {
+    await this.getOwnComment(taskId, commentId, userId);
+
+    return this.prisma.taskComment.update({
+      where: { id: commentId },
+      data: {
+        body: input.body,
+        editedAt: new Date(),
+      },
+      include: withAuthor,
+    });
+  }
+
+  // A comment with replies stays as a placeholder so the thread keeps its shape
+  async deleteComment(taskId: string, commentId: string, userId: string | undefined): Promise<void> {
+    const comment = await this.getOwnComment(taskId, commentId, userId);
+
+    const replyCount = await this.prisma.taskComment.count({ where: { parentId: commentId } });
+    if (replyCount > 0) {
+      await this.prisma.taskComment.update({
+        where: { id: commentId },
+        data: { body: '', deletedAt: new Date() },
+      });
+      return;
+    }
+
+    await this.prisma.taskComment.delete({ where: { id: commentId } });
+
+    // Drop a deleted parent once its last reply is gone
+    if (comment.parentId) {
+      await this.prisma.taskComment.deleteMany({
+        where: {
+          id: comment.parentId,
+          deletedAt: { not: null },
+          replies: { none: {} },
+        },
+      });
+    }
+  }
+
+  // Comments and recorded changes, oldest first
+  async getActivity(taskId: string): Promise<TaskActivity[]> {
+    const [comments, changes] = await Promise.all([
+      this.prisma.taskComment.findMany({
+        where: { taskId, deletedAt: null },
+        include: withAuthor,
+      }),
+      this.prisma.taskAudit.findMany({
+        where: { taskId },
+      }),
+    ]);
+
+    const activity: TaskActivity[] = [
+      ...comments.map(comment => ({ type: 'comment' as const, at: comment.createdAt, comment })),
+      ...changes.map(change => ({ type: 'change' as const, at: change.changedAt, change })),
+    ];
+    return activity.sort((a, b) => a.at.getTime() - b.at.getTime());
+  }
+
+  // Only the author may change a comment; without authentication (BYPASS_AUTH=true) anyone may
+  private async getOwnComment(taskId: string, commentId: string, userId: string | undefined) {
+    const comment = await this.prisma.taskComment.findFirst({
+      where: { id: commentId, taskId, deletedAt: null },
+    });
+    if (!comment) {
+      throw new ValidationError('Comment not found');
+    }
+    if (userId && comment.authorId !== userId) {
+      throw new BusinessRuleError('Only the author can change a comment', 'NOT_AUTHOR');
+    }
+    return comment;
+  }
+}
@@ -1,8 +1,28 @@
-import { PrismaClient } from '@prisma/client';
-import { CreateLabelInput, UpdateLabelInput, LabelWithTaskCount } from '../types';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { CreateLabelInput, UpdateLabelInput, LabelWithTaskCount, OwnerScope, ValidationError } from '../types';
+
+// Labels a task may carry: its project's, or else its owner's
+export const labelsFor = (task: { projectId?: string | null; ownerId?: string | null }): Prisma.LabelWhereInput =>
+  task.projectId ? { projectId: task.projectId } : { projectId: null, ownerId: task.ownerId ?? null };
 
 export class LabelService {
-  constructor(private prisma: PrismaClient) {}
+  constructor(private prisma: PrismaClient, private scope: OwnerScope = {}) {}
+
+  // Narrows to the project's labels, or else the owner's, so others' read as not found
+  private owned(where: Prisma.LabelWhereInput = {}): Prisma.LabelWhereInput {
+    if (this.scope.projectId) {
+      return { ...where, projectId: this.scope.projectId };
+    }
+    return this.scope.ownerId ? { ...where, ownerId: this.scope.ownerId } : where;
+  }
+
+  // Counts a label's tasks within the same project or owner only
+  private taskCount() {
+    const task: Prisma.TaskWhereInput | undefined = this.scope.projectId
+      ? { projectId: this.scope.projectId }
+      : this.scope.ownerId ? { ownerId: this.scope.ownerId } : undefined;
+    return { select: { taskLabels: task ? { where: { task } } : true } };
+  }
 
   async createLabel(input: CreateLabelInput) {
     return this.prisma.label.create({
@@ -10,18 +30,17 @@ export class LabelService {
         name: input.name,
         colour: input.colour || '#3B82F6',
         description: input.description,
+        projectId: this.scope.projectId,
+        ownerId: this.scope.projectId ? undefined : this.scope.ownerId,
       },
     });
   }
 
   async getLabels() {
     return this.prisma.label.findMany({
+      where: this.owned(),
       include: {
-        _count: {
-          select: {
-            taskLabels: true,
-          },
-        },
+        _count: this.taskCount(),
       },
       orderBy: {
         name: 'asc',
@@ -30,19 +49,19 @@ export class LabelService {
   }
 
   async getLabelById(id: string) {
-    return this.prisma.label.findUnique({
-      where: { id },
+    return this.prisma.label.findFirst({
+      where: this.owned({ id }),
       include: {
-        _count: {
-          select: {
-            taskLabels: true,
-          },
-        },
+        _count: this.taskCount(),
       },
     }) as Promise<LabelWithTaskCount | null>;
   }
 
   async updateLabel(id: string, input: UpdateLabelInput) {
+    if (!await this.prisma.label.findFirst({ where: this.owned({ id }) })) {
+      throw new ValidationError('Label not found');
+    }
+
     return this.prisma.label.update({
       where: { id },
       data: {
@@ -54,6 +73,10 @@ export class LabelService {
   }
 
   async deleteLabel(id: string) {
+    if (!await this.prisma.label.findFirst({ where: this.owned({ id }) })) {
+      throw new ValidationError('Label not found');
+    }
+
     // Check if label is used by any tasks
     const taskCount = await this.prisma.taskLabel.count({
       where: { labelId: id },
@@ -0,0 +1,182 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import {
+  BusinessRuleError,
+  CreateProjectInput,
+  ProjectAccess,
+  ProjectMemberInput,
+  ProjectMemberSummary,
+  ProjectRole,
+  ProjectSummary,
+  UpdateProjectInput,
+  ValidationError
+} from '../types';
+
+const withCounts = {
+  _count: {
+    select: {
+      tasks: true,
+      members: true,
+    },
+  },
+} satisfies Prisma.ProjectInclude;
+
+type ProjectWithCounts = Prisma.ProjectGetPayload<{ include: typeof withCounts }>;
+
+function toSummary(project: ProjectWithCounts, role: ProjectRole | null): ProjectSummary {
+  return {
+    id: project.id,
+    name: project.name,
+    description: project.description,
+    role,
+    taskCount: project._count.tasks,
+    memberCount: project._count.members,
+    createdAt: project.createdAt,
+    updatedAt: project.updatedAt,
+  };
+}
+
+export class ProjectService {
+  constructor(private prisma: PrismaClient) {}
+
+  // The creator becomes the project's first owner
+  async createProject(userId: string | undefined, input: CreateProjectInput): Promise<ProjectSummary> {
+    const project = await this.prisma.project.create({
+      data: {
+        name: input.name,
+        description: input.description,
+        members: userId ? { create: { userId, role: ProjectRole.Owner } } : undefined,
+      },
+      include: withCounts,
+    });
+
+    return toSummary(project, userId ? ProjectRole.Owner : null);
+  }
+
+  // Without a user (BYPASS_AUTH=true) every project is listed
+  async listProjects(userId?: string): Promise<ProjectSummary[]> {
+    const projects = await this.prisma.project.findMany({
+      where: userId ? { members: { some: { userId } } } : undefined,
+      include: {
+        ...withCounts,
+        members: { where: { userId } },
+      },
+      orderBy: { name: 'asc' },
+    });
+
+    return projects.map(project =>
+      toSummary(project, userId ? (project.members[0].role as ProjectRole) : null)
+    );
+  }
+
+  // Non-members get the same answer as for a project that doesn't exist
+  async getAccess(projectId: string, userId?: string): Promise<ProjectAccess> {
+    if (!userId) {
+      const project = await this.prisma.project.findUnique({ where: { id: projectId } });
+      if (!project) {
+        throw new ValidationError('Project not found');
+      }
+      return { id: project.id, role: ProjectRole.Owner };
+    }
+
+    const membership = await this.prisma.projectMember.findUnique({
+      where: { projectId_userId: { projectId, userId } },
+    });
+    if (!membership) {
+      throw new ValidationError('Project not found');
+    }
+    return { id: projectId, role: membership.role as ProjectRole };
+  }
+
+  async getProject(access: ProjectAccess): Promise<ProjectSummary> {
+    const project = await this.prisma.project.findUniqueOrThrow({
+      where: { id: access.id },
+      include: withCounts,
+    });
+
+    return toSummary(project, access.role);
+  }
+
+  async updateProject(access: ProjectAccess, input: UpdateProjectInput): Promise<ProjectSummary> {
+    const project = await this.prisma.project.update({
+      where: { id: access.id },
+      data: {
+        name: input.name,
+        description: input.description,
+      },
+      include: withCounts,
+    });
+
+    return toSummary(project, access.role);
+  }
+
+  // Takes the project's tasks and labels with it
+  async deleteProject(projectId: string): Promise<void> {
+    await this.prisma.project.delete({ where: { id: projectId } });
+  }
+
+  async listMembers(projectId: string): Promise<ProjectMemberSummary[]> {
+    const members = await this.prisma.projectMember.findMany({
+      where: { projectId },
+      include: { user: true },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return members.map(member => ({
+      userId: member.userId,
+      email: member.user.email,
+      name: member.user.name,
+      role: member.role as ProjectRole,
+      createdAt: member.createdAt,
+    }));
+  }
+
+  // Adds a member by email, or changes the role of an existing one
+  async setMember(projectId: string, input: ProjectMemberInput): Promise<ProjectMemberSummary> {
+    const user = await this.prisma.user.findUnique({
+      where: { email: input.email.trim().toLowerCase() },
+    });
+    if (!user) {
+      throw new ValidationError('User not found');
+    }
+
+    if (input.role !== ProjectRole.Owner) {
+      await this.assertNotLastOwner(projectId, user.id);
+    }
+
+    const member = await this.prisma.projectMember.upsert({
+      where: { projectId_userId: { projectId, userId: user.id } },
+      create: { projectId, userId: user.id, role: input.role },
+      update: { role: input.role },
+    });
+
+    return {
+      userId: user.id,
+      email: user.email,
+      name: user.name,
+      role: member.role as ProjectRole,
+      createdAt: member.createdAt,
+    };
+  }
+
+  async removeMember(projectId: string, userId: string): Promise<void> {
+    const member = await this.prisma.projectMember.findUnique({
+      where: { projectId_userId: { projectId, userId } },
+    });
+    if (!member) {
+      throw new ValidationError('Member not found');
+    }
+
+    await this.assertNotLastOwner(projectId, userId);
+    await this.prisma.projectMember.delete({ where: { id: member.id } });
+  }
+
+  // Someone must always be left to manage the project
+  private async assertNotLastOwner(projectId: string, userId: string): Promise<void> {
+    const owners = await this.prisma.projectMember.findMany({
+      where: { projectId, role: ProjectRole.Owner },
+    });
+    if (owners.length === 1 && owners[0].userId === userId) {
+      throw new BusinessRuleError('A project needs at least one owner', 'LAST_OWNER');
+    }
+  }
+}
@@ -0,0 +1,24 @@
+import { TaskService } from './taskService';
+import { IntervalJob } from '../lib/intervalJob';
+import { MaterializeOptions, MaterializeResult } from '../types';
+
+export interface RecurrenceMaterializerOptions extends Omit<MaterializeOptions, 'now'> {
+  intervalMinutes?: number; // default: RECURRENCE_MATERIALIZE_INTERVAL_MINUTES or 60
+}
+
+// Runs TaskService.materializeRecurrences on a timer inside the API process. Each run only
+// creates missing slots, so restarts and overlapping processes don't duplicate occurrences.
+export class RecurrenceMaterializer extends IntervalJob<MaterializeResult> {
+  constructor(private taskService: TaskService, private options: RecurrenceMaterializerOptions = {}) {
+    super('Recurrence materializer', 'RECURRENCE_MATERIALIZE_INTERVAL_MINUTES', options.intervalMinutes);
+  }
+
+  protected async run(): Promise<MaterializeResult> {
+    const { horizonDays, missedPolicy } = this.options;
+    const result = await this.taskService.materializeRecurrences({ horizonDays, missedPolicy });
+    if (result.created.length > 0) {
+      console.log(`🔁 Materialized ${result.created.length} recurring task occurrence(s) up to ${result.horizonEnd.toISOString()}`);
+    }
+    return result;
+  }
+}
@@ -1,33 +1,303 @@
+import { Prisma, RecurrenceSeries, Task } from '@prisma/client';
 import { prisma } from '../lib/database';
 import {
   CreateTaskInput,
   UpdateTaskInput,
   TaskFilter,
+  TaskHistoryFilter,
+  TaskHistoryPage,
+  RevertTaskInput,
+  RevertResult,
+  RevertSkip,
   TaskWithRelations,
   CompleteTaskOptions,
+  UpdateTaskOptions,
+  DeleteTaskOptions,
+  DeleteTaskResult,
+  CloneTaskInput,
+  CloneTaskResult,
+  MoveTaskInput,
+  CreateTemplateInput,
+  InstantiateTemplateInput,
+  InstantiateTemplateResult,
+  TaskTemplateWithTasks,
+  TemplateTask,
+  TrashEntry,
+  TrashPage,
+  RestoreResult,
+  PurgeTrashOptions,
+  PurgeTrashResult,
+  TaskServiceOptions,
+  BulkImportOptions,
+  BulkImportItemResult,
+  BulkImportResult,
   BulkImportTask,
+  CriticalPathAnalysis,
+  CriticalPathTask,
+  DependencyInput,
+  DependencyOptions,
+  DependencyType,
+  PinTaskInput,
   BusinessRuleError,
   DependencyCycleError,
+  DependencyCloneMode,
+  MaterializeOptions,
+  MaterializeResult,
+  MissedOccurrencePolicy,
   ValidationError,
   Priority,
   RecurrencePattern,
-  RecurrenceType,
-  TaskStatus
+  RecurrencePreview,
+  RecurrenceSeriesDetails,
+  RecurrenceSeriesWithPattern,
+  SeriesCloneSettings,
+  SeriesScope,
+  SkipOccurrenceResult,
+  TaskStatus,
+  ScheduleOptions,
+  ScheduleStrategy,
+  ScheduledTask,
+  SchedulePlan,
+  AssigneeTimeline,
+  WorkingHours,
+  WeeklyHours
 } from '../types';
-import { LabelService } from './labelService';
+import { LabelService, labelsFor } from './labelService';
+import { CalendarService } from './calendarService';
+import { BusyBlockService } from './busyBlockService';
+import { toAvailability } from './authService';
+import { isValidTimezone } from '../lib/validation';
+import {
+  AuditChange,
+  AuditedDependency,
+  AuditedField,
+  auditSnapshot,
+  diffRelation,
+  diffTaskFields,
+  restoreFromAudit
+} from '../lib/audit';
+import {
+  TemplateSource,
+  dueFromOffset,
+  fillPlaceholders,
+  snapshotTemplate,
+  templateVariables
+} from '../lib/templates';
+import {
+  formatRecurrenceRule,
+  listOccurrences,
+  nextOccurrence,
+  parseRecurrenceRule,
+  patternToRRule,
+  recurrenceTypeForRule,
+  resolveRecurrenceRule
+} from '../lib/rrule';
+
+import { addMinutes, addDays, startOfDay, isBefore, isAfter, parseISO, format, differenceInMinutes } from 'date-fns';
+import { zonedTimeToUtc, formatInTimeZone } from 'date-fns-tz';
+
+// Upper bound on how far ahead the planner searches for working time
+const MAX_PLANNING_DAYS = 366;
+
+// Dependency lag (or lead, when negative) is capped at a year
+const MAX_DEPENDENCY_LAG_MINUTES = 525600;
+
+// Scoring defaults shared by orderTasks and the planner's 'score' strategy
+const DEFAULT_ORDER_WEIGHTS = { U: 0.45, P: 0.35, B: 0.15, Q: 0.05 };
+const DEFAULT_HORIZON_HOURS = 7 * 24;
+const DEFAULT_OVERDUE_BOOST = 0.20;
+const DEFAULT_QUICK_WIN_CAP_MINS = 30;
+
+// Safety cap on occurrences one materializer run creates for a series; the next run continues
+const MAX_MATERIALIZED_PER_SERIES = 500;
+
+const MISSED_POLICIES: MissedOccurrencePolicy[] = ['skip', 'all', 'catchUp'];
+
+function parseMissedPolicy(value: string | undefined): MissedOccurrencePolicy {
+  return MISSED_POLICIES.includes(value as MissedOccurrencePolicy) ? (value as MissedOccurrencePolicy) : 'catchUp';
+}
+
+// Fields a recurrence series keeps as the template for its occurrences
+const SERIES_FIELDS = [
+  'title',
+  'description',
+  'priority',
+  'estimatedDurationMinutes',
+  'allowParentAutoComplete',
+  'isSplittable',
+  'minChunkMinutes',
+] as const;
+
+// The occurrence a new one in the same series is cloned from
+interface OccurrenceSource {
+  id: string;
+  parentId?: string | null;
+  originalTaskId?: string | null;
+  occurrenceDate?: Date | null;
+  dueAt?: Date | null;
+  ownerId?: string | null;
+  projectId?: string | null;
+}
+
+// What a trashed task was detached from, kept as JSON in trashedLinks until it is restored.
+// Dependencies within a trashed subtree stay in place; only links to tasks outside it are kept here.
+interface TrashedLinks {
+  parentId: string | null; // only on the deleted task itself; its subtree keeps its parents
+  labelIds: string[];
+  dependencies: AuditedDependency[]; // blockers of this task
+  dependents: Array<{ taskId: string; type: `${DependencyType}`; lagMinutes: number }>; // tasks it blocked
+}
+
+// Working time the planner packs tasks into, resolved from a work calendar or plain working hours
+interface PlanningCalendar {
+  timezone: string;
+  weeklyHours: WeeklyHours;
+  holidays: Set<string>; // yyyy-MM-dd in the calendar's timezone
+  blackouts: Array<{ start: Date; end: Date }>;
+}
+
+// One person's working time, filled up to currentTime as the planner places their tasks
+interface PlanningTimeline {
+  calendar: PlanningCalendar;
+  longestWindow: number; // minutes
+  dailyCapacity: number;
+  pinnedMinutesByDay: Map<string, number>;
+  currentTime: Date;
+  currentDay: string; // yyyy-MM-dd in the calendar's timezone
+  currentDayCapacity: number;
+}
+
+// Key of the timeline for tasks without an assignee, and for all tasks in sequential mode
+const UNASSIGNED = '';
 
-import { addMinutes, addDays, startOfDay, isBefore, isAfter, addWeeks, addMonths, addYears, parseISO } from 'date-fns';
+// Time taken by a busy block or pinned task, which the planner packs other tasks around
+interface ReservedSlot {
+  start: Date;
+  end: Date;
+  label: string;
+  taskId?: string;
+  assigneeIds?: string[]; // a pinned task's assignees; busy blocks take everyone's time
+}
+
+// Assignees as returned with a task, without their password hash
+const ASSIGNEES_INCLUDE = {
+  include: {
+    user: {
+      select: { id: true, email: true, name: true },
+    },
+  },
+} satisfies Prisma.Task$assigneesArgs;
 
 export class TaskService {
   private labelService: LabelService;
+  private calendarService: CalendarService;
+  private busyBlockService: BusyBlockService;
+  private autoBlock: boolean;
+  private ownerId?: string;
+  private projectId?: string;
+
+  constructor(options: TaskServiceOptions = {}) {
+    this.autoBlock = options.autoBlock ?? process.env.AUTO_BLOCK_TASKS === 'true';
+    this.ownerId = options.ownerId;
+    this.projectId = options.projectId;
+    this.labelService = new LabelService(prisma, { ownerId: this.ownerId, projectId: this.projectId });
+    // Plans use the same user's or project's calendars and busy blocks as its tasks
+    this.calendarService = new CalendarService(prisma, { ownerId: this.ownerId, projectId: this.projectId });
+    this.busyBlockService = new BusyBlockService(prisma, { ownerId: this.ownerId, projectId: this.projectId });
+  }
+
+  // Narrows a task filter to the project's tasks, or else the owner's, so other tasks read as not found.
+  // Tasks in the trash read as not found too.
+  private owned<T extends Prisma.TaskWhereInput>(where: T): T {
+    return { ...this.scoped(where), deletedAt: null };
+  }
+
+  // The same narrowing for tasks in the trash
+  // A deletedAt condition of the caller's own (e.g. a cutoff) replaces the not-null check
+  private trashed<T extends Prisma.TaskWhereInput>(where: T): T {
+    return { deletedAt: { not: null }, ...this.scoped(where) };
+  }
+
+  private scoped<T extends Prisma.TaskWhereInput>(where: T): T {
+    if (this.projectId) {
+      return { ...where, projectId: this.projectId };
+    }
+    return this.ownerId ? { ...where, ownerId: this.ownerId } : where;
+  }
+
+  // Templates are narrowed the same way as tasks
+  private templateScope(): Prisma.TaskTemplateWhereInput {
+    if (this.projectId) {
+      return { projectId: this.projectId };
+    }
+    return this.ownerId ? { ownerId: this.ownerId } : {};
+  }
+
+  // Templates store their tasks as JSON
+  private withTemplateTasks(
+    template: Omit<TaskTemplateWithTasks, 'tasks' | 'variables'> & { tasks: string }
+  ): TaskTemplateWithTasks {
+    const tasks: TemplateTask[] = JSON.parse(template.tasks);
+    return { ...template, tasks, variables: templateVariables(tasks) };
+  }
+
+  // Project tasks may carry the project's labels; a personal task only its owner's
+  private async usableLabelIds(
+    labelIds: string[],
+    task: { projectId?: string | null; ownerId?: string | null }
+  ): Promise<Set<string>> {
+    const labels = await prisma.label.findMany({
+      where: { id: { in: Array.from(new Set(labelIds)) }, ...labelsFor(task) },
+      select: { id: true },
+    });
+    return new Set(labels.map(l => l.id));
+  }
+
+  private async assertLabelsUsable(
+    labelIds: string[],
+    task: { projectId?: string | null; ownerId?: string | null }
+  ): Promise<void> {
+    const usable = await this.usableLabelIds(labelIds, task);
+    if (labelIds.some(labelId => !usable.has(labelId))) {
+      throw new ValidationError('Label not found');
+    }
+  }
+
+  // Project tasks can go to the project's members; a personal task only to its owner
+  private async usableAssigneeIds(
+    assigneeIds: string[],
+    task: { projectId?: string | null; ownerId?: string | null }
+  ): Promise<Set<string>> {
+    const uniqueIds = Array.from(new Set(assigneeIds));
+    if (task.projectId) {
+      const members = await prisma.projectMember.findMany({
+        where: { projectId: task.projectId, userId: { in: uniqueIds } },
+        select: { userId: true },
+      });
+      return new Set(members.map(m => m.userId));
+    }
+    if (task.ownerId) {
+      return new Set(uniqueIds.filter(userId => userId === task.ownerId));
+    }
+    const users = await prisma.user.findMany({ where: { id: { in: uniqueIds } }, select: { id: true } });
+    return new Set(users.map(u => u.id));
+  }
 
-  constructor() {
-    this.labelService = new LabelService(prisma);
+  private async assertAssigneesUsable(
+    assigneeIds: string[],
+    task: { projectId?: string | null; ownerId?: string | null }
+  ): Promise<void> {
+    const usable = await this.usableAssigneeIds(assigneeIds, task);
+    if (assigneeIds.some(userId => !usable.has(userId))) {
+      throw new ValidationError('Assignee not found');
+    }
   }
 
   // Task CRUD operations
   async createTask(input: CreateTaskInput): Promise<TaskWithRelations> {
-    const { labelIds, recurrencePattern, ...taskData } = input;
+    const { labelIds, assigneeIds, recurrencePattern, ...taskData } = input;
+    // Project tasks belong to the project, not to whoever created them
+    const projectId = this.projectId ?? taskData.projectId;
     
     // Handle recurring task fields
     const createData: any = {
@@ -38,15 +308,43 @@ export class TaskService {
       dueAt: taskData.dueAt,
       estimatedDurationMinutes: taskData.estimatedDurationMinutes || 30,
       allowParentAutoComplete: taskData.allowParentAutoComplete || false,
+      isSplittable: taskData.isSplittable || false,
+      minChunkMinutes: taskData.minChunkMinutes,
       parentId: taskData.parentId,
       isRecurring: taskData.isRecurring || false,
       originalTaskId: taskData.originalTaskId,
+      projectId,
+      ownerId: projectId ? undefined : this.ownerId ?? taskData.ownerId,
     };
+
+    // A subtask stays with its parent's project or owner
+    if (taskData.parentId) {
+      const parent = await prisma.task.findFirst({ where: this.owned({ id: taskData.parentId }) });
+      if (!parent) {
+        throw new ValidationError('Parent task not found');
+      }
+    }
+    if (labelIds && labelIds.length > 0) {
+      await this.assertLabelsUsable(labelIds, createData);
+    }
+    if (assigneeIds && assigneeIds.length > 0) {
+      await this.assertAssigneesUsable(assigneeIds, createData);
+      createData.assignees = {
+        create: Array.from(new Set(assigneeIds)).map(userId => ({ userId })),
+      };
+    }
     
     if (recurrencePattern) {
-      createData.recurrencePattern = JSON.stringify(recurrencePattern);
+      const pattern = this.normalizeRecurrencePattern(recurrencePattern);
+      createData.recurrencePattern = JSON.stringify(pattern);
       // Calculate next recurrence date
-      createData.nextRecurrenceDate = this.calculateNextRecurrenceDate(recurrencePattern, taskData.dueAt || new Date());
+      createData.nextRecurrenceDate = this.calculateNextRecurrenceDate(pattern, taskData.dueAt || new Date());
+
+      // A new recurring task starts its own series; later occurrences join it
+      if (createData.isRecurring) {
+        createData.seriesId = taskData.seriesId ?? (await this.createSeries(createData, pattern)).id;
+        createData.occurrenceDate = taskData.occurrenceDate ?? taskData.dueAt;
+      }
     }
     
     const task = await prisma.task.create({
@@ -69,6 +367,7 @@ export class TaskService {
             label: true,
           },
         },
+        assignees: ASSIGNEES_INCLUDE,
       },
     });
 
@@ -80,16 +379,47 @@ export class TaskService {
     return task as TaskWithRelations;
   }
 
-  async updateTask(id: string, input: UpdateTaskInput): Promise<TaskWithRelations> {
+  async updateTask(id: string, input: UpdateTaskInput, options: UpdateTaskOptions = {}): Promise<TaskWithRelations> {
     // Check if task exists
     const existingTask = await prisma.task.findUnique({
-      where: { id },
-      include: { children: true },
+      where: this.owned({ id }),
+      include: {
+        children: true,
+        taskLabels: { select: { labelId: true } },
+        assignees: { select: { userId: true } },
+      },
     });
 
     if (!existingTask) {
       throw new ValidationError('Task not found');
     }
+    if (input.labelIds && input.labelIds.length > 0) {
+      await this.assertLabelsUsable(input.labelIds, existingTask);
+    }
+    if (input.assigneeIds && input.assigneeIds.length > 0) {
+      await this.assertAssigneesUsable(input.assigneeIds, existingTask);
+    }
+
+    const scope: SeriesScope = options.scope ?? 'this';
+    const series = existingTask.seriesId
+      ? await prisma.recurrenceSeries.findUnique({ where: { id: existingTask.seriesId } })
+      : null;
+
+    if (scope !== 'this' && !series) {
+      throw new BusinessRuleError('Only occurrences of a recurring task can be edited as a series', 'NOT_RECURRING');
+    }
+
+    // With auto-blocking, work can't start while a blocker is still open unless forced
+    if (this.autoBlock && input.status === 'InProgress' && existingTask.status !== 'InProgress' && !options.force) {
+      const openBlockers = await this.getOpenBlockers(id);
+      if (openBlockers.length > 0) {
+        throw new BusinessRuleError(
+          'Cannot start a task with open blockers',
+          'OPEN_BLOCKERS',
+          { openBlockers: openBlockers.map(b => ({ id: b.id, title: b.title, status: b.status })) }
+        );
+      }
+    }
 
     // Validate parent assignment
     if (input.parentId !== undefined) {
@@ -98,81 +428,116 @@ export class TaskService {
       }
       if (input.parentId) {
         const parent = await prisma.task.findUnique({
-          where: { id: input.parentId },
+          where: this.owned({ id: input.parentId }),
           include: { children: true },
         });
         if (!parent) {
           throw new ValidationError('Parent task not found');
         }
         // Check for circular references
-        if (await this.wouldCreateCycle(id, input.parentId)) {
+        if (await this.wouldCreateCycle(input.parentId, id)) {
           throw new DependencyCycleError('Setting this parent would create a circular reference', [id, input.parentId]);
         }
       }
     }
 
-    const { labelIds, recurrencePattern, ...taskData } = input;
+    const { labelIds, assigneeIds, recurrencePattern, ...taskData } = input;
 
     // Handle recurring task fields
     const updateData: any = { ...taskData };
+
+    // The given assignees replace the current ones
+    if (assigneeIds !== undefined) {
+      updateData.assignees = {
+        deleteMany: {},
+        create: Array.from(new Set(assigneeIds)).map(userId => ({ userId })),
+      };
+    }
     
     if (input.isRecurring !== undefined) {
       updateData.isRecurring = input.isRecurring;
     }
     
     if (recurrencePattern !== undefined) {
-      updateData.recurrencePattern = recurrencePattern ? JSON.stringify(recurrencePattern) : null;
+      const pattern = recurrencePattern ? this.normalizeRecurrencePattern(recurrencePattern) : null;
+      updateData.recurrencePattern = pattern ? JSON.stringify(pattern) : null;
+      updateData.nextRecurrenceDate = pattern
+        ? this.calculateNextRecurrenceDate(pattern, existingTask.dueAt || new Date())
+        : null;
+
+      // The rule belongs to the series: one occurrence can't change it, only leave the series
+      if (series && scope === 'this' && pattern) {
+        if (!this.isSamePattern(pattern, existingTask.recurrencePattern)) {
+          throw new BusinessRuleError(
+            'Recurrence changes apply to the series; use scope=future or scope=all',
+            'SERIES_SCOPE_REQUIRED'
+          );
+        }
+        delete updateData.recurrencePattern;
+        delete updateData.nextRecurrenceDate;
+      }
     }
 
-    // Track status changes for analytics
-    const auditEntries: Array<{ fieldName: string; oldValue: string | null; newValue: string | null }> = [];
-    
-    if (input.status !== undefined && input.status !== existingTask.status) {
-      auditEntries.push({
-        fieldName: 'status',
-        oldValue: existingTask.status,
-        newValue: input.status,
-      });
+    // A detached occurrence becomes a one-off; the series carries on without its slot
+    const detachedSlot = series && scope === 'this' && (input.isRecurring === false || recurrencePattern === null)
+      ? existingTask.occurrenceDate ?? existingTask.dueAt
+      : undefined;
+    if (detachedSlot !== undefined) {
+      updateData.seriesId = null;
+      updateData.occurrenceDate = null;
     }
 
-    if (input.priority !== undefined && input.priority !== existingTask.priority) {
-      auditEntries.push({
-        fieldName: 'priority',
-        oldValue: existingTask.priority,
-        newValue: input.priority,
-      });
+    // An explicit status is the user's call, so the automation no longer owns it
+    if (input.status !== undefined) {
+      updateData.autoBlocked = false;
+      if (input.status !== existingTask.status) {
+        updateData.completedAt = input.status === TaskStatus.Completed ? new Date() : null;
+      }
     }
 
-    if (input.title !== undefined && input.title !== existingTask.title) {
-      auditEntries.push({
-        fieldName: 'title',
-        oldValue: existingTask.title,
-        newValue: input.title,
-      });
-    }
+    // Every changed field goes in the audit trail, as of the same moment
+    const auditEntries: AuditChange[] = [
+      ...diffTaskFields(existingTask, updateData),
+      ...(labelIds !== undefined
+        ? diffRelation('labels', existingTask.taskLabels.map(l => l.labelId), labelIds)
+        : []),
+      ...(assigneeIds !== undefined
+        ? diffRelation('assignees', existingTask.assignees.map(a => a.userId), assigneeIds)
+        : []),
+    ];
 
     await prisma.task.update({
       where: { id },
       data: updateData,
     });
 
-    // Create audit entries for tracked changes
-    if (auditEntries.length > 0) {
-      await prisma.taskAudit.createMany({
-        data: auditEntries.map(entry => ({
-          taskId: id,
-          fieldName: entry.fieldName,
-          oldValue: entry.oldValue,
-          newValue: entry.newValue,
-        })),
-      });
-    }
+    await this.recordAudit(id, auditEntries);
 
     // Update labels if provided
     if (labelIds !== undefined) {
       await this.labelService.assignLabelsToTask(id, labelIds);
     }
 
+    if (input.status !== undefined && input.status !== existingTask.status) {
+      await this.refreshDependentsBlockedStatus([id]);
+    }
+
+    if (series && detachedSlot) {
+      await this.excludeSlot(series, detachedSlot);
+    }
+
+    if (series && scope !== 'this') {
+      await this.applyToSeries(existingTask, series, input, scope);
+    } else if (!series && input.isRecurring && recurrencePattern) {
+      // A task made recurring after creation starts its series here
+      const pattern = this.normalizeRecurrencePattern(recurrencePattern);
+      const newSeries = await this.createSeries({ ...existingTask, ...taskData }, pattern);
+      await prisma.task.update({
+        where: { id },
+        data: { seriesId: newSeries.id, occurrenceDate: input.dueAt !== undefined ? input.dueAt : existingTask.dueAt },
+      });
+    }
+
     // Fetch the updated task with labels
     const updatedTask = await prisma.task.findUnique({
       where: { id },
@@ -194,15 +559,20 @@ export class TaskService {
             label: true,
           },
         },
+        assignees: ASSIGNEES_INCLUDE,
       },
     });
 
     return updatedTask as TaskWithRelations;
   }
 
-  async deleteTask(id: string): Promise<void> {
+  // Moves the task to the trash in one transaction. Its children go along (cascade), move up to its
+  // parent (reparent) or become top-level tasks (orphan); without a choice a parent can't be deleted.
+  // The trashed tasks are detached from their parent, labels and dependencies on tasks outside the
+  // trashed subtree, and keep them so a restore can re-link them.
+  async deleteTask(id: string, options: DeleteTaskOptions = {}): Promise<DeleteTaskResult> {
     const task = await prisma.task.findUnique({
-      where: { id },
+      where: this.owned({ id }),
       include: { children: true },
     });
 
@@ -211,18 +581,238 @@ export class TaskService {
     }
 
     // Check if task has children
-    if (task.children.length > 0) {
-      throw new BusinessRuleError('Cannot delete task with children. Delete children first or reassign them.');
+    if (task.children.length > 0 && !options.children) {
+      throw new BusinessRuleError(
+        'Cannot delete task with children. Choose to cascade, reparent or orphan them.',
+        'HAS_CHILDREN',
+        { childIds: task.children.map(c => c.id) }
+      );
     }
 
-    await prisma.task.delete({
-      where: { id },
+    const subtreeIds = options.children === 'cascade' ? await this.getSubtreeIds(id) : [id];
+    const movedIds = options.children === 'cascade' ? [] : task.children.map(c => c.id);
+    const newParentId = options.children === 'reparent' ? task.parentId : null;
+
+    const inSubtree = new Set(subtreeIds);
+    const [labels, dependencies] = await Promise.all([
+      prisma.taskLabel.findMany({ where: { taskId: { in: subtreeIds } } }),
+      prisma.dependency.findMany({
+        where: { OR: [{ taskId: { in: subtreeIds } }, { dependsOnTaskId: { in: subtreeIds } }] },
+      }),
+    ]);
+    const severed = dependencies.filter(d => !inSubtree.has(d.taskId) || !inSubtree.has(d.dependsOnTaskId));
+
+    // Tasks left behind lose the trashed blockers, which is audited on them
+    const dependentIds = Array.from(new Set(severed.filter(d => !inSubtree.has(d.taskId)).map(d => d.taskId)));
+    const dependentAudits: Array<AuditChange & { taskId: string }> = [];
+    for (const taskId of dependentIds) {
+      const before = await this.getAuditedDependencies(taskId);
+      const after = before.filter(d => !inSubtree.has(d.dependsOnTaskId));
+      dependentAudits.push(...diffRelation('dependencies', before, after).map(change => ({ taskId, ...change })));
+    }
+
+    const deletedAt = new Date();
+    await prisma.$transaction(async (tx) => {
+      if (movedIds.length > 0) {
+        await tx.task.updateMany({ where: { id: { in: movedIds } }, data: { parentId: newParentId } });
+      }
+      for (const taskId of subtreeIds) {
+        const links: TrashedLinks = {
+          parentId: taskId === id ? task.parentId : null,
+          labelIds: labels.filter(l => l.taskId === taskId).map(l => l.labelId),
+          dependencies: severed
+            .filter(d => d.taskId === taskId)
+            .map(d => ({ dependsOnTaskId: d.dependsOnTaskId, type: d.type, lagMinutes: d.lagMinutes })),
+          dependents: severed
+            .filter(d => d.dependsOnTaskId === taskId)
+            .map(d => ({ taskId: d.taskId, type: d.type, lagMinutes: d.lagMinutes })),
+        };
+        await tx.task.update({
+          where: { id: taskId },
+          data: {
+            deletedAt,
+            trashRootId: taskId === id ? null : id,
+            trashedLinks: JSON.stringify(links),
+            ...(taskId === id && { parentId: null }),
+          },
+        });
+      }
+      await tx.taskLabel.deleteMany({ where: { taskId: { in: subtreeIds } } });
+      await tx.dependency.deleteMany({ where: { id: { in: severed.map(d => d.id) } } });
+      await tx.taskAudit.createMany({
+        data: [
+          ...movedIds.map(taskId => ({ taskId, fieldName: 'parentId', oldValue: id, newValue: newParentId })),
+          ...dependentAudits,
+        ].map(entry => ({ ...entry, changedAt: deletedAt })),
+      });
+    });
+
+    // The severed blockers may have been the last open ones
+    await this.refreshBlockedStatus(dependentIds);
+
+    return {
+      deletedTaskIds: subtreeIds,
+      movedTaskIds: movedIds,
+      severedDependencies: severed.map(d => ({
+        taskId: d.taskId,
+        dependsOnTaskId: d.dependsOnTaskId,
+        type: d.type,
+        lagMinutes: d.lagMinutes,
+      })),
+    };
+  }
+
+  // Deleted tasks, newest first; tasks that went along with their parent are counted under it
+  async listTrash(filter: { page?: number; limit?: number } = {}): Promise<TrashPage> {
+    const { page = 1, limit = 50 } = filter;
+
+    const where = this.trashed({ trashRootId: null });
+    const [tasks, total] = await Promise.all([
+      prisma.task.findMany({
+        where,
+        orderBy: [{ deletedAt: 'desc' }, { id: 'asc' }],
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.task.count({ where }),
+    ]);
+
+    const counts = await prisma.task.groupBy({
+      by: ['trashRootId'],
+      where: { trashRootId: { in: tasks.map(t => t.id) } },
+      _count: { _all: true },
+    });
+    const subtreeCounts = new Map(counts.map(c => [c.trashRootId, c._count._all]));
+
+    return {
+      entries: tasks.map(task => ({ ...task, subtreeCount: subtreeCounts.get(task.id) ?? 0 })) as TrashEntry[],
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  // Brings a deleted task back with its subtree and re-links what it was detached from, where the
+  // other end still exists and the link wouldn't close a dependency cycle
+  async restoreTask(id: string): Promise<RestoreResult> {
+    const root = await prisma.task.findFirst({ where: this.trashed({ id }) });
+    if (!root) {
+      throw new ValidationError('Task not found in trash');
+    }
+    if (root.trashRootId) {
+      throw new BusinessRuleError(
+        'Task was deleted along with its parent; restore that task instead',
+        'DELETED_WITH_PARENT',
+        { trashRootId: root.trashRootId }
+      );
+    }
+
+    const group = await prisma.task.findMany({ where: { OR: [{ id }, { trashRootId: id }] } });
+    const restoredTaskIds = group.map(t => t.id);
+    const links = new Map(group.map(t => [t.id, JSON.parse(t.trashedLinks ?? 'null') as TrashedLinks | null]));
+    const skipped: RestoreResult['skipped'] = { parentId: null, labelIds: [], dependencies: [] };
+
+    const parentId = links.get(id)?.parentId;
+    const parent = parentId ? await prisma.task.findFirst({ where: this.owned({ id: parentId }) }) : null;
+    if (parentId && !parent) {
+      skipped.parentId = parentId;
+    }
+
+    const labelIds = Array.from(new Set(Array.from(links.values()).flatMap(l => l?.labelIds ?? [])));
+    const existingLabels = new Set(
+      (await prisma.label.findMany({ where: { id: { in: labelIds } }, select: { id: true } })).map(l => l.id)
+    );
+    skipped.labelIds = labelIds.filter(labelId => !existingLabels.has(labelId));
+
+    const candidates = Array.from(links).flatMap(([taskId, l]) => [
+      ...(l?.dependencies ?? []).map(d => ({ ...d, taskId })),
+      ...(l?.dependents ?? []).map(d => ({ ...d, dependsOnTaskId: taskId })),
+    ]);
+    const outsideIds = candidates.flatMap(c => [c.taskId, c.dependsOnTaskId]).filter(taskId => !links.has(taskId));
+    const liveOutside = new Set((await prisma.task.findMany({
+      where: this.owned({ id: { in: outsideIds } }),
+      select: { id: true },
+    })).map(t => t.id));
+
+    const dependentIds = Array.from(new Set(candidates.map(c => c.taskId).filter(taskId => liveOutside.has(taskId))));
+    const dependentsBefore = await Promise.all(dependentIds.map(taskId => this.getAuditedDependencies(taskId)));
+
+    await prisma.$transaction(async (tx) => {
+      await tx.task.updateMany({
+        where: { id: { in: restoredTaskIds } },
+        data: { deletedAt: null, trashRootId: null, trashedLinks: null },
+      });
+      if (parent) {
+        await tx.task.update({ where: { id }, data: { parentId: parent.id } });
+      }
+      await tx.taskLabel.createMany({
+        data: Array.from(links).flatMap(([taskId, l]) => (l?.labelIds ?? [])
+          .filter(labelId => existingLabels.has(labelId))
+          .map(labelId => ({ taskId, labelId }))),
+        skipDuplicates: true,
+      });
+
+      // Links are checked one at a time against the graph as it stands, including those just restored
+      for (const candidate of candidates) {
+        const otherEnd = links.has(candidate.taskId) ? candidate.dependsOnTaskId : candidate.taskId;
+        if (
+          !liveOutside.has(otherEnd) ||
+          await this.dependsOnTransitively(candidate.dependsOnTaskId, candidate.taskId, tx)
+        ) {
+          skipped.dependencies.push({ taskId: candidate.taskId, dependsOnTaskId: candidate.dependsOnTaskId });
+          continue;
+        }
+        await tx.dependency.create({
+          data: {
+            taskId: candidate.taskId,
+            dependsOnTaskId: candidate.dependsOnTaskId,
+            type: candidate.type,
+            lagMinutes: candidate.lagMinutes,
+          },
+        });
+      }
+
+      const changedAt = new Date();
+      for (const [index, taskId] of dependentIds.entries()) {
+        const after = await tx.dependency.findMany({
+          where: { taskId },
+          select: { dependsOnTaskId: true, type: true, lagMinutes: true },
+        });
+        await tx.taskAudit.createMany({
+          data: diffRelation('dependencies', dependentsBefore[index], after)
+            .map(change => ({ taskId, ...change, changedAt })),
+        });
+      }
+    });
+
+    await this.refreshBlockedStatus([...restoredTaskIds, ...dependentIds]);
+
+    return { task: await this.getTask(id), restoredTaskIds, skipped };
+  }
+
+  // Removes tasks that have been in the trash longer than the retention period, for good
+  async purgeTrash(options: PurgeTrashOptions = {}): Promise<PurgeTrashResult> {
+    const now = options.now ?? new Date();
+    const retentionDays = options.retentionDays ?? parseInt(process.env.TRASH_RETENTION_DAYS || '30', 10);
+    const cutoff = addDays(now, -retentionDays);
+
+    const expired = await prisma.task.findMany({
+      where: this.trashed({ trashRootId: null, deletedAt: { lt: cutoff } }),
+      select: { id: true },
     });
+    const expiredIds = expired.map(t => t.id);
+
+    const { count } = await prisma.task.deleteMany({
+      where: { OR: [{ id: { in: expiredIds } }, { trashRootId: { in: expiredIds } }] },
+    });
+
+    return { cutoff, purged: count };
   }
 
   async getTask(id: string): Promise<TaskWithRelations> {
     const task = await prisma.task.findUnique({
-      where: { id },
+      where: this.owned({ id }),
       include: {
         children: {
           include: {
@@ -255,6 +845,10 @@ export class TaskService {
             label: true,
           },
         },
+        assignees: ASSIGNEES_INCLUDE,
+        scheduleSegments: {
+          orderBy: { sequence: 'asc' },
+        },
       },
     });
 
@@ -275,7 +869,12 @@ export class TaskService {
     const { page = 1, limit = 200, ...restFilter } = filter;
     const skip = (page - 1) * limit;
 
-    const where: any = {};
+    const where: any = this.owned({});
+
+    // Narrows within the service's own scope; the routes build a project's service for its members
+    if (restFilter.projectId) {
+      where.AND = [{ projectId: restFilter.projectId }];
+    }
 
     if (restFilter.status) {
       where.status = restFilter.status;
@@ -293,6 +892,10 @@ export class TaskService {
       ];
     }
     
+    if (restFilter.assigneeId) {
+      where.assignees = { some: { userId: restFilter.assigneeId } };
+    }
+
     if (restFilter.labelIds && restFilter.labelIds.length > 0) {
       where.taskLabels = {
         some: {
@@ -386,6 +989,7 @@ export class TaskService {
               label: true,
             },
           },
+          assignees: ASSIGNEES_INCLUDE,
         },
       }),
       prisma.task.count({ where }),
@@ -400,107 +1004,616 @@ export class TaskService {
     };
   }
 
-  // Subtask operations
-  async addSubtask(parentId: string, input: CreateTaskInput): Promise<TaskWithRelations> {
-    const parent = await prisma.task.findUnique({
-      where: { id: parentId },
-    });
+  // Audit trail of one task, newest first; entries of one edit share their changedAt
+  async getHistory(id: string, filter: TaskHistoryFilter = {}): Promise<TaskHistoryPage> {
+    const { page = 1, limit = 50, fieldName } = filter;
 
-    if (!parent) {
-      throw new ValidationError('Parent task not found');
+    const task = await prisma.task.findUnique({ where: this.owned({ id }) });
+    if (!task) {
+      throw new ValidationError('Task not found');
     }
 
-    return this.createTask({
-      ...input,
-      parentId,
-    });
+    const where: Prisma.TaskAuditWhereInput = { taskId: id, fieldName };
+    const [entries, total] = await Promise.all([
+      prisma.taskAudit.findMany({
+        where,
+        orderBy: [{ changedAt: 'desc' }, { fieldName: 'asc' }],
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.taskAudit.count({ where }),
+    ]);
+
+    return {
+      entries,
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
   }
 
-  // Dependency operations
-  async addDependency(taskId: string, dependsOnTaskId: string): Promise<void> {
-    if (taskId === dependsOnTaskId) {
-      throw new BusinessRuleError('Task cannot depend on itself');
+  // Rebuilds the task as it was at a point in its history and saves that as a new, audited edit.
+  // A field's value back then is the old value of its first change after that point.
+  // Old values that can't be applied any more are left out and reported as skipped.
+  async revertTask(id: string, input: RevertTaskInput): Promise<RevertResult> {
+    const task = await prisma.task.findUnique({
+      where: this.owned({ id }),
+      include: {
+        taskLabels: { select: { labelId: true } },
+        assignees: { select: { userId: true } },
+      },
+    });
+    if (!task) {
+      throw new ValidationError('Task not found');
     }
 
-    // Check if both tasks exist
-    const [task, blocker] = await Promise.all([
-      prisma.task.findUnique({ where: { id: taskId } }),
-      prisma.task.findUnique({ where: { id: dependsOnTaskId } }),
-    ]);
-
-    if (!task || !blocker) {
-      throw new ValidationError('Task or blocker not found');
+    let at = input.at;
+    if (input.auditId) {
+      const entry = await prisma.taskAudit.findFirst({ where: { id: input.auditId, taskId: id } });
+      if (!entry) {
+        throw new ValidationError('Audit entry not found');
+      }
+      at = entry.changedAt;
     }
-
-    // Check for circular dependencies
-    if (await this.wouldCreateCycle(taskId, dependsOnTaskId)) {
-      throw new DependencyCycleError('Adding this dependency would create a cycle', [taskId, dependsOnTaskId]);
+    if (!at) {
+      throw new BusinessRuleError('Provide either an audit entry or a point in time', 'REVERT_TARGET_REQUIRED');
     }
 
-    await prisma.dependency.create({
-      data: {
-        taskId,
-        dependsOnTaskId,
-      },
-    });
-  }
-
-  async removeDependency(taskId: string, dependsOnTaskId: string): Promise<void> {
-    await prisma.dependency.deleteMany({
+    const later = await prisma.taskAudit.findMany({
       where: {
-        taskId,
-        dependsOnTaskId,
+        taskId: id,
+        changedAt: { gt: at },
+        ...(input.fields && { fieldName: { in: input.fields } }),
       },
+      orderBy: { changedAt: 'asc' },
     });
-  }
 
-  async setDependencies(taskId: string, dependsOnTaskIds: string[]): Promise<void> {
-    // Check if task exists
-    const task = await prisma.task.findUnique({
-      where: { id: taskId },
+    const current = auditSnapshot(task, {
+      labels: task.taskLabels.map(tl => tl.labelId),
+      assignees: task.assignees.map(a => a.userId),
+      dependencies: await this.getAuditedDependencies(id),
     });
 
-    if (!task) {
-      throw new ValidationError('Task not found');
+    const reverted = new Map<string, string | null>();
+    for (const entry of later) {
+      if (!reverted.has(entry.fieldName)) {
+        reverted.set(entry.fieldName, entry.oldValue);
+      }
     }
 
-    // Remove self-dependencies
-    const filteredDependencies = dependsOnTaskIds.filter(id => id !== taskId);
-    
-    if (filteredDependencies.length !== dependsOnTaskIds.length) {
-      throw new BusinessRuleError('Task cannot depend on itself');
+    const changes = Array.from(reverted, ([fieldName, revertedValue]) => ({
+      fieldName,
+      currentValue: current[fieldName as keyof typeof current] ?? null,
+      revertedValue,
+    })).filter(change => change.currentValue !== change.revertedValue);
+
+    const restored = restoreFromAudit(
+      changes.map(change => ({ fieldName: change.fieldName, value: change.revertedValue }))
+    );
+    const { update, dependencies, skipped } = await this.withoutUnrestorable(task, restored);
+
+    if (input.dryRun || changes.length === 0) {
+      return { at, dryRun: Boolean(input.dryRun), changes, skipped };
     }
 
-    // Check for circular dependencies
-    for (const blockerId of filteredDependencies) {
-      if (await this.wouldCreateCycle(taskId, blockerId)) {
-        throw new DependencyCycleError('Setting these dependencies would create a cycle', [taskId, blockerId]);
+    // The links are checked before any field is saved, so a revert that fails leaves the task as it was
+    if (dependencies) {
+      await this.checkDependencies(id, dependencies);
+    }
+    if (Object.keys(update).length > 0) {
+      await this.updateTask(id, update);
+    }
+    if (dependencies) {
+      await this.setDependencies(id, dependencies);
+    }
+
+    return { at, dryRun: false, changes, skipped, task: await this.getTask(id) };
+  }
+
+  // Drops the parts of a revert that would fail today: labels, assignees, parents and blockers
+  // that are gone, links that would now close a cycle, and a rule that belongs to the series
+  private async withoutUnrestorable(
+    task: Task,
+    restored: { update: UpdateTaskInput; dependencies?: DependencyInput[] }
+  ): Promise<{ update: UpdateTaskInput; dependencies?: DependencyInput[]; skipped: RevertSkip[] }> {
+    const update = { ...restored.update };
+    let dependencies = restored.dependencies;
+    const skipped: RevertSkip[] = [];
+
+    if (update.labelIds?.length) {
+      const usable = await this.usableLabelIds(update.labelIds, task);
+      const gone = update.labelIds.filter(labelId => !usable.has(labelId));
+      if (gone.length > 0) {
+        update.labelIds = update.labelIds.filter(labelId => usable.has(labelId));
+        skipped.push({ fieldName: 'labels', code: 'LABEL_NOT_FOUND', message: 'Some labels no longer exist', ids: gone });
       }
     }
 
-    // Transaction to replace all dependencies
-    await prisma.$transaction(async (tx) => {
-      // Remove existing dependencies
-      await tx.dependency.deleteMany({
-        where: { taskId },
-      });
+    if (update.assigneeIds?.length) {
+      const usable = await this.usableAssigneeIds(update.assigneeIds, task);
+      const gone = update.assigneeIds.filter(userId => !usable.has(userId));
+      if (gone.length > 0) {
+        update.assigneeIds = update.assigneeIds.filter(userId => usable.has(userId));
+        skipped.push({ fieldName: 'assignees', code: 'ASSIGNEE_NOT_FOUND', message: 'Some assignees can no longer be assigned', ids: gone });
+      }
+    }
+
+    if (update.parentId) {
+      const parent = await prisma.task.findFirst({ where: this.owned({ id: update.parentId }) });
+      if (!parent || await this.wouldCreateCycle(update.parentId, task.id)) {
+        skipped.push(parent
+          ? { fieldName: 'parentId', code: 'DEPENDENCY_CYCLE', message: 'The old parent is now one of its subtasks', ids: [update.parentId] }
+          : { fieldName: 'parentId', code: 'PARENT_NOT_FOUND', message: 'The old parent no longer exists', ids: [update.parentId] });
+        delete update.parentId;
+      }
+    }
+
+    // One occurrence can't change its series' rule, as in updateTask with scope=this
+    if (task.seriesId && update.recurrencePattern) {
+      const pattern = this.normalizeRecurrencePattern(update.recurrencePattern);
+      if (!this.isSamePattern(pattern, task.recurrencePattern)) {
+        skipped.push({
+          fieldName: 'recurrencePattern',
+          code: 'SERIES_SCOPE_REQUIRED',
+          message: 'Recurrence changes apply to the series; edit the series to change its rule',
+        });
+        delete update.recurrencePattern;
+      }
+    }
+
+    if (dependencies?.length) {
+      const live = new Set((await prisma.task.findMany({
+        where: this.owned({ id: { in: dependencies.map(d => d.dependsOnTaskId) } }),
+        select: { id: true },
+      })).map(t => t.id));
+      const kept: DependencyInput[] = [];
+      const gone: string[] = [];
+      const cyclic: string[] = [];
+      for (const dependency of dependencies) {
+        if (!live.has(dependency.dependsOnTaskId)) {
+          gone.push(dependency.dependsOnTaskId);
+        } else if (await this.dependsOnTransitively(dependency.dependsOnTaskId, task.id)) {
+          cyclic.push(dependency.dependsOnTaskId);
+        } else {
+          kept.push(dependency);
+        }
+      }
+      if (gone.length > 0) {
+        skipped.push({ fieldName: 'dependencies', code: 'TASK_NOT_FOUND', message: 'Some blockers no longer exist', ids: gone });
+      }
+      if (cyclic.length > 0) {
+        skipped.push({ fieldName: 'dependencies', code: 'DEPENDENCY_CYCLE', message: 'Some blockers now wait on this task', ids: cyclic });
+      }
+      dependencies = kept;
+    }
+
+    return { update, dependencies, skipped };
+  }
+
+  // Subtask operations
+  async addSubtask(parentId: string, input: CreateTaskInput): Promise<TaskWithRelations> {
+    const parent = await prisma.task.findUnique({
+      where: this.owned({ id: parentId }),
+    });
+
+    if (!parent) {
+      throw new ValidationError('Parent task not found');
+    }
+
+    return this.createTask({
+      ...input,
+      parentId,
+    });
+  }
+
+  // Copies the task and its subtree in one transaction, with their labels and the dependencies
+  // among the copied tasks. Copies start as open one-off tasks with nothing scheduled.
+  async cloneTask(id: string, input: CloneTaskInput = {}): Promise<CloneTaskResult> {
+    const source = await prisma.task.findFirst({ where: this.owned({ id }) });
+    if (!source) {
+      throw new ValidationError('Task not found');
+    }
+
+    const parentId = input.parentId !== undefined ? input.parentId : source.parentId;
+    if (parentId && parentId !== source.parentId) {
+      const parent = await prisma.task.findFirst({ where: this.owned({ id: parentId }) });
+      if (!parent) {
+        throw new ValidationError('Parent task not found');
+      }
+    }
+
+    const subtreeIds = await this.getSubtreeIds(id);
+    const [tasks, labels, dependencies] = await Promise.all([
+      prisma.task.findMany({ where: { id: { in: subtreeIds } } }),
+      prisma.taskLabel.findMany({ where: { taskId: { in: subtreeIds } } }),
+      prisma.dependency.findMany({
+        where: { taskId: { in: subtreeIds }, dependsOnTaskId: { in: subtreeIds } },
+      }),
+    ]);
+    const byId = new Map(tasks.map(task => [task.id, task]));
+
+    const copies = new Map<string, string>();
+    await prisma.$transaction(async (tx) => {
+      // Parents come first, so each child's parent is already copied
+      for (const taskId of subtreeIds) {
+        const task = byId.get(taskId)!;
+        const copy = await tx.task.create({
+          data: {
+            title: taskId === id ? input.title ?? task.title : task.title,
+            description: task.description,
+            status: TaskStatus.Todo,
+            priority: task.priority,
+            // Calendar days, so due dates keep their time of day across DST changes
+            dueAt: task.dueAt ? addDays(task.dueAt, input.shiftDays ?? 0) : null,
+            estimatedDurationMinutes: task.estimatedDurationMinutes,
+            allowParentAutoComplete: task.allowParentAutoComplete,
+            isSplittable: task.isSplittable,
+            minChunkMinutes: task.minChunkMinutes,
+            parentId: taskId === id ? parentId : copies.get(task.parentId!),
+            ownerId: task.ownerId,
+            projectId: task.projectId,
+          },
+        });
+        copies.set(taskId, copy.id);
+      }
+
+      if (labels.length > 0) {
+        await tx.taskLabel.createMany({
+          data: labels.map(tl => ({ taskId: copies.get(tl.taskId)!, labelId: tl.labelId })),
+        });
+      }
+      // The copies have no links outside the copy, so these cannot close a cycle
+      if (dependencies.length > 0) {
+        await tx.dependency.createMany({
+          data: dependencies.map(d => ({
+            taskId: copies.get(d.taskId)!,
+            dependsOnTaskId: copies.get(d.dependsOnTaskId)!,
+            type: d.type,
+            lagMinutes: d.lagMinutes,
+          })),
+        });
+      }
+    });
+
+    await this.refreshBlockedStatus(dependencies.map(d => copies.get(d.taskId)!));
+
+    return {
+      task: await this.getTask(copies.get(id)!),
+      clonedTaskIds: Object.fromEntries(copies),
+    };
+  }
+
+  // Moves the task, with its subtree, under another parent or to the top level
+  async moveTask(id: string, input: MoveTaskInput): Promise<TaskWithRelations> {
+    const task = await prisma.task.findFirst({ where: this.owned({ id }) });
+    if (!task) {
+      throw new ValidationError('Task not found');
+    }
+
+    if (input.parentId) {
+      if (input.parentId === id) {
+        throw new BusinessRuleError('Task cannot be its own parent');
+      }
+      const parent = await prisma.task.findFirst({ where: this.owned({ id: input.parentId }) });
+      if (!parent) {
+        throw new ValidationError('Parent task not found');
+      }
+      // The new parent can't be one of the task's own descendants
+      if (await this.wouldCreateCycle(input.parentId, id)) {
+        throw new DependencyCycleError(
+          'Moving this task under its own subtree would create a circular reference',
+          [id, input.parentId]
+        );
+      }
+    }
+
+    if (input.parentId !== task.parentId) {
+      await prisma.task.update({ where: { id }, data: { parentId: input.parentId } });
+      await this.recordAudit(id, diffTaskFields(task, { parentId: input.parentId }));
+    }
+
+    return this.getTask(id);
+  }
+
+  // Template operations
+  // Saves the task's tree as a template; values given in variables become {{placeholders}}
+  async createTemplate(taskId: string, input: CreateTemplateInput): Promise<TaskTemplateWithTasks> {
+    const root = await prisma.task.findFirst({ where: this.owned({ id: taskId }) });
+    if (!root) {
+      throw new ValidationError('Task not found');
+    }
+
+    const subtreeIds = await this.getSubtreeIds(taskId);
+    const [tasks, labels, dependencies] = await Promise.all([
+      prisma.task.findMany({ where: { id: { in: subtreeIds } } }),
+      prisma.taskLabel.findMany({ where: { taskId: { in: subtreeIds } } }),
+      prisma.dependency.findMany({ where: { taskId: { in: subtreeIds } } }),
+    ]);
+    const byId = new Map(tasks.map(task => [task.id, task]));
+    const sources: TemplateSource[] = subtreeIds.map(id => ({
+      ...byId.get(id)!,
+      parentId: id === taskId ? null : byId.get(id)!.parentId,
+      labelIds: labels.filter(l => l.taskId === id).map(l => l.labelId),
+      dependencies: dependencies.filter(d => d.taskId === id),
+    }));
+
+    const template = await prisma.taskTemplate.create({
+      data: {
+        name: input.name,
+        description: input.description,
+        tasks: JSON.stringify(snapshotTemplate(sources, input.variables)),
+        ownerId: root.ownerId,
+        projectId: root.projectId,
+      },
+    });
+    return this.withTemplateTasks(template);
+  }
+
+  async listTemplates(): Promise<TaskTemplateWithTasks[]> {
+    const templates = await prisma.taskTemplate.findMany({
+      where: this.templateScope(),
+      orderBy: { name: 'asc' },
+    });
+    return templates.map(template => this.withTemplateTasks(template));
+  }
+
+  async deleteTemplate(id: string): Promise<void> {
+    const { count } = await prisma.taskTemplate.deleteMany({ where: { id, ...this.templateScope() } });
+    if (count === 0) {
+      throw new ValidationError('Template not found');
+    }
+  }
+
+  // Creates the template's tree in one transaction, with due dates counted from anchorDate.
+  // Every placeholder needs a value; labels that no longer exist are left out.
+  async instantiateTemplate(id: string, input: InstantiateTemplateInput = {}): Promise<InstantiateTemplateResult> {
+    const record = await prisma.taskTemplate.findFirst({ where: { id, ...this.templateScope() } });
+    if (!record) {
+      throw new ValidationError('Template not found');
+    }
+    const template = this.withTemplateTasks(record);
+    const values = input.variables ?? {};
+
+    const missing = template.variables.filter(name => values[name] === undefined);
+    if (missing.length > 0) {
+      throw new BusinessRuleError('Missing values for template variables', 'MISSING_VARIABLES', { missing });
+    }
+    const titles = new Map(template.tasks.map(task => [task.key, fillPlaceholders(task.title, values)]));
+    const tooLong = template.tasks.filter(task => titles.get(task.key)!.length > 200);
+    if (tooLong.length > 0) {
+      throw new BusinessRuleError(
+        'Filled-in titles must be at most 200 characters',
+        'TITLE_TOO_LONG',
+        { keys: tooLong.map(task => task.key) }
+      );
+    }
+
+    if (input.parentId) {
+      const parent = await prisma.task.findFirst({ where: this.owned({ id: input.parentId }) });
+      if (!parent) {
+        throw new ValidationError('Parent task not found');
+      }
+    }
+
+    const projectId = this.projectId ?? null;
+    const templateLabelIds = Array.from(new Set(template.tasks.flatMap(task => task.labelIds)));
+    const usableLabelIds = await this.usableLabelIds(
+      templateLabelIds,
+      { projectId, ownerId: projectId ? null : this.ownerId ?? null }
+    );
+
+    const anchorDate = input.anchorDate ?? new Date();
+    const created = new Map<string, string>();
+    await prisma.$transaction(async (tx) => {
+      // Parents come first, so each child's parent is already created
+      for (const task of template.tasks) {
+        const row = await tx.task.create({
+          data: {
+            title: titles.get(task.key)!,
+            description: task.description === null ? null : fillPlaceholders(task.description, values),
+            status: TaskStatus.Todo,
+            priority: task.priority,
+            dueAt: dueFromOffset(anchorDate, task.dueOffsetMinutes),
+            estimatedDurationMinutes: task.estimatedDurationMinutes,
+            allowParentAutoComplete: task.allowParentAutoComplete,
+            isSplittable: task.isSplittable,
+            minChunkMinutes: task.minChunkMinutes,
+            parentId: task.parentKey ? created.get(task.parentKey) : input.parentId ?? null,
+            projectId,
+            ownerId: projectId ? null : this.ownerId ?? null,
+          },
+        });
+        created.set(task.key, row.id);
+      }
+
+      const taskLabels = template.tasks.flatMap(task => task.labelIds
+        .filter(labelId => usableLabelIds.has(labelId))
+        .map(labelId => ({ taskId: created.get(task.key)!, labelId })));
+      if (taskLabels.length > 0) {
+        await tx.taskLabel.createMany({ data: taskLabels, skipDuplicates: true });
+      }
+      // The new tasks have no links outside the tree, so these cannot close a cycle
+      const links = template.tasks.flatMap(task => task.dependencies.map(d => ({
+        taskId: created.get(task.key)!,
+        dependsOnTaskId: created.get(d.dependsOnKey)!,
+        type: d.type,
+        lagMinutes: d.lagMinutes,
+      })));
+      if (links.length > 0) {
+        await tx.dependency.createMany({ data: links, skipDuplicates: true });
+      }
+    });
+
+    await this.refreshBlockedStatus(
+      template.tasks.filter(task => task.dependencies.length > 0).map(task => created.get(task.key)!)
+    );
+
+    return {
+      task: await this.getTask(created.get(template.tasks[0].key)!),
+      createdTaskIds: Object.fromEntries(created),
+      skippedLabelIds: templateLabelIds.filter(labelId => !usableLabelIds.has(labelId)),
+    };
+  }
+
+  // Dependency operations
+  async addDependency(taskId: string, dependsOnTaskId: string, options: DependencyOptions = {}): Promise<void> {
+    if (taskId === dependsOnTaskId) {
+      throw new BusinessRuleError('Task cannot depend on itself');
+    }
+
+    this.validateDependencyOptions(options);
+
+    // Check if both tasks exist
+    const [task, blocker] = await Promise.all([
+      prisma.task.findUnique({ where: this.owned({ id: taskId }) }),
+      prisma.task.findUnique({ where: this.owned({ id: dependsOnTaskId }) }),
+    ]);
+
+    if (!task || !blocker) {
+      throw new ValidationError('Task or blocker not found');
+    }
+
+    // Check for circular dependencies; every link type orders the two tasks, so all count
+    if (await this.dependsOnTransitively(dependsOnTaskId, taskId)) {
+      throw new DependencyCycleError('Adding this dependency would create a cycle', [taskId, dependsOnTaskId]);
+    }
+
+    const before = await this.getAuditedDependencies(taskId);
+    await prisma.dependency.create({
+      data: {
+        taskId,
+        dependsOnTaskId,
+        type: options.type,
+        lagMinutes: options.lagMinutes,
+      },
+    });
+    await this.auditDependencies(taskId, before);
+
+    await this.refreshBlockedStatus([taskId]);
+  }
+
+  async updateDependency(taskId: string, dependsOnTaskId: string, options: DependencyOptions): Promise<void> {
+    this.validateDependencyOptions(options);
+
+    const dependency = await prisma.dependency.findUnique({
+      where: {
+        taskId_dependsOnTaskId: { taskId, dependsOnTaskId },
+        dependentTask: this.owned({}),
+      },
+    });
+
+    if (!dependency) {
+      throw new ValidationError('Dependency not found');
+    }
+
+    // The edge itself is unchanged, so there is no new cycle to check
+    const before = await this.getAuditedDependencies(taskId);
+    await prisma.dependency.update({
+      where: { id: dependency.id },
+      data: {
+        type: options.type,
+        lagMinutes: options.lagMinutes,
+      },
+    });
+    await this.auditDependencies(taskId, before);
+  }
+
+  async removeDependency(taskId: string, dependsOnTaskId: string): Promise<void> {
+    const before = await this.getAuditedDependencies(taskId);
+    const { count } = await prisma.dependency.deleteMany({
+      where: {
+        taskId,
+        dependsOnTaskId,
+        dependentTask: this.owned({}),
+      },
+    });
+    if (count > 0) {
+      await this.auditDependencies(taskId, before);
+    }
+
+    await this.refreshBlockedStatus([taskId]);
+  }
+
+  // Plain IDs are finish-to-start links with no lag
+  async setDependencies(taskId: string, dependsOnTaskIds: Array<string | DependencyInput>): Promise<void> {
+    const filteredDependencies = await this.checkDependencies(taskId, dependsOnTaskIds);
+    const before = await this.getAuditedDependencies(taskId);
+
+    // Transaction to replace all dependencies
+    await prisma.$transaction(async (tx) => {
+      // Remove existing dependencies
+      await tx.dependency.deleteMany({
+        where: { taskId },
+      });
 
       // Add new dependencies
       if (filteredDependencies.length > 0) {
         await tx.dependency.createMany({
-          data: filteredDependencies.map(dependsOnTaskId => ({
+          data: filteredDependencies.map(dependency => ({
             taskId,
-            dependsOnTaskId,
+            dependsOnTaskId: dependency.dependsOnTaskId,
+            type: dependency.type,
+            lagMinutes: dependency.lagMinutes,
           })),
         });
       }
     });
+    await this.auditDependencies(taskId, before);
+
+    await this.refreshBlockedStatus([taskId]);
+  }
+
+  // Everything setDependencies checks before it writes; the dependencies to store, without the strings
+  private async checkDependencies(taskId: string, dependsOnTaskIds: Array<string | DependencyInput>): Promise<DependencyInput[]> {
+    // Check if task exists
+    const task = await prisma.task.findUnique({
+      where: this.owned({ id: taskId }),
+    });
+
+    if (!task) {
+      throw new ValidationError('Task not found');
+    }
+
+    const dependencies: DependencyInput[] = dependsOnTaskIds.map(entry =>
+      typeof entry === 'string' ? { dependsOnTaskId: entry } : entry
+    );
+
+    // Remove self-dependencies
+    const filteredDependencies = dependencies.filter(dependency => dependency.dependsOnTaskId !== taskId);
+    
+    if (filteredDependencies.length !== dependencies.length) {
+      throw new BusinessRuleError('Task cannot depend on itself');
+    }
+
+    const blockerIds = filteredDependencies.map(dependency => dependency.dependsOnTaskId);
+    if (new Set(blockerIds).size !== blockerIds.length) {
+      throw new BusinessRuleError('Task cannot depend on the same task twice', 'DUPLICATE_DEPENDENCY');
+    }
+
+    const blockerCount = await prisma.task.count({ where: this.owned({ id: { in: blockerIds } }) });
+    if (blockerCount !== blockerIds.length) {
+      throw new ValidationError('Blocker task not found');
+    }
+
+    for (const dependency of filteredDependencies) {
+      this.validateDependencyOptions(dependency);
+    }
+
+    // Check for circular dependencies, whatever the link type
+    for (const blockerId of blockerIds) {
+      if (await this.dependsOnTransitively(blockerId, taskId)) {
+        throw new DependencyCycleError('Setting these dependencies would create a cycle', [taskId, blockerId]);
+      }
+    }
+
+    return filteredDependencies;
   }
 
   // Task completion logic
   async completeTask(id: string, options: CompleteTaskOptions = {}): Promise<TaskWithRelations> {
     const task = await prisma.task.findUnique({
-      where: { id },
+      where: this.owned({ id }),
       include: {
         children: {
           where: {
@@ -520,6 +1633,8 @@ export class TaskService {
       throw new BusinessRuleError('Task is already completed');
     }
 
+    const completedAt = new Date();
+
     // Check if task has incomplete children
     if (task.children.length > 0) {
       if (!task.allowParentAutoComplete && options.mode !== 'forceParentAutoComplete') {
@@ -543,15 +1658,19 @@ export class TaskService {
           },
           data: {
             status: 'Completed',
+            completedAt,
           },
         });
+        for (const child of task.children) {
+          await this.recordAudit(child.id, [{ fieldName: 'status', oldValue: child.status, newValue: 'Completed' }], completedAt);
+        }
       }
     }
 
     // Update task status
     const updatedTask = await prisma.task.update({
       where: { id },
-      data: { status: 'Completed' },
+      data: { status: 'Completed', autoBlocked: false, completedAt },
       include: {
         children: true,
         parent: true,
@@ -572,35 +1691,26 @@ export class TaskService {
         },
       },
     });
+    await this.recordAudit(id, [{ fieldName: 'status', oldValue: task.status, newValue: 'Completed' }], completedAt);
 
-    // Handle recurring task logic
+    // Handle recurring task logic; nothing follows once the rule's COUNT or UNTIL is exhausted
     if (updatedTask.isRecurring && updatedTask.recurrencePattern) {
       try {
-        const pattern: RecurrencePattern = JSON.parse(updatedTask.recurrencePattern);
-        const nextDueDate = this.calculateNextValidRecurrenceDate(pattern, updatedTask.dueAt || new Date());
-
-        // Check if we've reached the end date
-        if (pattern.endDate) {
-          const endDate = typeof pattern.endDate === 'string' ? parseISO(pattern.endDate) : pattern.endDate;
-          if (isBefore(nextDueDate, endDate)) {
-            // Create the next occurrence
-            await this.createNextRecurrence(updatedTask as TaskWithRelations);
-          }
-        } else {
-          // Create the next occurrence
-          await this.createNextRecurrence(updatedTask as TaskWithRelations);
-        }
+        await this.createNextRecurrence(updatedTask as TaskWithRelations);
       } catch (error) {
         console.error('Error handling recurring task completion:', error);
       }
     }
 
+    // Completing this task (and any auto-completed children) may unblock their dependents
+    await this.refreshDependentsBlockedStatus([id, ...task.children.map(c => c.id)]);
+
     return updatedTask as TaskWithRelations;
   }
 
   async reopenTask(id: string): Promise<TaskWithRelations> {
     const task = await prisma.task.findUnique({
-      where: { id },
+      where: this.owned({ id }),
     });
 
     if (!task) {
@@ -611,9 +1721,12 @@ export class TaskService {
       throw new BusinessRuleError('Only completed tasks can be reopened');
     }
 
+    // With auto-blocking, a task reopened behind open blockers goes straight back to Blocked
+    const blocked = this.autoBlock && (await this.getOpenBlockers(id)).length > 0;
+
     const updatedTask = await prisma.task.update({
       where: { id },
-      data: { status: 'Todo' },
+      data: { status: blocked ? 'Blocked' : 'Todo', autoBlocked: blocked, completedAt: null },
       include: {
         children: true,
         parent: true,
@@ -630,51 +1743,95 @@ export class TaskService {
       },
     });
 
+    await this.recordAudit(id, [{ fieldName: 'status', oldValue: task.status, newValue: updatedTask.status }]);
+
+    // Dependents that were waiting on this task are blocked again
+    await this.refreshDependentsBlockedStatus([id]);
+
     return updatedTask as TaskWithRelations;
   }
 
+  async pinTask(id: string, slot: PinTaskInput): Promise<TaskWithRelations> {
+    const task = await prisma.task.findUnique({
+      where: this.owned({ id }),
+    });
+
+    if (!task) {
+      throw new ValidationError('Task not found');
+    }
+
+    if (task.status === 'Completed' || task.status === 'Canceled') {
+      throw new BusinessRuleError('Only open tasks can be pinned');
+    }
+
+    // Segments from an earlier plan no longer describe the pinned slot
+    await prisma.$transaction([
+      prisma.scheduleSegment.deleteMany({ where: { taskId: id } }),
+      prisma.task.update({
+        where: { id },
+        data: {
+          isPinned: true,
+          scheduledStart: slot.start,
+          scheduledEnd: slot.end,
+        },
+      }),
+    ]);
+
+    return this.getTask(id);
+  }
+
+  async unpinTask(id: string): Promise<TaskWithRelations> {
+    const task = await prisma.task.findUnique({
+      where: this.owned({ id }),
+    });
+
+    if (!task) {
+      throw new ValidationError('Task not found');
+    }
+
+    if (!task.isPinned) {
+      throw new BusinessRuleError('Task is not pinned');
+    }
+
+    // The slot is kept until the next committed plan moves it
+    await prisma.task.update({
+      where: { id },
+      data: { isPinned: false },
+    });
+
+    return this.getTask(id);
+  }
+
   // Scheduling logic
-  async planSchedule(options: {
-    filter?: Partial<TaskFilter>;
-    workingHours?: { start: string; end: string; timezone?: string };
-    startDate?: Date;
-    dailyCapacity?: number;
-    commit?: boolean;
-  } = {}): Promise<{
-    tasks: Array<{
-      taskId: string;
-      scheduledStart: Date;
-      scheduledEnd: Date;
-      constraints: {
-        blockers: string[];
-        dueViolation: boolean;
-        notes: string[];
-      };
-    }>;
-    summary: {
-      totalPlannedMinutes: number;
-      unplacedTasks: number;
-      violations: number;
-    };
-  }> {
+  async planSchedule(options: ScheduleOptions = {}): Promise<SchedulePlan> {
     const {
       filter = {},
       workingHours = { start: '09:00', end: '17:30', timezone: 'UTC' },
+      calendarId,
       startDate = new Date(),
       dailyCapacity = 480, // 8 hours in minutes
+      minChunkMinutes = 30,
+      strategy = 'earliest-deadline-first',
+      mode = 'sequential',
       commit = false,
     } = options;
 
+    // Working hours are wall-clock times in the calendar's IANA zone
+    const calendar = await this.resolvePlanningCalendar(calendarId, workingHours);
+    const timezone = calendar.timezone;
+
     // Get tasks to schedule
     const { tasks } = await this.listTasks({ ...filter, limit: 1000 });
+    // Auto-blocked tasks are only waiting on blockers, which the planner already orders them after
     const tasksToSchedule = tasks.filter(t => 
-      t.status === 'Todo' || t.status === 'InProgress'
+      t.status === 'Todo' || t.status === 'InProgress' || (t.status === 'Blocked' && t.autoBlocked)
     );
 
     if (tasksToSchedule.length === 0) {
       return {
         tasks: [],
-        summary: { totalPlannedMinutes: 0, unplacedTasks: 0, violations: 0 },
+        assignees: mode === 'byAssignee' ? [] : undefined,
+        summary: { totalPlannedMinutes: 0, unplacedTasks: 0, violations: 0, timezone, strategy, mode },
       };
     }
 
@@ -685,24 +1842,91 @@ export class TaskService {
       throw new DependencyCycleError('Dependency cycle detected', cycle);
     }
 
-    // Topological sort
-    const sortedTasks = this.topologicalSort(dependencyGraph, tasksToSchedule);
+    // Order by the chosen strategy, never ahead of a blocker
+    const sortedTasks = this.orderForSchedule(strategy, dependencyGraph, tasksToSchedule);
 
     // Schedule tasks
-    const scheduledTasks: Array<{
-      taskId: string;
-      scheduledStart: Date;
-      scheduledEnd: Date;
-      constraints: {
-        blockers: string[];
-        dueViolation: boolean;
-        notes: string[];
-      };
-    }> = [];
+    const scheduledTasks: ScheduledTask[] = [];
+    // Start of each placed task's first segment and end of its last, for dependants to wait on
+    const startTimes = new Map<string, number>();
+    const completionTimes = new Map<string, number>();
+
+    const planStart = this.roundToNextQuarterHour(startDate);
+
+    // Pinned tasks (including ones outside the filter) and busy blocks are immovable
+    const reservedSlots = await this.getReservedSlots(planStart);
+    const pinnedSlots = new Map<string, ReservedSlot>();
+
+    // In byAssignee mode each assignee works through their own queue, in parallel with the others.
+    // Unassigned tasks, and every task in sequential mode, share the UNASSIGNED timeline.
+    const lanesOf = (assigneeIds: string[] = []) =>
+      mode === 'byAssignee' && assigneeIds.length > 0 ? assigneeIds : [UNASSIGNED];
+    const assigneesOf = (task: TaskWithRelations) => (task.assignees || []).map(a => a.userId);
+
+    const laneIds = new Set<string>([
+      ...tasksToSchedule.flatMap(task => lanesOf(assigneesOf(task))),
+      ...reservedSlots.filter(slot => slot.taskId).flatMap(slot => lanesOf(slot.assigneeIds)),
+    ]);
+    const people = mode === 'byAssignee'
+      ? await prisma.user.findMany({ where: { id: { in: Array.from(laneIds) } } })
+      : [];
+
+    const timelines = new Map<string, PlanningTimeline>();
+    for (const lane of laneIds) {
+      const person = people.find(p => p.id === lane);
+      const availability = person ? toAvailability(person) : undefined;
+
+      // People plan on their own calendar or working hours, falling back to the plan's
+      const laneCalendar = lane === UNASSIGNED
+        ? calendar
+        : await this.resolvePlanningCalendar(
+          availability?.calendarId ?? (availability?.workingHours ? undefined : calendarId),
+          availability?.workingHours ? { timezone, ...availability.workingHours } : workingHours,
+          // A person's own calendar is theirs, not the plan's
+          availability?.calendarId ? new CalendarService(prisma, { ownerId: lane }) : this.calendarService
+        );
+
+      timelines.set(lane, {
+        calendar: laneCalendar,
+        longestWindow: 0,
+        dailyCapacity: availability?.dailyCapacityMinutes ?? dailyCapacity,
+        pinnedMinutesByDay: new Map(),
+        currentTime: planStart,
+        currentDay: '',
+        currentDayCapacity: 0,
+      });
+    }
+
+    for (const slot of reservedSlots) {
+      if (slot.taskId) {
+        pinnedSlots.set(slot.taskId, slot);
+        startTimes.set(slot.taskId, slot.start.getTime());
+        completionTimes.set(slot.taskId, slot.end.getTime());
+      }
+
+      // Busy blocks take everyone's time; a pinned task only its assignees'
+      const lanes = slot.taskId ? lanesOf(slot.assigneeIds) : Array.from(timelines.keys());
+      for (const lane of lanes) {
+        const timeline = timelines.get(lane) as PlanningTimeline;
+
+        // Carve reserved time out of the working windows the same way as blackouts
+        timeline.calendar.blackouts.push(slot);
+
+        if (slot.taskId) {
+          const day = this.getZonedDay(slot.start, timeline.calendar.timezone);
+          timeline.pinnedMinutesByDay.set(
+            day,
+            (timeline.pinnedMinutesByDay.get(day) || 0) + differenceInMinutes(slot.end, slot.start)
+          );
+        }
+      }
+    }
 
-    let currentTime = this.roundToNextQuarterHour(startDate);
-    let currentDayCapacity = dailyCapacity;
-    let currentDay = startOfDay(currentTime);
+    for (const timeline of timelines.values()) {
+      timeline.longestWindow = this.getLongestWorkingInterval(timeline.calendar);
+      timeline.currentDay = this.getZonedDay(planStart, timeline.calendar.timezone);
+      timeline.currentDayCapacity = this.capacityLeft(timeline, timeline.currentDay);
+    }
 
     for (const task of sortedTasks) {
       const constraints = {
@@ -711,48 +1935,93 @@ export class TaskService {
         notes: [] as string[],
       };
 
-      // Check dependencies
+      // Check dependencies: each placed blocker's link type and lag give an earliest start.
+      // Blockers may be on someone else's timeline, so the times are shared by all of them.
       const blockers = dependencyGraph.get(task.id) || [];
-      const lastBlockerEnd = blockers.length > 0
-        ? Math.max(...blockers.map(blockerId => {
-            const blocker = scheduledTasks.find(t => t.taskId === blockerId);
-            return blocker ? blocker.scheduledEnd.getTime() : 0;
-          }))
-        : 0;
-
-      if (lastBlockerEnd > 0) {
-        currentTime = new Date(lastBlockerEnd);
+      const placedLinks = (task.dependencies || []).filter(link => completionTimes.has(link.dependsOnTaskId));
+      const pinnedSlot = pinnedSlots.get(task.id);
+      const taskDuration = task.estimatedDurationMinutes;
+      const linkStart = (link: { type: DependencyType; lagMinutes: number; dependsOnTaskId: string }, duration: number) =>
+        this.linkEarliestStart(
+          link.type,
+          link.lagMinutes * 60000,
+          startTimes.get(link.dependsOnTaskId)!,
+          completionTimes.get(link.dependsOnTaskId)!,
+          duration * 60000
+        );
+
+      let earliestStart: number | null = null;
+      if (placedLinks.length > 0 && !pinnedSlot) {
         constraints.blockers = blockers;
+        earliestStart = Math.max(...placedLinks.map(link => linkStart(link, taskDuration)));
       }
 
-      // Check if task fits in current day
-      const taskDuration = task.estimatedDurationMinutes;
-      const workingStart = this.getWorkingStart(currentDay, workingHours);
-      const workingEnd = this.getWorkingEnd(currentDay, workingHours);
+      let segments: Array<{ start: Date; end: Date }> = [];
+      let lanes: string[];
+
+      if (pinnedSlot) {
+        // Pinned tasks keep their slot; report links it breaks
+        const pinnedMinutes = differenceInMinutes(pinnedSlot.end, pinnedSlot.start);
+        for (const link of placedLinks) {
+          if (linkStart(link, pinnedMinutes) > pinnedSlot.start.getTime()) {
+            const blocker = tasksToSchedule.find(t => t.id === link.dependsOnTaskId);
+            const ends = this.linkEnds(link.type);
+            const lag = link.lagMinutes !== 0 ? ` (lag ${link.lagMinutes}m)` : '';
+            constraints.notes.push(
+              `Pinned ${ends.dependant === 'finish' ? 'to finish ' : ''}before blocker ` +
+              `"${blocker?.title ?? link.dependsOnTaskId}" ${ends.blocker === 'start' ? 'starts' : 'finishes'}${lag}`
+            );
+          }
+        }
+        constraints.blockers = blockers;
+        segments.push({ start: pinnedSlot.start, end: pinnedSlot.end });
+        lanes = lanesOf(pinnedSlot.assigneeIds);
+      } else {
+        // With several assignees, whoever would finish the task first takes it. Each is tried on
+        // a copy of their timeline so the others are left as they were.
+        const candidates = lanesOf(assigneesOf(task));
+        let best: { lane: string; timeline: PlanningTimeline; segments: Array<{ start: Date; end: Date }> } | null = null;
+
+        for (const lane of candidates) {
+          const laneTimeline = timelines.get(lane) as PlanningTimeline;
+          const timeline = candidates.length > 1 ? { ...laneTimeline } : laneTimeline;
+          if (earliestStart !== null) {
+            this.waitUntil(timeline, earliestStart);
+          }
+
+          const placed = this.placeOnTimeline(timeline, task, minChunkMinutes);
+          const placedEnd = placed.length > 0 ? placed[placed.length - 1].end : null;
+          if (placedEnd && (!best || isBefore(placedEnd, best.segments[best.segments.length - 1].end))) {
+            best = { lane, timeline, segments: placed };
+          }
+        }
 
-      // Ensure we're within working hours
-      if (isBefore(currentTime, workingStart)) {
-        currentTime = workingStart;
+        if (best) {
+          Object.assign(timelines.get(best.lane) as PlanningTimeline, best.timeline);
+          segments = best.segments;
+        }
+        lanes = best ? [best.lane] : candidates;
       }
 
-      if (isAfter(currentTime, workingEnd)) {
-        // Move to next day
-        currentDay = addDays(currentDay, 1);
-        currentTime = workingStart;
-        currentDayCapacity = dailyCapacity;
+      if (segments.length === 0) {
+        // No working time within the planning horizon; counted as unplaced
+        continue;
       }
 
-      // Check daily capacity
-      if (currentDayCapacity < taskDuration) {
-        // Move to next day
-        currentDay = addDays(currentDay, 1);
-        currentTime = workingStart;
-        currentDayCapacity = dailyCapacity;
+      const scheduledEnd = segments[segments.length - 1].end;
+
+      // Report any overlap with reserved time on the same timeline
+      // (pinned slots that collide, or oversized tasks overflowing)
+      for (const slot of reservedSlots) {
+        if (slot.taskId === task.id) {
+          continue;
+        }
+        const sharesTimeline = !slot.taskId || lanesOf(slot.assigneeIds).some(lane => lanes.includes(lane));
+        if (sharesTimeline && segments.some(segment => isBefore(segment.start, slot.end) && isAfter(segment.end, slot.start))) {
+          constraints.notes.push(`Overlaps ${slot.label}`);
+        }
       }
 
-      const scheduledStart = currentTime;
-      const scheduledEnd = addMinutes(currentTime, taskDuration);
-
       // Check due date violation
       if (task.dueAt && isAfter(scheduledEnd, task.dueAt)) {
         constraints.dueViolation = true;
@@ -767,77 +2036,384 @@ export class TaskService {
         }
       }
 
-      scheduledTasks.push({
-        taskId: task.id,
-        scheduledStart,
-        scheduledEnd,
-        constraints,
+      if (segments.length > 1) {
+        constraints.notes.push(`Split into ${segments.length} segments`);
+      }
+
+      // Times read in the zone of whoever does the work
+      const segmentTimezone = (timelines.get(lanes[0]) as PlanningTimeline).calendar.timezone;
+      segments.forEach((segment, index) => {
+        scheduledTasks.push({
+          taskId: task.id,
+          scheduledStart: segment.start,
+          scheduledEnd: segment.end,
+          timezone: segmentTimezone,
+          localStart: this.formatZoned(segment.start, segmentTimezone),
+          localEnd: this.formatZoned(segment.end, segmentTimezone),
+          segmentIndex: index + 1,
+          segmentCount: segments.length,
+          pinned: !!pinnedSlot,
+          ...(mode === 'byAssignee' && { assigneeIds: lanes.filter(lane => lane !== UNASSIGNED) }),
+          constraints,
+        });
       });
 
-      // Update current time and capacity
-      currentTime = scheduledEnd;
-      currentDayCapacity -= taskDuration;
+      startTimes.set(task.id, segments[0].start.getTime());
+      completionTimes.set(task.id, scheduledEnd.getTime());
     }
 
-    // Commit to database if requested
+    const plannedTaskIds = new Set(scheduledTasks.map(t => t.taskId));
+
+    // Commit to database if requested; pinned tasks already hold their slot
     if (commit) {
       await prisma.$transaction(async (tx) => {
-        for (const scheduledTask of scheduledTasks) {
+        for (const taskId of plannedTaskIds) {
+          if (pinnedSlots.has(taskId)) {
+            continue;
+          }
+
+          const taskSegments = scheduledTasks.filter(t => t.taskId === taskId);
+
+          // The task spans its first to last segment; the segments record the gaps
           await tx.task.update({
-            where: { id: scheduledTask.taskId },
+            where: { id: taskId },
             data: {
-              scheduledStart: scheduledTask.scheduledStart,
-              scheduledEnd: scheduledTask.scheduledEnd,
+              scheduledStart: taskSegments[0].scheduledStart,
+              scheduledEnd: taskSegments[taskSegments.length - 1].scheduledEnd,
             },
           });
+
+          await tx.scheduleSegment.deleteMany({ where: { taskId } });
+          await tx.scheduleSegment.createMany({
+            data: taskSegments.map(segment => ({
+              taskId,
+              sequence: segment.segmentIndex,
+              start: segment.scheduledStart,
+              end: segment.scheduledEnd,
+            })),
+          });
         }
       });
     }
 
-    const violations = scheduledTasks.filter(t => t.constraints.dueViolation).length;
+    const violations = scheduledTasks.filter(t =>
+      t.segmentIndex === t.segmentCount && t.constraints.dueViolation
+    ).length;
     const totalPlannedMinutes = scheduledTasks.reduce((sum, t) => {
       const duration = (t.scheduledEnd.getTime() - t.scheduledStart.getTime()) / (1000 * 60);
       return sum + duration;
     }, 0);
 
+    // Each person's share of the plan, by email, with unassigned work last
+    let assignees: AssigneeTimeline[] | undefined;
+    if (mode === 'byAssignee') {
+      assignees = Array.from(timelines.entries()).map(([lane, timeline]) => {
+        const person = people.find(p => p.id === lane);
+        const laneTasks = scheduledTasks.filter(t =>
+          lane === UNASSIGNED ? t.assigneeIds?.length === 0 : t.assigneeIds?.includes(lane)
+        );
+        return {
+          userId: lane === UNASSIGNED ? null : lane,
+          email: person?.email,
+          name: person?.name,
+          timezone: timeline.calendar.timezone,
+          dailyCapacity: timeline.dailyCapacity,
+          plannedMinutes: laneTasks.reduce((sum, t) => sum + differenceInMinutes(t.scheduledEnd, t.scheduledStart), 0),
+          tasks: laneTasks,
+        };
+      });
+      assignees.sort((a, b) =>
+        Number(a.userId === null) - Number(b.userId === null) || (a.email ?? '').localeCompare(b.email ?? '')
+      );
+    }
+
     return {
       tasks: scheduledTasks,
+      assignees,
       summary: {
         totalPlannedMinutes,
-        unplacedTasks: tasksToSchedule.length - scheduledTasks.length,
+        unplacedTasks: tasksToSchedule.length - plannedTaskIds.size,
         violations,
+        timezone,
+        strategy,
+        mode,
+      },
+    };
+  }
+
+  // Critical path analysis over open tasks, either globally or within a parent's subtree.
+  // Durations come from estimatedDurationMinutes; dependencies leaving the analysed set are ignored.
+  async getCriticalPath(rootTaskId?: string): Promise<CriticalPathAnalysis> {
+    const allTasks = await prisma.task.findMany({
+      where: this.owned({}),
+      include: {
+        dependencies: true,
       },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    let scope = allTasks;
+    if (rootTaskId) {
+      if (!allTasks.some(t => t.id === rootTaskId)) {
+        throw new ValidationError('Task not found');
+      }
+
+      const childrenOf = new Map<string, string[]>();
+      for (const task of allTasks) {
+        if (task.parentId) {
+          childrenOf.set(task.parentId, [...(childrenOf.get(task.parentId) || []), task.id]);
+        }
+      }
+
+      const subtree = new Set<string>();
+      const stack = [rootTaskId];
+      while (stack.length > 0) {
+        const id = stack.pop()!;
+        subtree.add(id);
+        stack.push(...(childrenOf.get(id) || []));
+      }
+      scope = allTasks.filter(t => subtree.has(t.id));
+    }
+
+    const tasks = scope.filter(t => t.status !== 'Completed' && t.status !== 'Canceled') as TaskWithRelations[];
+    const taskMap = new Map(tasks.map(t => [t.id, t]));
+    const duration = (id: string) => taskMap.get(id)!.estimatedDurationMinutes;
+
+    type Link = { taskId: string; dependsOnTaskId: string; type: DependencyType; lagMinutes: number };
+    const linksOf = new Map<string, Link[]>();
+    const dependantLinks = new Map<string, Link[]>();
+    for (const task of tasks) {
+      linksOf.set(task.id, (task.dependencies || []).filter(d => taskMap.has(d.dependsOnTaskId)));
+      dependantLinks.set(task.id, []);
+    }
+    for (const links of linksOf.values()) {
+      for (const link of links) {
+        dependantLinks.get(link.dependsOnTaskId)!.push(link);
+      }
+    }
+
+    const blockersOf = new Map(Array.from(linksOf, ([id, links]) => [id, links.map(l => l.dependsOnTaskId)]));
+
+    const cycle = this.detectCycle(blockersOf);
+    if (cycle) {
+      throw new DependencyCycleError('Dependency cycle detected', cycle);
+    }
+
+    // Topological order (Kahn), keeping creation order among ready tasks
+    const inDegree = new Map(tasks.map(t => [t.id, blockersOf.get(t.id)!.length]));
+    const queue = tasks.filter(t => inDegree.get(t.id) === 0).map(t => t.id);
+    const order: string[] = [];
+    while (queue.length > 0) {
+      const id = queue.shift()!;
+      order.push(id);
+      for (const { taskId: dependantId } of dependantLinks.get(id)!) {
+        const degree = inDegree.get(dependantId)! - 1;
+        inDegree.set(dependantId, degree);
+        if (degree === 0) {
+          queue.push(dependantId);
+        }
+      }
+    }
+
+    // Forward pass: a task starts as soon as every link to its blockers allows
+    const earliestStart = new Map<string, number>();
+    const earliestFinish = new Map<string, number>();
+    const linkStart = (link: Link) => this.linkEarliestStart(
+      link.type,
+      link.lagMinutes,
+      earliestStart.get(link.dependsOnTaskId)!,
+      earliestFinish.get(link.dependsOnTaskId)!,
+      duration(link.taskId)
+    );
+    for (const id of order) {
+      const start = Math.max(0, ...linksOf.get(id)!.map(linkStart));
+      earliestStart.set(id, start);
+      earliestFinish.set(id, start + duration(id));
+    }
+    const totalDurationMinutes = Math.max(0, ...Array.from(earliestFinish.values()));
+
+    // Backward pass: a task must finish in time for every link to its dependants
+    const latestStart = new Map<string, number>();
+    const latestFinish = new Map<string, number>();
+    for (const id of [...order].reverse()) {
+      const finish = Math.min(totalDurationMinutes, ...dependantLinks.get(id)!.map(link => {
+        const ends = this.linkEnds(link.type);
+        const dependantEnd = ends.dependant === 'start' ? latestStart.get(link.taskId)! : latestFinish.get(link.taskId)!;
+        const latest = dependantEnd - link.lagMinutes;
+        return ends.blocker === 'finish' ? latest : latest + duration(id);
+      }));
+      latestFinish.set(id, finish);
+      latestStart.set(id, finish - duration(id));
+    }
+
+    const analysed: CriticalPathTask[] = order.map(id => {
+      const slack = latestStart.get(id)! - earliestStart.get(id)!;
+      return {
+        taskId: id,
+        title: taskMap.get(id)!.title,
+        durationMinutes: duration(id),
+        earliestStart: earliestStart.get(id)!,
+        earliestFinish: earliestFinish.get(id)!,
+        latestStart: latestStart.get(id)!,
+        latestFinish: latestFinish.get(id)!,
+        slack,
+        critical: slack === 0,
+      };
+    });
+    const analysedMap = new Map(analysed.map(t => [t.taskId, t]));
+
+    // Walk back from the task that finishes last, through the zero-slack blockers whose links set its start
+    const criticalPath: string[] = [];
+    let current = analysed.find(t => t.critical && t.earliestFinish === totalDurationMinutes);
+    while (current) {
+      criticalPath.unshift(current.taskId);
+      const start = current.earliestStart;
+      const driving = linksOf.get(current.taskId)!
+        .find(link => analysedMap.get(link.dependsOnTaskId)!.critical && linkStart(link) === start);
+      current = driving && analysedMap.get(driving.dependsOnTaskId);
+    }
+
+    return {
+      rootTaskId: rootTaskId ?? null,
+      totalDurationMinutes,
+      criticalPath,
+      tasks: analysed.sort((a, b) => a.earliestStart - b.earliestStart),
     };
   }
 
   // Bulk operations
-  async bulkImport(tasks: BulkImportTask[]): Promise<TaskWithRelations[]> {
-    const importedTasks: TaskWithRelations[] = [];
+  // The whole batch is checked first and then created in one transaction, or not at all
+  async bulkImport(tasks: BulkImportTask[], options: BulkImportOptions = {}): Promise<BulkImportResult> {
+    const dryRun = options.dryRun ?? false;
+    const items: BulkImportItemResult[] = tasks.map((task, index) => ({ index, key: task.key, id: null, errors: [] }));
+    const fail = (index: number, field: string, code: string, message: string) => {
+      items[index].errors.push({ field, code, message });
+    };
 
-    for (const taskData of tasks) {
-      const { dependencies, ...taskInput } = taskData;
-      
-      const task = await this.createTask({
-        ...taskInput,
-        dueAt: taskData.dueAt ? new Date(taskData.dueAt) : undefined,
-      });
+    // Keys only name items within this import
+    const indexByKey = new Map<string, number>();
+    tasks.forEach((task, index) => {
+      if (task.key === undefined) {
+        return;
+      }
+      if (indexByKey.has(task.key)) {
+        fail(index, 'key', 'DUPLICATE_KEY', `Key "${task.key}" is already used by item ${indexByKey.get(task.key)}`);
+      } else {
+        indexByKey.set(task.key, index);
+      }
+    });
 
-      // Add dependencies if specified
-      if (dependencies && dependencies.length > 0) {
-        for (const blockerId of dependencies) {
-          try {
-            await this.addDependency(task.id, blockerId);
-          } catch (error) {
-            // Log dependency errors but continue with import
-            console.warn(`Failed to add dependency ${blockerId} to task ${task.id}:`, error);
-          }
+    const referencedIds = tasks.flatMap(task => [...(task.parentId ? [task.parentId] : []), ...(task.dependencies ?? [])]);
+    const existingIds = new Set(
+      referencedIds.length === 0 ? [] : (await prisma.task.findMany({
+        where: this.owned({ id: { in: Array.from(new Set(referencedIds)) } }),
+        select: { id: true },
+      })).map(task => task.id)
+    );
+
+    tasks.forEach((task, index) => {
+      if (task.parentId && !existingIds.has(task.parentId)) {
+        fail(index, 'parentId', 'PARENT_NOT_FOUND', 'Parent task not found');
+      }
+      if (task.parentKey !== undefined && !indexByKey.has(task.parentKey)) {
+        fail(index, 'parentKey', 'UNKNOWN_KEY', `No item has key "${task.parentKey}"`);
+      }
+      for (const blockerId of task.dependencies ?? []) {
+        if (!existingIds.has(blockerId)) {
+          fail(index, 'dependencies', 'BLOCKER_NOT_FOUND', `Blocker task ${blockerId} not found`);
+        }
+      }
+      for (const key of task.dependsOnKeys ?? []) {
+        if (!indexByKey.has(key)) {
+          fail(index, 'dependsOnKeys', 'UNKNOWN_KEY', `No item has key "${key}"`);
         }
       }
+      const blockers = [...(task.dependencies ?? []), ...(task.dependsOnKeys ?? [])];
+      if (new Set(blockers).size !== blockers.length) {
+        fail(index, 'dependencies', 'DUPLICATE_DEPENDENCY', 'Task cannot depend on the same task twice');
+      }
+    });
+
+    // Tasks already saved can't sit under or depend on tasks that don't exist yet, so any cycle
+    // runs through the batch alone
+    const keyGraph = (refs: (task: BulkImportTask) => string[]) => new Map(
+      Array.from(indexByKey, ([key, index]) => [key, refs(tasks[index]).filter(ref => indexByKey.has(ref))])
+    );
+    for (const cycle of this.detectCycles(keyGraph(task => task.parentKey !== undefined ? [task.parentKey] : []))) {
+      for (const key of cycle) {
+        fail(indexByKey.get(key)!, 'parentKey', 'DEPENDENCY_CYCLE', cycle.length === 1
+          ? 'Task cannot be its own parent'
+          : `Parents form a cycle: ${[...cycle, cycle[0]].join(' → ')}`);
+      }
+    }
+    for (const cycle of this.detectCycles(keyGraph(task => task.dependsOnKeys ?? []))) {
+      for (const key of cycle) {
+        fail(indexByKey.get(key)!, 'dependsOnKeys', 'DEPENDENCY_CYCLE', cycle.length === 1
+          ? 'Task cannot depend on itself'
+          : `Dependencies form a cycle: ${[...cycle, cycle[0]].join(' → ')}`);
+      }
+    }
 
-      importedTasks.push(task);
+    const valid = items.every(item => item.errors.length === 0);
+    if (!valid && !dryRun) {
+      throw new BusinessRuleError('Nothing was imported; see the errors of each item', 'IMPORT_FAILED', { items });
+    }
+    if (dryRun) {
+      return { dryRun, valid, items };
     }
 
-    return importedTasks;
+    const projectId = this.projectId ?? null;
+    const ownerId = projectId ? null : this.ownerId ?? null;
+    const idOfKey = (key: string) => items[indexByKey.get(key)!].id!;
+    // Parents are created before the items nested under them
+    const depth = (task: BulkImportTask): number =>
+      task.parentKey === undefined ? 0 : depth(tasks[indexByKey.get(task.parentKey)!]) + 1;
+    const order = tasks.map((_, index) => index).sort((a, b) => depth(tasks[a]) - depth(tasks[b]));
+    const linkedTaskIds: string[] = [];
+
+    await prisma.$transaction(async (tx) => {
+      for (const index of order) {
+        const task = tasks[index];
+        const created = await tx.task.create({
+          data: {
+            title: task.title,
+            description: task.description,
+            status: task.status,
+            priority: task.priority,
+            dueAt: task.dueAt,
+            estimatedDurationMinutes: task.estimatedDurationMinutes,
+            allowParentAutoComplete: task.allowParentAutoComplete,
+            isSplittable: task.isSplittable,
+            minChunkMinutes: task.minChunkMinutes,
+            parentId: task.parentKey !== undefined ? idOfKey(task.parentKey) : task.parentId,
+            projectId,
+            ownerId,
+          },
+        });
+        items[index].id = created.id;
+      }
+
+      const changedAt = new Date();
+      for (const [index, task] of tasks.entries()) {
+        const links: AuditedDependency[] = [
+          ...(task.dependencies ?? []),
+          ...(task.dependsOnKeys ?? []).map(idOfKey),
+        ].map(dependsOnTaskId => ({ dependsOnTaskId, type: 'FinishToStart', lagMinutes: 0 }));
+        if (links.length === 0) {
+          continue;
+        }
+        const taskId = items[index].id!;
+        await tx.dependency.createMany({ data: links.map(link => ({ taskId, ...link })) });
+        await tx.taskAudit.createMany({
+          data: diffRelation('dependencies', [], links).map(change => ({ taskId, ...change, changedAt })),
+        });
+        linkedTaskIds.push(taskId);
+      }
+    });
+
+    await this.refreshBlockedStatus(linkedTaskIds);
+
+    return { dryRun, valid, items };
   }
 
   async exportTasks(format: 'json' | 'csv' = 'json'): Promise<string> {
@@ -864,6 +2440,134 @@ export class TaskService {
   }
 
   // Private helper methods
+  // Entries of one change share a timestamp, so the history reads them back as one edit
+  private async recordAudit(taskId: string, changes: AuditChange[], changedAt: Date = new Date()): Promise<void> {
+    if (changes.length === 0) {
+      return;
+    }
+    await prisma.taskAudit.createMany({
+      data: changes.map(change => ({ taskId, ...change, changedAt })),
+    });
+  }
+
+  // The task and all its descendants, parents before children
+  private async getSubtreeIds(rootId: string): Promise<string[]> {
+    const ids = [rootId];
+    for (let i = 0; i < ids.length; i++) {
+      const children = await prisma.task.findMany({ where: { parentId: ids[i] }, select: { id: true } });
+      ids.push(...children.map(c => c.id));
+    }
+    return ids;
+  }
+
+  private async getAuditedDependencies(taskId: string): Promise<AuditedDependency[]> {
+    return prisma.dependency.findMany({
+      where: { taskId },
+      select: { dependsOnTaskId: true, type: true, lagMinutes: true },
+    });
+  }
+
+  // Records how an operation changed a task's dependencies
+  private async auditDependencies(taskId: string, before: AuditedDependency[]): Promise<void> {
+    const after = await this.getAuditedDependencies(taskId);
+    await this.recordAudit(taskId, diffRelation('dependencies', before, after));
+  }
+
+  private async getOpenBlockers(taskId: string) {
+    const dependencies = await prisma.dependency.findMany({
+      where: {
+        taskId,
+        blockerTask: {
+          status: {
+            notIn: ['Completed', 'Canceled'],
+          },
+        },
+      },
+      include: { blockerTask: true },
+    });
+
+    return dependencies.map(d => d.blockerTask);
+  }
+
+  // Auto-blocking: Todo tasks with an open blocker become Blocked and return to Todo once the
+  // last one closes. Manually blocked tasks and work already in progress are left alone.
+  private async refreshBlockedStatus(taskIds: string[]): Promise<void> {
+    if (!this.autoBlock || taskIds.length === 0) {
+      return;
+    }
+
+    const tasks = await prisma.task.findMany({
+      where: { id: { in: Array.from(new Set(taskIds)) } },
+    });
+
+    for (const task of tasks) {
+      const hasOpenBlockers = (await this.getOpenBlockers(task.id)).length > 0;
+
+      let status: TaskStatus | null = null;
+      if (task.status === 'Todo' && hasOpenBlockers) {
+        status = TaskStatus.Blocked;
+      } else if (task.status === 'Blocked' && task.autoBlocked && !hasOpenBlockers) {
+        status = TaskStatus.Todo;
+      }
+
+      if (!status) {
+        continue;
+      }
+
+      const oldStatus = task.status;
+      await prisma.$transaction(async (tx) => {
+        await tx.task.update({
+          where: { id: task.id },
+          data: { status, autoBlocked: status === TaskStatus.Blocked },
+        });
+        await tx.taskAudit.create({
+          data: { taskId: task.id, fieldName: 'status', oldValue: oldStatus, newValue: status },
+        });
+      });
+    }
+  }
+
+  private async refreshDependentsBlockedStatus(blockerIds: string[]): Promise<void> {
+    if (!this.autoBlock || blockerIds.length === 0) {
+      return;
+    }
+
+    const dependents = await prisma.dependency.findMany({
+      where: { dependsOnTaskId: { in: blockerIds } },
+      select: { taskId: true },
+    });
+
+    await this.refreshBlockedStatus(dependents.map(d => d.taskId));
+  }
+
+  // Whether taskId already waits on blockerId through a chain of dependencies, so that making
+  // blockerId depend on taskId would close a cycle
+  private async dependsOnTransitively(
+    taskId: string,
+    blockerId: string,
+    client: Prisma.TransactionClient = prisma
+  ): Promise<boolean> {
+    const visited = new Set([taskId]);
+    let frontier = [taskId];
+    while (frontier.length > 0) {
+      const links = await client.dependency.findMany({
+        where: { taskId: { in: frontier } },
+        select: { dependsOnTaskId: true },
+      });
+      frontier = [];
+      for (const { dependsOnTaskId } of links) {
+        if (dependsOnTaskId === blockerId) {
+          return true;
+        }
+        if (!visited.has(dependsOnTaskId)) {
+          visited.add(dependsOnTaskId);
+          frontier.push(dependsOnTaskId);
+        }
+      }
+    }
+    return false;
+  }
+
   private async wouldCreateCycle(taskId: string, parentId: string): Promise<boolean> {
     const visited = new Set<string>();
     const recursionStack = new Set<string>();
@@ -915,6 +2619,65 @@ export class TaskService {
     return graph;
   }
 
+  private validateDependencyOptions(options: DependencyOptions): void {
+    const { lagMinutes } = options;
+    if (lagMinutes === undefined) {
+      return;
+    }
+
+    if (!Number.isInteger(lagMinutes) || Math.abs(lagMinutes) > MAX_DEPENDENCY_LAG_MINUTES) {
+      throw new BusinessRuleError(
+        `Dependency lag must be a whole number of minutes within ±${MAX_DEPENDENCY_LAG_MINUTES}`,
+        'INVALID_DEPENDENCY_LAG',
+        { lagMinutes }
+      );
+    }
+  }
+
+  // Which end of the blocker a link hangs off, and which end of the dependant it constrains
+  private linkEnds(type: DependencyType): { blocker: 'start' | 'finish'; dependant: 'start' | 'finish' } {
+    switch (type) {
+      case DependencyType.StartToStart:
+        return { blocker: 'start', dependant: 'start' };
+      case DependencyType.FinishToFinish:
+        return { blocker: 'finish', dependant: 'finish' };
+      case DependencyType.StartToFinish:
+        return { blocker: 'start', dependant: 'finish' };
+      default:
+        return { blocker: 'finish', dependant: 'start' };
+    }
+  }
+
+  // Earliest start a link allows the dependant; all values share one unit (minutes or milliseconds)
+  private linkEarliestStart(
+    type: DependencyType,
+    lag: number,
+    blockerStart: number,
+    blockerFinish: number,
+    duration: number
+  ): number {
+    const ends = this.linkEnds(type);
+    const anchor = (ends.blocker === 'start' ? blockerStart : blockerFinish) + lag;
+    return ends.dependant === 'start' ? anchor : anchor - duration;
+  }
+
+  // Every cycle in the graph as a path of distinct nodes, e.g. [a, b] for a -> b -> a; a node is
+  // reported in one cycle at most
+  private detectCycles(graph: Map<string, string[]>): string[][] {
+    const remaining = new Map(graph);
+    const cycles: string[][] = [];
+    let found = this.detectCycle(remaining);
+    while (found) {
+      // The path may lead into the cycle first; it ends where the cycle closes
+      const closing = found[found.length - 1];
+      const cycle = found.slice(found.indexOf(closing), found.length > 1 ? -1 : undefined);
+      cycles.push(cycle);
+      cycle.forEach(node => remaining.delete(node));
+      found = this.detectCycle(remaining);
+    }
+    return cycles;
+  }
+
   private detectCycle(graph: Map<string, string[]>): string[] | null {
     const visited = new Set<string>();
     const recursionStack = new Set<string>();
@@ -958,80 +2721,383 @@ export class TaskService {
     return null;
   }
 
-  private topologicalSort(graph: Map<string, string[]>, tasks: TaskWithRelations[]): TaskWithRelations[] {
-    const visited = new Set<string>();
-    const sorted: TaskWithRelations[] = [];
+  // Kahn's algorithm: repeatedly place the most urgent task whose blockers are all placed.
+  // Blockers inherit the urgency of the tasks waiting on them so they aren't starved.
+  private orderForSchedule(
+    strategy: ScheduleStrategy,
+    graph: Map<string, string[]>,
+    tasks: TaskWithRelations[]
+  ): TaskWithRelations[] {
+    const taskMap = new Map(tasks.map(t => [t.id, t]));
+
+    // Edges blocker -> dependants, ignoring blockers outside the plan
+    const dependants = new Map<string, Set<string>>();
+    const inDegree = new Map<string, number>();
+    for (const task of tasks) {
+      dependants.set(task.id, new Set());
+      inDegree.set(task.id, 0);
+    }
+    for (const [taskId, blockers] of graph) {
+      for (const blockerId of blockers) {
+        if (taskMap.has(blockerId)) {
+          dependants.get(blockerId)!.add(taskId);
+          inDegree.set(taskId, inDegree.get(taskId)! + 1);
+        }
+      }
+    }
 
-    const dfs = (node: string) => {
-      if (visited.has(node)) return;
-      visited.add(node);
+    const compare = this.scheduleComparator(strategy, tasks, dependants);
+
+    const ready = tasks.filter(t => inDegree.get(t.id) === 0);
+    const ordered: TaskWithRelations[] = [];
+
+    while (ready.length > 0) {
+      ready.sort(compare);
+      const next = ready.shift()!;
+      ordered.push(next);
+
+      for (const dependantId of dependants.get(next.id)!) {
+        const degree = inDegree.get(dependantId)! - 1;
+        inDegree.set(dependantId, degree);
+        if (degree === 0) {
+          ready.push(taskMap.get(dependantId)!);
+        }
+      }
+    }
+
+    return ordered;
+  }
+
+  private scheduleComparator(
+    strategy: ScheduleStrategy,
+    tasks: TaskWithRelations[],
+    dependants: Map<string, Set<string>>
+  ): (a: TaskWithRelations, b: TaskWithRelations) => number {
+    if (strategy === 'score') {
+      const now = new Date();
+      const depth = this.longestDownstreamDepth(new Set(tasks.map(t => t.id)), dependants);
+      const maxDepth = Math.max(...Array.from(depth.values()), 1);
+      const scores = new Map(tasks.map(task => [task.id, this.calculateTaskScore(task.id, task, {
+        weights: DEFAULT_ORDER_WEIGHTS,
+        horizonHours: DEFAULT_HORIZON_HOURS,
+        overdueBoost: DEFAULT_OVERDUE_BOOST,
+        quickWinCapMins: DEFAULT_QUICK_WIN_CAP_MINS,
+        depth,
+        maxDepth,
+        now,
+      })]));
+
+      return (a, b) => {
+        const [scoreA, tieBreakA] = scores.get(a.id)!;
+        const [scoreB, tieBreakB] = scores.get(b.id)!;
+        return scoreB - scoreA || this.compareTieBreak(tieBreakA, tieBreakB);
+      };
+    }
+
+    // Effective due date and priority: the most urgent of the task and everything downstream of it
+    const taskMap = new Map(tasks.map(t => [t.id, t]));
+    const effective = new Map<string, { due: number; priority: number }>();
+    const resolve = (taskId: string): { due: number; priority: number } => {
+      const cached = effective.get(taskId);
+      if (cached) {
+        return cached;
+      }
+      const task = taskMap.get(taskId)!;
+      let due = this.dueTimestampOrInfinity(task.dueAt);
+      let priority = this.priorityToNumber(task.priority);
+      for (const dependantId of dependants.get(taskId) || []) {
+        const downstream = resolve(dependantId);
+        due = Math.min(due, downstream.due);
+        priority = Math.max(priority, downstream.priority);
+      }
+      const result = { due, priority };
+      effective.set(taskId, result);
+      return result;
+    };
+
+    const compareDue = (a: TaskWithRelations, b: TaskWithRelations) => {
+      const dueA = resolve(a.id).due;
+      const dueB = resolve(b.id).due;
+      // Tasks without a due date (Infinity) sort last
+      return dueA === dueB ? 0 : dueA < dueB ? -1 : 1;
+    };
+    const comparePriority = (a: TaskWithRelations, b: TaskWithRelations) =>
+      resolve(b.id).priority - resolve(a.id).priority;
+    const compareRest = (a: TaskWithRelations, b: TaskWithRelations) =>
+      // Shorter first, then creation date
+      a.estimatedDurationMinutes - b.estimatedDurationMinutes ||
+      a.createdAt.getTime() - b.createdAt.getTime() ||
+      a.id.localeCompare(b.id);
+
+    if (strategy === 'priority-first') {
+      return (a, b) => comparePriority(a, b) || compareDue(a, b) || compareRest(a, b);
+    }
+
+    return (a, b) => compareDue(a, b) || comparePriority(a, b) || compareRest(a, b);
+  }
 
-      const blockers = graph.get(node) || [];
-      for (const blocker of blockers) {
-        dfs(blocker);
+  private roundToNextQuarterHour(date: Date): Date {
+    const minutes = date.getMinutes();
+    const roundedMinutes = Math.ceil(minutes / 15) * 15;
+    const result = new Date(date);
+    result.setMinutes(roundedMinutes, 0, 0);
+    return result;
+  }
+
+  private async resolvePlanningCalendar(
+    calendarId: string | undefined,
+    workingHours: WorkingHours,
+    calendars: CalendarService = this.calendarService
+  ): Promise<PlanningCalendar> {
+    if (!calendarId) {
+      const timezone = workingHours.timezone || 'UTC';
+      if (!isValidTimezone(timezone)) {
+        throw new ValidationError(`Invalid timezone: ${timezone}`, 'INVALID_TIMEZONE', { timezone });
+      }
+
+      // Plain working hours apply identically to every day of the week
+      const interval = { start: workingHours.start, end: workingHours.end };
+      const weeklyHours: WeeklyHours = {};
+      for (let weekday = 0; weekday < 7; weekday++) {
+        weeklyHours[weekday] = [interval];
+      }
+
+      return { timezone, weeklyHours, holidays: new Set(), blackouts: [] };
+    }
+
+    const calendar = await calendars.getCalendarById(calendarId);
+    if (!calendar) {
+      throw new ValidationError('Work calendar not found', 'CALENDAR_NOT_FOUND', { calendarId });
+    }
+
+    return {
+      timezone: calendar.timezone,
+      weeklyHours: this.calendarService.parseWeeklyHours(calendar.weeklyHours),
+      holidays: new Set(calendar.holidays.map(h => h.date.toISOString().split('T')[0])),
+      blackouts: calendar.blackouts.map(b => ({ start: b.start, end: b.end })),
+    };
+  }
+
+  private async getReservedSlots(from: Date): Promise<ReservedSlot[]> {
+    const [busyBlocks, pinnedTasks] = await Promise.all([
+      this.busyBlockService.getBusyBlocks({ from }),
+      prisma.task.findMany({
+        where: this.owned({
+          isPinned: true,
+          // The same tasks the planner schedules, so an auto-blocked pinned task keeps its slot too
+          OR: [
+            { status: { in: ['Todo', 'InProgress'] } },
+            { status: 'Blocked', autoBlocked: true },
+          ],
+          scheduledStart: { not: null },
+          scheduledEnd: { not: null },
+        }),
+        include: {
+          assignees: { select: { userId: true } },
+        },
+      }),
+    ]);
+
+    return [
+      ...busyBlocks.map(block => ({
+        start: block.start,
+        end: block.end,
+        label: `busy block "${block.title}"`,
+      })),
+      ...pinnedTasks.map(task => ({
+        start: task.scheduledStart!,
+        end: task.scheduledEnd!,
+        label: `pinned task "${task.title}"`,
+        taskId: task.id,
+        assigneeIds: task.assignees.map(a => a.userId),
+      })),
+    ];
+  }
+
+  // Pinned work counts against the capacity of the day it falls on
+  private capacityLeft(timeline: PlanningTimeline, day: string): number {
+    return timeline.dailyCapacity - (timeline.pinnedMinutesByDay.get(day) || 0);
+  }
+
+  private moveToNextDay(timeline: PlanningTimeline): void {
+    timeline.currentDay = this.addZonedDays(timeline.currentDay, 1);
+    timeline.currentTime = this.zonedWallTime(timeline.currentDay, '00:00', timeline.calendar.timezone);
+    timeline.currentDayCapacity = this.capacityLeft(timeline, timeline.currentDay);
+  }
+
+  // Only ever wait: moving back would double-book the timeline's earlier tasks
+  private waitUntil(timeline: PlanningTimeline, earliestStart: number): void {
+    if (earliestStart > timeline.currentTime.getTime()) {
+      timeline.currentTime = new Date(earliestStart);
+
+      // A blocker finishing on a later day moves us onto that day
+      const blockerDay = this.getZonedDay(timeline.currentTime, timeline.calendar.timezone);
+      if (blockerDay > timeline.currentDay) {
+        timeline.currentDay = blockerDay;
+        timeline.currentDayCapacity = this.capacityLeft(timeline, timeline.currentDay);
+      }
+    }
+  }
+
+  // Places a task at the timeline's current time or later and moves the timeline past it.
+  // Returns no segments when there is no room within the planning horizon.
+  private placeOnTimeline(
+    timeline: PlanningTimeline,
+    task: { estimatedDurationMinutes: number; isSplittable: boolean; minChunkMinutes?: number | null },
+    minChunkMinutes: number
+  ): Array<{ start: Date; end: Date }> {
+    const taskDuration = task.estimatedDurationMinutes;
+    const segments: Array<{ start: Date; end: Date }> = [];
+
+    if (task.isSplittable && taskDuration > 0) {
+      // Fill the room left in each working window with chunks no smaller than the minimum
+      const minChunk = Math.min(task.minChunkMinutes ?? minChunkMinutes, taskDuration);
+      const { currentTime, currentDay, currentDayCapacity } = timeline;
+      let remaining = taskDuration;
+
+      for (let dayCount = 0; dayCount < MAX_PLANNING_DAYS && remaining > 0; dayCount++) {
+        for (const window of this.getWorkingWindows(timeline.currentDay, timeline.calendar)) {
+          if (remaining === 0) {
+            break;
+          }
+
+          const start = isAfter(timeline.currentTime, window.start) ? timeline.currentTime : window.start;
+          let chunk = Math.min(remaining, differenceInMinutes(window.end, start), timeline.currentDayCapacity);
+
+          // Never leave a remainder too small to be scheduled on its own
+          if (chunk < remaining && remaining - chunk < minChunk) {
+            chunk = remaining - minChunk;
+          }
+          if (chunk < minChunk) {
+            continue;
+          }
+
+          const end = addMinutes(start, chunk);
+          segments.push({ start, end });
+          remaining -= chunk;
+          timeline.currentTime = end;
+          timeline.currentDayCapacity -= chunk;
+        }
+
+        if (remaining > 0) {
+          this.moveToNextDay(timeline);
+        }
       }
 
-      const task = tasks.find(t => t.id === node);
-      if (task) {
-        sorted.push(task);
-      }
+      if (remaining > 0) {
+        // Partial placements are discarded so later tasks see the timeline untouched
+        Object.assign(timeline, { currentTime, currentDay, currentDayCapacity });
+        segments.length = 0;
+      }
+      return segments;
+    }
+
+    // Find the earliest working window with room for the task,
+    // skipping non-working days, holidays and blackout periods
+    let scheduledStart: Date | null = null;
+
+    for (let dayCount = 0; dayCount < MAX_PLANNING_DAYS && !scheduledStart; dayCount++) {
+      // A fresh day always takes the task, even if it exceeds the daily capacity
+      const freshDay = timeline.currentDayCapacity === this.capacityLeft(timeline, timeline.currentDay)
+        && timeline.currentDayCapacity > 0;
+      const hasCapacity = timeline.currentDayCapacity >= taskDuration || freshDay;
+
+      if (hasCapacity) {
+        for (const window of this.getWorkingWindows(timeline.currentDay, timeline.calendar)) {
+          const start = isAfter(timeline.currentTime, window.start) ? timeline.currentTime : window.start;
+          if (!isBefore(start, window.end)) {
+            continue;
+          }
+
+          // Tasks longer than any working interval start at the top of a window and overflow it
+          const fits = !isAfter(addMinutes(start, taskDuration), window.end);
+          const oversized = taskDuration > timeline.longestWindow && start.getTime() === window.start.getTime();
+
+          if (fits || oversized) {
+            scheduledStart = start;
+            break;
+          }
+        }
+      }
+
+      if (!scheduledStart) {
+        this.moveToNextDay(timeline);
+      }
+    }
+
+    if (scheduledStart) {
+      segments.push({ start: scheduledStart, end: addMinutes(scheduledStart, taskDuration) });
+      timeline.currentTime = segments[0].end;
+      timeline.currentDayCapacity -= taskDuration;
+    }
+    return segments;
+  }
+
+  // Longest single working interval in the calendar's week, in minutes
+  private getLongestWorkingInterval(calendar: PlanningCalendar): number {
+    const toMinutes = (time: string) => {
+      const [hours, minutes] = time.split(':').map(Number);
+      return hours * 60 + minutes;
     };
 
-    for (const node of graph.keys()) {
-      dfs(node);
+    return Math.max(0, ...Object.values(calendar.weeklyHours).flat().map(interval =>
+      toMinutes(interval.end) - toMinutes(interval.start)
+    ));
+  }
+
+  private getWorkingWindows(day: string, calendar: PlanningCalendar): Array<{ start: Date; end: Date }> {
+    if (calendar.holidays.has(day)) {
+      return [];
     }
 
-    // Sort by priority, due date, and duration
-    return sorted.sort((a, b) => {
-      // Overdue first
-      const now = new Date();
-      const aOverdue = a.dueAt && isBefore(a.dueAt, now);
-      const bOverdue = b.dueAt && isBefore(b.dueAt, now);
-      
-      if (aOverdue && !bOverdue) return -1;
-      if (!aOverdue && bOverdue) return 1;
-      
-      // Then by due date
-      if (a.dueAt && b.dueAt) {
-        const dueCompare = a.dueAt.getTime() - b.dueAt.getTime();
-        if (dueCompare !== 0) return dueCompare;
-      } else if (a.dueAt) return -1;
-      else if (b.dueAt) return 1;
-      
-      // Then by priority
-      const priorityOrder = { High: 3, Medium: 2, Low: 1 };
-      const priorityCompare = priorityOrder[b.priority] - priorityOrder[a.priority];
-      if (priorityCompare !== 0) return priorityCompare;
-      
-      // Then by duration (shorter first)
-      const durationCompare = a.estimatedDurationMinutes - b.estimatedDurationMinutes;
-      if (durationCompare !== 0) return durationCompare;
-      
-      // Finally by creation date
-      return a.createdAt.getTime() - b.createdAt.getTime();
-    });
+    const weekday = parseISO(day).getDay();
+    let windows = (calendar.weeklyHours[weekday] || [])
+      .map(interval => ({
+        start: this.zonedWallTime(day, interval.start, calendar.timezone),
+        end: this.zonedWallTime(day, interval.end, calendar.timezone),
+      }))
+      .filter(window => isBefore(window.start, window.end))
+      .sort((a, b) => a.start.getTime() - b.start.getTime());
+
+    // Carve blackout periods out of the working windows
+    for (const blackout of calendar.blackouts) {
+      windows = windows.flatMap(window => {
+        if (!isBefore(blackout.start, window.end) || !isAfter(blackout.end, window.start)) {
+          return [window];
+        }
+        const remaining: Array<{ start: Date; end: Date }> = [];
+        if (isBefore(window.start, blackout.start)) {
+          remaining.push({ start: window.start, end: blackout.start });
+        }
+        if (isAfter(window.end, blackout.end)) {
+          remaining.push({ start: blackout.end, end: window.end });
+        }
+        return remaining;
+      });
+    }
+
+    return windows;
   }
 
-  private roundToNextQuarterHour(date: Date): Date {
-    const minutes = date.getMinutes();
-    const roundedMinutes = Math.ceil(minutes / 15) * 15;
-    const result = new Date(date);
-    result.setMinutes(roundedMinutes, 0, 0);
-    return result;
+  // Resolves a wall-clock time on a calendar day in `timezone` to an instant.
+  // date-fns-tz applies the offset in force at that moment, so DST is honoured.
+  private zonedWallTime(day: string, time: string, timezone: string): Date {
+    const [hours, minutes] = time.split(':').map(Number);
+    const wallTime = `${day}T${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}:00`;
+    return zonedTimeToUtc(wallTime, timezone);
   }
 
-  private getWorkingStart(day: Date, workingHours: { start: string; end: string; timezone?: string }): Date {
-    const [hours, minutes] = workingHours.start.split(':').map(Number);
-    const result = new Date(day);
-    result.setHours(hours, minutes, 0, 0);
-    return result;
+  // Calendar day (yyyy-MM-dd) of an instant as seen in `timezone`
+  private getZonedDay(date: Date, timezone: string): string {
+    return formatInTimeZone(date, timezone, 'yyyy-MM-dd');
   }
 
-  private getWorkingEnd(day: Date, workingHours: { start: string; end: string; timezone?: string }): Date {
-    const [hours, minutes] = workingHours.end.split(':').map(Number);
-    const result = new Date(day);
-    result.setHours(hours, minutes, 0, 0);
-    return result;
+  private addZonedDays(day: string, amount: number): string {
+    return format(addDays(parseISO(day), amount), 'yyyy-MM-dd');
+  }
+
+  private formatZoned(date: Date, timezone: string): string {
+    return formatInTimeZone(date, timezone, "yyyy-MM-dd'T'HH:mm:ssXXX");
   }
 
   async getTaskAnalytics(targetDate: Date, daysToLookBack: number = 1) {
@@ -1044,12 +3110,12 @@ export class TaskService {
 
     // Get tasks created in the target period
     const addedTasks = await prisma.task.findMany({
-      where: {
+      where: this.owned({
         createdAt: {
           gte: startOfTargetDate,
           lt: endOfTargetDate,
         },
-      },
+      }),
       include: {
         children: true,
         parent: true,
@@ -1076,13 +3142,13 @@ export class TaskService {
 
     // Get tasks completed in the target period
     const completedTasks = await prisma.task.findMany({
-      where: {
+      where: this.owned({
         status: 'Completed',
         updatedAt: {
           gte: startOfTargetDate,
           lt: endOfTargetDate,
         },
-      },
+      }),
       include: {
         children: true,
         parent: true,
@@ -1109,14 +3175,14 @@ export class TaskService {
 
     // Get overdue tasks as of the target date
     const overdueTasks = await prisma.task.findMany({
-      where: {
+      where: this.owned({
         status: {
           not: 'Completed',
         },
         dueAt: {
           lt: startOfTargetDate,
         },
-      },
+      }),
       include: {
         children: true,
         parent: true,
@@ -1149,6 +3215,7 @@ export class TaskService {
           gte: startOfTargetDate,
           lt: endOfTargetDate,
         },
+        task: this.owned({}),
       },
       include: {
         task: {
@@ -1211,21 +3278,21 @@ export class TaskService {
     cycles?: string[];
   }> {
     const {
-      weights = { U: 0.45, P: 0.35, B: 0.15, Q: 0.05 },
-      horizonHours = 7 * 24,
-      overdueBoost = 0.20,
-      quickWinCapMins = 30,
+      weights = DEFAULT_ORDER_WEIGHTS,
+      horizonHours = DEFAULT_HORIZON_HOURS,
+      overdueBoost = DEFAULT_OVERDUE_BOOST,
+      quickWinCapMins = DEFAULT_QUICK_WIN_CAP_MINS,
     } = config;
 
     const now = new Date();
 
     // Get all non-completed tasks for ordering algorithm
     const tasks = await prisma.task.findMany({
-      where: {
+      where: this.owned({
         status: {
           notIn: ['Completed']
         }
-      },
+      }),
       orderBy: [
         { priority: 'desc' },
         { dueAt: 'asc' },
@@ -1553,42 +3620,61 @@ export class TaskService {
   }
 
   // Recurring task methods
-  private calculateNextRecurrenceDate(pattern: RecurrencePattern, currentDate: Date): Date {
-    const { type, interval } = pattern;
-    let nextDate = new Date(currentDate);
+  async previewRecurrence(pattern: RecurrencePattern, count = 5, after?: Date): Promise<RecurrencePreview> {
+    const normalized = this.normalizeRecurrencePattern(pattern);
+    const rule = resolveRecurrenceRule(normalized);
+    const from = after ?? new Date(new Date(normalized.startDate).getTime() - 1);
 
-    switch (type) {
-      case RecurrenceType.Daily:
-        nextDate = addDays(currentDate, interval);
-        break;
-      case RecurrenceType.Weekly:
-        nextDate = addWeeks(currentDate, interval);
-        break;
-      case RecurrenceType.Monthly:
-        nextDate = addMonths(currentDate, interval);
-        break;
-      case RecurrenceType.Yearly:
-        nextDate = addYears(currentDate, interval);
-        break;
-      case RecurrenceType.Custom:
-        // For custom patterns, we'll use a simple daily interval for now
-        nextDate = addDays(currentDate, interval);
-        break;
-    }
-
-    return nextDate;
-  }
-
-  private calculateNextValidRecurrenceDate(pattern: RecurrencePattern, fromDate: Date): Date {
+    return {
+      rrule: normalized.rrule!,
+      occurrences: listOccurrences(rule, from, count),
+    };
+  }
+
+  // Every stored pattern carries its RRULE; the structured fields are converted when no
+  // rule is given, and a DTSTART line or UNTIL is reflected back into startDate/endDate.
+  private normalizeRecurrencePattern(pattern: RecurrencePattern): RecurrencePattern {
+    const set = parseRecurrenceRule(pattern.rrule || patternToRRule(pattern));
+
+    if (pattern.rrule && pattern.endDate && !set.rule.until && set.rule.count === undefined) {
+      set.rule.until = new Date(pattern.endDate);
+    }
+
+    return {
+      ...pattern,
+      type: pattern.rrule ? recurrenceTypeForRule(pattern.rrule) : pattern.type,
+      startDate: set.dtstart ?? new Date(pattern.startDate),
+      endDate: set.rule.until,
+      rrule: formatRecurrenceRule(set),
+    };
+  }
+
+  // First occurrence after the given date, or null once the series has ended
+  private calculateNextRecurrenceDate(pattern: RecurrencePattern, currentDate: Date): Date | null {
+    return nextOccurrence(resolveRecurrenceRule(pattern), currentDate);
+  }
+
+  private calculateNextValidRecurrenceDate(pattern: RecurrencePattern, fromDate: Date): Date | null {
     const today = startOfDay(new Date());
-    let nextDate = this.calculateNextRecurrenceDate(pattern, fromDate);
 
-    // If the next recurrence would be overdue, keep calculating until we find a valid date
-    while (isBefore(nextDate, today)) {
-      nextDate = this.calculateNextRecurrenceDate(pattern, nextDate);
+    // If the next recurrence would be overdue, skip ahead to the first one from today
+    const after = isBefore(fromDate, today) ? new Date(today.getTime() - 1) : fromDate;
+    return this.calculateNextRecurrenceDate(pattern, after);
+  }
+
+  // The rule restarted at the completion time, e.g. FREQ=DAILY;INTERVAL=5 is five days after it was done.
+  // UNTIL still ends the series; COUNT caps the number of occurrences created so far.
+  private calculateNextCompletionRelativeDate(pattern: RecurrencePattern, completedAt: Date, occurrences: number): Date | null {
+    const set = resolveRecurrenceRule(pattern);
+
+    if (set.rule.count !== undefined && occurrences >= set.rule.count) {
+      return null;
     }
 
-    return nextDate;
+    return nextOccurrence(
+      { dtstart: completedAt, rule: { ...set.rule, count: undefined }, exdates: [], exdays: [] },
+      completedAt
+    );
   }
 
   private async createNextRecurrence(task: TaskWithRelations): Promise<TaskWithRelations | null> {
@@ -1597,42 +3683,570 @@ export class TaskService {
     }
 
     try {
-      const pattern: RecurrencePattern = JSON.parse(task.recurrencePattern);
-      
-      // Convert endDate from string to Date if it exists
-      if (pattern.endDate && typeof pattern.endDate === 'string') {
-        pattern.endDate = new Date(pattern.endDate);
+      const series = await this.ensureSeries(task);
+      if (!series) {
+        return null;
       }
-      
-      const nextDueDate = this.calculateNextValidRecurrenceDate(pattern, task.dueAt || new Date());
 
-      // Check if we've reached the end date
-      if (pattern.endDate) {
-        const endDate = typeof pattern.endDate === 'string' ? parseISO(pattern.endDate) : pattern.endDate;
-        if (isAfter(nextDueDate, endDate)) {
-          return null;
+      const pattern: RecurrencePattern = JSON.parse(series.recurrencePattern);
+      let nextDueDate: Date | null;
+
+      if (pattern.mode === 'afterCompletion') {
+        // Completing (or skipping) an occurrence twice must not start a second chain
+        const later = await prisma.task.findFirst({
+          where: { seriesId: series.id, id: { not: task.id }, createdAt: { gt: task.createdAt } },
+          orderBy: { createdAt: 'asc' },
+        });
+        if (later) {
+          return later as TaskWithRelations;
         }
+
+        const occurrences = await prisma.task.count({ where: { seriesId: series.id } });
+        nextDueDate = this.calculateNextCompletionRelativeDate(pattern, task.completedAt ?? new Date(), occurrences);
+      } else {
+        // Postponed occurrences still count from the slot they stand for
+        nextDueDate = this.calculateNextValidRecurrenceDate(pattern, task.occurrenceDate || task.dueAt || new Date());
       }
 
-      // Create the next occurrence
-      const nextTask = await this.createTask({
-        title: task.title,
-        description: task.description || undefined,
-        status: TaskStatus.Todo,
-        priority: task.priority,
-        dueAt: nextDueDate,
-        estimatedDurationMinutes: task.estimatedDurationMinutes,
-        allowParentAutoComplete: task.allowParentAutoComplete,
-        parentId: task.parentId || undefined,
-        isRecurring: true,
-        recurrencePattern: pattern,
-        originalTaskId: task.originalTaskId || task.id,
-      });
+      if (!nextDueDate) {
+        return null;
+      }
 
+      const { task: nextTask } = await this.createOccurrence(task, series, nextDueDate);
       return nextTask;
     } catch (error) {
       console.error('Error creating next recurrence:', error);
       return null;
     }
   }
+
+  // Creates the occurrence for one slot from the series template, cloning from the given
+  // previous occurrence. Each slot is created once, however often this runs.
+  private async createOccurrence(
+    previous: OccurrenceSource,
+    series: RecurrenceSeries,
+    slot: Date
+  ): Promise<{ task: TaskWithRelations; created: boolean }> {
+    const existing = await prisma.task.findFirst({
+      where: { seriesId: series.id, occurrenceDate: slot },
+    });
+    if (existing) {
+      return { task: existing as TaskWithRelations, created: false };
+    }
+
+    const nextTask = await this.createTask({
+      title: series.title,
+      description: series.description || undefined,
+      status: TaskStatus.Todo,
+      priority: series.priority as Priority,
+      dueAt: slot,
+      estimatedDurationMinutes: series.estimatedDurationMinutes,
+      allowParentAutoComplete: series.allowParentAutoComplete,
+      isSplittable: series.isSplittable,
+      minChunkMinutes: series.minChunkMinutes ?? undefined,
+      parentId: previous.parentId || undefined,
+      isRecurring: true,
+      recurrencePattern: JSON.parse(series.recurrencePattern),
+      originalTaskId: previous.originalTaskId || previous.id,
+      seriesId: series.id,
+      occurrenceDate: slot,
+      ownerId: previous.ownerId ?? undefined,
+      projectId: previous.projectId ?? undefined,
+    });
+
+    const previousSlot = previous.occurrenceDate || previous.dueAt;
+    const shiftMs = previousSlot ? slot.getTime() - previousSlot.getTime() : null;
+    await this.cloneOccurrence(previous.id, nextTask.id, series, shiftMs);
+
+    return { task: await this.getTask(nextTask.id), created: true };
+  }
+
+  // Creates the occurrences of every series due up to the horizon, so upcoming work shows on the
+  // board and in the planner before the previous occurrence is completed. Safe to re-run.
+  async materializeRecurrences(options: MaterializeOptions = {}): Promise<MaterializeResult> {
+    const now = options.now ?? new Date();
+    const horizonDays = options.horizonDays ?? parseInt(process.env.RECURRENCE_HORIZON_DAYS || '7', 10);
+    const missedPolicy = options.missedPolicy ?? parseMissedPolicy(process.env.RECURRENCE_MISSED_POLICY);
+    const horizonEnd = addDays(now, horizonDays);
+
+    const result: MaterializeResult = { horizonEnd, seriesChecked: 0, created: [], missedSkipped: 0 };
+
+    const seriesList = await prisma.recurrenceSeries.findMany({
+      // A series whose occurrences are all in the trash rests until one is restored
+      where: { tasks: { some: { isRecurring: true, deletedAt: null } } },
+    });
+
+    for (const series of seriesList) {
+      // Completion-relative series only know their next date once the current one is done
+      const pattern: RecurrencePattern = JSON.parse(series.recurrencePattern);
+      if (pattern.mode === 'afterCompletion') {
+        continue;
+      }
+      result.seriesChecked++;
+
+      // The latest occurrence is where the series continues from
+      const newestFirst: Prisma.TaskOrderByWithRelationInput[] = [
+        { occurrenceDate: { sort: 'desc', nulls: 'last' } },
+        { createdAt: 'desc' },
+      ];
+      const latest = await prisma.task.findFirst({ where: { seriesId: series.id }, orderBy: newestFirst });
+      const latestSlot = latest?.occurrenceDate ?? latest?.dueAt;
+      if (!latest || !latestSlot) {
+        continue;
+      }
+
+      // Starts from the latest occurrence's nextRecurrenceDate, re-evaluated against the series rule
+      // so that skipped and detached slots stay excluded
+      const rule = resolveRecurrenceRule(pattern);
+      const slots: Date[] = [];
+      let slot = nextOccurrence(rule, latestSlot);
+      while (slot && !isAfter(slot, horizonEnd) && slots.length < MAX_MATERIALIZED_PER_SERIES) {
+        slots.push(slot);
+        slot = nextOccurrence(rule, slot);
+      }
+
+      const missed = slots.filter(s => isBefore(s, now));
+      const upcoming = slots.filter(s => !isBefore(s, now));
+      const toCreate = missedPolicy === 'all'
+        ? slots
+        : [...(missedPolicy === 'catchUp' ? missed.slice(-1) : []), ...upcoming];
+      result.missedSkipped += slots.length - toCreate.length;
+
+      // Each new occurrence is cloned from the one before it, skipping trashed ones so their
+      // subtasks stay in the trash; the latest slot above still counts them so none is reused
+      let previous: OccurrenceSource | null = latest.deletedAt
+        ? await prisma.task.findFirst({ where: { seriesId: series.id, deletedAt: null }, orderBy: newestFirst })
+        : latest;
+      if (!previous) {
+        continue;
+      }
+      for (const occurrenceDate of toCreate) {
+        try {
+          const { task, created } = await this.createOccurrence(previous, series, occurrenceDate);
+          if (created) {
+            result.created.push(task);
+          }
+          previous = task;
+        } catch (error) {
+          // Another process may have created the slot first; the next run picks up the rest
+          console.error(`Error materializing series ${series.id}:`, error);
+          break;
+        }
+      }
+    }
+
+    return result;
+  }
+
+  // Copies labels, the child subtree and dependency links of one occurrence onto the next,
+  // as far as the series' clone settings allow. shiftMs moves subtask due dates along with the slot.
+  private async cloneOccurrence(
+    sourceId: string,
+    targetId: string,
+    settings: { cloneLabels: boolean; cloneSubtasks: boolean; cloneDependencies: DependencyCloneMode | string },
+    shiftMs: number | null
+  ): Promise<void> {
+    const copies = new Map<string, string>([[sourceId, targetId]]);
+
+    if (settings.cloneSubtasks) {
+      let parentIds = [sourceId];
+      while (parentIds.length > 0) {
+        // Recurring subtasks are carried forward by their own series
+        const children = await prisma.task.findMany({
+          where: { parentId: { in: parentIds }, isRecurring: false, deletedAt: null },
+          orderBy: { createdAt: 'asc' },
+        });
+
+        for (const child of children) {
+          const clone = await prisma.task.create({
+            data: {
+              title: child.title,
+              description: child.description,
+              status: TaskStatus.Todo,
+              priority: child.priority,
+              dueAt: child.dueAt && shiftMs !== null ? new Date(child.dueAt.getTime() + shiftMs) : null,
+              estimatedDurationMinutes: child.estimatedDurationMinutes,
+              allowParentAutoComplete: child.allowParentAutoComplete,
+              isSplittable: child.isSplittable,
+              minChunkMinutes: child.minChunkMinutes,
+              parentId: copies.get(child.parentId!),
+              ownerId: child.ownerId,
+              projectId: child.projectId,
+            },
+          });
+          copies.set(child.id, clone.id);
+        }
+
+        parentIds = children.map(child => child.id);
+      }
+    }
+
+    // Whoever does a series' work keeps doing it
+    const assignees = await prisma.taskAssignee.findMany({
+      where: { taskId: { in: Array.from(copies.keys()) } },
+    });
+    if (assignees.length > 0) {
+      await prisma.taskAssignee.createMany({
+        data: assignees.map(a => ({ taskId: copies.get(a.taskId) as string, userId: a.userId })),
+        skipDuplicates: true,
+      });
+    }
+
+    if (settings.cloneLabels) {
+      const taskLabels = await prisma.taskLabel.findMany({
+        where: { taskId: { in: Array.from(copies.keys()) } },
+      });
+      if (taskLabels.length > 0) {
+        await prisma.taskLabel.createMany({
+          data: taskLabels.map(tl => ({ taskId: copies.get(tl.taskId)!, labelId: tl.labelId })),
+          skipDuplicates: true,
+        });
+      }
+    }
+
+    if (settings.cloneDependencies === DependencyCloneMode.None) {
+      return;
+    }
+
+    const links = await prisma.dependency.findMany({
+      where: { taskId: { in: Array.from(copies.keys()) } },
+      include: { blockerTask: true },
+    });
+
+    const clonedLinks: Array<{ taskId: string; dependsOnTaskId: string; type: DependencyType; lagMinutes: number }> = [];
+    for (const link of links) {
+      const taskId = copies.get(link.taskId)!;
+      let dependsOnTaskId = copies.get(link.dependsOnTaskId);
+
+      if (!dependsOnTaskId && settings.cloneDependencies === DependencyCloneMode.All) {
+        dependsOnTaskId = (await this.resolveClonedBlocker(link.blockerTask)) ?? undefined;
+      }
+
+      if (dependsOnTaskId && dependsOnTaskId !== taskId) {
+        clonedLinks.push({ taskId, dependsOnTaskId, type: link.type as DependencyType, lagMinutes: link.lagMinutes });
+      }
+    }
+
+    // The clones have no dependents outside the copy, so these links cannot close a cycle
+    if (clonedLinks.length > 0) {
+      await prisma.dependency.createMany({ data: clonedLinks, skipDuplicates: true });
+      await this.refreshBlockedStatus(clonedLinks.map(link => link.taskId));
+    }
+  }
+
+  // An outside blocker for the next occurrence: open blockers are kept, a closed occurrence of
+  // another series is replaced by that series' next open occurrence, other closed blockers are dropped
+  private async resolveClonedBlocker(blocker: { id: string; status: string; seriesId: string | null }): Promise<string | null> {
+    if (blocker.status !== 'Completed' && blocker.status !== 'Canceled') {
+      return blocker.id;
+    }
+
+    if (!blocker.seriesId) {
+      return null;
+    }
+
+    const next = await prisma.task.findFirst({
+      where: { seriesId: blocker.seriesId, status: { notIn: ['Completed', 'Canceled'] }, deletedAt: null },
+      orderBy: [{ occurrenceDate: 'asc' }, { createdAt: 'asc' }],
+    });
+    return next?.id ?? null;
+  }
+
+  private async createSeries(
+    template: {
+      title: string;
+      description?: string | null;
+      priority?: Priority | string | null;
+      estimatedDurationMinutes?: number | null;
+      allowParentAutoComplete?: boolean | null;
+      isSplittable?: boolean | null;
+      minChunkMinutes?: number | null;
+    },
+    pattern: RecurrencePattern
+  ) {
+    return prisma.recurrenceSeries.create({
+      data: {
+        title: template.title,
+        description: template.description ?? null,
+        priority: (template.priority as Priority) ?? Priority.Medium,
+        estimatedDurationMinutes: template.estimatedDurationMinutes ?? 30,
+        allowParentAutoComplete: template.allowParentAutoComplete ?? false,
+        isSplittable: template.isSplittable ?? false,
+        minChunkMinutes: template.minChunkMinutes ?? null,
+        recurrencePattern: JSON.stringify(pattern),
+      },
+    });
+  }
+
+  // Recurring tasks saved without a series (e.g. made recurring by an update) get one on first use
+  private async ensureSeries(task: {
+    id: string;
+    title: string;
+    isRecurring: boolean;
+    recurrencePattern?: string | null;
+    seriesId?: string | null;
+    occurrenceDate?: Date | null;
+    dueAt?: Date | null;
+  }) {
+    if (task.seriesId) {
+      const series = await prisma.recurrenceSeries.findUnique({ where: { id: task.seriesId } });
+      if (series) {
+        return series;
+      }
+    }
+
+    if (!task.isRecurring || !task.recurrencePattern) {
+      return null;
+    }
+
+    const series = await this.createSeries(task, this.normalizeRecurrencePattern(JSON.parse(task.recurrencePattern)));
+    await prisma.task.update({
+      where: { id: task.id },
+      data: { seriesId: series.id, occurrenceDate: task.occurrenceDate ?? task.dueAt ?? null },
+    });
+    return series;
+  }
+
+  // Same rule and start, however the pattern was written
+  private isSamePattern(pattern: RecurrencePattern, stored?: string | null): boolean {
+    if (!stored) {
+      return false;
+    }
+    const current = this.normalizeRecurrencePattern(JSON.parse(stored));
+    return current.rrule === pattern.rrule &&
+      new Date(current.startDate).getTime() === new Date(pattern.startDate).getTime();
+  }
+
+  // Carries an edit with scope=future or scope=all to the series template and its other occurrences
+  private async applyToSeries(
+    task: { id: string; dueAt: Date | null; occurrenceDate: Date | null },
+    series: { id: string; recurrencePattern: string },
+    input: UpdateTaskInput,
+    scope: Exclude<SeriesScope, 'this'>
+  ): Promise<void> {
+    const template: Record<string, unknown> = {};
+    for (const field of SERIES_FIELDS) {
+      if (input[field] !== undefined) {
+        template[field] = input[field];
+      }
+    }
+
+    // Stopping the recurrence ends the rule before this occurrence, keeping the history
+    const stopping = input.isRecurring === false || input.recurrencePattern === null;
+    let pattern: RecurrencePattern | null = null;
+
+    if (stopping) {
+      const current: RecurrencePattern = JSON.parse(series.recurrencePattern);
+      const rule = resolveRecurrenceRule(current);
+      const slot = task.occurrenceDate ?? task.dueAt ?? new Date();
+      rule.rule.count = undefined;
+      rule.rule.until = new Date(slot.getTime() - 1);
+      pattern = { ...current, endDate: rule.rule.until, rrule: formatRecurrenceRule(rule) };
+    } else if (input.recurrencePattern) {
+      pattern = this.normalizeRecurrencePattern(input.recurrencePattern);
+    }
+
+    await prisma.recurrenceSeries.update({
+      where: { id: series.id },
+      data: {
+        ...template,
+        ...(pattern ? { recurrencePattern: JSON.stringify(pattern) } : {}),
+      },
+    });
+
+    const slot = task.occurrenceDate ?? task.dueAt;
+    const siblings = await prisma.task.findMany({
+      where: {
+        seriesId: series.id,
+        id: { not: task.id },
+        ...(scope === 'future'
+          ? {
+            status: { notIn: ['Completed', 'Canceled'] },
+            ...(slot ? { OR: [{ occurrenceDate: null }, { occurrenceDate: { gte: slot } }] } : {}),
+          }
+          : {}),
+      },
+    });
+
+    for (const sibling of siblings) {
+      const data: Prisma.TaskUpdateInput = { ...template };
+      if (stopping) {
+        data.isRecurring = false;
+        data.recurrencePattern = null;
+        data.nextRecurrenceDate = null;
+      } else if (pattern) {
+        data.recurrencePattern = JSON.stringify(pattern);
+        data.nextRecurrenceDate = this.calculateNextRecurrenceDate(pattern, sibling.occurrenceDate || sibling.dueAt || new Date());
+      }
+
+      if (Object.keys(data).length === 0) {
+        continue;
+      }
+
+      await prisma.task.update({
+        where: { id: sibling.id },
+        data,
+      });
+
+      await this.recordAudit(sibling.id, diffTaskFields(sibling, data as { [F in AuditedField]?: unknown }));
+    }
+  }
+
+  // An EXDATE keeps a skipped or detached slot from being created again
+  private async excludeSlot(series: { id: string; recurrencePattern: string }, slot: Date): Promise<void> {
+    const pattern: RecurrencePattern = JSON.parse(series.recurrencePattern);
+    const rule = resolveRecurrenceRule(pattern);
+    rule.exdates.push(slot);
+    await prisma.recurrenceSeries.update({
+      where: { id: series.id },
+      data: { recurrencePattern: JSON.stringify({ ...pattern, rrule: formatRecurrenceRule(rule) }) },
+    });
+  }
+
+  // An open occurrence of a recurring series, for skipping or postponing
+  private async getOpenOccurrence(id: string) {
+    const task = await prisma.task.findUnique({ where: this.owned({ id }) });
+
+    if (!task) {
+      throw new ValidationError('Task not found');
+    }
+
+    const series = await this.ensureSeries(task);
+    if (!series) {
+      throw new BusinessRuleError('Task is not part of a recurring series', 'NOT_RECURRING');
+    }
+
+    if (task.status === 'Completed' || task.status === 'Canceled') {
+      throw new BusinessRuleError('Only open occurrences can be skipped or postponed', 'OCCURRENCE_CLOSED');
+    }
+
+    return { task, series };
+  }
+
+  // Cancels one occurrence and moves the series on to its next slot
+  async skipOccurrence(id: string): Promise<SkipOccurrenceResult> {
+    const { task, series } = await this.getOpenOccurrence(id);
+    const slot = task.occurrenceDate ?? task.dueAt;
+
+    if (slot) {
+      await this.excludeSlot(series, slot);
+    }
+
+    await prisma.$transaction(async tx => {
+      await tx.task.update({
+        where: { id },
+        data: { status: 'Canceled', autoBlocked: false, seriesId: series.id, occurrenceDate: slot },
+      });
+      await tx.taskAudit.create({
+        data: { taskId: id, fieldName: 'status', oldValue: task.status, newValue: 'Canceled' },
+      });
+    });
+
+    await this.refreshDependentsBlockedStatus([id]);
+
+    const next = await this.createNextRecurrence({ ...task, seriesId: series.id, occurrenceDate: slot } as TaskWithRelations);
+    const skipped = await this.getTask(id);
+
+    return { skipped, next };
+  }
+
+  // Moves one occurrence later without shifting the rest of the series
+  async postponeOccurrence(id: string, dueAt: Date): Promise<TaskWithRelations> {
+    const { task, series } = await this.getOpenOccurrence(id);
+
+    if (task.dueAt && !isAfter(dueAt, task.dueAt)) {
+      throw new BusinessRuleError('An occurrence can only be postponed to a later date', 'INVALID_POSTPONE');
+    }
+
+    await prisma.task.update({
+      where: { id },
+      data: {
+        dueAt,
+        seriesId: series.id,
+        occurrenceDate: task.occurrenceDate ?? task.dueAt,
+      },
+    });
+    await this.recordAudit(id, diffTaskFields(task, { dueAt }));
+
+    return this.getTask(id);
+  }
+
+  async updateSeriesSettings(id: string, settings: SeriesCloneSettings): Promise<RecurrenceSeriesWithPattern> {
+    const task = await prisma.task.findUnique({ where: this.owned({ id }) });
+
+    if (!task) {
+      throw new ValidationError('Task not found');
+    }
+
+    const series = await this.ensureSeries(task);
+    if (!series) {
+      throw new BusinessRuleError('Task is not part of a recurring series', 'NOT_RECURRING');
+    }
+
+    const updated = await prisma.recurrenceSeries.update({
+      where: { id: series.id },
+      data: settings,
+    });
+
+    return {
+      ...updated,
+      priority: updated.priority as Priority,
+      cloneDependencies: updated.cloneDependencies as DependencyCloneMode,
+      recurrencePattern: JSON.parse(updated.recurrencePattern),
+    };
+  }
+
+  async getSeries(id: string, upcoming = 5): Promise<RecurrenceSeriesDetails> {
+    const task = await prisma.task.findUnique({ where: this.owned({ id }) });
+
+    if (!task) {
+      throw new ValidationError('Task not found');
+    }
+
+    const series = await this.ensureSeries(task);
+    if (!series) {
+      throw new BusinessRuleError('Task is not part of a recurring series', 'NOT_RECURRING');
+    }
+
+    const tasks = await prisma.task.findMany({
+      where: { seriesId: series.id },
+      include: {
+        taskLabels: {
+          include: {
+            label: true,
+          },
+        },
+      },
+      orderBy: [{ occurrenceDate: 'asc' }, { createdAt: 'asc' }],
+    });
+
+    const isClosed = (t: { status: string }) => t.status === 'Completed' || t.status === 'Canceled';
+    const pattern: RecurrencePattern = JSON.parse(series.recurrencePattern);
+
+    // Project past the latest slot created so far, and never into the past
+    const latestSlot = tasks.reduce<number>(
+      (latest, t) => Math.max(latest, (t.occurrenceDate ?? t.dueAt)?.getTime() ?? 0),
+      Date.now()
+    );
+    // Completion-relative dates aren't known ahead, so nothing is projected for them
+    const projected = pattern.mode === 'afterCompletion'
+      ? []
+      : listOccurrences(resolveRecurrenceRule(pattern), new Date(latestSlot), upcoming);
+
+    return {
+      series: {
+        ...series,
+        priority: series.priority as Priority,
+        cloneDependencies: series.cloneDependencies as DependencyCloneMode,
+        recurrencePattern: pattern,
+      },
+      past: tasks.filter(isClosed) as TaskWithRelations[],
+      upcoming: [
+        ...tasks
+          .filter(t => !isClosed(t))
+          .map(t => ({ occurrenceDate: t.occurrenceDate ?? t.dueAt ?? t.createdAt, task: t as TaskWithRelations })),
+        ...projected.map(occurrenceDate => ({ occurrenceDate, task: null })),
+      ],
+    };
+  }
 }
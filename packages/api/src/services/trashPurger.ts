@@ -0,0 +1,23 @@
+import { TaskService } from './taskService';
+import { IntervalJob } from '../lib/intervalJob';
+import { PurgeTrashOptions, PurgeTrashResult } from '../types';
+
+export interface TrashPurgerOptions extends Omit<PurgeTrashOptions, 'now'> {
+  intervalMinutes?: number; // default: TRASH_PURGE_INTERVAL_MINUTES or 60
+}
+
+// Runs TaskService.purgeTrash on a timer inside the API process, removing tasks that have been
+// in the trash longer than the retention period.
+export class TrashPurger extends IntervalJob<PurgeTrashResult> {
+  constructor(private taskService: TaskService, private options: TrashPurgerOptions = {}) {
+    super('Trash purger', 'TRASH_PURGE_INTERVAL_MINUTES', options.intervalMinutes);
+  }
+
+  protected async run(): Promise<PurgeTrashResult> {
+    const result = await this.taskService.purgeTrash({ retentionDays: this.options.retentionDays });
+    if (result.purged > 0) {
+      console.log(`🗑️  Purged ${result.purged} task(s) deleted before ${result.cutoff.toISOString()}`);
+    }
+    return result;
+  }
+}
@@ -1,6 +1,10 @@
 import { beforeAll, afterAll, beforeEach } from 'vitest';
 import { connectDatabase, disconnectDatabase } from '../lib/database';
 
+process.env.JWT_SECRET ??= 'test-jwt-secret';
+// The suites share one IP and one app, so the default budget runs out partway through
+process.env.RATE_LIMIT_MAX_REQUESTS ??= '10000';
+
 beforeAll(async () => {
   await connectDatabase();
 });
@@ -13,6 +13,25 @@ export enum Priority {
   High = 'High'
 }
 
+export enum DependencyType {
+  FinishToStart = 'FinishToStart',
+  StartToStart = 'StartToStart',
+  FinishToFinish = 'FinishToFinish',
+  StartToFinish = 'StartToFinish'
+}
+
+export enum DependencyCloneMode {
+  None = 'None',
+  Subtree = 'Subtree',
+  All = 'All'
+}
+
+export enum ProjectRole {
+  Owner = 'Owner',
+  Editor = 'Editor',
+  Viewer = 'Viewer'
+}
+
 export enum RecurrenceType {
   Daily = 'Daily',
   Weekly = 'Weekly',
@@ -31,9 +50,14 @@ interface Task {
   dueAt?: Date | null;
   estimatedDurationMinutes: number;
   allowParentAutoComplete: boolean;
+  isSplittable: boolean;
+  minChunkMinutes?: number | null;
+  isPinned: boolean;
+  autoBlocked: boolean;
   parentId?: string | null;
   scheduledStart?: Date | null;
   scheduledEnd?: Date | null;
+  completedAt?: Date | null;
   createdAt: Date;
   updatedAt: Date;
   // Recurring task fields
@@ -41,12 +65,39 @@ interface Task {
   recurrencePattern?: string | null;
   nextRecurrenceDate?: Date | null;
   originalTaskId?: string | null;
+  seriesId?: string | null;
+  occurrenceDate?: Date | null;
+  ownerId?: string | null;
+  projectId?: string | null;
+  // Trash
+  deletedAt?: Date | null;
+  trashRootId?: string | null;
+  trashedLinks?: string | null;
+}
+
+interface RecurrenceSeries {
+  id: string;
+  title: string;
+  description?: string | null;
+  priority: Priority;
+  estimatedDurationMinutes: number;
+  allowParentAutoComplete: boolean;
+  isSplittable: boolean;
+  minChunkMinutes?: number | null;
+  recurrencePattern: string;
+  cloneLabels: boolean;
+  cloneSubtasks: boolean;
+  cloneDependencies: DependencyCloneMode;
+  createdAt: Date;
+  updatedAt: Date;
 }
 
 interface Dependency {
   id: string;
   taskId: string;
   dependsOnTaskId: string;
+  type: DependencyType;
+  lagMinutes: number;
   createdAt: Date;
 }
 
@@ -55,6 +106,8 @@ interface Label {
   name: string;
   colour: string;
   description?: string | null;
+  ownerId?: string | null;
+  projectId?: string | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -66,6 +119,54 @@ interface TaskLabel {
   createdAt: Date;
 }
 
+interface TaskAssignee {
+  id: string;
+  taskId: string;
+  userId: string;
+  createdAt: Date;
+}
+
+interface TaskAudit {
+  id: string;
+  taskId: string;
+  fieldName: string;
+  oldValue: string | null;
+  newValue: string | null;
+  changedAt: Date;
+}
+
+interface TaskComment {
+  id: string;
+  taskId: string;
+  parentId: string | null;
+  authorId: string | null;
+  body: string;
+  editedAt: Date | null;
+  deletedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface TaskTemplate {
+  id: string;
+  name: string;
+  description: string | null;
+  tasks: string;
+  ownerId: string | null;
+  projectId: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface ScheduleSegment {
+  id: string;
+  taskId: string;
+  sequence: number;
+  start: Date;
+  end: Date;
+  createdAt: Date;
+}
+
 // Base types
 export type TaskWithRelations = Task & {
   children?: TaskWithRelations[];
@@ -73,6 +174,8 @@ export type TaskWithRelations = Task & {
   dependencies?: DependencyWithTask[];
   blockingTasks?: DependencyWithTask[];
   taskLabels?: TaskLabelWithLabel[];
+  assignees?: TaskAssigneeWithUser[];
+  scheduleSegments?: ScheduleSegment[];
 };
 
 export type DependencyWithTask = Dependency & {
@@ -84,6 +187,10 @@ export type TaskLabelWithLabel = TaskLabel & {
   label: Label;
 };
 
+export type TaskAssigneeWithUser = TaskAssignee & {
+  user: AuthUser;
+};
+
 export type LabelWithTaskCount = Label & {
   _count: {
     taskLabels: number;
@@ -99,6 +206,17 @@ export interface RecurrencePattern {
   daysOfWeek?: number[]; // For weekly: 0=Sunday, 1=Monday, etc.
   dayOfMonth?: number; // For monthly: 1-31
   customPattern?: string; // For custom patterns
+  rrule?: string; // RFC 5545 RRULE (and EXDATE lines); takes precedence over the fields above
+  mode?: RecurrenceMode; // default: fixed
+}
+
+// fixed: occurrences follow the rule from startDate
+// afterCompletion: the rule restarts from when the previous occurrence was completed
+export type RecurrenceMode = 'fixed' | 'afterCompletion';
+
+export interface RecurrencePreview {
+  rrule: string;
+  occurrences: Date[];
 }
 
 export interface CreateTaskInput {
@@ -109,12 +227,19 @@ export interface CreateTaskInput {
   dueAt?: Date;
   estimatedDurationMinutes?: number;
   allowParentAutoComplete?: boolean;
+  isSplittable?: boolean;
+  minChunkMinutes?: number;
   parentId?: string;
   labelIds?: string[];
+  assigneeIds?: string[];
   // Recurring task fields
   isRecurring?: boolean;
   recurrencePattern?: RecurrencePattern;
   originalTaskId?: string;
+  seriesId?: string;       // set when creating an occurrence of an existing series
+  occurrenceDate?: Date;   // defaults to dueAt for recurring tasks
+  ownerId?: string;        // set when a background job creates a task on a user's behalf
+  projectId?: string;      // likewise for a task in a project
 }
 
 export interface UpdateTaskInput {
@@ -125,13 +250,27 @@ export interface UpdateTaskInput {
   dueAt?: Date | null;
   estimatedDurationMinutes?: number;
   allowParentAutoComplete?: boolean;
+  isSplittable?: boolean;
+  minChunkMinutes?: number | null;
   parentId?: string | null;
   labelIds?: string[];
+  assigneeIds?: string[];
   // Recurring task fields
   isRecurring?: boolean;
   recurrencePattern?: RecurrencePattern | null;
 }
 
+// How the dependant is tied to its blocker, e.g. StartToStart with 30 minutes lag:
+// the dependant may start 30 minutes after the blocker starts. Negative lag is a lead.
+export interface DependencyOptions {
+  type?: DependencyType; // default: FinishToStart
+  lagMinutes?: number;   // default: 0
+}
+
+export interface DependencyInput extends DependencyOptions {
+  dependsOnTaskId: string;
+}
+
 export interface CreateLabelInput {
   name: string;
   colour?: string;
@@ -155,19 +294,132 @@ export interface TaskFilter {
   dateRange?: 'today' | 'overdue' | 'thisWeek' | 'thisMonth' | 'custom';
   startDate?: string;
   endDate?: string;
+  projectId?: string; // a project's tasks, for its members
+  assigneeId?: string;
+}
+
+// Filter and page for a task's audit history, newest first
+export interface TaskHistoryFilter {
+  fieldName?: string;
+  page?: number;
+  limit?: number;
+}
+
+export interface TaskHistoryPage {
+  entries: TaskAudit[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
+// Exactly one of auditId and at; an audit entry reverts to the version it produced
+export interface RevertTaskInput {
+  auditId?: string;
+  at?: Date;
+  fields?: string[];
+  dryRun?: boolean;
+}
+
+export interface RevertChange {
+  fieldName: string;
+  currentValue: string | null;
+  revertedValue: string | null;
+}
+
+// Part of a revert that can't be applied any more, e.g. a label deleted since
+export interface RevertSkip {
+  fieldName: string;
+  code: string;
+  message: string;
+  ids?: string[]; // the labels, assignees, parent or blockers left out
+}
+
+export interface RevertResult {
+  at: Date;
+  dryRun: boolean;
+  changes: RevertChange[];
+  skipped: RevertSkip[];
+  task?: TaskWithRelations;
 }
 
 export interface WorkingHours {
   start: string; // HH:mm format
   end: string;   // HH:mm format
+  timezone?: string; // IANA zone, e.g. Europe/London (default: UTC)
+}
+
+export interface WorkingInterval {
+  start: string; // HH:mm format
+  end: string;   // HH:mm format
+}
+
+// Keyed by weekday: 0=Sunday, 1=Monday, etc. Missing or empty days are non-working.
+export type WeeklyHours = { [weekday: number]: WorkingInterval[] };
+
+export interface CalendarHolidayInput {
+  name: string;
+  date: string; // yyyy-MM-dd in the calendar's timezone
+}
+
+export interface CalendarBlackoutInput {
+  name?: string;
+  start: Date;
+  end: Date;
+}
+
+export interface CreateWorkCalendarInput {
+  name: string;
   timezone?: string;
+  weeklyHours: WeeklyHours;
+  holidays?: CalendarHolidayInput[];
+  blackouts?: CalendarBlackoutInput[];
 }
 
+export interface UpdateWorkCalendarInput {
+  name?: string;
+  timezone?: string;
+  weeklyHours?: WeeklyHours;
+  holidays?: CalendarHolidayInput[];
+  blackouts?: CalendarBlackoutInput[];
+}
+
+export interface PinTaskInput {
+  start: Date;
+  end: Date;
+}
+
+export interface CreateBusyBlockInput {
+  title: string;
+  description?: string;
+  start: Date;
+  end: Date;
+}
+
+export interface UpdateBusyBlockInput {
+  title?: string;
+  description?: string | null;
+  start?: Date;
+  end?: Date;
+}
+
+// Order in which ready tasks are placed; every strategy still places blockers first.
+// 'score' uses the same weighted score as orderTasks.
+export type ScheduleStrategy = 'earliest-deadline-first' | 'priority-first' | 'score';
+
+// 'sequential' plans all tasks on one timeline, as if one person did all the work.
+// 'byAssignee' gives each assignee their own timeline, availability and capacity.
+export type ScheduleMode = 'sequential' | 'byAssignee';
+
 export interface ScheduleOptions {
   filter?: Partial<TaskFilter>;
   workingHours?: WorkingHours;
+  calendarId?: string; // overrides workingHours with a persisted work calendar
   startDate?: Date;
   dailyCapacity?: number; // in minutes
+  minChunkMinutes?: number; // smallest segment of a splittable task, unless the task sets its own
+  strategy?: ScheduleStrategy; // default: earliest-deadline-first
+  mode?: ScheduleMode; // default: sequential
   commit?: boolean;
 }
 
@@ -175,6 +427,13 @@ export interface ScheduledTask {
   taskId: string;
   scheduledStart: Date;
   scheduledEnd: Date;
+  timezone: string;
+  localStart: string; // ISO 8601 with the zone's offset
+  localEnd: string;   // ISO 8601 with the zone's offset
+  segmentIndex: number; // 1-based; splittable tasks may span several segments
+  segmentCount: number;
+  pinned: boolean; // fixed slot the planner did not move
+  assigneeIds?: string[]; // byAssignee mode: whose timeline the segment is on (all assignees of a pinned task)
   constraints: {
     blockers: string[];
     dueViolation: boolean;
@@ -182,19 +441,183 @@ export interface ScheduledTask {
   };
 }
 
+// One person's share of a byAssignee plan; userId is null for unassigned tasks
+export interface AssigneeTimeline {
+  userId: string | null;
+  email?: string;
+  name?: string | null;
+  timezone: string;
+  dailyCapacity: number;
+  plannedMinutes: number;
+  tasks: ScheduledTask[];
+}
+
 export interface SchedulePlan {
   tasks: ScheduledTask[];
+  assignees?: AssigneeTimeline[]; // byAssignee mode only
   summary: {
     totalPlannedMinutes: number;
     unplacedTasks: number;
     violations: number;
+    timezone: string;
+    strategy: ScheduleStrategy;
+    mode: ScheduleMode;
   };
 }
 
+// Offsets are minutes from the start of the analysed work, assuming unlimited parallelism
+export interface CriticalPathTask {
+  taskId: string;
+  title: string;
+  durationMinutes: number;
+  earliestStart: number;
+  earliestFinish: number;
+  latestStart: number;
+  latestFinish: number;
+  slack: number;
+  critical: boolean;
+}
+
+export interface CriticalPathAnalysis {
+  rootTaskId: string | null; // null for the global analysis
+  totalDurationMinutes: number;
+  criticalPath: string[]; // task ids, first to last
+  tasks: CriticalPathTask[];
+}
+
 export interface CompleteTaskOptions {
   mode?: 'normal' | 'forceParentAutoComplete';
 }
 
+// Which occurrences of a recurring task an edit applies to
+export type SeriesScope = 'this' | 'future' | 'all';
+
+export interface UpdateTaskOptions {
+  force?: boolean; // allow InProgress despite open blockers when auto-blocking is on
+  scope?: SeriesScope; // default: this
+}
+
+// What happens to a deleted task's children: trashed along with it, moved up to its parent,
+// or made top-level tasks
+export type ChildDeletePolicy = 'cascade' | 'reparent' | 'orphan';
+
+export interface DeleteTaskOptions {
+  children?: ChildDeletePolicy; // a task with children is refused without one
+}
+
+export interface DeleteTaskResult {
+  deletedTaskIds: string[]; // the task, and its descendants with cascade
+  movedTaskIds: string[]; // children reparented or orphaned
+  severedDependencies: Array<{ taskId: string; dependsOnTaskId: string; type: `${DependencyType}`; lagMinutes: number }>;
+}
+
+export interface CloneTaskInput {
+  title?: string; // for the copy of the task itself (default: the original's)
+  parentId?: string | null; // where the copy goes (default: beside the original)
+  shiftDays?: number; // moves every copied due date by this many days
+}
+
+export interface CloneTaskResult {
+  task: TaskWithRelations;
+  clonedTaskIds: Record<string, string>; // original task ID -> ID of its copy
+}
+
+export interface MoveTaskInput {
+  parentId: string | null; // null makes the task a top-level task
+}
+
+// A task in the trash, with how many tasks of its subtree went along with it
+export type TrashEntry = Task & {
+  subtreeCount: number;
+};
+
+export interface TrashPage {
+  entries: TrashEntry[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
+// Links that couldn't be restored because the other end is gone, or would now close a cycle
+export interface RestoreResult {
+  task: TaskWithRelations;
+  restoredTaskIds: string[];
+  skipped: {
+    parentId: string | null;
+    labelIds: string[];
+    dependencies: Array<{ taskId: string; dependsOnTaskId: string }>;
+  };
+}
+
+export interface PurgeTrashOptions {
+  retentionDays?: number; // purge tasks trashed longer ago than this (default: TRASH_RETENTION_DAYS or 30)
+  now?: Date;
+}
+
+export interface PurgeTrashResult {
+  cutoff: Date;
+  purged: number; // tasks removed for good, subtrees included
+}
+
+export type RecurrenceSeriesWithPattern = Omit<RecurrenceSeries, 'recurrencePattern'> & {
+  recurrencePattern: RecurrencePattern;
+};
+
+export interface SeriesOccurrence {
+  occurrenceDate: Date;
+  task: TaskWithRelations | null; // null for occurrences the series has not created yet
+}
+
+export interface RecurrenceSeriesDetails {
+  series: RecurrenceSeriesWithPattern;
+  past: TaskWithRelations[];       // completed or skipped
+  upcoming: SeriesOccurrence[];    // open occurrences, then projected ones
+}
+
+// What the next occurrence of a series copies from the previous one
+export interface SeriesCloneSettings {
+  cloneLabels?: boolean;
+  cloneSubtasks?: boolean; // the whole child subtree, reset to Todo
+  cloneDependencies?: DependencyCloneMode;
+}
+
+// What the materializer does with slots that passed before their occurrence was created
+export type MissedOccurrencePolicy = 'skip' | 'all' | 'catchUp';
+
+export interface MaterializeOptions {
+  horizonDays?: number; // create occurrences due up to this many days ahead (default: RECURRENCE_HORIZON_DAYS or 7)
+  missedPolicy?: MissedOccurrencePolicy; // default: RECURRENCE_MISSED_POLICY or catchUp
+  now?: Date;
+}
+
+export interface MaterializeResult {
+  horizonEnd: Date;
+  seriesChecked: number;
+  created: TaskWithRelations[];
+  missedSkipped: number; // missed slots left out by the policy
+}
+
+export interface SkipOccurrenceResult {
+  skipped: TaskWithRelations;
+  next: TaskWithRelations | null;
+}
+
+// Whose calendars and busy blocks a service sees: the project's, else the user's; unset for the CLI
+export interface OwnerScope {
+  ownerId?: string;
+  projectId?: string;
+}
+
+export interface TaskServiceOptions {
+  // Keep Todo tasks Blocked while they have open blockers (default: AUTO_BLOCK_TASKS=true)
+  autoBlock?: boolean;
+  // Only see and change this user's tasks; unset for the CLI and background jobs
+  ownerId?: string;
+  // Only see and change this project's tasks, in place of the user's own
+  projectId?: string;
+}
+
 export interface BulkImportTask {
   title: string;
   description?: string;
@@ -203,8 +626,36 @@ export interface BulkImportTask {
   dueAt?: Date;
   estimatedDurationMinutes?: number;
   allowParentAutoComplete?: boolean;
+  isSplittable?: boolean;
+  minChunkMinutes?: number;
   parentId?: string;
   dependencies?: string[]; // array of task IDs this task depends on
+  key?: string;            // temporary key other items of the same import refer to this one by
+  parentKey?: string;      // key of the item to nest this one under, in place of parentId
+  dependsOnKeys?: string[]; // keys of items this task depends on
+}
+
+export interface BulkImportOptions {
+  dryRun?: boolean; // check the import and report on it without creating anything
+}
+
+export interface BulkImportItemError {
+  field: string;
+  code: string;
+  message: string;
+}
+
+export interface BulkImportItemResult {
+  index: number;
+  key?: string;
+  id: string | null; // created task; null on a dry run
+  errors: BulkImportItemError[];
+}
+
+export interface BulkImportResult {
+  dryRun: boolean;
+  valid: boolean;
+  items: BulkImportItemResult[];
 }
 
 // API Response types
@@ -250,6 +701,16 @@ export class ValidationError extends Error {
   }
 }
 
+export class AuthenticationError extends Error {
+  constructor(
+    message: string,
+    public code: string = 'UNAUTHORIZED'
+  ) {
+    super(message);
+    this.name = 'AuthenticationError';
+  }
+}
+
 export class DependencyCycleError extends Error {
   constructor(
     message: string,
@@ -267,6 +728,7 @@ export type ExportFormat = 'json' | 'csv';
 export interface AuthUser {
   id: string;
   email: string;
+  name?: string | null;
 }
 
 export interface LoginCredentials {
@@ -279,3 +741,159 @@ export interface RegisterCredentials {
   password: string;
   name?: string;
 }
+
+export interface AuthSession {
+  user: AuthUser;
+  token: string;
+  expiresAt: Date;
+}
+
+// When a user works, for planning their assigned tasks; unset fields fall back to the plan's options
+export interface UserAvailability {
+  workingHours: WorkingHours | null;
+  calendarId: string | null;
+  dailyCapacityMinutes: number | null;
+}
+
+export type UpdateAvailabilityInput = Partial<UserAvailability>;
+
+// API token types
+export type ApiTokenScope = 'tasks:read' | 'tasks:write' | 'schedule:commit' | 'labels:admin';
+
+export interface CreateApiTokenInput {
+  name: string;
+  scopes: ApiTokenScope[];
+  rateLimit?: number;      // requests per rate-limit window; defaults to RATE_LIMIT_MAX_REQUESTS
+  expiresAt?: Date;
+}
+
+// A token as listed back to its owner; the secret itself is only shown once
+export interface ApiTokenSummary {
+  id: string;
+  name: string;
+  prefix: string;
+  scopes: ApiTokenScope[];
+  rateLimit: number | null;
+  lastUsedAt: Date | null;
+  expiresAt: Date | null;
+  revokedAt: Date | null;
+  createdAt: Date;
+}
+
+export interface CreatedApiToken {
+  token: ApiTokenSummary;
+  secret: string;
+}
+
+// What a request authenticated with an API token may do
+export interface ApiTokenGrant {
+  id: string;
+  scopes: ApiTokenScope[];
+  rateLimit: number | null;
+}
+
+// Project types
+export interface CreateProjectInput {
+  name: string;
+  description?: string;
+}
+
+export interface UpdateProjectInput {
+  name?: string;
+  description?: string | null;
+}
+
+export interface ProjectMemberInput {
+  email: string;
+  role: ProjectRole;
+}
+
+// The project a request is scoped to and the caller's role in it
+export interface ProjectAccess {
+  id: string;
+  role: ProjectRole;
+}
+
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  description: string | null;
+  role: ProjectRole | null; // null when listed without authentication (BYPASS_AUTH=true)
+  taskCount: number;
+  memberCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ProjectMemberSummary {
+  userId: string;
+  email: string;
+  name: string | null;
+  role: ProjectRole;
+  createdAt: Date;
+}
+
+// Comment types
+export interface CreateCommentInput {
+  body: string;      // Markdown
+  parentId?: string; // the comment this one replies to
+}
+
+export interface UpdateCommentInput {
+  body: string;
+}
+
+// A deleted comment that still has replies keeps its place with an empty body and deletedAt set
+export type TaskCommentWithAuthor = TaskComment & {
+  author: AuthUser | null;
+};
+
+export type CommentThread = TaskCommentWithAuthor & {
+  replies: CommentThread[];
+};
+
+// One entry of a task's activity feed: a comment, or a change recorded in its audit trail
+export type TaskActivity =
+  | { type: 'comment'; at: Date; comment: TaskCommentWithAuthor }
+  | { type: 'change'; at: Date; change: TaskAudit };
+
+// Template types
+// One task of a template's tree; keys are local to the template and due dates are minutes from
+// the anchor date the template is instantiated with
+export interface TemplateTask {
+  key: string;
+  parentKey: string | null;
+  title: string;             // may hold {{placeholders}}
+  description: string | null;
+  priority: `${Priority}`;
+  estimatedDurationMinutes: number;
+  allowParentAutoComplete: boolean;
+  isSplittable: boolean;
+  minChunkMinutes: number | null;
+  labelIds: string[];
+  dueOffsetMinutes: number | null;
+  dependencies: Array<{ dependsOnKey: string; type: `${DependencyType}`; lagMinutes: number }>;
+}
+
+export type TaskTemplateWithTasks = Omit<TaskTemplate, 'tasks'> & {
+  tasks: TemplateTask[];
+  variables: string[]; // placeholder names to give values for
+};
+
+export interface CreateTemplateInput {
+  name: string;
+  description?: string;
+  variables?: Record<string, string>; // values in the task tree to turn into placeholders, by name
+}
+
+export interface InstantiateTemplateInput {
+  variables?: Record<string, string>;
+  anchorDate?: Date;         // due dates are counted from here (default: now)
+  parentId?: string | null;  // parent for the new tree's root
+}
+
+export interface InstantiateTemplateResult {
+  task: TaskWithRelations;
+  createdTaskIds: Record<string, string>; // template task key -> ID of the task created for it
+  skippedLabelIds: string[];              // labels that no longer exist here
+}
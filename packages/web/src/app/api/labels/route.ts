@@ -7,7 +7,12 @@ export async function GET(request: NextRequest) {
   try {
     // Use internal Docker network URL for server-side API calls
     const apiUrl = process.env.NODE_ENV === 'production' ? 'http://api:3001' : 'http://localhost:3001';
-    const response = await fetch(`${apiUrl}/api/labels`);
+    // Pass the session cookie through; the API only answers logged-in users
+    const response = await fetch(`${apiUrl}/api/labels`, {
+      headers: {
+        cookie: request.headers.get('cookie') ?? '',
+      },
+    });
 
     if (!response.ok) {
       throw new Error(`Backend API error: ${response.status} ${response.statusText}`);
@@ -34,6 +39,7 @@ export async function POST(request: NextRequest) {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
+        cookie: request.headers.get('cookie') ?? '',
       },
       body: JSON.stringify(body),
     });
@@ -16,7 +16,12 @@ export async function GET(request: NextRequest) {
 
     // Use internal Docker network URL for server-side API calls
     const apiUrl = process.env.NODE_ENV === 'production' ? 'http://api:3001' : 'http://localhost:3001';
-    const response = await fetch(`${apiUrl}/api/tasks/analytics?${queryParams.toString()}`);
+    // Pass the session cookie through; the API only answers logged-in users
+    const response = await fetch(`${apiUrl}/api/tasks/analytics?${queryParams.toString()}`, {
+      headers: {
+        cookie: request.headers.get('cookie') ?? '',
+      },
+    });
 
     if (!response.ok) {
       throw new Error(`Backend API error: ${response.status} ${response.statusText}`);
@@ -0,0 +1,122 @@
+'use client';
+
+import { useState } from 'react';
+import { LogIn, UserPlus, AlertTriangle } from 'lucide-react';
+import { safeNextPath } from '@/lib/redirect';
+
+type Mode = 'login' | 'register';
+
+// Only same-site paths, so the redirect can't be used to send users elsewhere
+const nextPath = () => safeNextPath(new URLSearchParams(window.location.search).get('next'), window.location.origin);
+
+export default function LoginPage() {
+  const [mode, setMode] = useState<Mode>('login');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [name, setName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/auth/${mode}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(mode === 'register' ? { email, password, name: name || undefined } : { email, password }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error?.message || `Failed to ${mode === 'login' ? 'log in' : 'register'}: ${response.status} ${response.statusText}`);
+      }
+
+      // The session cookie is set by the response; a full load picks it up everywhere
+      window.location.assign(nextPath());
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Something went wrong');
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center px-4">
+      <div className="card w-full max-w-sm">
+        <div className="card-header">
+          <h1 className="card-title">Deano Task Manager</h1>
+          <p className="card-description">
+            {mode === 'login' ? 'Log in to see your tasks' : 'Create an account'}
+          </p>
+        </div>
+        <form onSubmit={handleSubmit} className="card-content space-y-4">
+          {mode === 'register' && (
+            <div>
+              <label htmlFor="name" className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+              <input
+                id="name"
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                className="input"
+                autoComplete="name"
+              />
+            </div>
+          )}
+          <div>
+            <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-1">Email</label>
+            <input
+              id="email"
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              className="input"
+              autoComplete="email"
+              required
+            />
+          </div>
+          <div>
+            <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-1">Password</label>
+            <input
+              id="password"
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className="input"
+              autoComplete={mode === 'login' ? 'current-password' : 'new-password'}
+              minLength={6}
+              required
+            />
+          </div>
+
+          {error && (
+            <div className="flex items-center text-sm text-danger-700">
+              <AlertTriangle className="w-4 h-4 mr-1" />
+              {error}
+            </div>
+          )}
+
+          <button type="submit" className="btn btn-primary w-full" disabled={isSubmitting}>
+            {mode === 'login' ? <LogIn className="w-4 h-4 mr-2" /> : <UserPlus className="w-4 h-4 mr-2" />}
+            {mode === 'login' ? 'Log in' : 'Create account'}
+          </button>
+
+          <button
+            type="button"
+            onClick={() => {
+              setMode(mode === 'login' ? 'register' : 'login');
+              setError(null);
+            }}
+            className="w-full text-sm text-primary-600 hover:text-primary-700"
+          >
+            {mode === 'login' ? 'No account yet? Create one' : 'Already have an account? Log in'}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+}
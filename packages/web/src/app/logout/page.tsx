@@ -0,0 +1,28 @@
+'use client';
+
+import { useEffect } from 'react';
+import { projectCookie } from '@/lib/projects';
+
+export default function LogoutPage() {
+  useEffect(() => {
+    const logout = async () => {
+      try {
+        await fetch('/api/auth/logout', { method: 'POST' });
+      } catch (error) {
+        console.error('Error logging out:', error);
+      } finally {
+        // The next person to log in here starts on their personal tasks
+        document.cookie = projectCookie(null);
+        window.location.assign('/login');
+      }
+    };
+
+    logout();
+  }, []);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center">
+      <span className="text-gray-600">Logging out...</span>
+    </div>
+  );
+}
@@ -484,6 +484,7 @@ export default function OrderedTaskPage() {
         <CreateTaskModal
           onClose={() => setShowCreateModal(false)}
           onSubmit={handleCreateTask}
+          onTemplateApplied={fetchTasks}
         />
       )}
     </div>
@@ -262,12 +262,24 @@ export default function HomePage() {
               >
                 Labels
               </a>
+              <a
+                href="/trash"
+                className="px-4 py-2 text-gray-700 hover:text-gray-900 hover:bg-gray-100 rounded-md transition-colors"
+              >
+                Trash
+              </a>
               <a
                 href="/utilities"
                 className="px-4 py-2 text-gray-700 hover:text-gray-900 hover:bg-gray-100 rounded-md transition-colors"
               >
                 Utilities
               </a>
+              <a
+                href="/logout"
+                className="px-4 py-2 text-gray-700 hover:text-gray-900 hover:bg-gray-100 rounded-md transition-colors"
+              >
+                Log out
+              </a>
               <button
                 onClick={() => setShowCreateModal(true)}
                 className="btn btn-primary"
@@ -597,6 +609,7 @@ export default function HomePage() {
         <CreateTaskModal
           onClose={() => setShowCreateModal(false)}
           onSubmit={handleCreateTask}
+          onTemplateApplied={() => fetchTasks(1, false)}
         />
       )}
     </div>
@@ -0,0 +1,173 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { ArrowLeft, RotateCcw, Trash2, AlertTriangle } from 'lucide-react';
+import { RestoreResult, TrashEntry } from '@/types';
+
+const PAGE_SIZE = 50;
+
+// What a restore couldn't re-link, because the other end is gone or would close a cycle
+function describeSkipped(result: RestoreResult): string | null {
+  const parts: string[] = [];
+  if (result.skipped.parentId) {
+    parts.push('its parent task');
+  }
+  if (result.skipped.labelIds.length > 0) {
+    parts.push(`${result.skipped.labelIds.length} label${result.skipped.labelIds.length === 1 ? '' : 's'}`);
+  }
+  if (result.skipped.dependencies.length > 0) {
+    parts.push(`${result.skipped.dependencies.length} dependenc${result.skipped.dependencies.length === 1 ? 'y' : 'ies'}`);
+  }
+  return parts.length > 0 ? `Restored "${result.task.title}" without ${parts.join(', ')}` : null;
+}
+
+export default function TrashPage() {
+  const [entries, setEntries] = useState<TrashEntry[]>([]);
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [isLoading, setIsLoading] = useState(true);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Later pages add to what is already shown
+  const fetchTrash = async (nextPage: number) => {
+    try {
+      const response = await fetch(`/api/tasks/trash?page=${nextPage}&limit=${PAGE_SIZE}`);
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch trash: ${response.status} ${response.statusText}`);
+      }
+
+      const data = await response.json();
+      setEntries(current => (nextPage === 1 ? data.data : [...current, ...data.data]));
+      setPage(nextPage);
+      setTotalPages(data.pagination.totalPages);
+    } catch (error) {
+      console.error('Error fetching trash:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchTrash(1);
+  }, []);
+
+  const restoreTask = async (entry: TrashEntry) => {
+    setRestoringId(entry.id);
+    setError(null);
+    setNotice(null);
+    try {
+      const response = await fetch(`/api/tasks/${entry.id}/restore`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error?.message || `Failed to restore task: ${response.status} ${response.statusText}`);
+      }
+
+      const data = await response.json();
+      setNotice(describeSkipped(data.data) ?? `Restored "${entry.title}"`);
+      setEntries(current => current.filter(e => e.id !== entry.id));
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to restore task');
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="text-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+          <span className="ml-2 text-gray-600">Loading trash...</span>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="max-w-4xl mx-auto">
+        <div className="mb-8">
+          <div className="flex items-center mb-4">
+            <a
+              href="/"
+              className="flex items-center text-gray-600 hover:text-gray-900 transition-colors mr-4"
+            >
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back to Tasks
+            </a>
+          </div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Trash</h1>
+          <p className="text-gray-600">
+            Deleted tasks stay here until they are purged. Restoring a task brings back its subtasks, labels and dependencies.
+          </p>
+        </div>
+
+        {notice && (
+          <div className="mb-4 p-3 bg-gray-50 border border-gray-200 rounded-md text-sm text-gray-700">
+            {notice}
+          </div>
+        )}
+        {error && (
+          <div className="mb-4 flex items-center p-3 bg-danger-50 border border-danger-200 rounded-md">
+            <AlertTriangle className="w-4 h-4 text-danger-600 mr-2" />
+            <p className="text-sm text-danger-700">{error}</p>
+          </div>
+        )}
+
+        <div className="card">
+          <div className="card-content">
+            {entries.length === 0 ? (
+              <div className="text-center py-8 text-gray-400">
+                <Trash2 className="w-8 h-8 mx-auto mb-2" />
+                The trash is empty
+              </div>
+            ) : (
+              <ul className="divide-y divide-gray-100">
+                {entries.map(entry => (
+                  <li key={entry.id} className="flex items-center justify-between py-3">
+                    <div>
+                      <p className="font-medium text-gray-900">{entry.title}</p>
+                      <p className="text-xs text-gray-500">
+                        Deleted {new Date(entry.deletedAt).toLocaleString()}
+                        {entry.subtreeCount > 0 &&
+                          ` with ${entry.subtreeCount} subtask${entry.subtreeCount === 1 ? '' : 's'}`}
+                      </p>
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => restoreTask(entry)}
+                      className="btn btn-secondary text-sm"
+                      disabled={restoringId !== null}
+                    >
+                      <RotateCcw className="w-4 h-4 mr-2" />
+                      {restoringId === entry.id ? 'Restoring...' : 'Restore'}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {page < totalPages && (
+              <button
+                type="button"
+                onClick={() => fetchTrash(page + 1)}
+                className="btn btn-secondary text-sm mt-4"
+              >
+                Show more
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -9,6 +9,7 @@ import { CreateTaskInput, Task, RecurrencePattern } from '@/types';
 import DateTimePicker from './DateTimePicker';
 import LabelManager from './LabelManager';
 import RecurrencePatternSelector from './RecurrencePatternSelector';
+import TemplatePicker from './TemplatePicker';
 
 const createTaskSchema = z.object({
   title: z.string().min(3, 'Title must be at least 3 characters').max(200, 'Title must be less than 200 characters'),
@@ -26,6 +27,7 @@ const createTaskSchema = z.object({
   }, 'Please enter a valid date and time'),
   estimatedDurationMinutes: z.number().min(0).default(30),
   allowParentAutoComplete: z.boolean().default(false),
+  isSplittable: z.boolean().default(false),
   parentId: z.string().optional(),
   dependencies: z.array(z.string()).default([]),
   // Recurring task fields
@@ -47,9 +49,10 @@ interface CreateTaskModalProps {
   onClose: () => void;
   onSubmit: (data: CreateTaskInput) => void;
   parentTaskId?: string;
+  onTemplateApplied?: () => void; // Tasks were created from a template instead
 }
 
-export default function CreateTaskModal({ onClose, onSubmit, parentTaskId }: CreateTaskModalProps) {
+export default function CreateTaskModal({ onClose, onSubmit, parentTaskId, onTemplateApplied }: CreateTaskModalProps) {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [allTasks, setAllTasks] = useState<Task[]>([]);
@@ -83,6 +86,7 @@ export default function CreateTaskModal({ onClose, onSubmit, parentTaskId }: Cre
       priority: 'Medium',
       estimatedDurationMinutes: 30,
       allowParentAutoComplete: false,
+      isSplittable: false,
       dueAt: getTomorrowDateTime(),
       parentId: parentTaskId || '', // Set parentId immediately if provided
       dependencies: [],
@@ -201,6 +205,18 @@ export default function CreateTaskModal({ onClose, onSubmit, parentTaskId }: Cre
           </button>
         </div>
 
+        {/* Template Picker, kept outside the form so its inputs don't submit it */}
+        <div className="px-6 pt-6 empty:hidden">
+          <TemplatePicker
+            parentId={watch('parentId') || undefined}
+            onApplied={() => {
+              onTemplateApplied?.();
+              setParentSearchQuery('');
+              onClose();
+            }}
+          />
+        </div>
+
         <form onSubmit={handleSubmit(onSubmitHandler)} className="p-6 space-y-6">
           {/* Title */}
           <div>
@@ -450,6 +466,24 @@ export default function CreateTaskModal({ onClose, onSubmit, parentTaskId }: Cre
             <p className="mt-1 text-sm text-danger-600">{errors.allowParentAutoComplete.message}</p>
           )}
 
+          {/* Splittable */}
+          <div className="flex items-start space-x-3 p-4 bg-gray-50 rounded-lg">
+            <input
+              {...register('isSplittable')}
+              type="checkbox"
+              id="isSplittable"
+              className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded mt-0.5"
+            />
+            <div>
+              <label htmlFor="isSplittable" className="text-sm font-medium text-gray-700">
+                Allow splitting across working days
+              </label>
+              <p className="text-xs text-gray-600 mt-1">
+                When enabled, the scheduler may break this task into several shorter sessions to fill gaps
+              </p>
+            </div>
+          </div>
+
           {/* Error Display */}
           {error && (
             <div className="flex items-center p-4 bg-danger-50 border border-danger-200 rounded-lg">
@@ -1,8 +1,21 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { Plus, X, ChevronRight, ChevronDown, Circle, Clock, AlertTriangle, CheckCircle, Search, ArrowUpRight } from 'lucide-react';
-import { Task, TaskStatus, Priority, DependencyWithTask } from '@/types';
+import { Plus, X, ChevronRight, ChevronDown, Circle, Clock, AlertTriangle, CheckCircle, Search, ArrowUpRight, Zap } from 'lucide-react';
+import { Task, TaskStatus, Priority, DependencyWithTask, DependencyType, CriticalPathAnalysis } from '@/types';
+
+const DEPENDENCY_TYPES: { value: DependencyType; label: string; short: string }[] = [
+  { value: 'FinishToStart', label: 'Finish → Start', short: 'FS' },
+  { value: 'StartToStart', label: 'Start → Start', short: 'SS' },
+  { value: 'FinishToFinish', label: 'Finish → Finish', short: 'FF' },
+  { value: 'StartToFinish', label: 'Start → Finish', short: 'SF' },
+];
+
+const formatLink = (type: DependencyType, lagMinutes: number) => {
+  const short = DEPENDENCY_TYPES.find(t => t.value === type)?.short ?? 'FS';
+  if (lagMinutes === 0) return short;
+  return `${short} ${lagMinutes > 0 ? '+' : ''}${lagMinutes}m`;
+};
 
 interface DependencyManagerProps {
   task: Task;
@@ -16,14 +29,18 @@ export default function DependencyManager({ task, onTaskUpdate, isExpanded = fal
   const [dependencies, setDependencies] = useState<DependencyWithTask[]>([]);
   const [blockingTasks, setBlockingTasks] = useState<DependencyWithTask[]>([]);
   const [allTasks, setAllTasks] = useState<Task[]>([]);
+  const [criticalPath, setCriticalPath] = useState<CriticalPathAnalysis | null>(null);
   const [loading, setLoading] = useState(false);
   const [showAddModal, setShowAddModal] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedTaskId, setSelectedTaskId] = useState('');
+  const [selectedType, setSelectedType] = useState<DependencyType>('FinishToStart');
+  const [lagMinutes, setLagMinutes] = useState(0);
 
   useEffect(() => {
     if (isExpanded) {
       fetchDependencies();
+      fetchCriticalPath();
     }
   }, [isExpanded, task.id]);
 
@@ -52,6 +69,23 @@ export default function DependencyManager({ task, onTaskUpdate, isExpanded = fal
     }
   };
 
+  const fetchCriticalPath = async () => {
+    try {
+      const response = await fetch('/api/tasks/critical-path');
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch critical path: ${response.status} ${response.statusText}`);
+      }
+
+      const data = await response.json();
+      setCriticalPath(data.data || null);
+    } catch (error) {
+      // The highlight is informational; a cycle or outage shouldn't block dependency editing
+      console.error('Error fetching critical path:', error);
+      setCriticalPath(null);
+    }
+  };
+
   const fetchAllTasks = async () => {
     try {
       const response = await fetch('/api/tasks?limit=50');
@@ -81,7 +115,7 @@ export default function DependencyManager({ task, onTaskUpdate, isExpanded = fal
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ dependsOnTaskId: selectedTaskId }),
+        body: JSON.stringify({ dependsOnTaskId: selectedTaskId, type: selectedType, lagMinutes }),
       });
 
       if (!response.ok) {
@@ -89,10 +123,9 @@ export default function DependencyManager({ task, onTaskUpdate, isExpanded = fal
         throw new Error(errorData.error?.message || `Failed to add dependency: ${response.status} ${response.statusText}`);
       }
 
-      setShowAddModal(false);
-      setSelectedTaskId('');
-      setSearchQuery('');
+      closeAddModal();
       fetchDependencies();
+      fetchCriticalPath();
       onTaskUpdate();
     } catch (error) {
       console.error('Error adding dependency:', error);
@@ -100,6 +133,38 @@ export default function DependencyManager({ task, onTaskUpdate, isExpanded = fal
     }
   };
 
+  const handleUpdateDependency = async (dependsOnTaskId: string, changes: { type?: DependencyType; lagMinutes?: number }) => {
+    try {
+      const response = await fetch(`/api/tasks/${task.id}/dependencies/${dependsOnTaskId}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(changes),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error?.message || `Failed to update dependency: ${response.status} ${response.statusText}`);
+      }
+
+      fetchDependencies();
+      fetchCriticalPath();
+      onTaskUpdate();
+    } catch (error) {
+      console.error('Error updating dependency:', error);
+      alert(error instanceof Error ? error.message : 'Failed to update dependency');
+    }
+  };
+
+  const closeAddModal = () => {
+    setShowAddModal(false);
+    setSelectedTaskId('');
+    setSearchQuery('');
+    setSelectedType('FinishToStart');
+    setLagMinutes(0);
+  };
+
   const handleRemoveDependency = async (dependsOnTaskId: string) => {
     if (!confirm('Are you sure you want to remove this dependency?')) return;
     
@@ -114,6 +179,7 @@ export default function DependencyManager({ task, onTaskUpdate, isExpanded = fal
       }
 
       fetchDependencies();
+      fetchCriticalPath();
       onTaskUpdate();
     } catch (error) {
       console.error('Error removing dependency:', error);
@@ -164,6 +230,15 @@ export default function DependencyManager({ task, onTaskUpdate, isExpanded = fal
     }
   };
 
+  const isOnCriticalPath = (taskId: string) => criticalPath?.criticalPath.includes(taskId) ?? false;
+
+  const getSlack = (taskId: string) => criticalPath?.tasks.find(t => t.taskId === taskId)?.slack;
+
+  const currentSlack = getSlack(task.id);
+  const criticalChain = (criticalPath?.criticalPath || [])
+    .map(id => criticalPath!.tasks.find(t => t.taskId === id)!)
+    .filter(Boolean);
+
   const filteredTasks = allTasks.filter(t => 
     t.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
     (t.description && t.description.toLowerCase().includes(searchQuery.toLowerCase()))
@@ -171,6 +246,37 @@ export default function DependencyManager({ task, onTaskUpdate, isExpanded = fal
 
   return (
     <div className="mt-4 border-t border-gray-200 pt-4">
+      {/* Critical Path Section */}
+      {criticalChain.length > 0 && (
+        <div className={`mb-6 p-3 rounded-lg border ${isOnCriticalPath(task.id) ? 'bg-danger-50 border-danger-200' : 'bg-gray-50 border-gray-200'}`}>
+          <div className="flex items-center justify-between mb-2">
+            <div className="flex items-center text-sm font-medium text-gray-700">
+              <Zap className="w-4 h-4 mr-2 text-danger-600" />
+              {isOnCriticalPath(task.id)
+                ? 'This task is on the critical path'
+                : 'Critical path'}
+            </div>
+            <span className="text-xs text-gray-500">
+              {currentSlack !== undefined && !isOnCriticalPath(task.id) && `Slack: ${currentSlack}m · `}
+              Total: {criticalPath!.totalDurationMinutes}m
+            </span>
+          </div>
+          <div className="flex flex-wrap items-center gap-1 text-xs">
+            {criticalChain.map((step, index) => (
+              <span key={step.taskId} className="flex items-center">
+                {index > 0 && <ChevronRight className="w-3 h-3 text-gray-400" />}
+                <span
+                  className={`px-2 py-0.5 rounded ${step.taskId === task.id ? 'bg-danger-600 text-white font-medium' : 'bg-white border border-danger-200 text-danger-700'}`}
+                  title={`${step.durationMinutes}m`}
+                >
+                  {step.title}
+                </span>
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Dependencies Section */}
       <div className="mb-6">
         <div className="flex items-center justify-between mb-3">
@@ -199,7 +305,12 @@ export default function DependencyManager({ task, onTaskUpdate, isExpanded = fal
             </div>
           ) : (
             dependencies.map((dependency) => (
-              <div key={dependency.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+              <div
+                key={dependency.id}
+                className={`flex items-center justify-between p-3 rounded-lg ${
+                  isOnCriticalPath(dependency.blockerTask.id) ? 'bg-danger-50 border border-danger-200' : 'bg-gray-50'
+                }`}
+              >
                 <div className="flex items-center space-x-3 flex-1">
                   <div className="flex items-center space-x-2">
                     {getStatusIcon(dependency.blockerTask.status)}
@@ -220,6 +331,12 @@ export default function DependencyManager({ task, onTaskUpdate, isExpanded = fal
                       <span className={`badge badge-sm ${getPriorityColor(dependency.blockerTask.priority)}`}>
                         {dependency.blockerTask.priority}
                       </span>
+                      {isOnCriticalPath(dependency.blockerTask.id) && (
+                        <span className="badge badge-sm bg-danger-100 text-danger-700" title="On the critical path">
+                          <Zap className="w-3 h-3 mr-1" />
+                          Critical
+                        </span>
+                      )}
                     </div>
                     
                     {dependency.blockerTask.description && (
@@ -233,8 +350,40 @@ export default function DependencyManager({ task, onTaskUpdate, isExpanded = fal
                         <span>Due: {new Date(dependency.blockerTask.dueAt).toLocaleDateString()}</span>
                       )}
                       <span>{dependency.blockerTask.estimatedDurationMinutes}m</span>
+                      {getSlack(dependency.blockerTask.id) !== undefined && !isOnCriticalPath(dependency.blockerTask.id) && (
+                        <span>Slack: {getSlack(dependency.blockerTask.id)}m</span>
+                      )}
                     </div>
                   </div>
+
+                  <div className="flex items-center space-x-2">
+                    <select
+                      className="input text-xs py-1"
+                      value={dependency.type}
+                      onChange={(e) => handleUpdateDependency(dependency.blockerTask.id, { type: e.target.value as DependencyType })}
+                      title="Link type"
+                    >
+                      {DEPENDENCY_TYPES.map(option => (
+                        <option key={option.value} value={option.value}>
+                          {option.short}
+                        </option>
+                      ))}
+                    </select>
+                    <input
+                      key={`${dependency.id}-${dependency.lagMinutes}`}
+                      type="number"
+                      step={1}
+                      className="input text-xs py-1 w-20"
+                      defaultValue={dependency.lagMinutes}
+                      onBlur={(e) => {
+                        const value = parseInt(e.target.value, 10);
+                        if (!Number.isNaN(value) && value !== dependency.lagMinutes) {
+                          handleUpdateDependency(dependency.blockerTask.id, { lagMinutes: value });
+                        }
+                      }}
+                      title="Lag in minutes (negative to start early)"
+                    />
+                  </div>
                 </div>
 
                 <button
@@ -266,7 +415,12 @@ export default function DependencyManager({ task, onTaskUpdate, isExpanded = fal
             </div>
           ) : (
             blockingTasks.map((blockingTask) => (
-              <div key={blockingTask.id} className="flex items-center justify-between p-3 bg-blue-50 rounded-lg border border-blue-200">
+              <div
+                key={blockingTask.id}
+                className={`flex items-center justify-between p-3 rounded-lg border ${
+                  isOnCriticalPath(blockingTask.dependentTask.id) ? 'bg-danger-50 border-danger-200' : 'bg-blue-50 border-blue-200'
+                }`}
+              >
                 <div className="flex items-center space-x-3 flex-1">
                   <div className="flex items-center space-x-2">
                     {getStatusIcon(blockingTask.dependentTask.status)}
@@ -287,6 +441,12 @@ export default function DependencyManager({ task, onTaskUpdate, isExpanded = fal
                       <span className={`badge badge-sm ${getPriorityColor(blockingTask.dependentTask.priority)}`}>
                         {blockingTask.dependentTask.priority}
                       </span>
+                      {isOnCriticalPath(blockingTask.dependentTask.id) && (
+                        <span className="badge badge-sm bg-danger-100 text-danger-700" title="On the critical path">
+                          <Zap className="w-3 h-3 mr-1" />
+                          Critical
+                        </span>
+                      )}
                     </div>
                     
                     {blockingTask.dependentTask.description && (
@@ -300,6 +460,10 @@ export default function DependencyManager({ task, onTaskUpdate, isExpanded = fal
                         <span>Due: {new Date(blockingTask.dependentTask.dueAt).toLocaleDateString()}</span>
                       )}
                       <span>{blockingTask.dependentTask.estimatedDurationMinutes}m</span>
+                      <span title="Link type and lag">{formatLink(blockingTask.type, blockingTask.lagMinutes)}</span>
+                      {getSlack(blockingTask.dependentTask.id) !== undefined && !isOnCriticalPath(blockingTask.dependentTask.id) && (
+                        <span>Slack: {getSlack(blockingTask.dependentTask.id)}m</span>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -316,11 +480,7 @@ export default function DependencyManager({ task, onTaskUpdate, isExpanded = fal
             <div className="flex items-center justify-between p-6 border-b border-gray-200">
               <h2 className="text-xl font-semibold text-gray-900">Add Dependency</h2>
               <button
-                onClick={() => {
-                  setShowAddModal(false);
-                  setSelectedTaskId('');
-                  setSearchQuery('');
-                }}
+                onClick={closeAddModal}
                 className="text-gray-400 hover:text-gray-600 transition-colors"
               >
                 <X className="w-5 h-5" />
@@ -379,14 +539,42 @@ export default function DependencyManager({ task, onTaskUpdate, isExpanded = fal
                 )}
               </div>
 
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Link Type
+                  </label>
+                  <select
+                    className="input w-full"
+                    value={selectedType}
+                    onChange={(e) => setSelectedType(e.target.value as DependencyType)}
+                  >
+                    {DEPENDENCY_TYPES.map(option => (
+                      <option key={option.value} value={option.value}>
+                        {option.label} ({option.short})
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Lag (minutes)
+                  </label>
+                  <input
+                    type="number"
+                    step={1}
+                    className="input w-full"
+                    value={lagMinutes}
+                    onChange={(e) => setLagMinutes(parseInt(e.target.value, 10) || 0)}
+                  />
+                  <p className="text-xs text-gray-500 mt-1">Negative values let this task start early</p>
+                </div>
+              </div>
+
               <div className="flex items-center justify-end space-x-3 pt-4 border-t border-gray-200">
                 <button
                   type="button"
-                  onClick={() => {
-                    setShowAddModal(false);
-                    setSelectedTaskId('');
-                    setSearchQuery('');
-                  }}
+                  onClick={closeAddModal}
                   className="btn btn-secondary"
                 >
                   Cancel
@@ -5,10 +5,12 @@ import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { X, Clock, AlertTriangle } from 'lucide-react';
-import { Task, UpdateTaskInput, RecurrencePattern } from '@/types';
+import { Task, UpdateTaskInput, RecurrencePattern, SeriesScope, ChildDeletePolicy } from '@/types';
 import DateTimePicker from './DateTimePicker';
 import LabelManager from './LabelManager';
 import RecurrencePatternSelector from './RecurrencePatternSelector';
+import RecurrenceSeriesPanel from './RecurrenceSeriesPanel';
+import TaskActivityPanel from './TaskActivityPanel';
 
 const updateTaskSchema = z.object({
   title: z.string().min(3, 'Title must be at least 3 characters').max(200, 'Title must be less than 200 characters'),
@@ -26,6 +28,7 @@ const updateTaskSchema = z.object({
   }, 'Please enter a valid date and time'),
   estimatedDurationMinutes: z.number().min(0),
   allowParentAutoComplete: z.boolean(),
+  isSplittable: z.boolean(),
   // Recurring task fields
   isRecurring: z.boolean().optional(),
   recurrencePattern: z.object({
@@ -44,12 +47,27 @@ type UpdateTaskFormData = z.infer<typeof updateTaskSchema>;
 interface EditTaskModalProps {
   task: Task;
   onClose: () => void;
-  onSubmit: (data: UpdateTaskInput) => void;
-  onDelete?: (taskId: string) => void;
+  onSubmit: (data: UpdateTaskInput, scope?: SeriesScope) => void;
+  onDelete?: (taskId: string, children?: ChildDeletePolicy) => void;
+  onTaskUpdate?: () => void;
 }
 
-export default function EditTaskModal({ task, onClose, onSubmit, onDelete }: EditTaskModalProps) {
+const CHILD_DELETE_OPTIONS: { value: ChildDeletePolicy; label: string }[] = [
+  { value: 'cascade', label: 'Delete subtasks too' },
+  { value: 'reparent', label: 'Move subtasks to the parent' },
+  { value: 'orphan', label: 'Keep subtasks as top-level tasks' },
+];
+
+const SCOPE_OPTIONS: { value: SeriesScope; label: string }[] = [
+  { value: 'this', label: 'This occurrence' },
+  { value: 'future', label: 'This and future occurrences' },
+  { value: 'all', label: 'All occurrences' },
+];
+
+export default function EditTaskModal({ task, onClose, onSubmit, onDelete, onTaskUpdate }: EditTaskModalProps) {
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [scope, setScope] = useState<SeriesScope>('this');
+  const [childDeletePolicy, setChildDeletePolicy] = useState<ChildDeletePolicy>('cascade');
   const [error, setError] = useState<string | null>(null);
   const [selectedLabels, setSelectedLabels] = useState<string[]>(
     task.taskLabels?.map(tl => tl.labelId) || []
@@ -80,6 +98,7 @@ export default function EditTaskModal({ task, onClose, onSubmit, onDelete }: Edi
       priority: task.priority,
       estimatedDurationMinutes: task.estimatedDurationMinutes,
       allowParentAutoComplete: task.allowParentAutoComplete,
+      isSplittable: task.isSplittable,
       dueAt: task.dueAt ? new Date(task.dueAt).toISOString().slice(0, 16) : '',
     },
   });
@@ -92,9 +111,13 @@ export default function EditTaskModal({ task, onClose, onSubmit, onDelete }: Edi
     setValue('priority', task.priority);
     setValue('estimatedDurationMinutes', task.estimatedDurationMinutes);
     setValue('allowParentAutoComplete', task.allowParentAutoComplete);
+    setValue('isSplittable', task.isSplittable);
     setValue('dueAt', task.dueAt ? new Date(task.dueAt).toISOString().slice(0, 16) : '');
   }, [task, setValue]);
 
+  const subtaskCount = task.children?.length ?? 0;
+  const hasSubtasks = subtaskCount > 0;
+
   const onSubmitHandler = async (data: UpdateTaskFormData) => {
     setIsSubmitting(true);
     setError(null);
@@ -106,7 +129,7 @@ export default function EditTaskModal({ task, onClose, onSubmit, onDelete }: Edi
         isRecurring: !!recurrencePattern,
         recurrencePattern: recurrencePattern || null,
       };
-      await onSubmit(taskData);
+      await onSubmit(taskData, task.seriesId ? scope : undefined);
       onClose();
     } catch (error) {
       console.error('Error updating task:', error);
@@ -248,6 +271,9 @@ export default function EditTaskModal({ task, onClose, onSubmit, onDelete }: Edi
             />
           </div>
 
+          {/* Recurrence series */}
+          {task.seriesId && <RecurrenceSeriesPanel task={task} onTaskUpdate={onTaskUpdate} />}
+
           {/* Recurrence Pattern */}
           <RecurrencePatternSelector
             value={recurrencePattern}
@@ -271,6 +297,43 @@ export default function EditTaskModal({ task, onClose, onSubmit, onDelete }: Edi
             <p className="mt-1 text-sm text-danger-600">{errors.allowParentAutoComplete.message}</p>
           )}
 
+          {/* Splittable */}
+          <div className="flex items-center space-x-2">
+            <input
+              {...register('isSplittable')}
+              type="checkbox"
+              id="isSplittable"
+              className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
+            />
+            <label htmlFor="isSplittable" className="text-sm text-gray-700">
+              Allow splitting across working days (scheduler may plan it in several sessions)
+            </label>
+          </div>
+
+          {/* Series scope: changing the pattern needs "future" or "all" */}
+          {task.seriesId && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Apply changes to
+              </label>
+              <div className="flex flex-wrap gap-4">
+                {SCOPE_OPTIONS.map(option => (
+                  <label key={option.value} className="flex items-center space-x-2 text-sm text-gray-700">
+                    <input
+                      type="radio"
+                      name="scope"
+                      value={option.value}
+                      checked={scope === option.value}
+                      onChange={() => setScope(option.value)}
+                      className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300"
+                    />
+                    <span>{option.label}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Error Display */}
           {error && (
             <div className="flex items-center p-3 bg-danger-50 border border-danger-200 rounded-lg">
@@ -286,8 +349,11 @@ export default function EditTaskModal({ task, onClose, onSubmit, onDelete }: Edi
                 <button
                   type="button"
                   onClick={() => {
-                    if (confirm('Are you sure you want to delete this task? This action cannot be undone.')) {
-                      onDelete(task.id);
+                    const message = hasSubtasks && childDeletePolicy === 'cascade'
+                      ? `Move this task and its ${subtaskCount} subtask${subtaskCount === 1 ? '' : 's'} to the trash?`
+                      : 'Move this task to the trash?';
+                    if (confirm(`${message} You can restore it from the Trash page.`)) {
+                      onDelete(task.id, hasSubtasks ? childDeletePolicy : undefined);
                     }
                   }}
                   className="btn btn-danger"
@@ -296,6 +362,19 @@ export default function EditTaskModal({ task, onClose, onSubmit, onDelete }: Edi
                   Delete Task
                 </button>
               )}
+              {onDelete && hasSubtasks && (
+                <select
+                  value={childDeletePolicy}
+                  onChange={(e) => setChildDeletePolicy(e.target.value as ChildDeletePolicy)}
+                  className="select text-sm"
+                  aria-label="What happens to subtasks"
+                  disabled={isSubmitting}
+                >
+                  {CHILD_DELETE_OPTIONS.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              )}
             </div>
             <div className="flex items-center space-x-3">
               <button
@@ -316,6 +395,11 @@ export default function EditTaskModal({ task, onClose, onSubmit, onDelete }: Edi
             </div>
           </div>
         </form>
+
+        {/* Comments and history; outside the form so posting doesn't submit the task */}
+        <div className="px-6 pb-6">
+          <TaskActivityPanel task={task} onTaskUpdate={onTaskUpdate} />
+        </div>
       </div>
     </div>
   );
@@ -0,0 +1,88 @@
+'use client';
+
+import { Fragment } from 'react';
+import { MarkdownInline, parseMarkdown } from '@/lib/markdown';
+
+interface MarkdownProps {
+  source: string;
+}
+
+function Inline({ nodes }: { nodes: MarkdownInline[] }) {
+  return (
+    <>
+      {nodes.map((node, index) => {
+        switch (node.type) {
+          case 'code':
+            return <code key={index} className="px-1 rounded bg-gray-100 font-mono text-xs">{node.text}</code>;
+          case 'strong':
+            return <strong key={index}><Inline nodes={node.children} /></strong>;
+          case 'em':
+            return <em key={index}><Inline nodes={node.children} /></em>;
+          case 'link':
+            return (
+              <a key={index} href={node.href} target="_blank" rel="noopener noreferrer" className="text-primary-600 underline">
+                <Inline nodes={node.children} />
+              </a>
+            );
+          default:
+            return <Fragment key={index}>{node.text}</Fragment>;
+        }
+      })}
+    </>
+  );
+}
+
+function Lines({ lines }: { lines: MarkdownInline[][] }) {
+  return (
+    <>
+      {lines.map((line, index) => (
+        <Fragment key={index}>
+          {index > 0 && <br />}
+          <Inline nodes={line} />
+        </Fragment>
+      ))}
+    </>
+  );
+}
+
+// Renders comment Markdown as plain React elements, so a comment can't inject HTML
+export default function Markdown({ source }: MarkdownProps) {
+  return (
+    <div className="space-y-2 text-sm text-gray-800 break-words">
+      {parseMarkdown(source).map((block, index) => {
+        switch (block.type) {
+          case 'heading':
+            return (
+              <p key={index} className={block.level === 1 ? 'font-semibold text-base' : 'font-semibold'}>
+                <Inline nodes={block.children} />
+              </p>
+            );
+          case 'list': {
+            const List = block.ordered ? 'ol' : 'ul';
+            return (
+              <List key={index} className={`pl-5 space-y-1 ${block.ordered ? 'list-decimal' : 'list-disc'}`}>
+                {block.items.map((item, itemIndex) => (
+                  <li key={itemIndex}><Inline nodes={item} /></li>
+                ))}
+              </List>
+            );
+          }
+          case 'quote':
+            return (
+              <blockquote key={index} className="pl-3 border-l-2 border-gray-300 text-gray-600">
+                <Lines lines={block.lines} />
+              </blockquote>
+            );
+          case 'code':
+            return (
+              <pre key={index} className="p-2 rounded bg-gray-100 font-mono text-xs overflow-x-auto">
+                {block.text}
+              </pre>
+            );
+          default:
+            return <p key={index}><Lines lines={block.lines} /></p>;
+        }
+      })}
+    </div>
+  );
+}
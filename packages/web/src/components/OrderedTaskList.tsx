@@ -20,7 +20,7 @@ import {
   Calendar,
   Timer
 } from 'lucide-react';
-import { Task, TaskStatus, Priority } from '@/types';
+import { Task, TaskStatus, Priority, SeriesScope, ChildDeletePolicy } from '@/types';
 import { isAfter, isBefore } from 'date-fns';
 import { formatLocalDateTime } from '@/lib/dateUtils';
 import EditTaskModal from './EditTaskModal';
@@ -239,11 +239,12 @@ export default function OrderedTaskList({
     }
   };
 
-  const handleEditTask = async (taskData: any) => {
+  const handleEditTask = async (taskData: any, scope?: SeriesScope) => {
     if (!editingTask) return;
     
     try {
-      const response = await fetch(`/api/tasks/${editingTask.id}`, {
+      const query = scope ? `?scope=${scope}` : '';
+      const response = await fetch(`/api/tasks/${editingTask.id}${query}`, {
         method: 'PATCH',
         headers: {
           'Content-Type': 'application/json',
@@ -264,9 +265,10 @@ export default function OrderedTaskList({
     }
   };
 
-  const handleDeleteTask = async (taskId: string) => {
+  const handleDeleteTask = async (taskId: string, children?: ChildDeletePolicy) => {
     try {
-      const response = await fetch(`/api/tasks/${taskId}`, {
+      const query = children ? `?children=${children}` : '';
+      const response = await fetch(`/api/tasks/${taskId}${query}`, {
         method: 'DELETE',
         headers: {
           'Content-Type': 'application/json',
@@ -600,6 +602,7 @@ export default function OrderedTaskList({
           onClose={() => setEditingTask(null)}
           onSubmit={handleEditTask}
           onDelete={handleDeleteTask}
+          onTaskUpdate={onTaskUpdate}
         />
       )}
     </>
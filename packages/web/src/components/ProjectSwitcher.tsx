@@ -0,0 +1,113 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { usePathname } from 'next/navigation';
+import { FolderKanban } from 'lucide-react';
+import { Project } from '../types';
+import { projectCookie, readProjectCookie } from '../lib/projects';
+
+// Value of the option for personal tasks, outside any project
+const PERSONAL = '';
+const NEW_PROJECT = '__new__';
+
+const PUBLIC_PATHS = ['/login', '/logout'];
+
+// Picks which project the app works on; the choice lives in a cookie the middleware
+// uses to send task, label and schedule calls to that project
+export default function ProjectSwitcher() {
+  const pathname = usePathname();
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [currentId, setCurrentId] = useState<string>(PERSONAL);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const switchTo = (projectId: string | null) => {
+    document.cookie = projectCookie(projectId);
+    window.location.reload();
+  };
+
+  useEffect(() => {
+    if (PUBLIC_PATHS.includes(pathname)) {
+      return;
+    }
+
+    const fetchProjects = async () => {
+      try {
+        const response = await fetch('/api/projects');
+        const result = await response.json();
+        if (result.data) {
+          const saved = readProjectCookie(document.cookie);
+          // Forget a project that was deleted or that we were removed from
+          if (saved && !result.data.some((p: Project) => p.id === saved)) {
+            switchTo(null);
+            return;
+          }
+          setProjects(result.data);
+          setCurrentId(saved ?? PERSONAL);
+        }
+      } catch (error) {
+        console.error('Failed to fetch projects:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchProjects();
+  }, [pathname]);
+
+  const handleChange = async (value: string) => {
+    if (value !== NEW_PROJECT) {
+      switchTo(value || null);
+      return;
+    }
+
+    const name = window.prompt('Project name')?.trim();
+    if (!name) {
+      return;
+    }
+    try {
+      const response = await fetch('/api/projects', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name }),
+      });
+      const result = await response.json();
+      if (result.data) {
+        switchTo(result.data.id);
+      }
+    } catch (error) {
+      console.error('Failed to create project:', error);
+    }
+  };
+
+  if (PUBLIC_PATHS.includes(pathname) || isLoading) {
+    return null;
+  }
+
+  const current = projects.find(p => p.id === currentId);
+
+  return (
+    <div className="bg-gray-900 text-gray-100">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-2 flex items-center space-x-3 text-sm">
+        <FolderKanban className="h-4 w-4" />
+        <label htmlFor="project-switcher" className="sr-only">Project</label>
+        <select
+          id="project-switcher"
+          className="bg-gray-800 border border-gray-700 rounded-md px-2 py-1 text-gray-100"
+          value={currentId}
+          onChange={(e) => handleChange(e.target.value)}
+        >
+          <option value={PERSONAL}>Personal tasks</option>
+          {projects.map(project => (
+            <option key={project.id} value={project.id}>
+              {project.name}
+            </option>
+          ))}
+          <option value={NEW_PROJECT}>+ New project…</option>
+        </select>
+        {current?.role && (
+          <span className="text-gray-400">{current.role}</span>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,8 +1,16 @@
 'use client';
 
-import { useState } from 'react';
-import { RecurrenceType, RecurrencePattern } from '@/types';
-import { Repeat, Calendar, Clock } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { RecurrenceType, RecurrencePattern, RecurrencePreview, RecurrenceMode } from '@/types';
+import {
+  RRuleFrequency,
+  RecurrenceRuleOptions,
+  WEEKDAY_NAMES,
+  buildRRule,
+  describeRRule,
+  parseRRule,
+} from '@/lib/recurrence';
+import { Repeat, Calendar, Clock, AlertTriangle, X } from 'lucide-react';
 
 interface RecurrencePatternSelectorProps {
   value?: RecurrencePattern | null;
@@ -10,47 +18,217 @@ interface RecurrencePatternSelectorProps {
   startDate?: string;
 }
 
-export default function RecurrencePatternSelector({ value, onChange, startDate }: RecurrencePatternSelectorProps) {
-  const [isRecurring, setIsRecurring] = useState(!!value);
-  const [pattern, setPattern] = useState<RecurrencePattern>(value || {
+type EndMode = 'never' | 'until' | 'count';
+
+const FREQUENCY_BY_TYPE: Record<Exclude<RecurrenceType, 'Custom'>, RRuleFrequency> = {
+  Daily: 'DAILY',
+  Weekly: 'WEEKLY',
+  Monthly: 'MONTHLY',
+  Yearly: 'YEARLY',
+};
+
+const TYPE_BY_FREQUENCY: Record<RRuleFrequency, RecurrenceType> = {
+  DAILY: 'Daily',
+  WEEKLY: 'Weekly',
+  MONTHLY: 'Monthly',
+  YEARLY: 'Yearly',
+};
+
+const SET_POSITIONS = [
+  { value: 1, label: 'First' },
+  { value: 2, label: 'Second' },
+  { value: 3, label: 'Third' },
+  { value: 4, label: 'Fourth' },
+  { value: -1, label: 'Last' },
+];
+
+// Builder state for a saved pattern: its rule when the builder can express it,
+// otherwise the raw rule under Custom
+function initialState(value: RecurrencePattern | null | undefined, startDate?: string) {
+  const pattern: RecurrencePattern = value || {
     type: 'Daily',
     interval: 1,
     startDate: startDate || new Date().toISOString(),
-  });
+  };
+  const parsed = pattern.rrule ? parseRRule(pattern.rrule) : null;
+
+  if (parsed && pattern.type !== 'Custom') {
+    return {
+      pattern: { ...pattern, type: TYPE_BY_FREQUENCY[parsed.freq], interval: parsed.interval },
+      rule: parsed,
+      customRule: pattern.rrule!,
+    };
+  }
+
+  const rule: RecurrenceRuleOptions = {
+    freq: pattern.type === 'Custom' ? 'DAILY' : FREQUENCY_BY_TYPE[pattern.type],
+    interval: pattern.interval,
+    byDay: pattern.daysOfWeek || [],
+    monthDay: pattern.dayOfMonth,
+    until: pattern.endDate,
+    exdates: [],
+  };
+  return {
+    pattern: { ...pattern, type: pattern.rrule ? 'Custom' as RecurrenceType : pattern.type },
+    rule,
+    customRule: pattern.rrule || pattern.customPattern || buildRRule(rule),
+  };
+}
+
+export default function RecurrencePatternSelector({ value, onChange, startDate }: RecurrencePatternSelectorProps) {
+  const [initial] = useState(() => initialState(value, startDate));
+  const [isRecurring, setIsRecurring] = useState(!!value);
+  const [pattern, setPattern] = useState<RecurrencePattern>(initial.pattern);
+  const [rule, setRule] = useState<RecurrenceRuleOptions>(initial.rule);
+  const [customRule, setCustomRule] = useState(initial.customRule);
+  const [endMode, setEndMode] = useState<EndMode>(
+    initial.rule.count !== undefined ? 'count' : initial.rule.until ? 'until' : 'never'
+  );
+  const [preview, setPreview] = useState<RecurrencePreview | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+
+  const isCustom = pattern.type === 'Custom';
+  const fullRule: RecurrenceRuleOptions = isCustom
+    ? rule
+    : { ...rule, freq: FREQUENCY_BY_TYPE[pattern.type as Exclude<RecurrenceType, 'Custom'>], interval: pattern.interval };
+
+  // The structured fields stay filled in for older clients; the rrule is what the API follows
+  const composePattern = (
+    nextPattern: RecurrencePattern,
+    nextRule: RecurrenceRuleOptions,
+    nextCustomRule: string
+  ): RecurrencePattern => {
+    if (nextPattern.type === 'Custom') {
+      return {
+        type: 'Custom',
+        interval: nextPattern.interval,
+        startDate: nextPattern.startDate,
+        rrule: nextCustomRule,
+        mode: nextPattern.mode,
+      };
+    }
+
+    const freq = FREQUENCY_BY_TYPE[nextPattern.type];
+    return {
+      type: nextPattern.type,
+      interval: nextPattern.interval,
+      startDate: nextPattern.startDate,
+      endDate: nextRule.count === undefined ? nextRule.until : undefined,
+      daysOfWeek: freq === 'WEEKLY' && nextRule.byDay.length > 0 ? nextRule.byDay : undefined,
+      dayOfMonth: freq === 'MONTHLY' && nextRule.setPos === undefined && nextRule.monthDay && nextRule.monthDay > 0
+        ? nextRule.monthDay
+        : undefined,
+      rrule: buildRRule({ ...nextRule, freq, interval: nextPattern.interval }),
+      mode: nextPattern.mode,
+    };
+  };
+
+  const composed = composePattern(pattern, rule, customRule);
+  const composedKey = JSON.stringify(composed);
+
+  useEffect(() => {
+    if (!isRecurring) return;
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch('/api/tasks/recurrence/preview', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ recurrencePattern: JSON.parse(composedKey), count: 5 }),
+        });
+        const result = await response.json();
+        if (cancelled) return;
+
+        if (response.ok) {
+          setPreview(result.data);
+          setPreviewError(null);
+        } else {
+          setPreview(null);
+          setPreviewError(result.error?.details?.[0]?.message || result.error?.message || 'Invalid recurrence rule');
+        }
+      } catch {
+        if (!cancelled) {
+          setPreview(null);
+          setPreviewError('Could not load the preview');
+        }
+      }
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [isRecurring, composedKey]);
 
   const handleRecurringToggle = (checked: boolean) => {
     setIsRecurring(checked);
     if (!checked) {
       onChange(null);
     } else {
-      onChange(pattern);
+      onChange(composed);
     }
   };
 
-  const updatePattern = (updates: Partial<RecurrencePattern>) => {
-    const newPattern = { ...pattern, ...updates };
+  const update = (
+    patternUpdates: Partial<RecurrencePattern>,
+    ruleUpdates: Partial<RecurrenceRuleOptions> = {},
+    nextCustomRule = customRule
+  ) => {
+    const newPattern = { ...pattern, ...patternUpdates };
+    const newRule = { ...rule, ...ruleUpdates };
     setPattern(newPattern);
+    setRule(newRule);
+    setCustomRule(nextCustomRule);
     if (isRecurring) {
-      onChange(newPattern);
+      onChange(composePattern(newPattern, newRule, nextCustomRule));
+    }
+  };
+
+  const updatePattern = (updates: Partial<RecurrencePattern>) => update(updates);
+  const updateRule = (updates: Partial<RecurrenceRuleOptions>) => update({}, updates);
+
+  const handleTypeChange = (type: RecurrenceType) => {
+    // Switching to Custom starts from the rule built so far
+    if (type === 'Custom' && !isCustom) {
+      update({ type }, {}, buildRRule(fullRule));
+    } else {
+      update({ type });
+    }
+  };
+
+  const handleEndModeChange = (mode: EndMode) => {
+    setEndMode(mode);
+    if (mode === 'never') {
+      updateRule({ count: undefined, until: undefined });
+    } else if (mode === 'count') {
+      updateRule({ count: rule.count ?? 10, until: undefined });
+    } else {
+      updateRule({ count: undefined, until: rule.until ?? pattern.startDate });
     }
   };
 
-  const getRecurrenceDescription = (pattern: RecurrencePattern) => {
-    const { type, interval } = pattern;
-    switch (type) {
-      case 'Daily':
-        return interval === 1 ? 'Every day' : `Every ${interval} days`;
-      case 'Weekly':
-        return interval === 1 ? 'Every week' : `Every ${interval} weeks`;
-      case 'Monthly':
-        return interval === 1 ? 'Every month' : `Every ${interval} months`;
-      case 'Yearly':
-        return interval === 1 ? 'Every year' : `Every ${interval} years`;
-      case 'Custom':
-        return 'Custom pattern';
-      default:
-        return 'Custom pattern';
+  const toggleWeekday = (weekday: number) => {
+    const byDay = rule.byDay.includes(weekday)
+      ? rule.byDay.filter(d => d !== weekday)
+      : [...rule.byDay, weekday];
+    updateRule({ byDay });
+  };
+
+  const skipOccurrence = (occurrence: string) => {
+    updateRule({ exdates: [...rule.exdates, occurrence] });
+  };
+
+  const unskipOccurrence = (occurrence: string) => {
+    updateRule({ exdates: rule.exdates.filter(d => d !== occurrence) });
+  };
+
+  const getRecurrenceDescription = () => {
+    if (isCustom) {
+      const parsed = parseRRule(customRule);
+      return parsed ? describeRRule(parsed, pattern.mode) : 'Custom pattern';
     }
+    return describeRRule(fullRule, pattern.mode);
   };
 
   return (
@@ -90,40 +268,152 @@ export default function RecurrencePatternSelector({ value, onChange, startDate }
               </label>
               <select
                 value={pattern.type}
-                onChange={(e) => updatePattern({ type: e.target.value as RecurrenceType })}
+                onChange={(e) => handleTypeChange(e.target.value as RecurrenceType)}
                 className="select w-full"
               >
                 <option value="Daily">Daily</option>
                 <option value="Weekly">Weekly</option>
                 <option value="Monthly">Monthly</option>
                 <option value="Yearly">Yearly</option>
-                <option value="Custom">Custom</option>
+                <option value="Custom">Custom (RRULE)</option>
               </select>
             </div>
 
+            {!isCustom && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Interval
+                </label>
+                <div className="relative">
+                  <input
+                    type="number"
+                    min="1"
+                    value={pattern.interval}
+                    onChange={(e) => updatePattern({ interval: parseInt(e.target.value) || 1 })}
+                    className="input w-full"
+                    placeholder="1"
+                  />
+                  <span className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-500 text-sm">
+                    {pattern.type === 'Daily' && (pattern.interval === 1 ? 'day' : 'days')}
+                    {pattern.type === 'Weekly' && (pattern.interval === 1 ? 'week' : 'weeks')}
+                    {pattern.type === 'Monthly' && (pattern.interval === 1 ? 'month' : 'months')}
+                    {pattern.type === 'Yearly' && (pattern.interval === 1 ? 'year' : 'years')}
+                  </span>
+                </div>
+              </div>
+            )}
+          </div>
+
+          {/* Weekdays */}
+          {pattern.type === 'Weekly' && (
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
-                Interval
+                On
               </label>
-              <div className="relative">
+              <div className="flex flex-wrap gap-2">
+                {WEEKDAY_NAMES.map((name, weekday) => (
+                  <button
+                    key={name}
+                    type="button"
+                    onClick={() => toggleWeekday(weekday)}
+                    aria-pressed={rule.byDay.includes(weekday)}
+                    className={`px-2 py-1 text-xs rounded border ${
+                      rule.byDay.includes(weekday)
+                        ? 'bg-primary-600 text-white border-primary-600'
+                        : 'bg-white text-gray-700 border-gray-300'
+                    }`}
+                  >
+                    {name.slice(0, 3)}
+                  </button>
+                ))}
+              </div>
+              <p className="text-xs text-gray-500 mt-1">Leave empty to repeat on the start date&apos;s weekday</p>
+            </div>
+          )}
+
+          {/* Day of Month or nth Weekday */}
+          {pattern.type === 'Monthly' && (
+            <div className="space-y-2">
+              <label className="block text-sm font-medium text-gray-700">
+                On
+              </label>
+              <div className="flex items-center space-x-2">
                 <input
-                  type="number"
-                  min="1"
-                  value={pattern.interval}
-                  onChange={(e) => updatePattern({ interval: parseInt(e.target.value) || 1 })}
-                  className="input w-full"
-                  placeholder="1"
+                  type="radio"
+                  id="monthlyByDay"
+                  checked={rule.setPos === undefined}
+                  onChange={() => updateRule({ setPos: undefined, setPosDay: undefined })}
                 />
-                <span className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-500 text-sm">
-                  {pattern.type === 'Daily' && (pattern.interval === 1 ? 'day' : 'days')}
-                  {pattern.type === 'Weekly' && (pattern.interval === 1 ? 'week' : 'weeks')}
-                  {pattern.type === 'Monthly' && (pattern.interval === 1 ? 'month' : 'months')}
-                  {pattern.type === 'Yearly' && (pattern.interval === 1 ? 'year' : 'years')}
-                  {pattern.type === 'Custom' && 'units'}
-                </span>
+                <label htmlFor="monthlyByDay" className="text-sm text-gray-700">Day</label>
+                <select
+                  value={rule.monthDay ?? ''}
+                  onChange={(e) => updateRule({
+                    monthDay: e.target.value ? parseInt(e.target.value) : undefined,
+                    setPos: undefined,
+                    setPosDay: undefined,
+                  })}
+                  className="select"
+                  disabled={rule.setPos !== undefined}
+                >
+                  <option value="">Same as start date</option>
+                  {Array.from({ length: 31 }, (_, i) => i + 1).map(day => (
+                    <option key={day} value={day}>{day}</option>
+                  ))}
+                  <option value={-1}>Last day</option>
+                </select>
               </div>
+              <div className="flex items-center space-x-2">
+                <input
+                  type="radio"
+                  id="monthlyBySetPos"
+                  checked={rule.setPos !== undefined}
+                  onChange={() => updateRule({ setPos: 1, setPosDay: 1, monthDay: undefined })}
+                />
+                <label htmlFor="monthlyBySetPos" className="text-sm text-gray-700">The</label>
+                <select
+                  value={rule.setPos ?? 1}
+                  onChange={(e) => updateRule({ setPos: parseInt(e.target.value) })}
+                  className="select"
+                  disabled={rule.setPos === undefined}
+                >
+                  {SET_POSITIONS.map(position => (
+                    <option key={position.value} value={position.value}>{position.label}</option>
+                  ))}
+                </select>
+                <select
+                  value={rule.setPosDay ?? 1}
+                  onChange={(e) => updateRule({ setPosDay: parseInt(e.target.value) })}
+                  className="select"
+                  disabled={rule.setPos === undefined}
+                >
+                  {WEEKDAY_NAMES.map((name, weekday) => (
+                    <option key={name} value={weekday}>{name}</option>
+                  ))}
+                </select>
+              </div>
+              <p className="text-xs text-gray-500">Months without the chosen day are skipped</p>
             </div>
-          </div>
+          )}
+
+          {/* Raw Rule */}
+          {isCustom && (
+            <div>
+              <label htmlFor="customRule" className="block text-sm font-medium text-gray-700 mb-2">
+                Rule
+              </label>
+              <textarea
+                id="customRule"
+                value={customRule}
+                onChange={(e) => update({}, {}, e.target.value)}
+                rows={3}
+                className="input w-full font-mono text-xs"
+                placeholder={'RRULE:FREQ=MONTHLY;BYDAY=FR;BYSETPOS=-1\nEXDATE:20251226T090000Z'}
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                RFC 5545 RRULE with optional EXDATE lines, evaluated in UTC
+              </p>
+            </div>
+          )}
 
           {/* Start Date */}
           <div>
@@ -141,37 +431,140 @@ export default function RecurrencePatternSelector({ value, onChange, startDate }
             </div>
           </div>
 
-          {/* End Date (Optional) */}
+          {/* Repeat From */}
           <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">
-              End Date (Optional)
+            <label htmlFor="recurrenceMode" className="block text-sm font-medium text-gray-700 mb-2">
+              Repeat from
             </label>
-            <div className="relative">
-              <Calendar className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
-              <input
-                type="datetime-local"
-                value={pattern.endDate ? new Date(pattern.endDate).toISOString().slice(0, 16) : ''}
-                onChange={(e) => updatePattern({ 
-                  endDate: e.target.value ? new Date(e.target.value).toISOString() : undefined 
-                })}
-                className="input pl-10 w-full"
-              />
-            </div>
-            <p className="text-xs text-gray-500 mt-1">Leave empty for no end date</p>
+            <select
+              id="recurrenceMode"
+              value={pattern.mode || 'fixed'}
+              onChange={(e) => {
+                const mode = e.target.value as RecurrenceMode;
+                updatePattern({ mode: mode === 'afterCompletion' ? mode : undefined });
+              }}
+              className="select w-full"
+            >
+              <option value="fixed">The schedule (fixed dates)</option>
+              <option value="afterCompletion">When the last one was completed</option>
+            </select>
           </div>
 
-          {/* Pattern Description */}
-          <div className="p-3 bg-blue-50 border border-blue-200 rounded-lg">
+          {/* Ends */}
+          {!isCustom && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Ends
+              </label>
+              <select
+                value={endMode}
+                onChange={(e) => handleEndModeChange(e.target.value as EndMode)}
+                className="select w-full mb-2"
+              >
+                <option value="never">Never</option>
+                <option value="until">On date</option>
+                <option value="count">After a number of occurrences</option>
+              </select>
+              {endMode === 'until' && (
+                <div className="relative">
+                  <Calendar className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
+                  <input
+                    type="datetime-local"
+                    value={rule.until ? new Date(rule.until).toISOString().slice(0, 16) : ''}
+                    onChange={(e) => updateRule({
+                      until: e.target.value ? new Date(e.target.value).toISOString() : undefined
+                    })}
+                    className="input pl-10 w-full"
+                  />
+                </div>
+              )}
+              {endMode === 'count' && (
+                <input
+                  type="number"
+                  min="1"
+                  value={rule.count ?? 1}
+                  onChange={(e) => updateRule({ count: parseInt(e.target.value) || 1 })}
+                  className="input w-full"
+                />
+              )}
+            </div>
+          )}
+
+          {/* Pattern Description and Preview */}
+          <div className="p-3 bg-blue-50 border border-blue-200 rounded-lg space-y-2">
             <div className="flex items-center space-x-2">
               <Clock className="w-4 h-4 text-blue-600" />
               <span className="text-sm font-medium text-blue-800">
-                {getRecurrenceDescription(pattern)}
+                {getRecurrenceDescription()}
               </span>
             </div>
-            <p className="text-xs text-blue-600 mt-1">
-              Starting {new Date(pattern.startDate).toLocaleDateString()}
-              {pattern.endDate && ` until ${new Date(pattern.endDate).toLocaleDateString()}`}
+            <p className="text-xs text-blue-600">
+              {pattern.mode === 'afterCompletion'
+                ? 'Each next due date counts from when the previous one is completed'
+                : `Starting ${new Date(pattern.startDate).toLocaleDateString()}`}
             </p>
+            <code className="block text-xs text-blue-900 whitespace-pre-wrap break-all">
+              {composed.rrule}
+            </code>
+
+            {previewError && (
+              <div className="flex items-center space-x-2 text-xs text-red-700">
+                <AlertTriangle className="w-3 h-3" />
+                <span>{previewError}</span>
+              </div>
+            )}
+
+            {preview && (
+              <div>
+                <p className="text-xs font-medium text-blue-800 mb-1">
+                  {pattern.mode === 'afterCompletion' ? 'Next occurrences, if each is done on time' : 'Next occurrences'}
+                </p>
+                {preview.occurrences.length === 0 ? (
+                  <p className="text-xs text-blue-600">No further occurrences</p>
+                ) : (
+                  <ul className="space-y-1">
+                    {preview.occurrences.map(occurrence => (
+                      <li key={occurrence} className="flex items-center justify-between text-xs text-blue-700">
+                        <span>{new Date(occurrence).toLocaleString()}</span>
+                        {!isCustom && (
+                          <button
+                            type="button"
+                            onClick={() => skipOccurrence(occurrence)}
+                            className="text-blue-600 hover:text-blue-800"
+                          >
+                            Skip
+                          </button>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+
+            {!isCustom && rule.exdates.length > 0 && (
+              <div>
+                <p className="text-xs font-medium text-blue-800 mb-1">Skipped</p>
+                <div className="flex flex-wrap gap-1">
+                  {rule.exdates.map(exdate => (
+                    <span
+                      key={exdate}
+                      className="inline-flex items-center px-2 py-0.5 rounded-full text-xs bg-white text-blue-800 border border-blue-200"
+                    >
+                      {new Date(exdate).toLocaleDateString()}
+                      <button
+                        type="button"
+                        onClick={() => unskipOccurrence(exdate)}
+                        className="ml-1 text-blue-500 hover:text-blue-700"
+                        aria-label="Stop skipping this date"
+                      >
+                        <X className="w-3 h-3" />
+                      </button>
+                    </span>
+                  ))}
+                </div>
+              </div>
+            )}
           </div>
         </div>
       )}
@@ -0,0 +1,212 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Repeat, SkipForward, CalendarClock, AlertTriangle } from 'lucide-react';
+import { Task, RecurrenceSeriesDetails, SeriesCloneSettings, DependencyCloneMode } from '@/types';
+import DateTimePicker from './DateTimePicker';
+
+interface RecurrenceSeriesPanelProps {
+  task: Task;
+  onTaskUpdate?: () => void;
+}
+
+const DEPENDENCY_CLONE_OPTIONS: { value: DependencyCloneMode; label: string }[] = [
+  { value: 'All', label: 'All dependencies' },
+  { value: 'Subtree', label: 'Only between subtasks' },
+  { value: 'None', label: 'No dependencies' },
+];
+
+const formatSlot = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, { weekday: 'short', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+export default function RecurrenceSeriesPanel({ task, onTaskUpdate }: RecurrenceSeriesPanelProps) {
+  const [details, setDetails] = useState<RecurrenceSeriesDetails | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [postponeTo, setPostponeTo] = useState('');
+
+  const isOpen = task.status !== 'Completed' && task.status !== 'Canceled';
+
+  useEffect(() => {
+    fetchSeries();
+  }, [task.id]);
+
+  const fetchSeries = async () => {
+    try {
+      const response = await fetch(`/api/tasks/${task.id}/series`);
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch series: ${response.status} ${response.statusText}`);
+      }
+
+      const data = await response.json();
+      setDetails(data.data);
+    } catch (error) {
+      console.error('Error fetching series:', error);
+    }
+  };
+
+  const updateSettings = async (settings: SeriesCloneSettings) => {
+    setError(null);
+    try {
+      const response = await fetch(`/api/tasks/${task.id}/series`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(settings),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error?.message || `Failed to update series: ${response.status} ${response.statusText}`);
+      }
+
+      const data = await response.json();
+      setDetails(current => (current ? { ...current, series: data.data } : current));
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to update series');
+    }
+  };
+
+  const runAction = async (path: 'skip' | 'postpone', body?: object) => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/tasks/${task.id}/${path}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(body ?? {}),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error?.message || `Failed to ${path} occurrence: ${response.status} ${response.statusText}`);
+      }
+
+      setPostponeTo('');
+      await fetchSeries();
+      onTaskUpdate?.();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : `Failed to ${path} occurrence`);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <div className="border border-blue-200 rounded-lg p-4 space-y-3">
+      <div className="flex items-center space-x-2 text-sm font-medium text-gray-700">
+        <Repeat className="w-4 h-4 text-blue-600" />
+        <span>Series{details ? `: ${details.series.title}` : ''}</span>
+      </div>
+
+      {details && (
+        <div className="grid grid-cols-2 gap-4 text-xs">
+          <div>
+            <p className="font-medium text-gray-500 mb-1">Past</p>
+            {details.past.length === 0 && <p className="text-gray-400">None yet</p>}
+            <ul className="space-y-1">
+              {details.past.slice(-5).map(occurrence => (
+                <li key={occurrence.id} className="text-gray-600">
+                  {formatSlot(occurrence.occurrenceDate || occurrence.dueAt || occurrence.createdAt)}
+                  <span className={occurrence.status === 'Canceled' ? 'ml-1 text-gray-400' : 'ml-1 text-success-600'}>
+                    {occurrence.status === 'Canceled' ? 'skipped' : 'done'}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+          <div>
+            <p className="font-medium text-gray-500 mb-1">Upcoming</p>
+            {details.upcoming.length === 0 && <p className="text-gray-400">The series has ended</p>}
+            <ul className="space-y-1">
+              {details.upcoming.map(occurrence => (
+                <li
+                  key={occurrence.occurrenceDate}
+                  className={occurrence.task?.id === task.id ? 'font-medium text-blue-700' : 'text-gray-600'}
+                >
+                  {formatSlot(occurrence.occurrenceDate)}
+                  {occurrence.task?.dueAt && occurrence.task.dueAt !== occurrence.occurrenceDate && (
+                    <span className="ml-1 text-warning-600">→ {formatSlot(occurrence.task.dueAt)}</span>
+                  )}
+                  {!occurrence.task && <span className="ml-1 text-gray-400">projected</span>}
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      )}
+
+      {details && (
+        <div className="flex flex-wrap items-center gap-4 pt-2 border-t border-gray-100 text-xs text-gray-700">
+          <span className="font-medium text-gray-500">Next occurrence copies</span>
+          <label className="flex items-center space-x-1">
+            <input
+              type="checkbox"
+              checked={details.series.cloneLabels}
+              onChange={(e) => updateSettings({ cloneLabels: e.target.checked })}
+              className="h-3 w-3 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
+            />
+            <span>Labels</span>
+          </label>
+          <label className="flex items-center space-x-1">
+            <input
+              type="checkbox"
+              checked={details.series.cloneSubtasks}
+              onChange={(e) => updateSettings({ cloneSubtasks: e.target.checked })}
+              className="h-3 w-3 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
+            />
+            <span>Subtasks</span>
+          </label>
+          <select
+            value={details.series.cloneDependencies}
+            onChange={(e) => updateSettings({ cloneDependencies: e.target.value as DependencyCloneMode })}
+            className="select text-xs py-1"
+          >
+            {DEPENDENCY_CLONE_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {isOpen && (
+        <div className="flex flex-wrap items-end gap-2 pt-2 border-t border-gray-100">
+          <button
+            type="button"
+            onClick={() => runAction('skip')}
+            className="btn btn-secondary text-xs flex items-center"
+            disabled={isWorking}
+          >
+            <SkipForward className="w-3 h-3 mr-1" />
+            Skip this occurrence
+          </button>
+          <DateTimePicker
+            value={postponeTo}
+            onChange={setPostponeTo}
+            id="postponeTo"
+          />
+          <button
+            type="button"
+            onClick={() => runAction('postpone', { dueAt: new Date(postponeTo).toISOString() })}
+            className="btn btn-secondary text-xs flex items-center"
+            disabled={isWorking || !postponeTo}
+          >
+            <CalendarClock className="w-3 h-3 mr-1" />
+            Postpone
+          </button>
+        </div>
+      )}
+
+      {error && (
+        <div className="flex items-center text-xs text-danger-700">
+          <AlertTriangle className="w-3 h-3 mr-1" />
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,6 +2,7 @@
 
 import { Repeat, Calendar } from 'lucide-react';
 import { Task, RecurrencePattern } from '@/types';
+import { describeRRule, parseRRule } from '@/lib/recurrence';
 
 interface RecurringTaskBadgeProps {
   task: Task;
@@ -20,16 +21,22 @@ export default function RecurringTaskBadge({ task }: RecurringTaskBadgeProps) {
   }
 
   const getRecurrenceDescription = (pattern: RecurrencePattern) => {
+    const rule = pattern.rrule ? parseRRule(pattern.rrule) : null;
+    if (rule) {
+      return describeRRule(rule, pattern.mode);
+    }
+
     const { type, interval } = pattern;
+    const suffix = pattern.mode === 'afterCompletion' ? ' after completion' : '';
     switch (type) {
       case 'Daily':
-        return interval === 1 ? 'Daily' : `Every ${interval} days`;
+        return (interval === 1 ? 'Daily' : `Every ${interval} days`) + suffix;
       case 'Weekly':
-        return interval === 1 ? 'Weekly' : `Every ${interval} weeks`;
+        return (interval === 1 ? 'Weekly' : `Every ${interval} weeks`) + suffix;
       case 'Monthly':
-        return interval === 1 ? 'Monthly' : `Every ${interval} months`;
+        return (interval === 1 ? 'Monthly' : `Every ${interval} months`) + suffix;
       case 'Yearly':
-        return interval === 1 ? 'Yearly' : `Every ${interval} years`;
+        return (interval === 1 ? 'Yearly' : `Every ${interval} years`) + suffix;
       case 'Custom':
         return 'Custom';
       default:
@@ -59,7 +66,7 @@ export default function RecurringTaskBadge({ task }: RecurringTaskBadgeProps) {
         <span className="font-medium">{getRecurrenceDescription(pattern)}</span>
       </div>
       
-      {task.nextRecurrenceDate && (
+      {task.nextRecurrenceDate && pattern.mode !== 'afterCompletion' && (
         <div className="flex items-center space-x-1 px-2 py-1 bg-green-100 text-green-800 rounded-full">
           <Calendar className="w-3 h-3" />
           <span>Next: {getNextRecurrenceText()}</span>
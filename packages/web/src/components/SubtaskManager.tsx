@@ -300,6 +300,10 @@ export default function SubtaskManager({ parentTask, onTaskUpdate, isExpanded =
           onClose={() => setShowCreateModal(false)}
           onSubmit={handleCreateSubtask}
           parentTaskId={parentTask.id}
+          onTemplateApplied={() => {
+            fetchSubtasks();
+            onTaskUpdate();
+          }}
         />
       )}
 
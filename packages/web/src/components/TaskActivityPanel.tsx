@@ -0,0 +1,455 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { MessageSquare, Activity, History, Reply, Pencil, Trash2, AlertTriangle, RotateCcw } from 'lucide-react';
+import { AuthUser, CommentThread, RevertResult, Task, TaskActivity, TaskAudit, TaskComment } from '@/types';
+import { describeChange } from '@/lib/history';
+import Markdown from './Markdown';
+
+interface TaskActivityPanelProps {
+  task: Task;
+  onTaskUpdate?: () => void;
+}
+
+type View = 'comments' | 'activity' | 'history';
+
+const HISTORY_PAGE_SIZE = 20;
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const authorName = (comment: TaskComment) =>
+  comment.author ? comment.author.name || comment.author.email : 'Someone';
+
+async function revert(taskId: string, auditId: string, dryRun: boolean): Promise<RevertResult> {
+  const response = await fetch(`/api/tasks/${taskId}/revert`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ auditId, dryRun }),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error?.message || `Failed to revert task: ${response.status} ${response.statusText}`);
+  }
+
+  const data = await response.json();
+  return data.data;
+}
+
+async function send(url: string, method: string, body?: object) {
+  const response = await fetch(url, {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error?.message || `Request failed: ${response.status} ${response.statusText}`);
+  }
+}
+
+// Discussion on a task, its comments interleaved with its recorded changes, and its full history
+export default function TaskActivityPanel({ task, onTaskUpdate }: TaskActivityPanelProps) {
+  const [view, setView] = useState<View>('comments');
+  const [threads, setThreads] = useState<CommentThread[]>([]);
+  const [activity, setActivity] = useState<TaskActivity[]>([]);
+  const [history, setHistory] = useState<TaskAudit[]>([]);
+  const [historyPage, setHistoryPage] = useState(1);
+  const [historyPages, setHistoryPages] = useState(1);
+  const [preview, setPreview] = useState<{ auditId: string; result: RevertResult } | null>(null);
+  const [me, setMe] = useState<AuthUser | null>(null);
+  const [draft, setDraft] = useState('');
+  const [replyTo, setReplyTo] = useState<string | null>(null);
+  const [editing, setEditing] = useState<string | null>(null);
+  const [text, setText] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  useEffect(() => {
+    fetchComments();
+    fetchActivity();
+    fetchHistory(1);
+  }, [task.id]);
+
+  useEffect(() => {
+    // Unknown without authentication (BYPASS_AUTH=true); the API still checks who may edit
+    fetch('/api/auth/me')
+      .then(response => (response.ok ? response.json() : null))
+      .then(result => setMe(result?.data ?? null))
+      .catch(() => setMe(null));
+  }, []);
+
+  const fetchComments = async () => {
+    try {
+      const response = await fetch(`/api/tasks/${task.id}/comments`);
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch comments: ${response.status} ${response.statusText}`);
+      }
+
+      const data = await response.json();
+      setThreads(data.data);
+    } catch (error) {
+      console.error('Error fetching comments:', error);
+    }
+  };
+
+  const fetchActivity = async () => {
+    try {
+      const response = await fetch(`/api/tasks/${task.id}/activity`);
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch activity: ${response.status} ${response.statusText}`);
+      }
+
+      const data = await response.json();
+      setActivity(data.data);
+    } catch (error) {
+      console.error('Error fetching activity:', error);
+    }
+  };
+
+  // Later pages add to what is already shown
+  const fetchHistory = async (page: number) => {
+    try {
+      const response = await fetch(`/api/tasks/${task.id}/history?page=${page}&limit=${HISTORY_PAGE_SIZE}`);
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch history: ${response.status} ${response.statusText}`);
+      }
+
+      const data = await response.json();
+      setHistory(current => (page === 1 ? data.data : [...current, ...data.data]));
+      setHistoryPage(page);
+      setHistoryPages(data.pagination.totalPages);
+    } catch (error) {
+      console.error('Error fetching history:', error);
+    }
+  };
+
+  const run = async (action: () => Promise<void>) => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      await action();
+      await Promise.all([fetchComments(), fetchActivity()]);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to save comment');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  // A dry run first, so the changes can be checked before they're saved
+  const previewRevert = async (auditId: string) => {
+    setError(null);
+    try {
+      setPreview({ auditId, result: await revert(task.id, auditId, true) });
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to preview revert');
+    }
+  };
+
+  const confirmRevert = async (auditId: string) => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      await revert(task.id, auditId, false);
+      setPreview(null);
+      await Promise.all([fetchActivity(), fetchHistory(1)]);
+      onTaskUpdate?.();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to revert task');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const addComment = (body: string, parentId?: string) => run(async () => {
+    await send(`/api/tasks/${task.id}/comments`, 'POST', { body, parentId });
+    if (parentId) {
+      setReplyTo(null);
+      setText('');
+    } else {
+      setDraft('');
+    }
+  });
+
+  const saveEdit = (commentId: string) => run(async () => {
+    await send(`/api/tasks/${task.id}/comments/${commentId}`, 'PATCH', { body: text });
+    setEditing(null);
+    setText('');
+  });
+
+  const deleteComment = (commentId: string) => {
+    if (confirm('Delete this comment?')) {
+      run(() => send(`/api/tasks/${task.id}/comments/${commentId}`, 'DELETE'));
+    }
+  };
+
+  const startReply = (commentId: string) => {
+    setEditing(null);
+    setReplyTo(commentId);
+    setText('');
+  };
+
+  const startEdit = (comment: TaskComment) => {
+    setReplyTo(null);
+    setEditing(comment.id);
+    setText(comment.body);
+  };
+
+  const canChange = (comment: TaskComment) => !me || comment.authorId === me.id;
+
+  const renderEditor = (onSave: () => void, label: string) => (
+    <div className="space-y-2">
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        rows={2}
+        className="textarea text-sm"
+        autoFocus
+      />
+      <div className="flex space-x-2">
+        <button
+          type="button"
+          onClick={onSave}
+          className="btn btn-primary text-xs"
+          disabled={isWorking || !text.trim()}
+        >
+          {label}
+        </button>
+        <button
+          type="button"
+          onClick={() => {
+            setReplyTo(null);
+            setEditing(null);
+          }}
+          className="btn btn-secondary text-xs"
+          disabled={isWorking}
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+
+  const renderThread = (comment: CommentThread) => (
+    <li key={comment.id} className="space-y-2">
+      <div className="text-xs text-gray-500 flex items-center space-x-2">
+        <span className="font-medium text-gray-700">{comment.deletedAt ? '' : authorName(comment)}</span>
+        <span>{formatTime(comment.createdAt)}</span>
+        {comment.editedAt && !comment.deletedAt && <span>(edited)</span>}
+      </div>
+
+      {comment.deletedAt ? (
+        <p className="text-sm italic text-gray-400">Comment deleted</p>
+      ) : editing === comment.id ? (
+        renderEditor(() => saveEdit(comment.id), 'Save')
+      ) : (
+        <Markdown source={comment.body} />
+      )}
+
+      {!comment.deletedAt && editing !== comment.id && (
+        <div className="flex items-center space-x-3 text-xs text-gray-500">
+          <button type="button" onClick={() => startReply(comment.id)} className="flex items-center hover:text-gray-700">
+            <Reply className="w-3 h-3 mr-1" />
+            Reply
+          </button>
+          {canChange(comment) && (
+            <>
+              <button type="button" onClick={() => startEdit(comment)} className="flex items-center hover:text-gray-700">
+                <Pencil className="w-3 h-3 mr-1" />
+                Edit
+              </button>
+              <button type="button" onClick={() => deleteComment(comment.id)} className="flex items-center hover:text-danger-600">
+                <Trash2 className="w-3 h-3 mr-1" />
+                Delete
+              </button>
+            </>
+          )}
+        </div>
+      )}
+
+      {replyTo === comment.id && renderEditor(() => addComment(text, comment.id), 'Reply')}
+
+      {comment.replies.length > 0 && (
+        <ul className="pl-4 border-l border-gray-200 space-y-3">
+          {comment.replies.map(renderThread)}
+        </ul>
+      )}
+    </li>
+  );
+
+  const renderEntry = (entry: TaskActivity, index: number) => (
+    <li key={index} className="text-sm">
+      <div className="text-xs text-gray-500">{formatTime(entry.at)}</div>
+      {entry.type === 'comment' ? (
+        <div>
+          <span className="text-xs font-medium text-gray-700">{authorName(entry.comment)} commented</span>
+          <Markdown source={entry.comment.body} />
+        </div>
+      ) : (
+        <p className="text-gray-700">{describeChange(entry.change)}</p>
+      )}
+    </li>
+  );
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 space-y-3">
+      <div className="flex items-center space-x-4 text-sm font-medium">
+        <button
+          type="button"
+          onClick={() => setView('comments')}
+          className={`flex items-center ${view === 'comments' ? 'text-gray-900' : 'text-gray-400 hover:text-gray-600'}`}
+        >
+          <MessageSquare className="w-4 h-4 mr-1" />
+          Comments
+        </button>
+        <button
+          type="button"
+          onClick={() => setView('activity')}
+          className={`flex items-center ${view === 'activity' ? 'text-gray-900' : 'text-gray-400 hover:text-gray-600'}`}
+        >
+          <Activity className="w-4 h-4 mr-1" />
+          Activity
+        </button>
+        <button
+          type="button"
+          onClick={() => setView('history')}
+          className={`flex items-center ${view === 'history' ? 'text-gray-900' : 'text-gray-400 hover:text-gray-600'}`}
+        >
+          <History className="w-4 h-4 mr-1" />
+          History
+        </button>
+      </div>
+
+      {view === 'comments' ? (
+        <>
+          {threads.length === 0 && <p className="text-sm text-gray-400">No comments yet</p>}
+          <ul className="space-y-4">
+            {threads.map(renderThread)}
+          </ul>
+
+          <div className="space-y-2 pt-2 border-t border-gray-100">
+            <textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              rows={3}
+              className="textarea text-sm"
+              placeholder="Add a comment (Markdown supported)"
+            />
+            <button
+              type="button"
+              onClick={() => addComment(draft)}
+              className="btn btn-primary text-xs"
+              disabled={isWorking || !draft.trim()}
+            >
+              Comment
+            </button>
+          </div>
+        </>
+      ) : view === 'activity' ? (
+        <>
+          {activity.length === 0 && <p className="text-sm text-gray-400">Nothing has happened yet</p>}
+          <ul className="space-y-3">
+            {activity.map(renderEntry)}
+          </ul>
+        </>
+      ) : (
+        <>
+          {history.length === 0 && <p className="text-sm text-gray-400">No changes yet</p>}
+          <ul className="space-y-1">
+            {history.map(change => (
+              <li key={change.id} className="text-sm">
+                <div className="flex items-baseline space-x-3">
+                  <span className="text-xs text-gray-500 whitespace-nowrap">{formatTime(change.changedAt)}</span>
+                  <span className="text-gray-700 flex-1">{describeChange(change)}</span>
+                  <button
+                    type="button"
+                    onClick={() => previewRevert(change.id)}
+                    className="flex items-center text-xs text-gray-400 hover:text-gray-700"
+                    title="Revert the task to this version"
+                    disabled={isWorking}
+                  >
+                    <RotateCcw className="w-3 h-3 mr-1" />
+                    Revert
+                  </button>
+                </div>
+
+                {preview?.auditId === change.id && (
+                  <div className="mt-2 ml-4 p-2 bg-gray-50 rounded space-y-2">
+                    {preview.result.changes.length === 0 ? (
+                      <p className="text-xs text-gray-500">The task already matches this version</p>
+                    ) : (
+                      <ul className="text-xs text-gray-700 space-y-1">
+                        {preview.result.changes.map(revertChange => (
+                          <li key={revertChange.fieldName}>
+                            {describeChange({
+                              fieldName: revertChange.fieldName,
+                              oldValue: revertChange.currentValue,
+                              newValue: revertChange.revertedValue,
+                            })}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                    {preview.result.skipped.length > 0 && (
+                      <ul className="text-xs text-warning-700 space-y-1">
+                        {preview.result.skipped.map(skip => (
+                          <li key={`${skip.fieldName}-${skip.code}`}>Not restored: {skip.message}</li>
+                        ))}
+                      </ul>
+                    )}
+                    <div className="flex space-x-2">
+                      {preview.result.changes.length > 0 && (
+                        <button
+                          type="button"
+                          onClick={() => confirmRevert(change.id)}
+                          className="btn btn-primary text-xs"
+                          disabled={isWorking}
+                        >
+                          Revert
+                        </button>
+                      )}
+                      <button
+                        type="button"
+                        onClick={() => setPreview(null)}
+                        className="btn btn-secondary text-xs"
+                        disabled={isWorking}
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+          {historyPage < historyPages && (
+            <button
+              type="button"
+              onClick={() => fetchHistory(historyPage + 1)}
+              className="btn btn-secondary text-xs"
+            >
+              Show older changes
+            </button>
+          )}
+        </>
+      )}
+
+      {error && (
+        <div className="flex items-center text-xs text-danger-700">
+          <AlertTriangle className="w-3 h-3 mr-1" />
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
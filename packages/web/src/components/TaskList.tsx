@@ -7,7 +7,6 @@ import {
   CheckCircle, 
   Circle, 
   ChevronRight, 
-  MoreHorizontal,
   Edit,
   Trash2,
   Play,
@@ -15,7 +14,7 @@ import {
   RotateCcw,
   CheckSquare
 } from 'lucide-react';
-import { Task, TaskStatus, Priority } from '@/types';
+import { Task, TaskStatus, Priority, SeriesScope, ChildDeletePolicy } from '@/types';
 import { isAfter, isBefore } from 'date-fns';
 import { formatLocalDateTime } from '@/lib/dateUtils';
 import EditTaskModal from './EditTaskModal';
@@ -23,6 +22,7 @@ import SubtaskManager from './SubtaskManager';
 import DependencyManager from './DependencyManager';
 import TaskLabels from './TaskLabels';
 import RecurringTaskBadge from './RecurringTaskBadge';
+import TaskRowMenu from './TaskRowMenu';
 
 interface TaskListProps {
   tasks: Task[];
@@ -66,9 +66,9 @@ export default function TaskList({ tasks, loading, onTaskUpdate }: TaskListProps
     setExpandedDependencies(newExpanded);
   };
 
-  const handleStatusChange = async (taskId: string, newStatus: TaskStatus) => {
+  const handleStatusChange = async (taskId: string, newStatus: TaskStatus, force = false) => {
     try {
-      const response = await fetch(`/api/tasks/${taskId}`, {
+      const response = await fetch(`/api/tasks/${taskId}${force ? '?force=true' : ''}`, {
         method: 'PATCH',
         headers: {
           'Content-Type': 'application/json',
@@ -78,6 +78,16 @@ export default function TaskList({ tasks, loading, onTaskUpdate }: TaskListProps
 
       if (!response.ok) {
         const errorData = await response.json().catch(() => ({}));
+
+        // Auto-blocking refuses to start work behind open blockers; let the user override
+        if (errorData.error?.code === 'OPEN_BLOCKERS' && !force) {
+          const titles = (errorData.error.details?.openBlockers || []).map((b: { title: string }) => b.title).join(', ');
+          if (confirm(`This task is waiting on: ${titles}. Start it anyway?`)) {
+            await handleStatusChange(taskId, newStatus, true);
+          }
+          return;
+        }
+
         throw new Error(errorData.error?.message || `Failed to update task: ${response.status} ${response.statusText}`);
       }
 
@@ -131,11 +141,12 @@ export default function TaskList({ tasks, loading, onTaskUpdate }: TaskListProps
     }
   };
 
-  const handleEditTask = async (taskData: any) => {
+  const handleEditTask = async (taskData: any, scope?: SeriesScope) => {
     if (!editingTask) return;
     
     try {
-      const response = await fetch(`/api/tasks/${editingTask.id}`, {
+      const query = scope ? `?scope=${scope}` : '';
+      const response = await fetch(`/api/tasks/${editingTask.id}${query}`, {
         method: 'PATCH',
         headers: {
           'Content-Type': 'application/json',
@@ -156,9 +167,10 @@ export default function TaskList({ tasks, loading, onTaskUpdate }: TaskListProps
     }
   };
 
-  const handleDeleteTask = async (taskId: string) => {
+  const handleDeleteTask = async (taskId: string, children?: ChildDeletePolicy) => {
     try {
-      const response = await fetch(`/api/tasks/${taskId}`, {
+      const query = children ? `?children=${children}` : '';
+      const response = await fetch(`/api/tasks/${taskId}${query}`, {
         method: 'DELETE',
         headers: {
           'Content-Type': 'application/json',
@@ -178,6 +190,51 @@ export default function TaskList({ tasks, loading, onTaskUpdate }: TaskListProps
     }
   };
 
+  // The copy takes its subtasks along and lands beside the original
+  const handleDuplicateTask = async (taskId: string) => {
+    try {
+      const response = await fetch(`/api/tasks/${taskId}/clone`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({}),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error?.message || `Failed to duplicate task: ${response.status} ${response.statusText}`);
+      }
+
+      onTaskUpdate();
+    } catch (error) {
+      console.error('Error duplicating task:', error);
+      alert(error instanceof Error ? error.message : 'Failed to duplicate task');
+    }
+  };
+
+  const handleMoveTask = async (taskId: string, parentId: string | null) => {
+    try {
+      const response = await fetch(`/api/tasks/${taskId}/move`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ parentId }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error?.message || `Failed to move task: ${response.status} ${response.statusText}`);
+      }
+
+      onTaskUpdate();
+    } catch (error) {
+      console.error('Error moving task:', error);
+      alert(error instanceof Error ? error.message : 'Failed to move task');
+    }
+  };
+
   const getStatusIcon = (status: TaskStatus) => {
     switch (status) {
       case 'Completed':
@@ -281,7 +338,10 @@ export default function TaskList({ tasks, loading, onTaskUpdate }: TaskListProps
                 <div className="flex items-start space-x-3 flex-1">
                   <div className="flex items-center space-x-2 mt-1">
                     {getStatusIcon(task.status)}
-                    <span className={`badge ${getStatusColor(task.status)}`}>
+                    <span
+                      className={`badge ${getStatusColor(task.status)}`}
+                      title={task.autoBlocked ? 'Waiting on open dependencies' : undefined}
+                    >
                       {formatStatusDisplay(task.status)}
                     </span>
                   </div>
@@ -453,6 +513,13 @@ export default function TaskList({ tasks, loading, onTaskUpdate }: TaskListProps
                   >
                     <Edit className="w-3 h-3" />
                   </button>
+
+                  <TaskRowMenu
+                    task={task}
+                    tasks={tasks}
+                    onDuplicate={handleDuplicateTask}
+                    onMove={handleMoveTask}
+                  />
                 </div>
               </div>
             </div>
@@ -467,6 +534,7 @@ export default function TaskList({ tasks, loading, onTaskUpdate }: TaskListProps
           onClose={() => setEditingTask(null)}
           onSubmit={handleEditTask}
           onDelete={handleDeleteTask}
+          onTaskUpdate={onTaskUpdate}
         />
       )}
     </>
@@ -0,0 +1,135 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import { MoreHorizontal, Copy, FolderInput } from 'lucide-react';
+import { Task } from '@/types';
+
+interface TaskRowMenuProps {
+  task: Task;
+  tasks: Task[];
+  onDuplicate: (taskId: string) => void;
+  onMove: (taskId: string, parentId: string | null) => void;
+}
+
+// The task and everything under it, which it can't be moved into
+function subtreeIds(taskId: string, tasks: Task[]): Set<string> {
+  const ids = new Set([taskId]);
+  let added = true;
+  while (added) {
+    added = false;
+    for (const task of tasks) {
+      if (task.parentId && ids.has(task.parentId) && !ids.has(task.id)) {
+        ids.add(task.id);
+        added = true;
+      }
+    }
+  }
+  return ids;
+}
+
+export default function TaskRowMenu({ task, tasks, onDuplicate, onMove }: TaskRowMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isMoving, setIsMoving] = useState(false);
+  const [parentId, setParentId] = useState(task.parentId ?? '');
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+        setIsMoving(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  const excluded = subtreeIds(task.id, tasks);
+  const parentOptions = tasks.filter(t => !excluded.has(t.id));
+
+  const close = () => {
+    setIsOpen(false);
+    setIsMoving(false);
+  };
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => (isOpen ? close() : setIsOpen(true))}
+        className="btn btn-sm btn-secondary"
+        title="More actions"
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+      >
+        <MoreHorizontal className="w-3 h-3" />
+      </button>
+
+      {isOpen && (
+        <div
+          role="menu"
+          className="absolute right-0 z-50 mt-1 w-56 bg-white border border-gray-200 rounded-lg shadow-lg py-1"
+        >
+          {isMoving ? (
+            <div className="p-2 space-y-2">
+              <select
+                value={parentId}
+                onChange={(e) => setParentId(e.target.value)}
+                className="select text-sm w-full"
+                aria-label="New parent task"
+              >
+                <option value="">No parent (top level)</option>
+                {parentOptions.map(option => (
+                  <option key={option.id} value={option.id}>
+                    {option.title}
+                  </option>
+                ))}
+              </select>
+              <div className="flex justify-end space-x-2">
+                <button type="button" onClick={close} className="btn btn-sm btn-secondary">
+                  Cancel
+                </button>
+                <button
+                  type="button"
+                  onClick={() => {
+                    onMove(task.id, parentId || null);
+                    close();
+                  }}
+                  className="btn btn-sm btn-primary"
+                  disabled={(parentId || null) === (task.parentId ?? null)}
+                >
+                  Move
+                </button>
+              </div>
+            </div>
+          ) : (
+            <>
+              <button
+                role="menuitem"
+                onClick={() => {
+                  onDuplicate(task.id);
+                  close();
+                }}
+                className="flex items-center w-full px-3 py-2 text-sm text-gray-700 hover:bg-gray-50"
+              >
+                <Copy className="w-4 h-4 mr-2" />
+                Duplicate
+              </button>
+              <button
+                role="menuitem"
+                onClick={() => {
+                  setParentId(task.parentId ?? '');
+                  setIsMoving(true);
+                }}
+                className="flex items-center w-full px-3 py-2 text-sm text-gray-700 hover:bg-gray-50"
+              >
+                <FolderInput className="w-4 h-4 mr-2" />
+                Move...
+              </button>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
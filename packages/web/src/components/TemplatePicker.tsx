@@ -0,0 +1,159 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { LayoutTemplate, AlertTriangle } from 'lucide-react';
+import { TaskTemplate, InstantiateTemplateResult } from '@/types';
+import DateTimePicker from './DateTimePicker';
+
+interface TemplatePickerProps {
+  parentId?: string;
+  onApplied: (result: InstantiateTemplateResult) => void;
+}
+
+export default function TemplatePicker({ parentId, onApplied }: TemplatePickerProps) {
+  const [templates, setTemplates] = useState<TaskTemplate[]>([]);
+  const [templateId, setTemplateId] = useState('');
+  const [variables, setVariables] = useState<Record<string, string>>({});
+  const [anchorDate, setAnchorDate] = useState('');
+  const [isApplying, setIsApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchTemplates = async () => {
+      try {
+        const response = await fetch('/api/tasks/templates');
+        if (response.ok) {
+          const data = await response.json();
+          setTemplates(data.data || []);
+        }
+      } catch (error) {
+        console.error('Error fetching templates:', error);
+      }
+    };
+    fetchTemplates();
+  }, []);
+
+  const template = templates.find(t => t.id === templateId);
+
+  const handleSelect = (id: string) => {
+    setTemplateId(id);
+    setVariables({});
+    setError(null);
+  };
+
+  const handleApply = async () => {
+    if (!template) return;
+    setIsApplying(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/tasks/templates/${template.id}/instantiate`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          variables,
+          anchorDate: anchorDate || undefined,
+          parentId: parentId || undefined,
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error?.message || `Failed to create tasks from template: ${response.status} ${response.statusText}`);
+      }
+
+      const data = await response.json();
+      onApplied(data.data);
+    } catch (error) {
+      console.error('Error applying template:', error);
+      setError(error instanceof Error ? error.message : 'Failed to create tasks from template');
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  // Nothing to pick from until a task has been saved as a template
+  if (templates.length === 0) {
+    return null;
+  }
+
+  const isComplete = template?.variables.every(name => variables[name]?.trim()) ?? false;
+
+  return (
+    <div className="p-4 bg-gray-50 rounded-lg space-y-4">
+      <div>
+        <label htmlFor="templateId" className="flex items-center text-sm font-medium text-gray-700 mb-2">
+          <LayoutTemplate className="w-4 h-4 mr-2" />
+          Start from a template
+        </label>
+        <select
+          id="templateId"
+          className="select w-full"
+          value={templateId}
+          onChange={(e) => handleSelect(e.target.value)}
+        >
+          <option value="">No template</option>
+          {templates.map(t => (
+            <option key={t.id} value={t.id}>
+              {t.name} ({t.tasks.length} {t.tasks.length === 1 ? 'task' : 'tasks'})
+            </option>
+          ))}
+        </select>
+        {template?.description && (
+          <p className="mt-1 text-xs text-gray-600">{template.description}</p>
+        )}
+      </div>
+
+      {template && (
+        <>
+          {template.variables.map(name => (
+            <div key={name}>
+              <label htmlFor={`template-${name}`} className="block text-sm font-medium text-gray-700 mb-2">
+                {name} *
+              </label>
+              <input
+                type="text"
+                id={`template-${name}`}
+                className="input w-full"
+                value={variables[name] ?? ''}
+                onChange={(e) => setVariables(prev => ({ ...prev, [name]: e.target.value }))}
+              />
+            </div>
+          ))}
+
+          <div>
+            <label htmlFor="anchorDate" className="block text-sm font-medium text-gray-700 mb-2">
+              Anchor Date
+            </label>
+            <DateTimePicker
+              value={anchorDate}
+              onChange={setAnchorDate}
+              id="anchorDate"
+              className="w-full"
+            />
+            <p className="mt-1 text-xs text-gray-500">Due dates are counted from here; leave empty to count from now</p>
+          </div>
+
+          {error && (
+            <div className="flex items-center p-3 bg-danger-50 border border-danger-200 rounded-lg">
+              <AlertTriangle className="w-4 h-4 text-danger-600 mr-3" />
+              <p className="text-sm text-danger-700">{error}</p>
+            </div>
+          )}
+
+          <div className="flex justify-end">
+            <button
+              type="button"
+              onClick={handleApply}
+              className="btn btn-primary"
+              disabled={isApplying || !isComplete}
+            >
+              {isApplying ? 'Creating...' : `Create ${template.tasks.length} ${template.tasks.length === 1 ? 'Task' : 'Tasks'}`}
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
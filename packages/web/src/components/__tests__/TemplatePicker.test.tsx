@@ -0,0 +1,95 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import TemplatePicker from '../TemplatePicker';
+
+// Mock the fetch API
+global.fetch = vi.fn();
+
+const mockTemplates = [
+  {
+    id: 't1',
+    name: 'Release checklist',
+    description: 'Everything for a release',
+    tasks: [
+      { key: '1', parentKey: null, title: 'Release {{version}}' },
+      { key: '2', parentKey: '1', title: 'Tag {{version}}' },
+    ],
+    variables: ['version'],
+    createdAt: '2025-03-01T00:00:00.000Z',
+    updatedAt: '2025-03-01T00:00:00.000Z',
+  },
+];
+
+describe('TemplatePicker', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (fetch as any).mockResolvedValue({
+      ok: true,
+      json: async () => ({ data: mockTemplates }),
+    });
+  });
+
+  it('should render nothing when there are no templates', async () => {
+    (fetch as any).mockResolvedValue({
+      ok: true,
+      json: async () => ({ data: [] }),
+    });
+    const { container } = render(<TemplatePicker onApplied={vi.fn()} />);
+
+    await waitFor(() => expect(fetch).toHaveBeenCalledWith('/api/tasks/templates'));
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it('should ask for every variable before creating the tasks', async () => {
+    const user = userEvent.setup();
+    render(<TemplatePicker onApplied={vi.fn()} />);
+
+    await user.selectOptions(await screen.findByLabelText(/start from a template/i), 't1');
+
+    const create = screen.getByText('Create 2 Tasks');
+    expect(create).toBeDisabled();
+    await user.type(screen.getByLabelText(/version/), '2.4');
+    expect(create).toBeEnabled();
+  });
+
+  it('should instantiate the template under the parent', async () => {
+    const user = userEvent.setup();
+    const onApplied = vi.fn();
+    render(<TemplatePicker parentId="p1" onApplied={onApplied} />);
+
+    await user.selectOptions(await screen.findByLabelText(/start from a template/i), 't1');
+    await user.type(screen.getByLabelText(/version/), '2.4');
+
+    const result = { task: { id: 'n1' }, createdTaskIds: { '1': 'n1', '2': 'n2' }, skippedLabelIds: [] };
+    (fetch as any).mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ data: result }),
+    });
+    await user.click(screen.getByText('Create 2 Tasks'));
+
+    await waitFor(() => expect(onApplied).toHaveBeenCalledWith(result));
+    const [url, init] = (fetch as any).mock.calls.at(-1);
+    expect(url).toBe('/api/tasks/templates/t1/instantiate');
+    expect(JSON.parse(init.body)).toEqual({ variables: { version: '2.4' }, parentId: 'p1' });
+  });
+
+  it('should show the error when creating fails', async () => {
+    const user = userEvent.setup();
+    const onApplied = vi.fn();
+    render(<TemplatePicker onApplied={onApplied} />);
+
+    await user.selectOptions(await screen.findByLabelText(/start from a template/i), 't1');
+    await user.type(screen.getByLabelText(/version/), '2.4');
+
+    (fetch as any).mockResolvedValueOnce({
+      ok: false,
+      status: 409,
+      json: async () => ({ error: { message: 'Missing values for template variables' } }),
+    });
+    await user.click(screen.getByText('Create 2 Tasks'));
+
+    expect(await screen.findByText('Missing values for template variables')).toBeInTheDocument();
+    expect(onApplied).not.toHaveBeenCalled();
+  });
+});
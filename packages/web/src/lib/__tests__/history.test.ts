@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { describeChange, formatAuditValue } from '../history';
+
+describe('history', () => {
+  describe('formatAuditValue', () => {
+    it('should count relations', () => {
+      expect(formatAuditValue('labels', '["a","b"]')).toBe('2 labels');
+      expect(formatAuditValue('assignees', '["u1"]')).toBe('1 assignee');
+      expect(formatAuditValue('dependencies', '[]')).toBe('none');
+    });
+
+    it('should read numbers, flags and recurrence rules', () => {
+      expect(formatAuditValue('estimatedDurationMinutes', '90')).toBe('90 min');
+      expect(formatAuditValue('isSplittable', 'true')).toBe('yes');
+      expect(formatAuditValue('recurrencePattern', JSON.stringify({ type: 'Weekly', rrule: 'FREQ=WEEKLY;BYDAY=MO' })))
+        .toBe('FREQ=WEEKLY;BYDAY=MO');
+    });
+
+    it('should shorten long text', () => {
+      expect(formatAuditValue('description', 'x'.repeat(100))).toHaveLength(61);
+    });
+  });
+
+  describe('describeChange', () => {
+    it('should name the field and both values', () => {
+      expect(describeChange({ fieldName: 'status', oldValue: 'Todo', newValue: 'Completed' }))
+        .toBe('Status: Todo → Completed');
+      expect(describeChange({ fieldName: 'parentId', oldValue: 'p1', newValue: null }))
+        .toBe('Parent task: p1 → none');
+    });
+  });
+});
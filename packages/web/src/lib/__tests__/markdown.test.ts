@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { parseInline, parseMarkdown } from '../markdown';
+
+describe('markdown', () => {
+  describe('parseInline', () => {
+    it('should read emphasis, code and links', () => {
+      expect(parseInline('Ship **before** `v2`, see [notes](https://example.com)')).toEqual([
+        { type: 'text', text: 'Ship ' },
+        { type: 'strong', children: [{ type: 'text', text: 'before' }] },
+        { type: 'text', text: ' ' },
+        { type: 'code', text: 'v2' },
+        { type: 'text', text: ', see ' },
+        { type: 'link', href: 'https://example.com', children: [{ type: 'text', text: 'notes' }] },
+      ]);
+    });
+
+    it('should keep unsafe links and snake_case names as text', () => {
+      expect(parseInline('[click](javascript:alert(1)) in my_task_name')).toEqual([
+        { type: 'text', text: '[click](javascript:alert(1)) in my_task_name' },
+      ]);
+    });
+  });
+
+  describe('parseMarkdown', () => {
+    it('should split paragraphs, lists, quotes and code blocks', () => {
+      const blocks = parseMarkdown('First line\nsecond line\n\n- one\n- two\n\n> quoted\n\n```\nconst x = 1;\n```');
+
+      expect(blocks.map(block => block.type)).toEqual(['paragraph', 'list', 'quote', 'code']);
+      expect(blocks[0]).toMatchObject({ type: 'paragraph', lines: [[{ text: 'First line' }], [{ text: 'second line' }]] });
+      expect(blocks[1]).toMatchObject({ type: 'list', ordered: false, items: [[{ text: 'one' }], [{ text: 'two' }]] });
+      expect(blocks[3]).toEqual({ type: 'code', text: 'const x = 1;' });
+    });
+
+    it('should read numbered lists and headings', () => {
+      expect(parseMarkdown('## Plan\n1. draft\n2. review')).toEqual([
+        { type: 'heading', level: 2, children: [{ type: 'text', text: 'Plan' }] },
+        { type: 'list', ordered: true, items: [[{ type: 'text', text: 'draft' }], [{ type: 'text', text: 'review' }]] },
+      ]);
+    });
+  });
+});
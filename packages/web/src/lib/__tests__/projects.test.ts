@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { projectApiPath, projectCookie, readProjectCookie } from '../projects';
+
+describe('projects', () => {
+  describe('projectApiPath', () => {
+    it('should move task, label and schedule routes under the project', () => {
+      expect(projectApiPath('/api/tasks', 'p1')).toBe('/api/projects/p1/tasks');
+      expect(projectApiPath('/api/tasks/abc/complete', 'p1')).toBe('/api/projects/p1/tasks/abc/complete');
+      expect(projectApiPath('/api/labels', 'p1')).toBe('/api/projects/p1/labels');
+      expect(projectApiPath('/api/schedule/plan', 'p1')).toBe('/api/projects/p1/schedule/plan');
+    });
+
+    it('should leave other routes alone', () => {
+      expect(projectApiPath('/api/auth/me', 'p1')).toBeNull();
+      expect(projectApiPath('/api/projects', 'p1')).toBeNull();
+      expect(projectApiPath('/api/tasksets', 'p1')).toBeNull();
+    });
+  });
+
+  describe('project cookie', () => {
+    it('should read back the project it stores', () => {
+      const cookie = projectCookie('p1').split(';')[0];
+
+      expect(readProjectCookie(`deano_session=abc; ${cookie}`)).toBe('p1');
+    });
+
+    it('should read no project once cleared', () => {
+      expect(readProjectCookie(projectCookie(null).split(';')[0])).toBeNull();
+      expect(readProjectCookie('deano_session=abc')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { buildRRule, parseRRule, describeRRule, RecurrenceRuleOptions } from '../recurrence';
+
+const base: RecurrenceRuleOptions = { freq: 'DAILY', interval: 1, byDay: [], exdates: [] };
+
+describe('recurrence', () => {
+  describe('buildRRule', () => {
+    it('should build weekly rules with sorted weekdays', () => {
+      expect(buildRRule({ ...base, freq: 'WEEKLY', interval: 2, byDay: [5, 1] }))
+        .toBe('RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,FR');
+    });
+
+    it('should build the nth weekday of the month with BYSETPOS', () => {
+      expect(buildRRule({ ...base, freq: 'MONTHLY', setPos: -1, setPosDay: 5 }))
+        .toBe('RRULE:FREQ=MONTHLY;BYDAY=FR;BYSETPOS=-1');
+      expect(buildRRule({ ...base, freq: 'MONTHLY', monthDay: -1 }))
+        .toBe('RRULE:FREQ=MONTHLY;BYMONTHDAY=-1');
+    });
+
+    it('should add COUNT or UNTIL and EXDATE lines', () => {
+      expect(buildRRule({ ...base, count: 5, exdates: ['2025-03-04T09:00:00.000Z'] }))
+        .toBe('RRULE:FREQ=DAILY;COUNT=5\nEXDATE:20250304T090000Z');
+      expect(buildRRule({ ...base, until: '2025-06-30T17:00:00.000Z' }))
+        .toBe('RRULE:FREQ=DAILY;UNTIL=20250630T170000Z');
+    });
+  });
+
+  describe('parseRRule', () => {
+    it('should read back rules the builder produced', () => {
+      const options: RecurrenceRuleOptions = {
+        ...base,
+        freq: 'MONTHLY',
+        interval: 3,
+        setPos: 2,
+        setPosDay: 2,
+        count: 4,
+        exdates: ['2025-03-11T09:00:00.000Z'],
+      };
+      expect(parseRRule(buildRRule(options))).toEqual(options);
+    });
+
+    it('should accept ordinal weekdays and bare rules', () => {
+      expect(parseRRule('FREQ=MONTHLY;BYDAY=-1FR')).toMatchObject({ freq: 'MONTHLY', setPos: -1, setPosDay: 5 });
+      expect(parseRRule('FREQ=WEEKLY;BYDAY=TU,TH')).toMatchObject({ freq: 'WEEKLY', byDay: [2, 4] });
+    });
+
+    it('should return null for rules the builder cannot express', () => {
+      expect(parseRRule('RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=-1SU')).toBeNull();
+      expect(parseRRule('RRULE:FREQ=MONTHLY;BYDAY=MO,TU;BYSETPOS=1')).toBeNull();
+      expect(parseRRule('RRULE:FREQ=DAILY;BYDAY=MO')).toBeNull();
+      expect(parseRRule('EXDATE:20250101T000000Z')).toBeNull();
+    });
+  });
+
+  describe('describeRRule', () => {
+    it('should describe rules in words', () => {
+      expect(describeRRule({ ...base, freq: 'WEEKLY', byDay: [1, 4] })).toBe('Every week on Monday, Thursday');
+      expect(describeRRule({ ...base, freq: 'MONTHLY', setPos: -1, setPosDay: 5, count: 12 }))
+        .toBe('Every month on the last Friday, 12 times');
+      expect(describeRRule({ ...base, interval: 2, exdates: ['2025-01-01T00:00:00.000Z'] }))
+        .toBe('Every 2 days (skipping 1 date)');
+    });
+
+    it('should say when the next date counts from completion', () => {
+      expect(describeRRule({ ...base, interval: 5 }, 'afterCompletion')).toBe('Every 5 days after completion');
+      expect(describeRRule({ ...base, freq: 'WEEKLY', count: 3 }, 'afterCompletion'))
+        .toBe('Every week after completion, 3 times');
+    });
+  });
+});
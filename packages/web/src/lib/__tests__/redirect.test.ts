@@ -0,0 +1,24 @@
+import { describe, it, expect } from 'vitest';
+import { safeNextPath } from '../redirect';
+
+const origin = 'https://tasks.example';
+
+describe('safeNextPath', () => {
+  it('should keep paths on this site', () => {
+    expect(safeNextPath('/trash', origin)).toBe('/trash');
+    expect(safeNextPath('/labels?sort=name#top', origin)).toBe('/labels?sort=name#top');
+  });
+
+  it('should go home without a path', () => {
+    expect(safeNextPath(null, origin)).toBe('/');
+    expect(safeNextPath('', origin)).toBe('/');
+  });
+
+  it('should not leave the site', () => {
+    expect(safeNextPath('https://evil.example', origin)).toBe('/');
+    expect(safeNextPath('//evil.example', origin)).toBe('/');
+    expect(safeNextPath('/\\evil.example', origin)).toBe('/');
+    expect(safeNextPath(decodeURIComponent('/%5Cevil.example'), origin)).toBe('/');
+    expect(safeNextPath('javascript:alert(1)', origin)).toBe('/');
+  });
+});
@@ -0,0 +1,69 @@
+// Reads audit trail entries back as text. The API stores every value as text: dates in
+// ISO 8601, numbers and booleans as written, and labels, assignees and dependencies as JSON arrays.
+
+import { TaskAudit } from '@/types';
+import { formatLocalDateTime } from './dateUtils';
+
+const FIELD_LABELS: Record<string, string> = {
+  title: 'Title',
+  description: 'Description',
+  status: 'Status',
+  priority: 'Priority',
+  dueAt: 'Due date',
+  estimatedDurationMinutes: 'Estimate',
+  allowParentAutoComplete: 'Completes with subtasks',
+  isSplittable: 'Splittable',
+  minChunkMinutes: 'Smallest chunk',
+  parentId: 'Parent task',
+  isRecurring: 'Recurring',
+  recurrencePattern: 'Recurrence',
+  labels: 'Labels',
+  assignees: 'Assignees',
+  dependencies: 'Dependencies',
+};
+
+const COUNTED: Record<string, [string, string]> = {
+  labels: ['label', 'labels'],
+  assignees: ['assignee', 'assignees'],
+  dependencies: ['blocker', 'blockers'],
+};
+
+const MAX_TEXT = 60;
+
+export function fieldLabel(fieldName: string): string {
+  return FIELD_LABELS[fieldName] ?? fieldName;
+}
+
+export function formatAuditValue(fieldName: string, value: string | null): string {
+  if (value === null || value === '') {
+    return 'none';
+  }
+
+  if (COUNTED[fieldName]) {
+    const count = (JSON.parse(value) as unknown[]).length;
+    const [one, many] = COUNTED[fieldName];
+    return count === 0 ? 'none' : `${count} ${count === 1 ? one : many}`;
+  }
+
+  switch (fieldName) {
+    case 'dueAt':
+      return formatLocalDateTime(value);
+    case 'estimatedDurationMinutes':
+    case 'minChunkMinutes':
+      return `${value} min`;
+    case 'allowParentAutoComplete':
+    case 'isSplittable':
+    case 'isRecurring':
+      return value === 'true' ? 'yes' : 'no';
+    case 'recurrencePattern': {
+      const pattern = JSON.parse(value) as { rrule?: string; type?: string };
+      return pattern.rrule?.split('\n')[0] ?? pattern.type ?? 'set';
+    }
+    default:
+      return value.length > MAX_TEXT ? `${value.slice(0, MAX_TEXT)}…` : value;
+  }
+}
+
+export function describeChange(change: Pick<TaskAudit, 'fieldName' | 'oldValue' | 'newValue'>): string {
+  return `${fieldLabel(change.fieldName)}: ${formatAuditValue(change.fieldName, change.oldValue)} → ${formatAuditValue(change.fieldName, change.newValue)}`;
+}
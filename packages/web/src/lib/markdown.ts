@@ -0,0 +1,142 @@
+// Reads the small Markdown subset comments use into a tree the Markdown component renders.
+// Nothing is ever turned into raw HTML, and links only keep http(s) and mailto targets.
+
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'strong'; children: MarkdownInline[] }
+  | { type: 'em'; children: MarkdownInline[] }
+  | { type: 'link'; href: string; children: MarkdownInline[] };
+
+// A paragraph or quote keeps its line breaks as separate lines
+export type MarkdownBlock =
+  | { type: 'paragraph'; lines: MarkdownInline[][] }
+  | { type: 'heading'; level: number; children: MarkdownInline[] }
+  | { type: 'list'; ordered: boolean; items: MarkdownInline[][] }
+  | { type: 'quote'; lines: MarkdownInline[][] }
+  | { type: 'code'; text: string };
+
+const INLINE = /`([^`]+)`|\*\*(.+?)\*\*|__(.+?)__|\*([^*\s](?:[^*]*[^*\s])?)\*|\b_([^_\s](?:[^_]*[^_\s])?)_\b|\[([^\]]+)\]\(([^)\s]+)\)/;
+const SAFE_HREF = /^(https?:|mailto:)/i;
+
+const FENCE = /^```/;
+const HEADING = /^(#{1,3})\s+(.*)$/;
+const BULLET = /^\s*[-*+]\s+(.*)$/;
+const NUMBERED = /^\s*\d+[.)]\s+(.*)$/;
+const QUOTE = /^>\s?(.*)$/;
+
+export function parseInline(text: string): MarkdownInline[] {
+  const nodes: MarkdownInline[] = [];
+  let rest = text;
+
+  while (rest) {
+    const match = rest.match(INLINE);
+    if (!match || match.index === undefined) {
+      nodes.push({ type: 'text', text: rest });
+      break;
+    }
+    if (match.index > 0) {
+      nodes.push({ type: 'text', text: rest.slice(0, match.index) });
+    }
+
+    const [whole, code, strong, strongAlt, em, emAlt, linkText, href] = match;
+    if (code !== undefined) {
+      nodes.push({ type: 'code', text: code });
+    } else if (strong !== undefined || strongAlt !== undefined) {
+      nodes.push({ type: 'strong', children: parseInline(strong ?? strongAlt) });
+    } else if (em !== undefined || emAlt !== undefined) {
+      nodes.push({ type: 'em', children: parseInline(em ?? emAlt) });
+    } else if (SAFE_HREF.test(href)) {
+      nodes.push({ type: 'link', href, children: parseInline(linkText) });
+    } else {
+      nodes.push({ type: 'text', text: whole });
+    }
+    rest = rest.slice(match.index + whole.length);
+  }
+
+  // Neighbouring text (e.g. from an unsafe link) reads as one run
+  return nodes.reduce<MarkdownInline[]>((merged, node) => {
+    const last = merged[merged.length - 1];
+    if (node.type === 'text' && last?.type === 'text') {
+      merged[merged.length - 1] = { type: 'text', text: last.text + node.text };
+    } else {
+      merged.push(node);
+    }
+    return merged;
+  }, []);
+}
+
+export function parseMarkdown(source: string): MarkdownBlock[] {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: MarkdownBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    if (FENCE.test(line)) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !FENCE.test(lines[i])) {
+        code.push(lines[i]);
+        i++;
+      }
+      i++; // closing fence, if any
+      blocks.push({ type: 'code', text: code.join('\n') });
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, children: parseInline(heading[2]) });
+      i++;
+      continue;
+    }
+
+    const listItem = line.match(BULLET) ? BULLET : line.match(NUMBERED) ? NUMBERED : null;
+    if (listItem) {
+      const items: MarkdownInline[][] = [];
+      let item: RegExpMatchArray | null;
+      while (i < lines.length && (item = lines[i].match(listItem))) {
+        items.push(parseInline(item[1]));
+        i++;
+      }
+      blocks.push({ type: 'list', ordered: listItem === NUMBERED, items });
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const quoted: MarkdownInline[][] = [];
+      let quote: RegExpMatchArray | null;
+      while (i < lines.length && (quote = lines[i].match(QUOTE))) {
+        quoted.push(parseInline(quote[1]));
+        i++;
+      }
+      blocks.push({ type: 'quote', lines: quoted });
+      continue;
+    }
+
+    // A paragraph runs until a blank line or the start of another block
+    const paragraph: MarkdownInline[][] = [];
+    while (
+      i < lines.length &&
+      lines[i].trim() &&
+      !FENCE.test(lines[i]) &&
+      !HEADING.test(lines[i]) &&
+      !BULLET.test(lines[i]) &&
+      !NUMBERED.test(lines[i]) &&
+      !QUOTE.test(lines[i])
+    ) {
+      paragraph.push(parseInline(lines[i]));
+      i++;
+    }
+    blocks.push({ type: 'paragraph', lines: paragraph });
+  }
+
+  return blocks;
+}
@@ -0,0 +1,26 @@
+// The project picked in the switcher; personal tasks when unset
+export const PROJECT_COOKIE = 'deano_project';
+
+// API routes that also exist per project, under /api/projects/:projectId
+const PROJECT_SCOPED_PREFIXES = ['/api/tasks', '/api/labels', '/api/schedule'];
+
+// Maps an API path onto the current project's copy of it, or returns null if it isn't project-scoped
+export function projectApiPath(pathname: string, projectId: string): string | null {
+  const prefix = PROJECT_SCOPED_PREFIXES.find(p => pathname === p || pathname.startsWith(`${p}/`));
+  if (!prefix) {
+    return null;
+  }
+  return `/api/projects/${encodeURIComponent(projectId)}${pathname.slice('/api'.length)}`;
+}
+
+export function readProjectCookie(cookie: string): string | null {
+  const match = cookie.split(';').map(part => part.trim()).find(part => part.startsWith(`${PROJECT_COOKIE}=`));
+  const value = match ? decodeURIComponent(match.slice(PROJECT_COOKIE.length + 1)) : '';
+  return value || null;
+}
+
+export function projectCookie(projectId: string | null): string {
+  return projectId
+    ? `${PROJECT_COOKIE}=${encodeURIComponent(projectId)}; path=/; max-age=31536000; samesite=lax`
+    : `${PROJECT_COOKIE}=; path=/; max-age=0; samesite=lax`;
+}
@@ -0,0 +1,175 @@
+// Builds and reads back the RFC 5545 rules the recurrence selector can express.
+// The API does the real evaluation; anything else is edited as a raw rule.
+
+import { RecurrenceMode } from '@/types';
+
+export type RRuleFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+export interface RecurrenceRuleOptions {
+  freq: RRuleFrequency;
+  interval: number;
+  byDay: number[];      // weekly: 0=Sunday, 1=Monday, etc.
+  monthDay?: number;    // monthly: day of the month, -1 for the last day
+  setPos?: number;      // monthly: 1-4 or -1, with setPosDay, e.g. the last Friday
+  setPosDay?: number;
+  count?: number;
+  until?: string;       // ISO 8601
+  exdates: string[];    // ISO 8601 occurrences to skip
+}
+
+export const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+export const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const SET_POS_NAMES: Record<number, string> = { 1: 'first', 2: 'second', 3: 'third', 4: 'fourth', [-1]: 'last' };
+const UNITS: Record<RRuleFrequency, string> = { DAILY: 'day', WEEKLY: 'week', MONTHLY: 'month', YEARLY: 'year' };
+
+function toRRuleDate(iso: string): string {
+  return new Date(iso).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function fromRRuleDate(value: string): string | null {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/);
+  if (!match) return null;
+  const [, y, mo, d, h = '00', mi = '00', s = '00'] = match;
+  return `${y}-${mo}-${d}T${h}:${mi}:${s}.000Z`;
+}
+
+export function buildRRule(options: RecurrenceRuleOptions): string {
+  const parts = [`FREQ=${options.freq}`];
+  if (options.interval > 1) parts.push(`INTERVAL=${options.interval}`);
+
+  if (options.freq === 'WEEKLY' && options.byDay.length > 0) {
+    parts.push(`BYDAY=${[...options.byDay].sort((a, b) => a - b).map(d => WEEKDAY_CODES[d]).join(',')}`);
+  }
+  if (options.freq === 'MONTHLY') {
+    if (options.setPos !== undefined && options.setPosDay !== undefined) {
+      parts.push(`BYDAY=${WEEKDAY_CODES[options.setPosDay]}`, `BYSETPOS=${options.setPos}`);
+    } else if (options.monthDay !== undefined) {
+      parts.push(`BYMONTHDAY=${options.monthDay}`);
+    }
+  }
+
+  if (options.count !== undefined) {
+    parts.push(`COUNT=${options.count}`);
+  } else if (options.until) {
+    parts.push(`UNTIL=${toRRuleDate(options.until)}`);
+  }
+
+  const lines = [`RRULE:${parts.join(';')}`];
+  if (options.exdates.length > 0) {
+    lines.push(`EXDATE:${options.exdates.map(toRRuleDate).join(',')}`);
+  }
+  return lines.join('\n');
+}
+
+// Returns null for rules the builder cannot represent
+export function parseRRule(text: string): RecurrenceRuleOptions | null {
+  const options: RecurrenceRuleOptions = { freq: 'DAILY', interval: 1, byDay: [], exdates: [] };
+  let sawRule = false;
+  let byDay: string[] = [];
+  let bySetPos: number | undefined;
+
+  for (const line of text.split(/\r?\n/).map(l => l.trim()).filter(Boolean)) {
+    const colon = line.indexOf(':');
+    const name = colon === -1 ? 'RRULE' : line.slice(0, colon).toUpperCase();
+    const value = colon === -1 ? line : line.slice(colon + 1);
+
+    if (name === 'EXDATE') {
+      for (const item of value.split(',')) {
+        const date = fromRRuleDate(item.trim());
+        if (!date) return null;
+        options.exdates.push(date);
+      }
+      continue;
+    }
+    if (name !== 'RRULE' || sawRule) return null;
+    sawRule = true;
+
+    for (const part of value.split(';').filter(Boolean)) {
+      const [key, val = ''] = part.toUpperCase().split('=');
+      switch (key) {
+        case 'FREQ':
+          if (!(val in UNITS)) return null;
+          options.freq = val as RRuleFrequency;
+          break;
+        case 'INTERVAL':
+          options.interval = parseInt(val, 10) || 1;
+          break;
+        case 'COUNT':
+          options.count = parseInt(val, 10);
+          break;
+        case 'UNTIL': {
+          const until = fromRRuleDate(val);
+          if (!until) return null;
+          options.until = until;
+          break;
+        }
+        case 'BYDAY':
+          byDay = val.split(',');
+          break;
+        case 'BYMONTHDAY':
+          if (val.includes(',')) return null;
+          options.monthDay = parseInt(val, 10);
+          break;
+        case 'BYSETPOS':
+          if (val.includes(',')) return null;
+          bySetPos = parseInt(val, 10);
+          break;
+        default:
+          return null;
+      }
+    }
+  }
+
+  if (!sawRule) return null;
+
+  if (options.freq === 'WEEKLY' && bySetPos === undefined && options.monthDay === undefined) {
+    options.byDay = byDay.map(code => WEEKDAY_CODES.indexOf(code));
+    return options.byDay.every(d => d !== -1) ? options : null;
+  }
+
+  if (options.freq === 'MONTHLY' && options.monthDay === undefined) {
+    // "Last Friday" may be written FR;BYSETPOS=-1 or -1FR
+    const match = byDay.length === 1 ? byDay[0].match(/^([+-]?\d)?(SU|MO|TU|WE|TH|FR|SA)$/) : null;
+    const setPos = bySetPos ?? (match?.[1] ? parseInt(match[1], 10) : undefined);
+    if (byDay.length === 0 && bySetPos === undefined) return options;
+    if (!match || setPos === undefined || !(setPos in SET_POS_NAMES) || (match[1] && bySetPos !== undefined)) {
+      return null;
+    }
+    return { ...options, setPos, setPosDay: WEEKDAY_CODES.indexOf(match[2]) };
+  }
+
+  return byDay.length === 0 && bySetPos === undefined &&
+    (options.freq === 'MONTHLY' || options.monthDay === undefined) ? options : null;
+}
+
+export function describeRRule(options: RecurrenceRuleOptions, mode: RecurrenceMode = 'fixed'): string {
+  const unit = UNITS[options.freq];
+  let text = options.interval === 1 ? `Every ${unit}` : `Every ${options.interval} ${unit}s`;
+
+  if (options.freq === 'WEEKLY' && options.byDay.length > 0) {
+    text += ` on ${[...options.byDay].sort((a, b) => a - b).map(d => WEEKDAY_NAMES[d]).join(', ')}`;
+  }
+  if (options.freq === 'MONTHLY') {
+    if (options.setPos !== undefined && options.setPosDay !== undefined) {
+      text += ` on the ${SET_POS_NAMES[options.setPos]} ${WEEKDAY_NAMES[options.setPosDay]}`;
+    } else if (options.monthDay === -1) {
+      text += ' on the last day';
+    } else if (options.monthDay !== undefined) {
+      text += ` on day ${options.monthDay}`;
+    }
+  }
+
+  if (mode === 'afterCompletion') {
+    text += ' after completion';
+  }
+
+  if (options.count !== undefined) {
+    text += `, ${options.count} time${options.count === 1 ? '' : 's'}`;
+  } else if (options.until) {
+    text += `, until ${new Date(options.until).toLocaleDateString()}`;
+  }
+  if (options.exdates.length > 0) {
+    text += ` (skipping ${options.exdates.length} date${options.exdates.length === 1 ? '' : 's'})`;
+  }
+  return text;
+}
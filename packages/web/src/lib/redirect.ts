@@ -0,0 +1,13 @@
+// Where to go after logging in: a path on this site, or the home page. Browsers read `\` as `/`,
+// so `/\evil.example` would leave the site; such values are rejected before the origin check
+export function safeNextPath(next: string | null, origin: string): string {
+  if (!next || !next.startsWith('/') || next.includes('\\')) {
+    return '/';
+  }
+  try {
+    const url = new URL(next, origin);
+    return url.origin === origin ? `${url.pathname}${url.search}${url.hash}` : '/';
+  } catch {
+    return '/';
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PROJECT_COOKIE, projectApiPath } from '@/lib/projects';
+
+// Set by the API on login/register; the API itself checks the token
+const SESSION_COOKIE = 'deano_session';
+
+const PUBLIC_PATHS = ['/login', '/logout'];
+
+// Same target as the /api rewrite in next.config.js
+const apiUrl = process.env.NODE_ENV === 'production'
+  ? 'http://api:3001'
+  : (process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001');
+
+// Sends visitors without a session to the login page, remembering where they were going.
+// With a project picked in the switcher, task, label and schedule calls go to that project.
+export function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+
+  if (pathname.startsWith('/api/')) {
+    const projectId = request.cookies.get(PROJECT_COOKIE)?.value;
+    const projectPath = projectId ? projectApiPath(pathname, projectId) : null;
+    return projectPath
+      ? NextResponse.rewrite(new URL(`${projectPath}${search}`, apiUrl))
+      : NextResponse.next();
+  }
+
+  if (PUBLIC_PATHS.includes(pathname) || request.cookies.has(SESSION_COOKIE)) {
+    return NextResponse.next();
+  }
+
+  const loginUrl = new URL('/login', request.url);
+  loginUrl.searchParams.set('next', `${pathname}${search}`);
+  return NextResponse.redirect(loginUrl);
+}
+
+export const config = {
+  // Other API calls answer 401 themselves; static assets are always public
+  matcher: [
+    '/((?!api|_next/static|_next/image|favicon.ico).*)',
+    '/api/tasks/:path*',
+    '/api/labels/:path*',
+    '/api/schedule/:path*',
+  ],
+};
@@ -7,6 +7,8 @@ export interface Label {
   name: string;
   colour: string;
   description?: string;
+  ownerId?: string | null; // the user a label outside projects belongs to
+  projectId?: string | null;
   createdAt: string;
   updatedAt: string;
   _count?: {
@@ -30,6 +32,53 @@ export interface RecurrencePattern {
   daysOfWeek?: number[];
   dayOfMonth?: number;
   customPattern?: string;
+  rrule?: string; // RFC 5545 RRULE (and EXDATE lines); takes precedence over the fields above
+  mode?: RecurrenceMode;
+}
+
+// afterCompletion restarts the rule from when the previous occurrence was completed
+export type RecurrenceMode = 'fixed' | 'afterCompletion';
+
+export interface RecurrencePreview {
+  rrule: string;
+  occurrences: string[];
+}
+
+// Which occurrences of a recurring series an edit applies to
+export type SeriesScope = 'this' | 'future' | 'all';
+
+// Which dependency links the next occurrence copies: none, only those between its subtasks, or all
+export type DependencyCloneMode = 'None' | 'Subtree' | 'All';
+
+export interface RecurrenceSeries {
+  id: string;
+  title: string;
+  description?: string | null;
+  priority: Priority;
+  estimatedDurationMinutes: number;
+  recurrencePattern: RecurrencePattern;
+  cloneLabels: boolean;
+  cloneSubtasks: boolean; // the whole child subtree, reset to Todo
+  cloneDependencies: DependencyCloneMode;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SeriesCloneSettings {
+  cloneLabels?: boolean;
+  cloneSubtasks?: boolean;
+  cloneDependencies?: DependencyCloneMode;
+}
+
+export interface SeriesOccurrence {
+  occurrenceDate: string;
+  task: Task | null; // null for occurrences the series has not created yet
+}
+
+export interface RecurrenceSeriesDetails {
+  series: RecurrenceSeries;
+  past: Task[];                 // completed or skipped
+  upcoming: SeriesOccurrence[]; // open occurrences, then projected ones
 }
 
 export interface Task {
@@ -41,9 +90,14 @@ export interface Task {
   dueAt?: string;
   estimatedDurationMinutes: number;
   allowParentAutoComplete: boolean;
+  isSplittable: boolean;
+  minChunkMinutes?: number | null;
+  isPinned: boolean;
+  autoBlocked: boolean; // Blocked by the dependency automation, not by hand
   parentId?: string;
   scheduledStart?: string;
   scheduledEnd?: string;
+  completedAt?: string | null;
   createdAt: string;
   updatedAt: string;
   // Recurring task fields
@@ -51,17 +105,44 @@ export interface Task {
   recurrencePattern?: string;
   nextRecurrenceDate?: string;
   originalTaskId?: string;
+  seriesId?: string | null;
+  occurrenceDate?: string | null; // The series slot this task fills, kept when it is postponed
+  projectId?: string | null;
+  deletedAt?: string | null; // Set while the task is in the trash
   children?: Task[];
   parent?: Task | null;
   dependencies?: DependencyWithTask[];
   blockingTasks?: DependencyWithTask[];
   taskLabels?: TaskLabel[];
+  assignees?: TaskAssignee[];
+  scheduleSegments?: ScheduleSegment[];
 }
 
+export interface TaskAssignee {
+  id: string;
+  taskId: string;
+  userId: string;
+  user: AuthUser;
+  createdAt: string;
+}
+
+export interface ScheduleSegment {
+  id: string;
+  taskId: string;
+  sequence: number;
+  start: string;
+  end: string;
+  createdAt: string;
+}
+
+export type DependencyType = 'FinishToStart' | 'StartToStart' | 'FinishToFinish' | 'StartToFinish';
+
 export interface DependencyWithTask {
   id: string;
   taskId: string;
   dependsOnTaskId: string;
+  type: DependencyType;
+  lagMinutes: number; // negative values are a lead
   createdAt: string;
   dependentTask: Task;
   blockerTask: Task;
@@ -75,6 +156,8 @@ export interface CreateTaskInput {
   dueAt?: string;
   estimatedDurationMinutes?: number;
   allowParentAutoComplete?: boolean;
+  isSplittable?: boolean;
+  minChunkMinutes?: number;
   parentId?: string;
   dependencies?: string[];
   labelIds?: string[];
@@ -92,6 +175,8 @@ export interface UpdateTaskInput {
   dueAt?: string | null;
   estimatedDurationMinutes?: number;
   allowParentAutoComplete?: boolean;
+  isSplittable?: boolean;
+  minChunkMinutes?: number | null;
   parentId?: string | null;
   labelIds?: string[];
   // Recurring task fields
@@ -123,19 +208,29 @@ export interface TaskFilter {
   dateRange?: 'today' | 'overdue' | 'thisWeek' | 'thisMonth' | 'custom';
   startDate?: string;
   endDate?: string;
+  projectId?: string;
+  assigneeId?: string;
 }
 
 export interface WorkingHours {
   start: string; // HH:mm format
   end: string;   // HH:mm format
-  timezone?: string;
+  timezone?: string; // IANA zone, e.g. Europe/London (default: UTC)
 }
 
+export type ScheduleStrategy = 'earliest-deadline-first' | 'priority-first' | 'score';
+
+export type ScheduleMode = 'sequential' | 'byAssignee';
+
 export interface ScheduleOptions {
   filter?: Partial<TaskFilter>;
   workingHours?: WorkingHours;
+  calendarId?: string; // overrides workingHours with a persisted work calendar
   startDate?: string;
   dailyCapacity?: number; // in minutes
+  minChunkMinutes?: number; // smallest segment of a splittable task, unless the task sets its own
+  strategy?: ScheduleStrategy; // default: earliest-deadline-first
+  mode?: ScheduleMode; // default: sequential; byAssignee plans each assignee's queue in parallel
   commit?: boolean;
 }
 
@@ -143,6 +238,13 @@ export interface ScheduledTask {
   taskId: string;
   scheduledStart: string;
   scheduledEnd: string;
+  timezone: string;
+  localStart: string; // ISO 8601 with the zone's offset
+  localEnd: string;   // ISO 8601 with the zone's offset
+  segmentIndex: number; // 1-based; splittable tasks may span several segments
+  segmentCount: number;
+  pinned: boolean; // fixed slot the planner did not move
+  assigneeIds?: string[]; // byAssignee mode: whose timeline the segment is on
   constraints: {
     blockers: string[];
     dueViolation: boolean;
@@ -150,15 +252,60 @@ export interface ScheduledTask {
   };
 }
 
+// One person's share of a byAssignee plan; userId is null for unassigned tasks
+export interface AssigneeTimeline {
+  userId: string | null;
+  email?: string;
+  name?: string | null;
+  timezone: string;
+  dailyCapacity: number;
+  plannedMinutes: number;
+  tasks: ScheduledTask[];
+}
+
 export interface SchedulePlan {
   tasks: ScheduledTask[];
+  assignees?: AssigneeTimeline[]; // byAssignee mode only
   summary: {
     totalPlannedMinutes: number;
     unplacedTasks: number;
     violations: number;
+    timezone: string;
+    strategy: ScheduleStrategy;
+    mode: ScheduleMode;
   };
 }
 
+export interface BusyBlock {
+  id: string;
+  title: string;
+  description?: string | null;
+  start: string;
+  end: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Offsets are minutes from the start of the analysed work
+export interface CriticalPathTask {
+  taskId: string;
+  title: string;
+  durationMinutes: number;
+  earliestStart: number;
+  earliestFinish: number;
+  latestStart: number;
+  latestFinish: number;
+  slack: number;
+  critical: boolean;
+}
+
+export interface CriticalPathAnalysis {
+  rootTaskId: string | null;
+  totalDurationMinutes: number;
+  criticalPath: string[];
+  tasks: CriticalPathTask[];
+}
+
 export interface CompleteTaskOptions {
   mode?: 'normal' | 'forceParentAutoComplete';
 }
@@ -181,3 +328,141 @@ export interface PaginatedResponse<T> {
     totalPages: number;
   };
 }
+
+export interface AuthUser {
+  id: string;
+  email: string;
+  name?: string | null;
+}
+
+export interface AuthSession {
+  user: AuthUser;
+  token: string;
+  expiresAt: string;
+}
+
+export interface TaskComment {
+  id: string;
+  taskId: string;
+  parentId: string | null;
+  authorId: string | null;
+  author: AuthUser | null;
+  body: string; // Markdown; empty once deleted if it has replies
+  editedAt: string | null;
+  deletedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CommentThread extends TaskComment {
+  replies: CommentThread[];
+}
+
+export interface TaskAudit {
+  id: string;
+  taskId: string;
+  fieldName: string;
+  oldValue: string | null;
+  newValue: string | null;
+  changedAt: string;
+}
+
+// What happens to a deleted task's subtasks
+export type ChildDeletePolicy = 'cascade' | 'reparent' | 'orphan';
+
+export interface TrashEntry extends Task {
+  deletedAt: string;
+  subtreeCount: number; // Descendants deleted along with it
+}
+
+export interface RestoreResult {
+  task: Task;
+  restoredTaskIds: string[];
+  skipped: {
+    parentId: string | null;
+    labelIds: string[];
+    dependencies: Array<{ taskId: string; dependsOnTaskId: string }>;
+  };
+}
+
+// One task of a template; due dates are minutes from the anchor date
+export interface TemplateTask {
+  key: string;
+  parentKey: string | null;
+  title: string;
+  description: string | null;
+  priority: Priority;
+  estimatedDurationMinutes: number;
+  labelIds: string[];
+  dueOffsetMinutes: number | null;
+  dependencies: Array<{ dependsOnKey: string; type: DependencyType; lagMinutes: number }>;
+}
+
+export interface TaskTemplate {
+  id: string;
+  name: string;
+  description: string | null;
+  tasks: TemplateTask[];
+  variables: string[]; // {{placeholders}} that need a value
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface InstantiateTemplateResult {
+  task: Task;
+  createdTaskIds: Record<string, string>;
+  skippedLabelIds: string[];
+}
+
+export interface RevertChange {
+  fieldName: string;
+  currentValue: string | null;
+  revertedValue: string | null;
+}
+
+// Part of a revert that can't be applied any more, e.g. a label deleted since
+export interface RevertSkip {
+  fieldName: string;
+  code: string;
+  message: string;
+  ids?: string[];
+}
+
+export interface RevertResult {
+  at: string;
+  dryRun: boolean;
+  changes: RevertChange[];
+  skipped: RevertSkip[];
+  task?: Task;
+}
+
+export type TaskActivity =
+  | { type: 'comment'; at: string; comment: TaskComment }
+  | { type: 'change'; at: string; change: TaskAudit };
+
+export interface UserAvailability {
+  workingHours: WorkingHours | null;
+  calendarId: string | null;
+  dailyCapacityMinutes: number | null;
+}
+
+export type ProjectRole = 'Owner' | 'Editor' | 'Viewer';
+
+export interface Project {
+  id: string;
+  name: string;
+  description: string | null;
+  role: ProjectRole | null; // null when the API runs with BYPASS_AUTH=true
+  taskCount: number;
+  memberCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ProjectMember {
+  userId: string;
+  email: string;
+  name: string | null;
+  role: ProjectRole;
+  createdAt: string;
+}